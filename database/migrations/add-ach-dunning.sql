@@ -0,0 +1,54 @@
+-- Migration: ACH Dunning
+-- Date: 2025-02-05
+-- Description: Track failed ACH payments through past_due → grace_period → restricted → suspended
+
+-- Current dunning stage (NULL = in good standing)
+-- The app restricts features while this is 'restricted' or 'suspended'
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS dunning_stage TEXT
+    CHECK (dunning_stage IN ('past_due', 'grace_period', 'restricted', 'suspended'));
+
+-- One row per failed-payment episode; resolved when a later payment succeeds
+CREATE TABLE IF NOT EXISTS dunning_cases (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'recovered', 'closed')),
+    stage TEXT NOT NULL DEFAULT 'past_due'
+        CHECK (stage IN ('past_due', 'grace_period', 'restricted', 'suspended')),
+    failure_code TEXT,
+    failure_message TEXT,
+    amount DECIMAL(10, 2),
+    failure_count INTEGER NOT NULL DEFAULT 1,
+    last_failure_key TEXT,
+    payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+    stripe_invoice_id TEXT,
+    stripe_payment_intent_id TEXT,
+    retry_count INTEGER NOT NULL DEFAULT 0,
+    next_retry_at TIMESTAMP WITH TIME ZONE,
+    notified_stages TEXT[] NOT NULL DEFAULT '{}',
+    opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    stage_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add RLS policy for dunning_cases (service key only)
+ALTER TABLE dunning_cases ENABLE ROW LEVEL SECURITY;
+
+-- At most one open case per company (concurrent failure webhooks race on this)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dunning_cases_one_open
+ON dunning_cases(company_id)
+WHERE status = 'open';
+
+-- Scheduler queue
+CREATE INDEX IF NOT EXISTS idx_dunning_cases_open
+ON dunning_cases(opened_at)
+WHERE status = 'open';
+
+-- Add comment for documentation
+COMMENT ON TABLE dunning_cases IS 'Failed ACH payment episodes driven by src/services/DunningService.ts';
+COMMENT ON COLUMN dunning_cases.last_failure_key IS 'Charge (or payment intent) ID of the last failure - charge.failed and payment_intent.payment_failed report the same failure';
+COMMENT ON COLUMN dunning_cases.notified_stages IS 'Stages whose email has been sent';
+COMMENT ON COLUMN companies.dunning_stage IS 'Dunning stage while a failed payment is outstanding (NULL = good standing)';
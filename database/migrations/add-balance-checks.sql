@@ -0,0 +1,49 @@
+-- Migration: Pre-Debit Balance Checks
+-- Date: 2025-02-14
+-- Description: Audit log of Plaid balance checks run before ACH debits, and the queue of delayed invoices
+
+-- One row per decision. A delayed invoice gets a new row (attempt + 1) each
+-- time it is checked again; the earlier row is stamped with rechecked_at.
+CREATE TABLE IF NOT EXISTS balance_checks (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    source TEXT NOT NULL
+        CHECK (source IN ('invoice', 'payment_intent')),
+    debit_reference TEXT NOT NULL,
+    attempt INTEGER NOT NULL DEFAULT 1,
+    plan_id TEXT,
+    mode TEXT NOT NULL
+        CHECK (mode IN ('off', 'warn', 'delay')),
+    amount DECIMAL(10, 2) NOT NULL,
+    required_balance DECIMAL(10, 2) NOT NULL,
+    available_balance DECIMAL(12, 2),
+    current_balance DECIMAL(12, 2),
+    plaid_item_id TEXT,
+    plaid_account_id TEXT,
+    decision TEXT NOT NULL
+        CHECK (decision IN ('proceed', 'warn', 'delay')),
+    reason TEXT NOT NULL
+        CHECK (reason IN ('check_disabled', 'sufficient_funds', 'insufficient_funds', 'balance_unavailable', 'max_delays_reached')),
+    error TEXT,
+    recheck_at TIMESTAMP WITH TIME ZONE,
+    rechecked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (source, debit_reference, attempt)
+);
+
+-- Add RLS policy for balance_checks (service key only)
+ALTER TABLE balance_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_balance_checks_company_id
+ON balance_checks(company_id, created_at DESC);
+
+-- Scheduler queue: delayed debits waiting for their next check
+CREATE INDEX IF NOT EXISTS idx_balance_checks_due
+ON balance_checks(recheck_at)
+WHERE decision = 'delay' AND rechecked_at IS NULL;
+
+-- Add comment for documentation
+COMMENT ON TABLE balance_checks IS 'Pre-debit balance check decisions driven by src/services/BalanceCheckService.ts';
+COMMENT ON COLUMN balance_checks.debit_reference IS 'Stripe invoice ID (source invoice) or the caller''s idempotency key (source payment_intent)';
+COMMENT ON COLUMN balance_checks.mode IS 'Plan policy in effect (src/config/balanceCheckPolicy.ts)';
+COMMENT ON COLUMN balance_checks.rechecked_at IS 'Set when a delayed debit is picked up for its next check';
@@ -0,0 +1,40 @@
+-- Migration: Micro-Deposit Bank Verification
+-- Date: 2025-02-12
+-- Description: Track manually entered bank accounts waiting for Stripe micro-deposit verification
+
+-- One row per bank account verified by micro-deposits (banks Plaid cannot
+-- verify instantly). companies.payment_method_status stays 'pending' until
+-- the owner enters the deposits on /verify-bank.
+CREATE TABLE IF NOT EXISTS bank_verifications (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    stripe_customer_id TEXT NOT NULL,
+    setup_intent_id TEXT NOT NULL UNIQUE,
+    payment_method_id TEXT,
+    bank_name TEXT,
+    account_last4 TEXT,
+    microdeposit_type TEXT NOT NULL DEFAULT 'amounts'
+        CHECK (microdeposit_type IN ('amounts', 'descriptor_code')),
+    arrival_date TIMESTAMP WITH TIME ZONE,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'verified', 'locked', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    last_error TEXT,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add RLS policy for bank_verifications (service key only)
+ALTER TABLE bank_verifications ENABLE ROW LEVEL SECURITY;
+
+-- At most one verification in progress per company
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_verifications_one_pending
+ON bank_verifications(company_id)
+WHERE status = 'pending';
+
+-- Add comment for documentation
+COMMENT ON TABLE bank_verifications IS 'Micro-deposit bank verifications driven by src/services/BankVerificationService.ts';
+COMMENT ON COLUMN bank_verifications.attempts IS 'Incorrect and correct attempts so far - locked once it reaches max_attempts';
+COMMENT ON COLUMN bank_verifications.status IS 'locked = attempt limit reached, failed = Stripe rejected the account or verification timed out';
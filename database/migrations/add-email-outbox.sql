@@ -0,0 +1,79 @@
+-- Migration: Email Outbox
+-- Date: 2025-02-20
+-- Description: Durable queue for transactional emails with retries and SendGrid delivery tracking
+
+-- One row per email to send (see src/services/EmailOutbox.ts)
+-- data holds the template values; the email is rendered when it is sent
+CREATE TABLE IF NOT EXISTS email_outbox (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+    template TEXT NOT NULL,
+    template_version INTEGER,
+    recipient TEXT NOT NULL,
+    data JSONB NOT NULL DEFAULT '{}',
+    dedupe_key TEXT,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_error TEXT,
+    provider TEXT,
+    provider_message_id TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    delivery_status TEXT
+        CHECK (delivery_status IN ('processed', 'deferred', 'delivered', 'bounced', 'dropped', 'spam_report', 'unsubscribed')),
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    opened_at TIMESTAMP WITH TIME ZONE,
+    bounced_at TIMESTAMP WITH TIME ZONE,
+    bounce_reason TEXT,
+    last_event_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Raw SendGrid events, one row per event (SendGrid delivers at least once)
+CREATE TABLE IF NOT EXISTS email_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    outbox_id UUID REFERENCES email_outbox(id) ON DELETE CASCADE,
+    sg_event_id TEXT NOT NULL,
+    sg_message_id TEXT,
+    event TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add RLS policies (service key only)
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_events ENABLE ROW LEVEL SECURITY;
+
+-- An email queued twice with the same key (e.g. a replayed webhook) is sent once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_outbox_dedupe_key
+ON email_outbox(dedupe_key)
+WHERE dedupe_key IS NOT NULL;
+
+-- Drain queue: emails waiting for their next attempt
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due
+ON email_outbox(next_attempt_at)
+WHERE status IN ('pending', 'sending');
+
+-- Support lookups: "did this owner get their onboarding email?"
+CREATE INDEX IF NOT EXISTS idx_email_outbox_company_id
+ON email_outbox(company_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_recipient
+ON email_outbox(lower(recipient), created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_events_sg_event_id
+ON email_events(sg_event_id);
+
+CREATE INDEX IF NOT EXISTS idx_email_events_outbox_id
+ON email_events(outbox_id, occurred_at);
+
+-- Add comment for documentation
+COMMENT ON TABLE email_outbox IS 'Transactional emails, drained by process-email-outbox (see src/services/EmailOutbox.ts)';
+COMMENT ON COLUMN email_outbox.data IS 'Template values (may include single-use links - service key only)';
+COMMENT ON COLUMN email_outbox.dedupe_key IS 'Optional idempotency key, e.g. payment_receipt:<payment intent ID>';
+COMMENT ON COLUMN email_outbox.status IS 'pending → sending → sent; failed after the last retry';
+COMMENT ON COLUMN email_outbox.delivery_status IS 'Latest SendGrid delivery state (never moves back from delivered/bounced/dropped)';
+COMMENT ON TABLE email_events IS 'SendGrid event webhook log (sendgrid-events function)';
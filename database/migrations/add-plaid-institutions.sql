@@ -0,0 +1,24 @@
+-- Migration: Plaid Institution Directory
+-- Date: 2025-02-17
+-- Description: Cache Plaid institution names, logos and colors for bank account display
+
+-- Public Plaid metadata only - refreshed by InstitutionDirectory once
+-- fetched_at is older than its TTL (7 days by default)
+CREATE TABLE IF NOT EXISTS plaid_institutions (
+    institution_id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    logo TEXT,
+    primary_color TEXT,
+    url TEXT,
+    fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add RLS policy for plaid_institutions (service key only)
+ALTER TABLE plaid_institutions ENABLE ROW LEVEL SECURITY;
+
+-- Add comment for documentation
+COMMENT ON TABLE plaid_institutions IS 'Institution display cache driven by src/services/InstitutionDirectory.ts';
+COMMENT ON COLUMN plaid_institutions.logo IS 'Base64-encoded PNG from Plaid (NULL if Plaid has no logo)';
+COMMENT ON COLUMN plaid_institutions.fetched_at IS 'Last successful fetch from Plaid - rows older than the TTL are refreshed on read';
@@ -0,0 +1,38 @@
+-- Migration: Multiple Bank Accounts per Company
+-- Date: 2025-02-18
+-- Description: Link each Plaid account to its Stripe payment method and mark one account per company as primary
+
+-- Each linked account becomes its own Stripe payment method. The primary
+-- account is the one billed (companies.stripe_payment_method_id); the others
+-- are kept as backups the owner can promote
+ALTER TABLE plaid_items
+ADD COLUMN IF NOT EXISTS stripe_payment_method_id TEXT,
+ADD COLUMN IF NOT EXISTS is_primary BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Backfill: the account linked at signup is the one currently billed
+UPDATE plaid_items
+SET is_primary = TRUE,
+    stripe_payment_method_id = companies.stripe_payment_method_id
+FROM companies
+WHERE plaid_items.company_id = companies.id
+  AND plaid_items.is_active = TRUE
+  AND plaid_items.id = (
+    SELECT first_item.id
+    FROM plaid_items first_item
+    WHERE first_item.company_id = companies.id
+      AND first_item.is_active = TRUE
+    ORDER BY first_item.created_at ASC
+    LIMIT 1
+  );
+
+-- At most one primary account per company
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plaid_items_company_primary
+ON plaid_items(company_id)
+WHERE is_primary;
+
+CREATE INDEX IF NOT EXISTS idx_plaid_items_stripe_payment_method_id
+ON plaid_items(stripe_payment_method_id);
+
+-- Add comment for documentation
+COMMENT ON COLUMN plaid_items.stripe_payment_method_id IS 'Stripe payment method created from this account (detached when the item is removed)';
+COMMENT ON COLUMN plaid_items.is_primary IS 'Account billed for the subscription - promote another account via the bank-accounts function';
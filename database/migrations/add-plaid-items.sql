@@ -0,0 +1,46 @@
+-- Migration: Plaid Items
+-- Date: 2025-02-07
+-- Description: Store linked Plaid items with envelope-encrypted access tokens
+
+-- One row per linked bank account (an item can expose several accounts)
+-- encrypted_access_token is an envelope from src/services/TokenEncryption.ts:
+-- the token is sealed with a per-record data key, which is wrapped by the
+-- master key named in encryption_key_id
+CREATE TABLE IF NOT EXISTS plaid_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    item_id TEXT NOT NULL,
+    encrypted_access_token TEXT NOT NULL,
+    encryption_key_id TEXT NOT NULL,
+    institution_id TEXT NOT NULL,
+    institution_name TEXT NOT NULL,
+    account_id TEXT NOT NULL,
+    account_name TEXT NOT NULL,
+    account_mask TEXT NOT NULL,
+    account_type TEXT NOT NULL,
+    account_subtype TEXT NOT NULL,
+    verification_status TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    status TEXT NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'pending_expiration', 'login_required', 'revoked', 'error')),
+    consent_expiration_time TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (item_id, account_id)
+);
+
+-- Add RLS policy for plaid_items (service key only - rows hold access tokens)
+ALTER TABLE plaid_items ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_plaid_items_company_id
+ON plaid_items(company_id);
+
+-- Key rotation queue: rows still wrapped by a retired key
+CREATE INDEX IF NOT EXISTS idx_plaid_items_encryption_key_id
+ON plaid_items(encryption_key_id);
+
+-- Add comment for documentation
+COMMENT ON TABLE plaid_items IS 'Linked Plaid items and accounts (see src/services/PlaidItemRepository.ts)';
+COMMENT ON COLUMN plaid_items.encrypted_access_token IS 'AES-256-GCM envelope - never store or log the plain access token';
+COMMENT ON COLUMN plaid_items.encryption_key_id IS 'Master key that wraps the data key (PLAID_TOKEN_KEYS); rotate-plaid-token-keys rewraps old rows';
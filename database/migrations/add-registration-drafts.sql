@@ -0,0 +1,35 @@
+-- Migration: Registration Drafts
+-- Date: 2025-02-23
+-- Description: Server-side progress for the signup and onboarding forms, resumable from an emailed link
+
+-- One row per draft (see src/services/RegistrationDraftService.ts)
+-- data holds whitelisted form fields only - never passwords, bank account
+-- numbers or Plaid tokens
+CREATE TABLE IF NOT EXISTS registration_drafts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    flow TEXT NOT NULL CHECK (flow IN ('owner_registration', 'onboarding')),
+    email TEXT NOT NULL,
+    email_normalized TEXT NOT NULL,
+    step INTEGER NOT NULL DEFAULT 1 CHECK (step >= 1),
+    data JSONB NOT NULL DEFAULT '{}'::jsonb,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    resume_email_sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add RLS policy for registration_drafts (service key only)
+ALTER TABLE registration_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_registration_drafts_email
+ON registration_drafts(flow, email_normalized);
+
+CREATE INDEX IF NOT EXISTS idx_registration_drafts_expires_at
+ON registration_drafts(expires_at);
+
+-- Add comment for documentation
+COMMENT ON TABLE registration_drafts IS 'Unfinished signup/onboarding forms - deleted when the signup completes or the draft expires';
+COMMENT ON COLUMN registration_drafts.step IS 'Form step the owner reopens at';
+COMMENT ON COLUMN registration_drafts.data IS 'Whitelisted form fields (no passwords or bank details)';
+COMMENT ON COLUMN registration_drafts.expires_at IS 'Draft is unusable after this; every save pushes it out by REGISTRATION_DRAFT_TTL_HOURS';
+COMMENT ON COLUMN registration_drafts.resume_email_sent_at IS 'When the last resume link was queued (limits resume emails per address)';
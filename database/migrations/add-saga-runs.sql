@@ -0,0 +1,34 @@
+-- Migration: Saga Runs
+-- Date: 2025-01-30
+-- Description: Persist multi-provider saga progress so interrupted rollbacks can be finished
+
+-- One row per saga execution (e.g. an owner signup)
+-- steps holds the completed steps and the context needed to undo each one
+CREATE TABLE IF NOT EXISTS saga_runs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    saga_type TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'completed', 'compensating', 'compensated', 'compensation_failed')),
+    steps JSONB NOT NULL DEFAULT '[]',
+    metadata JSONB NOT NULL DEFAULT '{}',
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add RLS policy for saga_runs (service key only)
+ALTER TABLE saga_runs ENABLE ROW LEVEL SECURITY;
+
+-- Recovery queue: sagas that did not reach a terminal state
+CREATE INDEX IF NOT EXISTS idx_saga_runs_incomplete
+ON saga_runs(updated_at)
+WHERE status IN ('running', 'compensating', 'compensation_failed');
+
+CREATE INDEX IF NOT EXISTS idx_saga_runs_saga_type
+ON saga_runs(saga_type, created_at DESC);
+
+-- Add comment for documentation
+COMMENT ON TABLE saga_runs IS 'Multi-step workflows with compensating actions (see src/services/SagaRunner.ts)';
+COMMENT ON COLUMN saga_runs.steps IS 'Completed steps: [{ name, status, context, completed_at, error }]';
+COMMENT ON COLUMN saga_runs.attempts IS 'Number of compensation attempts (capped by finish-saga-rollbacks)';
@@ -0,0 +1,51 @@
+-- Migration: Signup Attempts
+-- Date: 2025-02-22
+-- Description: One reservation per normalized email so duplicate and concurrent owner signups are rejected
+
+-- One row per email (see src/services/SignupReservationService.ts)
+-- in_progress rows hold a short lease; a signup that dies without releasing
+-- its reservation can be taken over once the lease runs out
+CREATE TABLE IF NOT EXISTS signup_attempts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    email_normalized TEXT NOT NULL,
+    email TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'in_progress'
+        CHECK (status IN ('in_progress', 'completed', 'abandoned')),
+    plan TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    lease_expires_at TIMESTAMP WITH TIME ZONE,
+    company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+    last_error TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT signup_attempts_email_normalized_key UNIQUE (email_normalized),
+    CONSTRAINT signup_attempts_email_normalized_check CHECK (email_normalized = lower(btrim(email_normalized)))
+);
+
+-- Add RLS policy for signup_attempts (service key only)
+ALTER TABLE signup_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Existing accounts count as completed signups
+INSERT INTO signup_attempts (email_normalized, email, status, completed_at, created_at)
+SELECT lower(btrim(email)), email, 'completed', created_at, created_at
+FROM auth.users
+WHERE email IS NOT NULL
+ON CONFLICT (email_normalized) DO NOTHING;
+
+UPDATE signup_attempts sa
+SET company_id = c.id
+FROM companies c
+WHERE sa.company_id IS NULL
+  AND lower(btrim(c.email)) = sa.email_normalized;
+
+CREATE INDEX IF NOT EXISTS idx_signup_attempts_in_progress
+ON signup_attempts(lease_expires_at)
+WHERE status = 'in_progress';
+
+-- Add comment for documentation
+COMMENT ON TABLE signup_attempts IS 'Owner signup reservations keyed by normalized email (signup-with-payment step 1)';
+COMMENT ON COLUMN signup_attempts.email_normalized IS 'Trimmed, lower-cased email - the unique key';
+COMMENT ON COLUMN signup_attempts.status IS 'in_progress while a signup runs; completed once the account exists; abandoned after a rolled-back signup (reusable)';
+COMMENT ON COLUMN signup_attempts.lease_expires_at IS 'When an in_progress reservation may be taken over by a new attempt';
+COMMENT ON COLUMN signup_attempts.company_id IS 'Company created by the signup - deleting the company frees the email';
@@ -0,0 +1,41 @@
+-- Migration: Stripe Webhook Event Log
+-- Date: 2025-01-29
+-- Description: Key stripe_webhooks by Stripe event ID for deduplication and replay
+
+-- Stripe event ID (evt_xxx) as a first-class column so inserts can rely on a
+-- plain unique constraint instead of the payload->>'id' expression index
+ALTER TABLE stripe_webhooks
+ADD COLUMN IF NOT EXISTS stripe_event_id TEXT;
+
+-- Link columns populated by the webhook handlers
+ALTER TABLE stripe_webhooks
+ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES companies(id) ON DELETE SET NULL;
+
+ALTER TABLE stripe_webhooks
+ADD COLUMN IF NOT EXISTS payment_id UUID REFERENCES payments(id) ON DELETE SET NULL;
+
+-- Track the last processing attempt (for replay and monitoring)
+ALTER TABLE stripe_webhooks
+ADD COLUMN IF NOT EXISTS last_attempted_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill event IDs from existing payloads
+UPDATE stripe_webhooks
+SET stripe_event_id = payload->>'id'
+WHERE stripe_event_id IS NULL;
+
+ALTER TABLE stripe_webhooks
+ALTER COLUMN stripe_event_id SET NOT NULL;
+
+-- One row per Stripe event
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stripe_webhooks_stripe_event_id
+ON stripe_webhooks(stripe_event_id);
+
+-- Replay queue: unprocessed events, oldest first
+CREATE INDEX IF NOT EXISTS idx_stripe_webhooks_unprocessed
+ON stripe_webhooks(created_at)
+WHERE processed = FALSE;
+
+-- Add comment for documentation
+COMMENT ON COLUMN stripe_webhooks.stripe_event_id IS 'Stripe event ID (evt_xxx) - deduplicates webhook deliveries';
+COMMENT ON COLUMN stripe_webhooks.retry_count IS 'Number of failed processing attempts';
+COMMENT ON COLUMN stripe_webhooks.last_attempted_at IS 'Timestamp of the most recent processing attempt';
@@ -0,0 +1,26 @@
+-- Migration: Subscription Plan Changes
+-- Date: 2025-02-03
+-- Description: Track billing interval and scheduled downgrades on companies
+
+-- Billing interval of the current Stripe price
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS billing_interval TEXT DEFAULT 'month'
+    CHECK (billing_interval IN ('month', 'year'));
+
+-- Plan change scheduled for the end of the current period (downgrades)
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS pending_subscription_tier TEXT;
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS pending_billing_interval TEXT
+    CHECK (pending_billing_interval IN ('month', 'year'));
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS plan_change_effective_at TIMESTAMP WITH TIME ZONE;
+
+-- Add comment for documentation
+COMMENT ON COLUMN companies.billing_interval IS 'Stripe price interval (month or year)';
+COMMENT ON COLUMN companies.monthly_amount IS 'Subscription price per month in dollars (annual prices divided by 12)';
+COMMENT ON COLUMN companies.pending_subscription_tier IS 'Plan taking effect at plan_change_effective_at (synced from subscription metadata)';
+COMMENT ON COLUMN companies.pending_billing_interval IS 'Billing interval taking effect at plan_change_effective_at';
+COMMENT ON COLUMN companies.plan_change_effective_at IS 'When the scheduled plan change applies (end of the current period)';
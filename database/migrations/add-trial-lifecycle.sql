@@ -0,0 +1,58 @@
+-- Migration: Trial Lifecycle
+-- Date: 2025-02-21
+-- Description: Track each company's free trial (reminders, conversion at trial end, admin extensions)
+
+-- Trial state, driven by src/services/TrialService.ts
+-- trial_end_date stays as the date shown to owners; trial_ends_at is the
+-- exact moment the Stripe subscription converts
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS trial_status TEXT
+    CHECK (trial_status IN ('trialing', 'converting', 'converted', 'expired', 'payment_failed')),
+ADD COLUMN IF NOT EXISTS trial_started_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS trial_ends_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS trial_reminders_sent INTEGER[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS trial_extended_days INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS trial_converted_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing trials end at midnight UTC on their trial_end_date
+UPDATE companies
+SET trial_status = 'trialing',
+    trial_started_at = COALESCE(trial_started_at, created_at),
+    trial_ends_at = trial_end_date::timestamp AT TIME ZONE 'UTC'
+WHERE trial_status IS NULL
+  AND trial_end_date IS NOT NULL
+  AND subscription_status IN ('trial', 'trialing');
+
+-- Admin-granted extensions (audit log)
+CREATE TABLE IF NOT EXISTS trial_extensions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    days INTEGER NOT NULL CHECK (days > 0),
+    previous_ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    new_ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    granted_by TEXT NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add RLS policy for trial_extensions (service key only)
+ALTER TABLE trial_extensions ENABLE ROW LEVEL SECURITY;
+
+-- Scheduler queues: running trials by end time, expired trials waiting for a bank
+CREATE INDEX IF NOT EXISTS idx_companies_trial_ends_at
+ON companies(trial_ends_at)
+WHERE trial_status = 'trialing';
+
+CREATE INDEX IF NOT EXISTS idx_companies_trial_expired
+ON companies(trial_ends_at)
+WHERE trial_status = 'expired';
+
+CREATE INDEX IF NOT EXISTS idx_trial_extensions_company_id
+ON trial_extensions(company_id, created_at DESC);
+
+-- Add comment for documentation
+COMMENT ON COLUMN companies.trial_status IS 'trialing → converting → converted; expired when the trial ends without a payment method; payment_failed when the first charge fails (dunning retries it)';
+COMMENT ON COLUMN companies.trial_ends_at IS 'Exact trial end (matches the Stripe subscription trial_end) - computed on the server only';
+COMMENT ON COLUMN companies.trial_reminders_sent IS 'Reminder days (e.g. 7, 3, 1) already queued for the current trial end';
+COMMENT ON COLUMN companies.trial_extended_days IS 'Total days added by admin extensions';
+COMMENT ON TABLE trial_extensions IS 'Trial extensions granted by an admin (extend-trial function)';
@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeSupabaseClient } from '../../../src/testing/FakeSupabaseClient';
+import { startFakePaymentServers } from '../../../src/testing/fakePaymentServers';
+import type { FakePaymentServers } from '../../../src/testing/fakePaymentServers';
+
+// The handler builds its Supabase client when the module loads
+const database = vi.hoisted(() => ({ client: null as unknown }));
+vi.mock('@supabase/supabase-js', () => ({ createClient: () => database.client }));
+
+type SetupHandler = (event: { httpMethod: string; headers: Record<string, string>; body: string }) =>
+  Promise<{ statusCode: number; body: string }>;
+
+const supabase = new FakeSupabaseClient();
+database.client = supabase;
+
+let fakes: FakePaymentServers;
+let handler: SetupHandler;
+
+beforeAll(async () => {
+  vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test_fake');
+  vi.stubEnv('STRIPE_PUBLISHABLE_KEY', 'pk_test_fake');
+
+  fakes = await startFakePaymentServers();
+  handler = (await import('../create-subscription-setup')).handler as unknown as SetupHandler;
+});
+
+afterAll(async () => {
+  await fakes?.stop();
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  fakes.reset();
+  supabase.reset();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+async function createSetup() {
+  const response = await handler({
+    httpMethod: 'POST',
+    headers: {},
+    body: JSON.stringify({
+      companyEmail: 'Ada@Example.com',
+      companyName: 'Analytical Engines LLC',
+      ownerName: 'Ada Lovelace',
+      subscriptionTier: 'starter',
+    }),
+  });
+  return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+}
+
+describe('create-subscription-setup customer reuse', () => {
+  it('reuses the customer from an unfinished setup for the same email', async () => {
+    const first = await createSetup();
+    const second = await createSetup();
+
+    expect(second.statusCode).toBe(200);
+    expect(second.body.customerId).toBe(first.body.customerId);
+    expect(fakes.stripe.list('customer')).toHaveLength(1);
+  });
+
+  it('never hands out a SetupIntent on a customer a company signed up with', async () => {
+    const first = await createSetup();
+    supabase.seed('companies', [{ name: 'Analytical Engines LLC', stripe_customer_id: first.body.customerId }]);
+
+    const second = await createSetup();
+
+    expect(second.statusCode).toBe(200);
+    expect(second.body.customerId).not.toBe(first.body.customerId);
+    expect(fakes.stripe.list('customer')).toHaveLength(2);
+  });
+
+  it('never hands out a SetupIntent on a customer that has a subscription', async () => {
+    const first = await createSetup();
+    fakes.stripe.addPrice({ id: 'price_starter', unitAmount: 9900, interval: 'month' });
+    await fetch(`${fakes.stripe.url}/v1/subscriptions`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer sk_test_fake', 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ customer: first.body.customerId, 'items[0][price]': 'price_starter', trial_period_days: '14' }),
+    });
+
+    const second = await createSetup();
+
+    expect(fakes.stripe.list('subscription')).toHaveLength(1);
+    expect(second.body.customerId).not.toBe(first.body.customerId);
+  });
+});
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeSupabaseClient } from '../../../src/testing/FakeSupabaseClient';
+import { FakeStripeServer } from '../../../src/testing/FakeStripeServer';
+import { startFakePaymentServers } from '../../../src/testing/fakePaymentServers';
+import type { FakePaymentServers } from '../../../src/testing/fakePaymentServers';
+
+// The handler builds its Supabase client when the module loads
+const database = vi.hoisted(() => ({ client: null as unknown }));
+vi.mock('@supabase/supabase-js', () => ({ createClient: () => database.client }));
+
+type SignupHandler = (event: { httpMethod: string; headers: Record<string, string>; body: string }) =>
+  Promise<{ statusCode: number; body: string }>;
+
+const supabase = new FakeSupabaseClient();
+database.client = supabase;
+
+let fakes: FakePaymentServers;
+let handler: SignupHandler;
+let finishStaleSagas: typeof import('../../../src/services/SagaRunner').SagaRunner.finishStaleSagas;
+let signupSaga: typeof import('../../../src/services/SignupSaga');
+
+beforeAll(async () => {
+  vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test_fake');
+  vi.stubEnv('PLAID_CLIENT_ID', 'fake-client-id');
+  vi.stubEnv('PLAID_SECRET', 'fake-secret');
+  vi.stubEnv('PLAID_ENV', 'sandbox');
+  vi.stubEnv('PLAID_TOKEN_KEYS', `test:${crypto.randomBytes(32).toString('base64')}`);
+  vi.stubEnv('EMAIL_TRANSPORT', '');
+  vi.stubEnv('SENDGRID_API_KEY', '');
+
+  fakes = await startFakePaymentServers();
+
+  // Services read their configuration on first use - load them after the fakes start
+  handler = (await import('../signup-with-payment')).handler as unknown as SignupHandler;
+  finishStaleSagas = (await import('../../../src/services/SagaRunner')).SagaRunner.finishStaleSagas;
+  signupSaga = await import('../../../src/services/SignupSaga');
+});
+
+afterAll(async () => {
+  await fakes?.stop();
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  fakes.reset();
+  supabase.reset();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+function signupRequest(overrides: Record<string, unknown> = {}) {
+  const { publicToken, accounts } = fakes.plaid.createPublicToken();
+  return {
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    email: 'ada@example.com',
+    password: 'correct-horse-battery',
+    companyName: 'Analytical Engines LLC',
+    plaidPublicToken: publicToken,
+    plaidAccountId: accounts[0].account_id,
+    selectedPlan: 'starter',
+    agreeToTerms: true,
+    authorizePayments: true,
+    ...overrides,
+  };
+}
+
+async function signup(body: Record<string, unknown>) {
+  const response = await handler({ httpMethod: 'POST', headers: {}, body: JSON.stringify(body) });
+  return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+}
+
+describe('signup-with-payment against the fakes', () => {
+  it('creates the customer, bank payment method, account and trialing subscription', async () => {
+    const response = await signup(signupRequest({ email: ' Ada@Example.com ' }));
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body.data).toMatchObject({ email: 'ada@example.com', bankAccountLast4: '0000', bankVerification: 'instant' });
+
+    const [customer] = fakes.stripe.list('customer');
+    expect(customer.email).toBe('ada@example.com');
+    const [subscription] = fakes.stripe.list('subscription');
+    const [paymentMethod] = fakes.stripe.list('payment_method');
+    expect(subscription).toMatchObject({ id: response.body.data.subscriptionId, customer: customer.id, status: 'trialing' });
+    expect(paymentMethod).toMatchObject({ customer: customer.id });
+    expect(paymentMethod.us_bank_account).toMatchObject({ bank_name: 'First Platypus Bank', last4: '0000' });
+
+    const [company] = supabase.table('companies');
+    expect(company).toMatchObject({
+      id: response.body.data.companyId,
+      owner_id: response.body.data.userId,
+      stripe_customer_id: customer.id,
+      stripe_payment_method_id: paymentMethod.id,
+      stripe_subscription_id: subscription.id,
+      payment_method_status: 'verified',
+      email: 'ada@example.com',
+      billing_email: 'ada@example.com',
+    });
+    expect(supabase.users.map(user => user.email)).toEqual(['ada@example.com']);
+
+    // The access token is stored encrypted
+    const [plaidItem] = supabase.table('plaid_items');
+    const [linkedItem] = fakes.plaid.items;
+    expect(plaidItem.item_id).toBe(linkedItem.itemId);
+    expect(JSON.stringify(plaidItem)).not.toContain(linkedItem.accessToken);
+
+    expect(supabase.table('saga_runs')).toMatchObject([{ status: 'completed' }]);
+    expect(JSON.stringify(supabase.table('saga_runs'))).not.toContain(linkedItem.accessToken);
+    expect(supabase.table('signup_attempts')).toMatchObject([{ status: 'completed', company_id: company.id }]);
+    expect(supabase.table('email_outbox')).toMatchObject([{ template: 'welcome', recipient: 'ada@example.com' }]);
+  });
+
+  it('rolls back every created resource when the subscription is declined', async () => {
+    fakes.stripe.failNext('/v1/subscriptions', FakeStripeServer.error('card_error', 'bank_account_declined', 402), 'POST');
+
+    const response = await signup(signupRequest());
+
+    expect(response.statusCode).toBe(500);
+    expect(response.body.error).toBe('Subscription setup failed');
+
+    expect(fakes.stripe.list('customer')).toMatchObject([{ deleted: true }]);
+    expect(fakes.stripe.list('subscription')).toEqual([]);
+    expect(fakes.plaid.items).toMatchObject([{ removed: true }]);
+    expect(supabase.table('companies')).toEqual([]);
+    expect(supabase.users).toEqual([]);
+    expect(supabase.table('saga_runs')).toMatchObject([{ status: 'compensated' }]);
+    expect(supabase.table('signup_attempts')).toMatchObject([{ status: 'abandoned' }]);
+
+    // The email is free again
+    const retry = await signup(signupRequest());
+    expect(retry.statusCode).toBe(200);
+  });
+
+  it('refuses a second signup for a registered email', async () => {
+    expect((await signup(signupRequest())).statusCode).toBe(200);
+
+    const duplicate = await signup(signupRequest({ email: ' ADA@example.com ' }));
+
+    expect(duplicate.statusCode).toBe(409);
+    expect(duplicate.body.error).toBe('Email already registered');
+    expect(fakes.stripe.list('customer')).toHaveLength(1);
+  });
+
+  it('keeps a signup whose saga completion could not be recorded', async () => {
+    // Every attempt to mark the saga completed fails
+    supabase.failNext('saga_runs', 'update', { times: 3, when: values => values.status === 'completed' });
+
+    const response = await signup(signupRequest());
+
+    expect(response.statusCode).toBe(200);
+    expect(supabase.table('saga_runs')).toMatchObject([{ status: 'running' }]);
+
+    // Recovery sees the subscription and marks the saga completed instead of rolling back
+    const summary = await finishStaleSagas(
+      supabase.asClient(),
+      { [signupSaga.SIGNUP_SAGA_TYPE]: signupSaga.createSignupCompensations(supabase.asClient()) },
+      { staleAfterMinutes: -1, commitChecks: { [signupSaga.SIGNUP_SAGA_TYPE]: signupSaga.createSignupCommitCheck(supabase.asClient()) } }
+    );
+
+    expect(summary).toMatchObject({ completed: 1, claimed: 0 });
+    expect(supabase.table('saga_runs')).toMatchObject([{ status: 'completed' }]);
+    expect(fakes.stripe.list('subscription')).toMatchObject([{ status: 'trialing' }]);
+    expect(supabase.table('companies')).toHaveLength(1);
+  }, 10000);
+});
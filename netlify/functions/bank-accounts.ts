@@ -0,0 +1,146 @@
+/**
+ * BANK ACCOUNTS - Manage the company's Plaid-linked bank accounts
+ *
+ * Owner-only (Authorization: Bearer <Supabase access token>):
+ * - GET → linked items and their accounts (primary flagged), with each
+ *   bank's logo and color
+ * - POST { publicToken, accountId } → link another account as a backup
+ *   (open PlaidLinkButton first - it gets its Link token from
+ *   create-link-token)
+ * - PATCH { accountId } → make a linked account (plaid_items row ID) the
+ *   primary account the subscription is billed from
+ * - DELETE ?itemId= → remove a bank: the item is removed at Plaid, its
+ *   Stripe payment methods are detached and the stored token is deleted.
+ *   The primary account cannot be removed.
+ *
+ * Every successful request returns the updated list.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import BankAccountService from '../../src/services/BankAccountService';
+import InstitutionDirectory from '../../src/services/InstitutionDirectory';
+import { authenticateCompanyOwner } from '../../src/services/CompanyOwnerAuth';
+import type { BankAccountChangeResult } from '../../src/services/BankAccountService';
+import type { InstitutionBranding } from '../../src/types/plaid';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// HTTP status for each failed outcome
+const OUTCOME_STATUS: Record<string, number> = {
+  not_found: 404,
+  not_allowed: 409,
+  failed: 502
+};
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== BANK ACCOUNTS HANDLER START ===');
+
+  if (!['GET', 'POST', 'PATCH', 'DELETE'].includes(event.httpMethod)) {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  try {
+    const owner = await authenticateCompanyOwner(supabase, event.headers);
+    if (!owner) {
+      return jsonResponse(401, { error: 'Unauthorized', message: 'Please sign in as the company owner.' });
+    }
+
+    const bankAccounts = new BankAccountService(supabase);
+
+    // =========================================================================
+    // STEP 1: Apply the Change
+    // =========================================================================
+    let change: BankAccountChangeResult | null = null;
+
+    if (event.httpMethod === 'DELETE') {
+      const itemId = event.queryStringParameters?.itemId;
+      if (!itemId) {
+        return jsonResponse(400, { error: 'Validation failed', message: 'Bank connection not found.' });
+      }
+
+      console.log(`Removing Plaid item ${itemId} for company ${owner.companyId}`);
+      change = await bankAccounts.remove(owner.companyId, itemId);
+    } else if (event.httpMethod !== 'GET') {
+      let data: { publicToken?: string; accountId?: string };
+      try {
+        data = JSON.parse(event.body || '{}');
+      } catch {
+        return jsonResponse(400, { error: 'Invalid JSON', message: 'Request body must be valid JSON.' });
+      }
+
+      if (!data.accountId || (event.httpMethod === 'POST' && !data.publicToken)) {
+        return jsonResponse(400, { error: 'Validation failed', message: 'Please choose a bank account.' });
+      }
+
+      if (event.httpMethod === 'POST') {
+        console.log(`Adding a bank account for company ${owner.companyId}`);
+        change = await bankAccounts.add(owner.companyId, {
+          publicToken: data.publicToken!,
+          accountId: data.accountId
+        });
+      } else {
+        console.log(`Promoting bank account ${data.accountId} for company ${owner.companyId}`);
+        change = await bankAccounts.promote(owner.companyId, data.accountId);
+      }
+    }
+
+    if (change && OUTCOME_STATUS[change.outcome]) {
+      return jsonResponse(OUTCOME_STATUS[change.outcome], {
+        error: change.errorCode || change.outcome.toUpperCase(),
+        message: change.message
+      });
+    }
+
+    // =========================================================================
+    // STEP 2: Return the Updated List
+    // =========================================================================
+    const items = await bankAccounts.list(owner.companyId);
+
+    // Logos are cosmetic - never fail the request over them
+    let institutions: Record<string, InstitutionBranding> = {};
+    try {
+      institutions = await new InstitutionDirectory(supabase).getMany(items.map(item => item.institutionId));
+    } catch (institutionError) {
+      console.warn('Institution lookup failed (non-fatal):', institutionError);
+    }
+
+    console.log('=== BANK ACCOUNTS COMPLETE ===');
+
+    return jsonResponse(200, {
+      success: true,
+      message: change?.message || null,
+      items: items.map(item => ({ ...item, institution: institutions[item.institutionId] || null }))
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN BANK ACCOUNTS HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: 'An unexpected error occurred. Please try again or contact support.'
+    });
+  }
+};
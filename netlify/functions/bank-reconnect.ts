@@ -0,0 +1,305 @@
+/**
+ * BANK RECONNECT - Re-authenticate a broken Plaid bank connection
+ *
+ * Owner-only (Authorization: Bearer <Supabase access token>). Owners reach
+ * this from the "Reconnect your bank" email sent by plaid-webhook.
+ *
+ * - GET [?itemId=] → the company's item that needs attention (login
+ *   required, expiring consent or error) and a Link token that opens Plaid
+ *   Link in update mode for it
+ * - POST { itemId } → after Link succeeds:
+ *   1. Confirm with Plaid that the item is healthy again
+ *   2. Mark the stored plaid_items rows active
+ *   3. Refresh the account's Stripe payment method from a new processor
+ *      token, and make it the default for the customer and subscription if
+ *      it is the primary account
+ *
+ * Update mode keeps the same item and access token - there is no public
+ * token to exchange.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import PlaidService from '../../src/services/PlaidService';
+import PlaidItemRepository from '../../src/services/PlaidItemRepository';
+import StripeService from '../../src/services/StripeService';
+import { authenticateCompanyOwner } from '../../src/services/CompanyOwnerAuth';
+import type { PlaidItemRecord } from '../../src/types/plaid';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// Item statuses the owner can fix by reconnecting
+const RECONNECTABLE_STATUSES = ['login_required', 'pending_expiration', 'error'];
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Item fields safe to show in the browser
+ */
+function toItemSummary(record: PlaidItemRecord) {
+  return {
+    itemId: record.item_id,
+    institutionName: record.institution_name,
+    accountName: record.account_name,
+    accountMask: record.account_mask,
+    status: record.status,
+    consentExpirationTime: record.consent_expiration_time || null
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== BANK RECONNECT HANDLER START ===');
+
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  try {
+    const owner = await authenticateCompanyOwner(supabase, event.headers);
+    if (!owner) {
+      return jsonResponse(401, { error: 'Unauthorized', message: 'Please sign in as the company owner.' });
+    }
+
+    const plaid = PlaidService.getInstance();
+    const plaidItems = new PlaidItemRepository(supabase);
+    const records = await plaidItems.findByCompany(owner.companyId, { activeOnly: false });
+
+    // =========================================================================
+    // GET: Update-Mode Link Token
+    // =========================================================================
+    if (event.httpMethod === 'GET') {
+      const requestedItemId = event.queryStringParameters?.itemId;
+      const record = requestedItemId
+        ? records.find(r => r.item_id === requestedItemId)
+        : records.find(r => RECONNECTABLE_STATUSES.includes(r.status));
+
+      if (!record) {
+        // Nothing to fix (or the item belongs to another company)
+        return jsonResponse(200, { success: true, item: null });
+      }
+
+      if (record.status === 'revoked') {
+        return jsonResponse(409, {
+          error: 'ITEM_REVOKED',
+          message: 'Access to this bank was revoked. Please add your bank account again.'
+        });
+      }
+
+      const accessToken = await plaidItems.getAccessToken(record.item_id);
+      const linkResult = await plaid.createLinkToken({
+        userId: owner.companyId,
+        companyName: 'Tradesphere',
+        flow: 'update',
+        accessToken
+      });
+
+      if (!linkResult.success || !linkResult.data) {
+        return jsonResponse(502, {
+          error: linkResult.error?.code || 'LINK_TOKEN_FAILED',
+          message: linkResult.error?.userMessage || 'Unable to start the bank reconnection. Please try again.'
+        });
+      }
+
+      return jsonResponse(200, {
+        success: true,
+        item: toItemSummary(record),
+        linkToken: linkResult.data.linkToken,
+        expiration: linkResult.data.expiration
+      });
+    }
+
+    // =========================================================================
+    // POST: Complete Reconnect
+    // =========================================================================
+    let data: { itemId?: string };
+    try {
+      data = JSON.parse(event.body || '{}');
+    } catch {
+      return jsonResponse(400, { error: 'Invalid JSON', message: 'Request body must be valid JSON.' });
+    }
+
+    const itemRecords = records.filter(r => r.item_id === data.itemId);
+    if (itemRecords.length === 0) {
+      return jsonResponse(400, { error: 'Validation failed', message: 'Bank connection not found.' });
+    }
+
+    // =========================================================================
+    // STEP 1: Confirm Item Health with Plaid
+    // =========================================================================
+    console.log('Step 1: Checking item health...');
+    const accessToken = await plaidItems.getAccessToken(itemRecords[0].item_id);
+    const accountsResult = await plaid.getAccounts(
+      accessToken,
+      itemRecords.map(r => r.account_id)
+    );
+
+    if (!accountsResult.success || !accountsResult.data) {
+      return jsonResponse(409, {
+        error: accountsResult.error?.code || 'RECONNECT_INCOMPLETE',
+        message: accountsResult.error?.userMessage || 'Your bank still needs attention. Please try reconnecting again.'
+      });
+    }
+
+    if (accountsResult.data.item.error) {
+      return jsonResponse(409, {
+        error: 'RECONNECT_INCOMPLETE',
+        message: 'Your bank still needs attention. Please try reconnecting again.'
+      });
+    }
+
+    // =========================================================================
+    // STEP 2: Mark Stored Item Active
+    // =========================================================================
+    console.log('Step 2: Marking item active...');
+    const { error: itemUpdateError } = await supabase
+      .from('plaid_items')
+      .update({
+        status: 'active',
+        is_active: true,
+        last_error: null,
+        consent_expiration_time: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('item_id', itemRecords[0].item_id)
+      .eq('company_id', owner.companyId);
+
+    if (itemUpdateError) {
+      throw itemUpdateError;
+    }
+
+    // =========================================================================
+    // STEP 3: Refresh Stripe Payment Method
+    // =========================================================================
+    console.log('Step 3: Refreshing Stripe payment method...');
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id, stripe_customer_id, stripe_payment_method_id, stripe_subscription_id')
+      .eq('id', owner.companyId)
+      .maybeSingle();
+
+    if (companyError) {
+      throw companyError;
+    }
+
+    if (!company?.stripe_customer_id) {
+      console.log('No Stripe customer - skipping payment method refresh');
+      return jsonResponse(200, { success: true, item: toItemSummary({ ...itemRecords[0], status: 'active' }) });
+    }
+
+    const record = itemRecords.find(r => r.is_primary) || itemRecords[0];
+    const isPrimary = record.is_primary
+      || (!!record.stripe_payment_method_id && record.stripe_payment_method_id === company.stripe_payment_method_id);
+
+    const processorResult = await plaid.createProcessorToken({
+      accessToken,
+      accountId: record.account_id
+    });
+
+    if (!processorResult.success || !processorResult.data) {
+      return jsonResponse(502, {
+        error: processorResult.error?.code || 'PROCESSOR_TOKEN_FAILED',
+        message: processorResult.error?.userMessage || 'Your bank is reconnected, but we could not update payments. Please try again.'
+      });
+    }
+
+    const stripe = StripeService.getInstance();
+    const paymentMethodResult = await stripe.createPaymentMethodFromPlaid({
+      customerId: company.stripe_customer_id,
+      processorToken: processorResult.data.processorToken,
+      accountHolderType: 'company',
+      setAsDefault: isPrimary
+    });
+
+    if (!paymentMethodResult.success || !paymentMethodResult.data) {
+      return jsonResponse(502, {
+        error: paymentMethodResult.error?.code || 'PAYMENT_METHOD_FAILED',
+        message: paymentMethodResult.error?.userMessage || 'Your bank is reconnected, but we could not update payments. Please try again.'
+      });
+    }
+
+    const paymentMethodId = paymentMethodResult.data.paymentMethodId;
+    if (isPrimary && company.stripe_subscription_id) {
+      const defaultResult = await stripe.setDefaultPaymentMethod(
+        company.stripe_customer_id,
+        paymentMethodId,
+        company.stripe_subscription_id
+      );
+
+      if (!defaultResult.success) {
+        console.error('Failed to set subscription payment method (non-fatal):', defaultResult.error?.code);
+      }
+    }
+
+    const { error: recordUpdateError } = await supabase
+      .from('plaid_items')
+      .update({
+        stripe_payment_method_id: paymentMethodId,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', record.id);
+
+    if (recordUpdateError) {
+      throw recordUpdateError;
+    }
+
+    if (isPrimary) {
+      const { error: companyUpdateError } = await supabase
+        .from('companies')
+        .update({
+          stripe_payment_method_id: paymentMethodId,
+          payment_method_status: 'verified',
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', company.id);
+
+      if (companyUpdateError) {
+        throw companyUpdateError;
+      }
+    }
+
+    const previousPaymentMethodId = record.stripe_payment_method_id
+      || (isPrimary ? company.stripe_payment_method_id : null);
+    if (previousPaymentMethodId && previousPaymentMethodId !== paymentMethodId) {
+      const detachResult = await stripe.detachPaymentMethod(previousPaymentMethodId);
+      if (!detachResult.success) {
+        console.error('Failed to detach previous payment method (non-fatal):', detachResult.error?.code);
+      }
+    }
+
+    console.log('=== BANK RECONNECT COMPLETE ===');
+
+    return jsonResponse(200, {
+      success: true,
+      item: toItemSummary({ ...itemRecords[0], status: 'active' }),
+      paymentMethodId
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN BANK RECONNECT HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: 'An unexpected error occurred. Please try again or contact support.'
+    });
+  }
+};
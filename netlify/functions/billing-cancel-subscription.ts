@@ -0,0 +1,133 @@
+/**
+ * BILLING CANCEL SUBSCRIPTION - Owner-initiated cancellation
+ *
+ * Owner-only (Authorization: Bearer <Supabase access token>), POST { reason? }:
+ * 1. Load the company's Stripe subscription
+ * 2. Cancel at period end (the company keeps access until then)
+ * 3. Record the reason in subscription metadata
+ *
+ * companies.subscription_status flips to 'canceled' when Stripe sends
+ * customer.subscription.deleted at period end.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import StripeService from '../../src/services/StripeService';
+import { authenticateCompanyOwner } from '../../src/services/CompanyOwnerAuth';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// Stripe metadata values are limited to 500 characters
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== BILLING CANCEL SUBSCRIPTION HANDLER START ===');
+
+  // Only accept POST requests
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  try {
+    const owner = await authenticateCompanyOwner(supabase, event.headers);
+    if (!owner) {
+      return jsonResponse(401, { error: 'Unauthorized', message: 'Please sign in as the company owner.' });
+    }
+
+    let data: { reason?: string };
+    try {
+      data = JSON.parse(event.body || '{}');
+    } catch {
+      return jsonResponse(400, { error: 'Invalid JSON', message: 'Request body must be valid JSON.' });
+    }
+
+    // =========================================================================
+    // STEP 1: Load Company Subscription
+    // =========================================================================
+    console.log('Step 1: Loading company subscription...');
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id, stripe_subscription_id')
+      .eq('id', owner.companyId)
+      .maybeSingle();
+
+    if (companyError) {
+      throw companyError;
+    }
+
+    if (!company?.stripe_subscription_id) {
+      return jsonResponse(404, {
+        error: 'NO_SUBSCRIPTION',
+        message: 'Your company does not have an active subscription.'
+      });
+    }
+
+    const stripe = StripeService.getInstance();
+
+    // =========================================================================
+    // STEP 2: Cancel at Period End
+    // =========================================================================
+    console.log('Step 2: Canceling subscription at period end...');
+    const cancelResult = await stripe.cancelSubscription(company.stripe_subscription_id, false);
+    if (!cancelResult.success || !cancelResult.data) {
+      return jsonResponse(502, {
+        error: cancelResult.error?.code || 'CANCEL_FAILED',
+        message: cancelResult.error?.userMessage || 'Unable to cancel your subscription. Please contact support.'
+      });
+    }
+
+    // =========================================================================
+    // STEP 3: Record Cancellation Reason
+    // =========================================================================
+    console.log('Step 3: Recording cancellation...');
+    const metadataResult = await stripe.updateSubscription(company.stripe_subscription_id, {
+      metadata: {
+        canceled_by: owner.userId,
+        cancellation_reason: (data.reason || '').trim().slice(0, MAX_REASON_LENGTH)
+      }
+    });
+
+    if (!metadataResult.success) {
+      // Non-fatal - the cancellation itself succeeded
+      console.warn('Failed to record cancellation reason:', metadataResult.error?.code);
+    }
+
+    console.log(`=== SUBSCRIPTION ${company.stripe_subscription_id} CANCELS AT PERIOD END ===`);
+
+    return jsonResponse(200, {
+      success: true,
+      cancelAtPeriodEnd: cancelResult.data.cancel_at_period_end,
+      accessUntil: cancelResult.data.current_period_end
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN BILLING CANCEL SUBSCRIPTION HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: 'An unexpected error occurred. Please try again or contact support.'
+    });
+  }
+};
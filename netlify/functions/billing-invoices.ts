@@ -0,0 +1,103 @@
+/**
+ * BILLING INVOICES - Invoice history for the owner's billing portal
+ *
+ * Owner-only (Authorization: Bearer <Supabase access token>), GET:
+ * - ?limit=20               page size (max 100)
+ * - ?startingAfter=in_xxx   next page (last invoice ID of the previous page)
+ *
+ * Invoices link to Stripe's hosted invoice page and PDF.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import StripeService from '../../src/services/StripeService';
+import { authenticateCompanyOwner } from '../../src/services/CompanyOwnerAuth';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== BILLING INVOICES HANDLER START ===');
+
+  // Only accept GET requests
+  if (event.httpMethod !== 'GET') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  try {
+    const owner = await authenticateCompanyOwner(supabase, event.headers);
+    if (!owner) {
+      return jsonResponse(401, { error: 'Unauthorized', message: 'Please sign in as the company owner.' });
+    }
+
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id, stripe_customer_id')
+      .eq('id', owner.companyId)
+      .maybeSingle();
+
+    if (companyError) {
+      throw companyError;
+    }
+
+    if (!company?.stripe_customer_id) {
+      return jsonResponse(200, { success: true, invoices: [], hasMore: false });
+    }
+
+    const params = event.queryStringParameters || {};
+    const startingAfter = params.startingAfter;
+    if (startingAfter && !startingAfter.startsWith('in_')) {
+      return jsonResponse(400, { error: 'Validation failed', message: 'startingAfter must be an invoice ID.' });
+    }
+
+    const result = await StripeService.getInstance().listInvoices({
+      customerId: company.stripe_customer_id,
+      limit: params.limit ? parseInt(params.limit, 10) || undefined : undefined,
+      startingAfter
+    });
+
+    if (!result.success || !result.data) {
+      return jsonResponse(502, {
+        error: result.error?.code || 'INVOICE_LOOKUP_FAILED',
+        message: result.error?.userMessage || 'Unable to load invoices. Please try again.'
+      });
+    }
+
+    console.log(`Returning ${result.data.invoices.length} invoices for company ${company.id}`);
+
+    return jsonResponse(200, {
+      success: true,
+      invoices: result.data.invoices,
+      hasMore: result.data.hasMore
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN BILLING INVOICES HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: 'An unexpected error occurred. Please try again or contact support.'
+    });
+  }
+};
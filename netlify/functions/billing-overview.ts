@@ -0,0 +1,161 @@
+/**
+ * BILLING OVERVIEW - Subscription summary for the owner's billing portal
+ *
+ * Owner-only (Authorization: Bearer <Supabase access token>), GET:
+ * 1. Load the company's billing columns
+ * 2. Load the Stripe subscription (cancellation state, current period)
+ * 3. Load the default bank account (with the bank's logo if Plaid-linked)
+ *
+ * Stripe lookups are best-effort - the portal still renders from the
+ * companies row if Stripe is unavailable.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import StripeService from '../../src/services/StripeService';
+import InstitutionDirectory from '../../src/services/InstitutionDirectory';
+import { authenticateCompanyOwner } from '../../src/services/CompanyOwnerAuth';
+import { getPlan } from '../../src/config/planCatalog';
+import { isTradespherePlanType } from '../../src/types/stripe-payment';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== BILLING OVERVIEW HANDLER START ===');
+
+  // Only accept GET requests
+  if (event.httpMethod !== 'GET') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  try {
+    const owner = await authenticateCompanyOwner(supabase, event.headers);
+    if (!owner) {
+      return jsonResponse(401, { error: 'Unauthorized', message: 'Please sign in as the company owner.' });
+    }
+
+    // =========================================================================
+    // STEP 1: Load Company
+    // =========================================================================
+    console.log('Step 1: Loading company...');
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('*')
+      .eq('id', owner.companyId)
+      .maybeSingle();
+
+    if (companyError) {
+      throw companyError;
+    }
+
+    if (!company) {
+      return jsonResponse(404, { error: 'NOT_FOUND', message: 'Company not found.' });
+    }
+
+    const stripe = StripeService.getInstance();
+
+    // =========================================================================
+    // STEP 2: Load Subscription
+    // =========================================================================
+    console.log('Step 2: Loading subscription...');
+    let subscription = null;
+    if (company.stripe_subscription_id) {
+      const subscriptionResult = await stripe.getSubscription(company.stripe_subscription_id);
+      if (subscriptionResult.success && subscriptionResult.data) {
+        subscription = subscriptionResult.data;
+      } else {
+        console.warn('Subscription lookup failed:', subscriptionResult.error?.code);
+      }
+    }
+
+    // =========================================================================
+    // STEP 3: Load Default Bank Account
+    // =========================================================================
+    console.log('Step 3: Loading default bank account...');
+    let bankAccount = null;
+    if (company.stripe_customer_id && company.stripe_payment_method_id) {
+      const methodsResult = await stripe.getPaymentMethods(company.stripe_customer_id, 'us_bank_account');
+      const defaultMethod = methodsResult.data?.find(pm => pm.id === company.stripe_payment_method_id);
+      if (defaultMethod?.us_bank_account) {
+        let institution = null;
+        try {
+          const institutions = await new InstitutionDirectory(supabase).getForCompanyAccounts(company.id);
+          institution = institutions[defaultMethod.id] || null;
+        } catch (institutionError) {
+          console.warn('Institution lookup failed (non-fatal):', institutionError);
+        }
+
+        bankAccount = {
+          id: defaultMethod.id,
+          bankName: defaultMethod.us_bank_account.bank_name,
+          last4: defaultMethod.us_bank_account.last4,
+          accountType: defaultMethod.us_bank_account.account_type,
+          institution
+        };
+      }
+    }
+
+    const tier = company.subscription_tier;
+    const pendingTier = company.pending_subscription_tier;
+
+    console.log('=== BILLING OVERVIEW COMPLETE ===');
+
+    return jsonResponse(200, {
+      success: true,
+      company: {
+        id: company.id,
+        name: company.name,
+        billingEmail: company.billing_email || company.email
+      },
+      plan: {
+        id: tier,
+        name: isTradespherePlanType(tier) ? getPlan(tier).name : tier,
+        interval: company.billing_interval || 'month',
+        monthlyAmount: company.monthly_amount,
+        pendingPlanId: pendingTier || null,
+        pendingPlanName: isTradespherePlanType(pendingTier) ? getPlan(pendingTier).name : pendingTier || null,
+        pendingInterval: company.pending_billing_interval || null,
+        planChangeEffectiveAt: company.plan_change_effective_at || null
+      },
+      subscription: {
+        status: company.subscription_status,
+        paymentMethodStatus: company.payment_method_status,
+        trialEndDate: company.trial_end_date,
+        nextBillingDate: company.next_billing_date,
+        cancelAtPeriodEnd: subscription?.cancel_at_period_end || false,
+        currentPeriodEnd: subscription?.current_period_end || null
+      },
+      bankAccount
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN BILLING OVERVIEW HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: 'An unexpected error occurred. Please try again or contact support.'
+    });
+  }
+};
@@ -0,0 +1,185 @@
+/**
+ * BILLING PAYMENT METHODS - Bank accounts for the owner's billing portal
+ *
+ * Owner-only (Authorization: Bearer <Supabase access token>):
+ * - GET  → list the company's bank accounts (default flagged), with the
+ *   bank's logo and color for Plaid-linked accounts
+ * - POST { paymentMethodId } → make that bank account the default for the
+ *   Stripe customer and the subscription, and record it on companies (and
+ *   as the primary linked account, if it came from Plaid)
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import StripeService from '../../src/services/StripeService';
+import InstitutionDirectory from '../../src/services/InstitutionDirectory';
+import PlaidItemRepository from '../../src/services/PlaidItemRepository';
+import { authenticateCompanyOwner } from '../../src/services/CompanyOwnerAuth';
+import type { StripePaymentMethod } from '../../src/types/stripe-payment';
+import type { InstitutionBranding } from '../../src/types/plaid';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Bank account fields safe to show in the browser (no routing number)
+ */
+function toBankAccountSummary(
+  paymentMethod: StripePaymentMethod,
+  defaultId: string | null,
+  institutions: Record<string, InstitutionBranding>
+) {
+  return {
+    id: paymentMethod.id,
+    bankName: paymentMethod.us_bank_account?.bank_name || 'Bank account',
+    last4: paymentMethod.us_bank_account?.last4 || '',
+    institution: institutions[paymentMethod.id] || null,
+    accountType: paymentMethod.us_bank_account?.account_type || null,
+    status: paymentMethod.us_bank_account?.status || null,
+    isDefault: paymentMethod.id === defaultId,
+    created: paymentMethod.created
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== BILLING PAYMENT METHODS HANDLER START ===');
+
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  try {
+    const owner = await authenticateCompanyOwner(supabase, event.headers);
+    if (!owner) {
+      return jsonResponse(401, { error: 'Unauthorized', message: 'Please sign in as the company owner.' });
+    }
+
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id, stripe_customer_id, stripe_payment_method_id, stripe_subscription_id')
+      .eq('id', owner.companyId)
+      .maybeSingle();
+
+    if (companyError) {
+      throw companyError;
+    }
+
+    if (!company?.stripe_customer_id) {
+      return jsonResponse(404, { error: 'NO_BILLING_ACCOUNT', message: 'No billing account found for your company.' });
+    }
+
+    const stripe = StripeService.getInstance();
+    const methodsResult = await stripe.getPaymentMethods(company.stripe_customer_id, 'us_bank_account');
+    if (!methodsResult.success || !methodsResult.data) {
+      return jsonResponse(502, {
+        error: methodsResult.error?.code || 'PAYMENT_METHOD_LOOKUP_FAILED',
+        message: methodsResult.error?.userMessage || 'Unable to load bank accounts. Please try again.'
+      });
+    }
+
+    const paymentMethods = methodsResult.data;
+
+    // Logos are cosmetic - never fail the page over them
+    let institutions: Record<string, InstitutionBranding> = {};
+    try {
+      institutions = await new InstitutionDirectory(supabase).getForCompanyAccounts(company.id);
+    } catch (institutionError) {
+      console.warn('Institution lookup failed (non-fatal):', institutionError);
+    }
+
+    if (event.httpMethod === 'GET') {
+      return jsonResponse(200, {
+        success: true,
+        paymentMethods: paymentMethods.map(pm => toBankAccountSummary(pm, company.stripe_payment_method_id, institutions))
+      });
+    }
+
+    // =========================================================================
+    // POST: Set Default Bank Account
+    // =========================================================================
+    let data: { paymentMethodId?: string };
+    try {
+      data = JSON.parse(event.body || '{}');
+    } catch {
+      return jsonResponse(400, { error: 'Invalid JSON', message: 'Request body must be valid JSON.' });
+    }
+
+    // Only bank accounts already attached to this customer can be selected
+    const paymentMethod = paymentMethods.find(pm => pm.id === data.paymentMethodId);
+    if (!paymentMethod) {
+      return jsonResponse(400, { error: 'Validation failed', message: 'Bank account not found.' });
+    }
+
+    if (paymentMethod.us_bank_account?.status && paymentMethod.us_bank_account.status !== 'verified') {
+      return jsonResponse(400, {
+        error: 'PAYMENT_METHOD_NOT_VERIFIED',
+        message: 'This bank account has not been verified yet.'
+      });
+    }
+
+    console.log(`Setting default payment method ${paymentMethod.id} for company ${company.id}`);
+    const defaultResult = await stripe.setDefaultPaymentMethod(
+      company.stripe_customer_id,
+      paymentMethod.id,
+      company.stripe_subscription_id || undefined
+    );
+
+    if (!defaultResult.success) {
+      return jsonResponse(502, {
+        error: defaultResult.error?.code || 'SET_DEFAULT_FAILED',
+        message: defaultResult.error?.userMessage || 'Unable to update your bank account.'
+      });
+    }
+
+    const { error: updateError } = await supabase
+      .from('companies')
+      .update({
+        stripe_payment_method_id: paymentMethod.id,
+        payment_method_status: 'verified',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', company.id);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    await new PlaidItemRepository(supabase).setPrimaryByPaymentMethod(company.id, paymentMethod.id);
+
+    console.log('=== BILLING PAYMENT METHODS COMPLETE ===');
+
+    return jsonResponse(200, {
+      success: true,
+      paymentMethods: paymentMethods.map(pm => toBankAccountSummary(pm, paymentMethod.id, institutions))
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN BILLING PAYMENT METHODS HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: 'An unexpected error occurred. Please try again or contact support.'
+    });
+  }
+};
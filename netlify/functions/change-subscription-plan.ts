@@ -0,0 +1,223 @@
+/**
+ * CHANGE SUBSCRIPTION PLAN - Preview or apply a plan change for the owner's company
+ *
+ * Owner-only (Authorization: Bearer <Supabase access token>):
+ * 1. Input validation (plan + interval)
+ * 2. Load the company's Stripe subscription
+ * 3. preview: true  → return the proration preview (nothing changes)
+ *    preview: false → apply the change via StripeService.updateSubscription
+ * 4. Reflect the new (or pending) plan on the companies row
+ *
+ * Upgrades apply immediately and invoice the prorated difference.
+ * Downgrades and annual → monthly switches take effect at period end.
+ * Pass the preview's prorationDate when applying so the customer is
+ * charged exactly the previewed amount.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import StripeService from '../../src/services/StripeService';
+import { authenticateCompanyOwner } from '../../src/services/CompanyOwnerAuth';
+import { toCompanyPlanColumns } from '../../src/services/StripeWebhookProcessor';
+import {
+  TRADESPHERE_PLAN_TYPES,
+  isTradespherePlanType,
+} from '../../src/types/stripe-payment';
+import type {
+  StripeBillingInterval,
+  TradespherePlanType,
+} from '../../src/types/stripe-payment';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+/**
+ * Request body interface for plan changes
+ */
+interface ChangePlanRequest {
+  planType: TradespherePlanType;
+  interval?: StripeBillingInterval;
+  preview?: boolean;
+  prorationDate?: number;
+}
+
+/**
+ * Validate plan change fields
+ */
+function validateChangePlanRequest(data: Partial<ChangePlanRequest>): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!data.planType) {
+    errors.push('Plan type is required');
+  } else if (!isTradespherePlanType(data.planType)) {
+    errors.push(`Plan type must be one of: ${TRADESPHERE_PLAN_TYPES.join(', ')}`);
+  }
+
+  if (data.interval && !['month', 'year'].includes(data.interval)) {
+    errors.push('Interval must be month or year');
+  }
+
+  if (data.prorationDate !== undefined && !Number.isInteger(data.prorationDate)) {
+    errors.push('Proration date must be a unix timestamp');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== CHANGE SUBSCRIPTION PLAN HANDLER START ===');
+
+  // Only accept POST requests
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  try {
+    const owner = await authenticateCompanyOwner(supabase, event.headers);
+    if (!owner) {
+      return jsonResponse(401, { error: 'Unauthorized', message: 'Please sign in as the company owner.' });
+    }
+
+    let data: ChangePlanRequest;
+    try {
+      data = JSON.parse(event.body || '{}');
+    } catch {
+      return jsonResponse(400, { error: 'Invalid JSON', message: 'Request body must be valid JSON.' });
+    }
+
+    // =========================================================================
+    // STEP 1: Input Validation
+    // =========================================================================
+    console.log('Step 1: Validating input...');
+    const validation = validateChangePlanRequest(data);
+    if (!validation.valid) {
+      console.error('Validation failed:', validation.errors);
+      return jsonResponse(400, {
+        error: 'Validation failed',
+        message: validation.errors.join('. ')
+      });
+    }
+
+    // =========================================================================
+    // STEP 2: Load Company Subscription
+    // =========================================================================
+    console.log('Step 2: Loading company subscription...');
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id, stripe_subscription_id')
+      .eq('id', owner.companyId)
+      .maybeSingle();
+
+    if (companyError) {
+      throw companyError;
+    }
+
+    if (!company?.stripe_subscription_id) {
+      return jsonResponse(404, {
+        error: 'NO_SUBSCRIPTION',
+        message: 'Your company does not have an active subscription.'
+      });
+    }
+
+    const stripe = StripeService.getInstance();
+    const change = {
+      planType: data.planType,
+      interval: data.interval,
+      prorationDate: data.prorationDate,
+      metadata: { company_id: company.id }
+    };
+
+    // =========================================================================
+    // STEP 3a: Preview Only
+    // =========================================================================
+    if (data.preview) {
+      console.log('Step 3: Previewing plan change...');
+      const previewResult = await stripe.previewPlanChange(company.stripe_subscription_id, change);
+      if (!previewResult.success || !previewResult.data) {
+        return jsonResponse(400, {
+          error: previewResult.error?.code || 'PREVIEW_FAILED',
+          message: previewResult.error?.userMessage || 'Unable to preview this plan change.'
+        });
+      }
+
+      return jsonResponse(200, { success: true, preview: previewResult.data });
+    }
+
+    // =========================================================================
+    // STEP 3b: Apply Plan Change
+    // =========================================================================
+    console.log(`Step 3: Changing plan to ${data.planType}...`);
+    const updateResult = await stripe.updateSubscription(company.stripe_subscription_id, change);
+    if (!updateResult.success || !updateResult.data) {
+      return jsonResponse(400, {
+        error: updateResult.error?.code || 'PLAN_CHANGE_FAILED',
+        message: updateResult.error?.userMessage || 'Unable to change your plan.'
+      });
+    }
+
+    // =========================================================================
+    // STEP 4: Reflect Plan on Company
+    // =========================================================================
+    // The customer.subscription.updated webhook syncs the same columns -
+    // updating here keeps the UI consistent without waiting for it
+    console.log('Step 4: Updating company plan...');
+    const { error: updateError } = await supabase
+      .from('companies')
+      .update({
+        ...toCompanyPlanColumns(updateResult.data),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', company.id);
+
+    if (updateError) {
+      console.error('Failed to update company plan (webhook will resync):', updateError);
+    }
+
+    const pendingPlan = updateResult.data.metadata.pending_plan_type;
+    console.log('=== CHANGE SUBSCRIPTION PLAN COMPLETE ===');
+
+    return jsonResponse(200, {
+      success: true,
+      timing: pendingPlan ? 'period_end' : 'immediately',
+      subscription: {
+        id: updateResult.data.id,
+        status: updateResult.data.status,
+        planType: updateResult.data.metadata.plan_type,
+        pendingPlanType: pendingPlan || null,
+        currentPeriodEnd: updateResult.data.current_period_end
+      }
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN CHANGE SUBSCRIPTION PLAN HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: 'An unexpected error occurred. Please try again or contact support.'
+    });
+  }
+};
@@ -0,0 +1,79 @@
+/**
+ * CREATE LINK TOKEN - Start a Plaid Link session for bank account signup
+ *
+ * Public (called by PlaidLinkButton before the owner has an account):
+ * 1. Generate a temporary Plaid client user ID
+ * 2. Create a Link token for the Auth product (checking/savings only)
+ *
+ * Returns { linkToken, expiration }. Link tokens expire after 4 hours -
+ * the button requests a fresh one when it does.
+ *
+ * OAuth banks redirect back to PLAID_REDIRECT_URI (must be registered in the
+ * Plaid dashboard); without it, OAuth-only institutions are hidden in Link.
+ */
+
+import { Handler } from '@netlify/functions';
+import PlaidService from '../../src/services/PlaidService';
+
+// Environment variables
+const FRONTEND_URL = process.env.FRONTEND_URL || 'https://tradesphere.com';
+const PLAID_REDIRECT_URI = process.env.PLAID_REDIRECT_URI;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== CREATE LINK TOKEN HANDLER START ===');
+
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  try {
+    // =========================================================================
+    // STEP 1: Create Link Token
+    // =========================================================================
+    const plaid = PlaidService.getInstance();
+    const linkResult = await plaid.createLinkToken({
+      userId: PlaidService.generateTempUserId(),
+      companyName: 'Tradesphere',
+      flow: 'signup',
+      redirectUri: PLAID_REDIRECT_URI || undefined,
+      webhook: `${FRONTEND_URL}/.netlify/functions/plaid-webhook`
+    });
+
+    if (!linkResult.success || !linkResult.data) {
+      return jsonResponse(502, {
+        error: linkResult.error?.code || 'LINK_TOKEN_FAILED',
+        message: linkResult.error?.userMessage || 'Unable to connect to Plaid. Please try again.'
+      });
+    }
+
+    console.log('=== CREATE LINK TOKEN COMPLETE ===');
+
+    return jsonResponse(200, {
+      success: true,
+      linkToken: linkResult.data.linkToken,
+      expiration: linkResult.data.expiration
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN CREATE LINK TOKEN HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: 'An unexpected error occurred. Please try again or contact support.'
+    });
+  }
+};
@@ -0,0 +1,270 @@
+/**
+ * CREATE SUBSCRIPTION SETUP - Start ACH bank account collection for onboarding
+ *
+ * Called by OnboardingFlow (step 3) before mounting the Stripe Payment Element:
+ * 1. Input validation (company info + subscription tier)
+ * 2. Reuse the Stripe customer for this email if nobody has signed up with
+ *    it yet (no company, no subscription), otherwise create a new one
+ * 3. Create a us_bank_account SetupIntent (Plaid verification handled by Stripe)
+ * 4. Record the SetupIntent in stripe_setup_intents
+ *
+ * Returns { clientSecret, customerId, publishableKey, setupIntentId } for the
+ * Payment Element. The subscription itself is started by process-initial-payment
+ * once the SetupIntent is confirmed in the browser.
+ *
+ * OwnerRegistrationForm also calls this with verificationMethod 'microdeposits'
+ * when the owner's bank cannot be linked through Plaid: the browser confirms
+ * the SetupIntent with manually entered account numbers and signup-with-payment
+ * picks it up by ID.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import StripeService from '../../src/services/StripeService';
+import {
+  TRADESPHERE_PLAN_TYPES,
+  isTradespherePlanType,
+} from '../../src/types/stripe-payment';
+import type { StripeBankVerificationMethod, TradespherePlanType } from '../../src/types/stripe-payment';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// Environment variables
+const STRIPE_PUBLISHABLE_KEY = process.env.STRIPE_PUBLISHABLE_KEY;
+
+// Email validation regex
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Request body interface for subscription setup
+ */
+interface SubscriptionSetupRequest {
+  companyEmail: string;
+  companyName: string;
+  ownerName: string;
+  phone?: string;
+  subscriptionTier: TradespherePlanType;
+  verificationMethod?: StripeBankVerificationMethod;
+}
+
+// Verification methods the browser may ask for
+const ALLOWED_VERIFICATION_METHODS: StripeBankVerificationMethod[] = ['automatic', 'microdeposits'];
+
+/**
+ * Validate all required setup fields
+ */
+function validateSetupRequest(data: Partial<SubscriptionSetupRequest>): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!data.companyEmail?.trim()) errors.push('Company email is required');
+  if (!data.companyName?.trim()) errors.push('Company name is required');
+  if (!data.ownerName?.trim()) errors.push('Owner name is required');
+  if (!data.subscriptionTier) errors.push('Subscription tier is required');
+
+  if (data.companyEmail && !EMAIL_REGEX.test(data.companyEmail)) {
+    errors.push('Invalid email format');
+  }
+
+  if (data.subscriptionTier && !isTradespherePlanType(data.subscriptionTier)) {
+    errors.push(`Subscription tier must be one of: ${TRADESPHERE_PLAN_TYPES.join(', ')}`);
+  }
+
+  if (data.verificationMethod && !ALLOWED_VERIFICATION_METHODS.includes(data.verificationMethod)) {
+    errors.push(`Verification method must be one of: ${ALLOWED_VERIFICATION_METHODS.join(', ')}`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Whether a Stripe customer is still unclaimed - no company uses it and it
+ * has never had a subscription
+ *
+ * This endpoint needs no login: a SetupIntent on an owner's customer would
+ * let anyone who knows the email attach bank accounts to it. Lookup failures
+ * count as claimed (a fresh customer is always safe).
+ */
+async function isUnclaimedCustomer(stripe: StripeService, customerId: string): Promise<boolean> {
+  const { data: company, error } = await supabase
+    .from('companies')
+    .select('id')
+    .eq('stripe_customer_id', customerId)
+    .limit(1)
+    .maybeSingle();
+
+  if (error || company) {
+    return false;
+  }
+
+  const subscriptions = await stripe.hasSubscriptions(customerId);
+  return subscriptions.success && subscriptions.data === false;
+}
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== CREATE SUBSCRIPTION SETUP HANDLER START ===');
+
+  // Only accept POST requests
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  if (!STRIPE_PUBLISHABLE_KEY) {
+    console.error('STRIPE_PUBLISHABLE_KEY not configured');
+    return jsonResponse(500, {
+      error: 'Configuration error',
+      message: 'Payment setup is temporarily unavailable. Please contact support.'
+    });
+  }
+
+  try {
+    let data: SubscriptionSetupRequest;
+    try {
+      data = JSON.parse(event.body || '{}');
+    } catch {
+      return jsonResponse(400, { error: 'Invalid JSON', message: 'Request body must be valid JSON.' });
+    }
+
+    // =========================================================================
+    // STEP 1: Input Validation
+    // =========================================================================
+    console.log('Step 1: Validating input...');
+    const validation = validateSetupRequest(data);
+    if (!validation.valid) {
+      console.error('Validation failed:', validation.errors);
+      return jsonResponse(400, {
+        error: 'Validation failed',
+        message: validation.errors.join('. ')
+      });
+    }
+
+    const companyEmail = data.companyEmail.trim().toLowerCase();
+    const stripe = StripeService.getInstance();
+
+    // =========================================================================
+    // STEP 2: Find or Create Stripe Customer
+    // =========================================================================
+    console.log('Step 2: Finding or creating Stripe customer...');
+    const existingResult = await stripe.findCustomerByEmail(companyEmail);
+    if (!existingResult.success) {
+      return jsonResponse(500, {
+        error: existingResult.error?.code || 'CUSTOMER_LOOKUP_FAILED',
+        message: existingResult.error?.userMessage || 'Unable to set up payment account.'
+      });
+    }
+
+    let customerId: string;
+    if (existingResult.data && await isUnclaimedCustomer(stripe, existingResult.data.id)) {
+      // An earlier setup for this email that never finished
+      customerId = existingResult.data.id;
+      console.log('Reusing unclaimed Stripe customer:', customerId);
+    } else {
+      const customerResult = await stripe.createCustomer({
+        email: companyEmail,
+        companyName: data.companyName.trim(),
+        ownerName: data.ownerName.trim(),
+        phone: data.phone?.trim() || undefined,
+        metadata: {
+          signup_source: 'onboarding',
+          plan_type: data.subscriptionTier
+        }
+      });
+
+      if (!customerResult.success || !customerResult.data) {
+        return jsonResponse(500, {
+          error: customerResult.error?.code || 'CUSTOMER_CREATION_FAILED',
+          message: customerResult.error?.userMessage || 'Unable to create payment account.'
+        });
+      }
+
+      customerId = customerResult.data.customerId;
+      console.log('Stripe customer created:', customerId);
+    }
+
+    // =========================================================================
+    // STEP 3: Create SetupIntent
+    // =========================================================================
+    console.log('Step 3: Creating SetupIntent...');
+    const setupResult = await stripe.createSetupIntent({
+      customerId,
+      verificationMethod: data.verificationMethod,
+      metadata: {
+        company_email: companyEmail,
+        company_name: data.companyName.trim(),
+        subscription_tier: data.subscriptionTier
+      }
+    });
+
+    if (!setupResult.success || !setupResult.data) {
+      return jsonResponse(500, {
+        error: setupResult.error?.code || 'SETUP_INTENT_FAILED',
+        message: setupResult.error?.userMessage || 'Unable to initialize bank account setup.'
+      });
+    }
+
+    const { setupIntentId, clientSecret, status } = setupResult.data;
+    console.log('SetupIntent created:', setupIntentId);
+
+    // =========================================================================
+    // STEP 4: Record SetupIntent (NON-FATAL)
+    // =========================================================================
+    console.log('Step 4: Recording SetupIntent...');
+    const { error: recordError } = await supabase
+      .from('stripe_setup_intents')
+      .insert({
+        setup_intent_id: setupIntentId,
+        customer_id: customerId,
+        company_email: companyEmail,
+        company_name: data.companyName.trim(),
+        subscription_tier: data.subscriptionTier,
+        status
+      });
+
+    if (recordError) {
+      // The SetupIntent is still usable - tracking can be reconciled from Stripe
+      console.error('Failed to record SetupIntent (non-fatal):', recordError);
+    }
+
+    console.log('=== SUBSCRIPTION SETUP CREATED ===');
+
+    return jsonResponse(200, {
+      success: true,
+      clientSecret,
+      customerId,
+      publishableKey: STRIPE_PUBLISHABLE_KEY,
+      setupIntentId
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN SUBSCRIPTION SETUP HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Setup failed',
+      message: 'An unexpected error occurred. Please try again or contact support.'
+    });
+  }
+};
@@ -0,0 +1,126 @@
+/**
+ * EMAIL PREVIEW - Render every transactional email with sample data
+ *
+ * Development only: returns 404 unless EMAIL_PREVIEW_ENABLED=true.
+ *
+ * - GET → index page linking every template (HTML and plain text)
+ * - GET ?template=welcome → the HTML email
+ * - GET ?template=welcome&format=text → the plain-text alternative
+ * - GET ?template=welcome&format=json → subject, version and both bodies
+ *
+ * Nothing is sent - templates are rendered with the sample data defined in
+ * EmailTemplates.
+ */
+
+import { Handler } from '@netlify/functions';
+import {
+  EMAIL_TEMPLATE_NAMES,
+  describeEmailTemplate,
+  escapeHtml,
+  isEmailTemplateName,
+  renderEmailPreview,
+} from '../../src/services/EmailTemplates';
+
+const EMAIL_PREVIEW_ENABLED = process.env.EMAIL_PREVIEW_ENABLED === 'true';
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Build a response with another content type
+ */
+function contentResponse(contentType: string, body: string) {
+  return {
+    statusCode: 200,
+    headers: { 'Content-Type': `${contentType}; charset=utf-8`, 'Cache-Control': 'no-store' },
+    body
+  };
+}
+
+/**
+ * Index page listing every template
+ */
+function renderIndex(): string {
+  const rows = EMAIL_TEMPLATE_NAMES.map(name => {
+    const { version, description } = describeEmailTemplate(name);
+    const { subject } = renderEmailPreview(name);
+    const link = (format: string, label: string) =>
+      `<a href="?template=${name}${format ? `&format=${format}` : ''}">${label}</a>`;
+
+    return `<tr>
+      <td><code>${name}</code> v${version}</td>
+      <td>${escapeHtml(description)}<br><small>${escapeHtml(subject)}</small></td>
+      <td>${link('', 'HTML')} · ${link('text', 'Text')} · ${link('json', 'JSON')}</td>
+    </tr>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>Email previews</title></head>
+<body style="font-family: Arial, sans-serif; max-width: 900px; margin: 40px auto; color: #333;">
+  <h1>Email previews</h1>
+  <table cellpadding="8" style="border-collapse: collapse; width: 100%;">
+    ${rows}
+  </table>
+</body>
+</html>`;
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== EMAIL PREVIEW HANDLER START ===');
+
+  if (!EMAIL_PREVIEW_ENABLED) {
+    return jsonResponse(404, { error: 'NOT_FOUND', message: 'Not found.' });
+  }
+
+  if (event.httpMethod !== 'GET') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  const template = event.queryStringParameters?.template;
+  const format = event.queryStringParameters?.format || 'html';
+
+  if (!template) {
+    return contentResponse('text/html', renderIndex());
+  }
+
+  if (!isEmailTemplateName(template)) {
+    return jsonResponse(404, {
+      error: 'NOT_FOUND',
+      message: `Unknown template. Available: ${EMAIL_TEMPLATE_NAMES.join(', ')}`
+    });
+  }
+
+  try {
+    const email = renderEmailPreview(template);
+
+    if (format === 'text') {
+      return contentResponse('text/plain', `Subject: ${email.subject}\n\n${email.text}`);
+    }
+
+    if (format === 'json') {
+      return jsonResponse(200, { success: true, email });
+    }
+
+    return contentResponse('text/html', email.html);
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN EMAIL PREVIEW HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: 'An unexpected error occurred. Please try again or contact support.'
+    });
+  }
+};
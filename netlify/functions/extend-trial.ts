@@ -0,0 +1,137 @@
+/**
+ * EXTEND TRIAL - Admin-granted free trial extension
+ *
+ * 1. Authenticate with the X-Admin-Key header (ADMIN_API_KEY)
+ * 2. Validate the request
+ * 3. Move the trial end (Stripe subscription and companies row), restart
+ *    the reminders for the new end and log the extension
+ *
+ * Only a running trial can be extended, within the limits in
+ * src/config/trialPolicy.ts.
+ *
+ * Request body:
+ * { companyId: string, days: number, grantedBy: string, reason?: string }
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import { isAdminRequest } from '../../src/services/AdminAuth';
+import StripeService from '../../src/services/StripeService';
+import TrialService from '../../src/services/TrialService';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// HTTP status for each failed outcome
+const OUTCOME_STATUS: Record<string, number> = {
+  not_found: 404,
+  not_allowed: 409,
+  failed: 502
+};
+
+interface ExtendTrialRequest {
+  companyId?: string;
+  days?: number;
+  grantedBy?: string;
+  reason?: string;
+}
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Validate the request body
+ */
+function validateRequest(data: ExtendTrialRequest): string | null {
+  if (!data.companyId || typeof data.companyId !== 'string') {
+    return 'companyId is required';
+  }
+  if (typeof data.days !== 'number') {
+    return 'days must be a number';
+  }
+  if (!data.grantedBy || typeof data.grantedBy !== 'string') {
+    return 'grantedBy is required';
+  }
+  if (data.reason !== undefined && typeof data.reason !== 'string') {
+    return 'reason must be a string';
+  }
+  return null;
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== EXTEND TRIAL HANDLER START ===');
+
+  // Only accept POST requests
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  if (!isAdminRequest(event.headers)) {
+    return jsonResponse(401, { error: 'Unauthorized', message: 'A valid admin key is required.' });
+  }
+
+  let data: ExtendTrialRequest;
+  try {
+    data = JSON.parse(event.body || '{}');
+  } catch {
+    return jsonResponse(400, { error: 'Invalid JSON', message: 'Request body must be valid JSON.' });
+  }
+
+  const validationError = validateRequest(data);
+  if (validationError) {
+    return jsonResponse(400, { error: 'Validation failed', message: validationError });
+  }
+
+  try {
+    const trials = new TrialService(supabase, {
+      stripe: StripeService.getInstance()
+    });
+
+    console.log(`Extending trial for company ${data.companyId} by ${data.days} days (${data.grantedBy})`);
+    const result = await trials.extend(data.companyId!, {
+      days: data.days!,
+      grantedBy: data.grantedBy!,
+      reason: data.reason
+    });
+
+    if (OUTCOME_STATUS[result.outcome]) {
+      return jsonResponse(OUTCOME_STATUS[result.outcome], {
+        error: result.errorCode || result.outcome.toUpperCase(),
+        message: result.message
+      });
+    }
+
+    console.log('=== EXTEND TRIAL COMPLETE ===');
+    return jsonResponse(200, {
+      success: true,
+      message: result.message,
+      trialEndsAt: result.trialEndsAt
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN EXTEND TRIAL HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: 'Failed to extend the trial.'
+    });
+  }
+};
@@ -0,0 +1,65 @@
+/**
+ * FINISH SAGA ROLLBACKS - Scheduled recovery for interrupted rollbacks
+ *
+ * Runs on a schedule (see netlify.toml):
+ * 1. Find saga_runs rows stuck in running / compensating / compensation_failed
+ *    that have not been touched for 15 minutes (the function that owned them
+ *    has certainly timed out)
+ * 2. Running sagas whose final step succeeded (the signup's subscription
+ *    exists) are marked completed - never rolled back
+ * 3. Claim each remaining row and run its compensations in reverse order
+ *
+ * Sagas that still fail after 5 attempts are left as compensation_failed
+ * for manual cleanup.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import SagaRunner from '../../src/services/SagaRunner';
+import { SIGNUP_SAGA_TYPE, createSignupCommitCheck, createSignupCompensations } from '../../src/services/SignupSaga';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async () => {
+  console.log('=== FINISH SAGA ROLLBACKS HANDLER START ===');
+
+  try {
+    const summary = await SagaRunner.finishStaleSagas(supabase, {
+      [SIGNUP_SAGA_TYPE]: createSignupCompensations(supabase)
+    }, {
+      commitChecks: { [SIGNUP_SAGA_TYPE]: createSignupCommitCheck(supabase) }
+    });
+
+    console.log(
+      `${summary.completed} sagas had finished; claimed ${summary.claimed}: ` +
+      `${summary.compensated} rolled back, ${summary.failed} still failing`
+    );
+    console.log('=== FINISH SAGA ROLLBACKS COMPLETE ===');
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: true, ...summary })
+    };
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN FINISH SAGA ROLLBACKS HANDLER ===');
+    console.error(error);
+
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Saga recovery failed' })
+    };
+  }
+};
@@ -0,0 +1,79 @@
+/**
+ * INSTITUTION - Bank name, logo and color for displaying a linked account
+ *
+ * Public (the signup form calls it right after Plaid Link, before the owner
+ * has an account): GET ?institutionId=ins_xxx
+ *
+ * Served from InstitutionDirectory (memory → plaid_institutions → Plaid),
+ * and cacheable by the browser for a day - institution metadata is public
+ * and rarely changes.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import InstitutionDirectory from '../../src/services/InstitutionDirectory';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// Plaid institution IDs look like ins_109508
+const INSTITUTION_ID_REGEX = /^ins_[0-9]+$/;
+
+// Browser cache lifetime for a found institution
+const CACHE_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== INSTITUTION HANDLER START ===');
+
+  if (event.httpMethod !== 'GET') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  const institutionId = event.queryStringParameters?.institutionId || '';
+  if (!INSTITUTION_ID_REGEX.test(institutionId)) {
+    return jsonResponse(400, { error: 'Validation failed', message: 'A valid institution ID is required.' });
+  }
+
+  try {
+    const institution = await new InstitutionDirectory(supabase).get(institutionId);
+
+    if (!institution) {
+      return jsonResponse(404, { error: 'NOT_FOUND', message: 'Bank not found.' });
+    }
+
+    return jsonResponse(
+      200,
+      { success: true, institution },
+      { 'Cache-Control': `public, max-age=${CACHE_MAX_AGE_SECONDS}` }
+    );
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN INSTITUTION HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: 'An unexpected error occurred. Please try again or contact support.'
+    });
+  }
+};
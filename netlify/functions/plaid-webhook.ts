@@ -0,0 +1,332 @@
+/**
+ * PLAID WEBHOOK - Receive and verify Plaid item/auth events
+ *
+ * Endpoint passed as `webhook` when creating Link tokens:
+ * 1. Verify the Plaid-Verification JWT (ES256, body hash, freshness)
+ * 2. Route ITEM / AUTH webhook codes to handlers
+ * 3. Handlers update the stored plaid_items record for the item
+ * 4. When an item newly needs re-authentication (login required or consent
+ *    expiring), email the owner a link to /billing/reconnect-bank
+ *
+ * VERIFICATION KEYS:
+ * - Default: fetched from Plaid (/webhook_verification_key/get) and cached
+ * - PLAID_WEBHOOK_STUB_KEY (JSON JWK, non-production only): verify against a
+ *   local StubPlaidWebhookKeyProvider key for offline testing
+ *
+ * Requires database/migrations/add-plaid-items.sql (the plaid_items status,
+ * last_error and consent_expiration_time columns).
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import PlaidService from '../../src/services/PlaidService';
+import EmailOutbox from '../../src/services/EmailOutbox';
+import {
+  PlaidWebhookVerifier,
+  StubPlaidWebhookKeyProvider,
+} from '../../src/services/PlaidWebhookVerifier';
+import type {
+  PlaidWebhookPayload,
+  PlaidItemWebhook,
+  PlaidAuthWebhook,
+  PlaidItemRecord,
+  PlaidWebhookVerificationResult,
+} from '../../src/types/plaid';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// Environment variables
+const PLAID_ENV = process.env.PLAID_ENV || 'sandbox';
+const PLAID_WEBHOOK_STUB_KEY = process.env.PLAID_WEBHOOK_STUB_KEY;
+const FRONTEND_URL = process.env.FRONTEND_URL || 'https://tradesphere.com';
+
+// Stub verifier (cached per warm function instance)
+let stubVerifier: PlaidWebhookVerifier | undefined;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Verify with the local stub key when configured, otherwise with Plaid's keys
+ */
+async function verifyRequest(
+  rawBody: string,
+  headers: Record<string, string | undefined>
+): Promise<PlaidWebhookVerificationResult> {
+  if (PLAID_WEBHOOK_STUB_KEY) {
+    if (PLAID_ENV === 'production') {
+      return { valid: false, error: 'PLAID_WEBHOOK_STUB_KEY must not be set in production' };
+    }
+
+    stubVerifier ??= new PlaidWebhookVerifier(
+      StubPlaidWebhookKeyProvider.fromPublicKey(JSON.parse(PLAID_WEBHOOK_STUB_KEY))
+    );
+    return stubVerifier.verify(rawBody, headers['plaid-verification']);
+  }
+
+  return PlaidService.verifyWebhook(rawBody, headers);
+}
+
+/**
+ * Apply an update to the stored item (and optionally a single account)
+ *
+ * @returns Number of records updated
+ */
+async function updateItemRecord(
+  itemId: string,
+  updates: Partial<PlaidItemRecord>,
+  accountId?: string
+): Promise<number> {
+  let query = supabase
+    .from('plaid_items')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('item_id', itemId);
+
+  if (accountId) {
+    query = query.eq('account_id', accountId);
+  }
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    throw error;
+  }
+
+  return data?.length || 0;
+}
+
+/**
+ * Email the company owner a "Reconnect your bank" link (non-fatal)
+ *
+ * Queued in email_outbox, so a SendGrid outage only delays it.
+ */
+async function sendReconnectEmail(
+  companyId: string,
+  itemId: string,
+  institutionName: string,
+  status: 'login_required' | 'pending_expiration'
+): Promise<void> {
+  try {
+    const { data: company, error } = await supabase
+      .from('companies')
+      .select('name, email, billing_email')
+      .eq('id', companyId)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const to = company.billing_email || company.email;
+    if (!to) {
+      console.warn(`Company ${companyId} has no billing email - skipping reconnect email`);
+      return;
+    }
+
+    const outbox = new EmailOutbox(supabase);
+    const { id } = await outbox.enqueue('bank_reconnect', to, {
+      companyName: company.name,
+      institutionName,
+      reason: status,
+      reconnectUrl: `${FRONTEND_URL}/billing/reconnect-bank?itemId=${encodeURIComponent(itemId)}`,
+    }, { companyId });
+
+    const delivery = await outbox.deliver(id);
+    console.log(`Reconnect email ${id} for item ${itemId}: ${delivery.outcome}`);
+  } catch (error) {
+    console.error('Failed to queue reconnect email (non-fatal):', error);
+  }
+}
+
+/**
+ * Update an item's health status, emailing the owner when it newly needs
+ * re-authentication
+ *
+ * @returns Number of records updated
+ */
+async function updateItemHealth(
+  itemId: string,
+  updates: Partial<PlaidItemRecord> & { status: PlaidItemRecord['status'] }
+): Promise<number> {
+  const { data: previous, error } = await supabase
+    .from('plaid_items')
+    .select('company_id, status, institution_name')
+    .eq('item_id', itemId)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const updated = await updateItemRecord(itemId, updates);
+
+  if (
+    previous &&
+    previous.status !== updates.status &&
+    (updates.status === 'login_required' || updates.status === 'pending_expiration')
+  ) {
+    await sendReconnectEmail(previous.company_id, itemId, previous.institution_name, updates.status);
+  }
+
+  return updated;
+}
+
+/**
+ * ITEM webhooks - track item health
+ */
+async function handleItemWebhook(webhook: PlaidItemWebhook): Promise<number> {
+  switch (webhook.webhook_code) {
+    case 'ERROR': {
+      const errorCode = webhook.error?.error_code;
+      return updateItemHealth(webhook.item_id, {
+        status: errorCode === 'ITEM_LOGIN_REQUIRED' ? 'login_required' : 'error',
+        last_error: errorCode || 'UNKNOWN_ERROR'
+      });
+    }
+
+    case 'PENDING_EXPIRATION':
+      return updateItemHealth(webhook.item_id, {
+        status: 'pending_expiration',
+        consent_expiration_time: webhook.consent_expiration_time
+      });
+
+    // Fixed in update mode (here or in another app using the same login)
+    case 'LOGIN_REPAIRED':
+      return updateItemHealth(webhook.item_id, {
+        status: 'active',
+        last_error: null
+      });
+
+    case 'USER_PERMISSION_REVOKED':
+      return updateItemRecord(webhook.item_id, {
+        status: 'revoked',
+        is_active: false,
+        last_error: webhook.error?.error_code || 'USER_PERMISSION_REVOKED'
+      });
+
+    default:
+      console.log(`Ignoring ITEM webhook code ${webhook.webhook_code}`);
+      return 0;
+  }
+}
+
+/**
+ * AUTH webhooks - track account verification status
+ */
+async function handleAuthWebhook(webhook: PlaidAuthWebhook): Promise<number> {
+  switch (webhook.webhook_code) {
+    case 'AUTOMATICALLY_VERIFIED':
+      return updateItemRecord(
+        webhook.item_id,
+        { verification_status: 'automatically_verified' },
+        webhook.account_id
+      );
+
+    case 'VERIFICATION_EXPIRED':
+      return updateItemRecord(
+        webhook.item_id,
+        {
+          verification_status: 'verification_expired',
+          last_error: 'VERIFICATION_EXPIRED'
+        },
+        webhook.account_id
+      );
+
+    default:
+      console.log(`Ignoring AUTH webhook code ${webhook.webhook_code}`);
+      return 0;
+  }
+}
+
+/**
+ * Route a verified webhook to its handler
+ */
+async function routeWebhook(payload: PlaidWebhookPayload): Promise<number> {
+  switch (payload.webhook_type) {
+    case 'ITEM':
+      return handleItemWebhook(payload as PlaidItemWebhook);
+    case 'AUTH':
+      return handleAuthWebhook(payload as PlaidAuthWebhook);
+    default:
+      console.log(`Ignoring ${payload.webhook_type} webhook`);
+      return 0;
+  }
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== PLAID WEBHOOK HANDLER START ===');
+
+  // Only accept POST requests
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  // =========================================================================
+  // STEP 1: Verify Plaid-Verification JWT
+  // =========================================================================
+  console.log('Step 1: Verifying webhook...');
+  // The JWT signs a hash of the raw body - decode without re-serializing
+  const rawBody = event.isBase64Encoded
+    ? Buffer.from(event.body || '', 'base64').toString('utf8')
+    : event.body || '';
+
+  const verification = await verifyRequest(rawBody, event.headers);
+  if (!verification.valid || !verification.payload) {
+    console.error('Plaid webhook verification failed:', verification.error);
+    return jsonResponse(401, { received: false, error: verification.error });
+  }
+
+  const payload = verification.payload;
+  console.log('Verified webhook:', payload.webhook_type, payload.webhook_code);
+
+  try {
+    // =========================================================================
+    // STEP 2: Route to Handler
+    // =========================================================================
+    console.log('Step 2: Processing webhook...');
+    const updated = await routeWebhook(payload);
+
+    if (updated === 0) {
+      console.log('No stored item records changed for this webhook');
+    }
+
+    console.log('=== PLAID WEBHOOK PROCESSED ===');
+
+    return jsonResponse(200, {
+      received: true,
+      processed: true,
+      webhookType: payload.webhook_type,
+      webhookCode: payload.webhook_code,
+      recordsUpdated: updated
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN PLAID WEBHOOK HANDLER ===');
+    console.error(error);
+
+    // Non-2xx makes Plaid retry delivery
+    return jsonResponse(500, {
+      received: true,
+      processed: false,
+      error: 'Failed to process webhook'
+    });
+  }
+};
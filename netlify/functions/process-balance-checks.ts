@@ -0,0 +1,59 @@
+/**
+ * PROCESS BALANCE CHECKS - Scheduled recheck of debits held for low balance
+ *
+ * Runs on a schedule (see netlify.toml):
+ * 1. Find renewal invoices held as drafts whose recheck is due
+ * 2. Read the company's available balance through Plaid again
+ * 3. Finalize the invoice (Stripe starts the debit) once the balance covers
+ *    it or the plan's delays run out; otherwise hold it until the next check
+ *
+ * Per-plan thresholds and delays live in src/config/balanceCheckPolicy.ts.
+ * Every decision is logged to balance_checks.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import BalanceCheckService from '../../src/services/BalanceCheckService';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async () => {
+  console.log('=== PROCESS BALANCE CHECKS HANDLER START ===');
+
+  try {
+    const balanceChecks = new BalanceCheckService(supabase);
+    const summary = await balanceChecks.processDelayedDebits();
+
+    console.log(
+      `Processed ${summary.processed} held invoices: ${summary.released} released, ` +
+      `${summary.delayed} delayed again, ${summary.failed} failed`
+    );
+    console.log('=== PROCESS BALANCE CHECKS COMPLETE ===');
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: true, ...summary })
+    };
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN PROCESS BALANCE CHECKS HANDLER ===');
+    console.error(error);
+
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Balance check run failed' })
+    };
+  }
+};
@@ -0,0 +1,61 @@
+/**
+ * PROCESS DUNNING - Scheduled dunning run for failed ACH payments
+ *
+ * Runs on a schedule (see netlify.toml):
+ * 1. Advance open dunning cases to the stage matching their age
+ *    (past_due → grace_period → restricted → suspended)
+ * 2. Email the company's billing contact once per stage
+ * 3. Retry invoices whose retry is due (the result arrives by webhook)
+ *
+ * Stage timing and the retry schedule live in src/config/dunningPolicy.ts.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import StripeService from '../../src/services/StripeService';
+import DunningService from '../../src/services/DunningService';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async () => {
+  console.log('=== PROCESS DUNNING HANDLER START ===');
+
+  try {
+    const dunning = new DunningService(supabase, {
+      stripe: StripeService.getInstance()
+    });
+    const summary = await dunning.processOpenCases();
+
+    console.log(
+      `Processed ${summary.processed} cases: ${summary.advanced} advanced, ${summary.emailsSent} emails, ` +
+      `${summary.retried} retries, ${summary.recovered} recovered, ${summary.failed} failed`
+    );
+    console.log('=== PROCESS DUNNING COMPLETE ===');
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: true, ...summary })
+    };
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN PROCESS DUNNING HANDLER ===');
+    console.error(error);
+
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Dunning run failed' })
+    };
+  }
+};
@@ -0,0 +1,58 @@
+/**
+ * PROCESS EMAIL OUTBOX - Scheduled delivery of queued transactional emails
+ *
+ * Runs on a schedule (see netlify.toml):
+ * 1. Claim email_outbox rows whose next attempt is due (including rows left
+ *    in 'sending' by a run that died - their lease has run out)
+ * 2. Render and send each through the configured email transport
+ * 3. Failures are retried after 1m, 5m, 15m, 1h, 4h and 12h, then marked
+ *    failed for support to follow up
+ *
+ * Delivery, bounce and open status arrive later through sendgrid-events.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import EmailOutbox from '../../src/services/EmailOutbox';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async () => {
+  console.log('=== PROCESS EMAIL OUTBOX HANDLER START ===');
+
+  try {
+    const summary = await new EmailOutbox(supabase).drain();
+
+    console.log(
+      `Claimed ${summary.claimed} emails: ${summary.sent} sent, ` +
+      `${summary.retrying} to retry, ${summary.failed} failed`
+    );
+    console.log('=== PROCESS EMAIL OUTBOX COMPLETE ===');
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: true, ...summary })
+    };
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN PROCESS EMAIL OUTBOX HANDLER ===');
+    console.error(error);
+
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Email outbox run failed' })
+    };
+  }
+};
@@ -0,0 +1,503 @@
+/**
+ * PROCESS INITIAL PAYMENT - Start the subscription after SetupIntent confirmation
+ *
+ * Called by OnboardingFlow's PaymentForm once stripe.confirmSetup() succeeds:
+ * 1. Input validation
+ * 2. SetupIntent check - the caller's client secret must match the
+ *    SetupIntent, and it must belong to the customer and payment method sent
+ * 3. Idempotency check (company already provisioned for this Stripe customer)
+ * 4. Attach + default the confirmed bank payment method
+ * 5. Create Supabase Auth user, company and owner user records
+ * 6. Create the Stripe subscription for the selected tier (starts the first
+ *    ACH debit - only once the owner has an account)
+ * 7. Record the first subscription payment
+ * 8. Discard the saved onboarding draft (see registration-draft)
+ *
+ * IDEMPOTENCY: A double click or browser retry must never create two
+ * subscriptions. The Stripe customer ID is the anchor:
+ * - The subscription is created with an idempotency key covering every
+ *   request value (customer, company, tier, payment method)
+ * - An existing company for the customer short-circuits or resumes the flow
+ * - companies.email is UNIQUE, so a concurrent request loses the insert race
+ * - The payments row is only written once per subscription
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import StripeService from '../../src/services/StripeService';
+import { getPlanPrice } from '../../src/config/planCatalog';
+import { toCompanySubscriptionStatus } from '../../src/services/StripeWebhookProcessor';
+import RegistrationDraftService from '../../src/services/RegistrationDraftService';
+import {
+  TRADESPHERE_PLAN_TYPES,
+  isTradespherePlanType,
+  centsToDollars,
+} from '../../src/types/stripe-payment';
+import type {
+  TradespherePlanType,
+  CreateStripeSubscriptionResponse,
+} from '../../src/types/stripe-payment';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// Email validation regex
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Postgres unique_violation error code
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Request body interface for initial payment
+ */
+interface InitialPaymentRequest {
+  customerId: string;
+  paymentMethodId: string;
+
+  // Client secret from create-subscription-setup - proves the caller owns
+  // the SetupIntent (and so the customer)
+  setupIntentClientSecret: string;
+
+  companyEmail: string;
+  companyName: string;
+  ownerName: string;
+  subscriptionTier: TradespherePlanType;
+}
+
+/**
+ * Existing company row used for idempotency checks
+ */
+interface ExistingCompany {
+  id: string;
+  owner_id: string | null;
+  stripe_subscription_id: string | null;
+  subscription_status: string | null;
+}
+
+/**
+ * Validate all required payment fields
+ */
+function validatePaymentRequest(data: Partial<InitialPaymentRequest>): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!data.customerId?.startsWith('cus_')) errors.push('A valid customer ID is required');
+  if (!data.paymentMethodId?.startsWith('pm_')) errors.push('A valid payment method ID is required');
+  if (!data.setupIntentClientSecret?.startsWith('seti_')) errors.push('A valid SetupIntent client secret is required');
+  if (!data.companyEmail?.trim()) errors.push('Company email is required');
+  if (!data.companyName?.trim()) errors.push('Company name is required');
+  if (!data.ownerName?.trim()) errors.push('Owner name is required');
+  if (!data.subscriptionTier) errors.push('Subscription tier is required');
+
+  if (data.companyEmail && !EMAIL_REGEX.test(data.companyEmail)) {
+    errors.push('Invalid email format');
+  }
+
+  if (data.subscriptionTier && !isTradespherePlanType(data.subscriptionTier)) {
+    errors.push(`Subscription tier must be one of: ${TRADESPHERE_PLAN_TYPES.join(', ')}`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Find the company already provisioned for a Stripe customer
+ */
+async function findCompanyByCustomer(customerId: string): Promise<ExistingCompany | null> {
+  const { data, error } = await supabase
+    .from('companies')
+    .select('id, owner_id, stripe_subscription_id, subscription_status')
+    .eq('stripe_customer_id', customerId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Split an owner's full name into first and last names
+ */
+function splitOwnerName(ownerName: string): { firstName: string; lastName: string } {
+  const [firstName, ...rest] = ownerName.trim().split(/\s+/);
+  return { firstName, lastName: rest.join(' ') };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== PROCESS INITIAL PAYMENT HANDLER START ===');
+
+  // Only accept POST requests
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  // Track created auth user for rollback
+  let authUserId: string | null = null;
+
+  try {
+    let data: InitialPaymentRequest;
+    try {
+      data = JSON.parse(event.body || '{}');
+    } catch {
+      return jsonResponse(400, { error: 'Invalid JSON', message: 'Request body must be valid JSON.' });
+    }
+
+    // =========================================================================
+    // STEP 1: Input Validation
+    // =========================================================================
+    console.log('Step 1: Validating input...');
+    const validation = validatePaymentRequest(data);
+    if (!validation.valid) {
+      console.error('Validation failed:', validation.errors);
+      return jsonResponse(400, {
+        error: 'Validation failed',
+        message: validation.errors.join('. ')
+      });
+    }
+
+    const companyEmail = data.companyEmail.trim().toLowerCase();
+    const companyName = data.companyName.trim();
+    const ownerName = data.ownerName.trim();
+    const amount = getPlanPrice(data.subscriptionTier);
+    const stripe = StripeService.getInstance();
+
+    // =========================================================================
+    // STEP 2: Verify the Caller Owns the SetupIntent
+    // =========================================================================
+    // Only the browser that ran create-subscription-setup has the client
+    // secret - without this check any customer ID could be billed
+    console.log('Step 2: Verifying SetupIntent...');
+    const setupIntentResult = await stripe.getSetupIntentByClientSecret(data.setupIntentClientSecret);
+    const setupIntent = setupIntentResult.data;
+    if (
+      !setupIntentResult.success ||
+      !setupIntent ||
+      setupIntent.customerId !== data.customerId ||
+      setupIntent.paymentMethodId !== data.paymentMethodId ||
+      setupIntent.status !== 'succeeded' ||
+      (setupIntent.metadata.company_email || '').toLowerCase() !== companyEmail ||
+      // The tier is part of the subscription idempotency key - a retry with
+      // another tier would get a second subscription
+      setupIntent.metadata.subscription_tier !== data.subscriptionTier
+    ) {
+      console.error('SetupIntent does not match request:', setupIntentResult.error || setupIntent?.setupIntentId);
+      return jsonResponse(403, {
+        error: 'SETUP_INTENT_MISMATCH',
+        message: 'Your bank account setup could not be verified. Please start again.'
+      });
+    }
+
+    // =========================================================================
+    // STEP 3: Idempotency Check
+    // =========================================================================
+    console.log('Step 3: Checking for existing company...');
+    let company = await findCompanyByCustomer(data.customerId);
+
+    if (company?.stripe_subscription_id) {
+      console.log('Company already provisioned - returning existing result:', company.id);
+      return jsonResponse(200, {
+        success: true,
+        alreadyProcessed: true,
+        companyId: company.id,
+        subscriptionId: company.stripe_subscription_id,
+        subscriptionStatus: company.subscription_status
+      });
+    }
+
+    // =========================================================================
+    // STEP 4: Attach and Default Payment Method
+    // =========================================================================
+    console.log('Step 4: Attaching payment method...');
+    const methodsResult = await stripe.getPaymentMethods(data.customerId, 'us_bank_account');
+    if (!methodsResult.success) {
+      return jsonResponse(500, {
+        error: methodsResult.error?.code || 'PAYMENT_METHOD_LOOKUP_FAILED',
+        message: methodsResult.error?.userMessage || 'Unable to verify your bank account.'
+      });
+    }
+
+    // confirmSetup() normally attaches the method already - only attach if missing
+    const alreadyAttached = methodsResult.data?.some(pm => pm.id === data.paymentMethodId);
+    if (!alreadyAttached) {
+      const attachResult = await stripe.attachPaymentMethod(data.paymentMethodId, data.customerId);
+      if (!attachResult.success) {
+        return jsonResponse(400, {
+          error: attachResult.error?.code || 'PAYMENT_METHOD_ATTACH_FAILED',
+          message: attachResult.error?.userMessage || 'Unable to attach your bank account.'
+        });
+      }
+    }
+
+    const defaultResult = await stripe.setDefaultPaymentMethod(data.customerId, data.paymentMethodId);
+    if (!defaultResult.success) {
+      return jsonResponse(500, {
+        error: defaultResult.error?.code || 'DEFAULT_PAYMENT_METHOD_FAILED',
+        message: defaultResult.error?.userMessage || 'Unable to save your bank account.'
+      });
+    }
+
+    // =========================================================================
+    // STEP 5: Create Auth User, Company and Owner Records
+    // =========================================================================
+    // Before the subscription: it debits the bank right away, so the owner
+    // must already have an account when it starts
+    console.log('Step 5: Provisioning company...');
+    const now = new Date();
+
+    if (company) {
+      console.log('Resuming with existing company:', company.id);
+    } else {
+      const { firstName, lastName } = splitOwnerName(ownerName);
+
+      const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
+        email: companyEmail,
+        email_confirm: true,
+        user_metadata: {
+          first_name: firstName,
+          last_name: lastName,
+          full_name: ownerName
+        }
+      });
+
+      if (authError || !authUser?.user) {
+        // A concurrent request may have provisioned this owner in the meantime
+        company = await findCompanyByCustomer(data.customerId);
+        if (!company) {
+          console.error('Auth user creation failed:', authError);
+          return jsonResponse(409, {
+            error: 'Account creation failed',
+            message: 'An account with this email already exists. Please sign in or contact support.'
+          });
+        }
+        console.log('Company provisioned by concurrent request:', company.id);
+      } else {
+        authUserId = authUser.user.id;
+        console.log('Auth user created:', authUserId);
+
+        const { data: newCompany, error: companyError } = await supabase
+          .from('companies')
+          .insert({
+            name: companyName,
+            owner_id: authUserId,
+            email: companyEmail,
+            billing_email: companyEmail,
+            billing_name: ownerName,
+            subscription_status: 'pending',
+            subscription_tier: data.subscriptionTier,
+            monthly_amount: amount,
+            stripe_customer_id: data.customerId,
+            stripe_payment_method_id: data.paymentMethodId,
+            stripe_setup_intent_id: setupIntent.setupIntentId,
+            payment_method_status: 'verified',
+            payment_failure_count: 0,
+            created_at: now.toISOString(),
+            updated_at: now.toISOString()
+          })
+          .select('id, owner_id, stripe_subscription_id, subscription_status')
+          .single();
+
+        if (companyError || !newCompany) {
+          // Rollback: the auth user is useless without a company
+          console.log('Rolling back: Deleting auth user...');
+          await supabase.auth.admin.deleteUser(authUserId).catch(rollbackError => {
+            console.error('Rollback failed:', rollbackError);
+          });
+          authUserId = null;
+
+          if (companyError?.code === UNIQUE_VIOLATION) {
+            return jsonResponse(409, {
+              error: 'Company already exists',
+              message: 'A company with this email is already registered. Please sign in or contact support.'
+            });
+          }
+
+          throw companyError || new Error('Failed to create company record');
+        }
+
+        company = newCompany;
+        console.log('Company created:', newCompany.id);
+
+        const { error: userError } = await supabase
+          .from('users')
+          .insert({
+            id: authUserId,
+            company_id: newCompany.id,
+            email: companyEmail,
+            name: ownerName,
+            role: 'owner',
+            is_owner: true,
+            created_at: now.toISOString(),
+            updated_at: now.toISOString()
+          });
+
+        if (userError) {
+          // Log error but don't fail - user record can be created manually later
+          console.error('User record creation failed (non-fatal):', userError);
+        }
+      }
+    }
+
+    // The account is complete - a later failure must not delete it, a retry
+    // resumes from the company created here
+    authUserId = null;
+
+    // =========================================================================
+    // STEP 6: Create Subscription
+    // =========================================================================
+    console.log('Step 6: Creating subscription...');
+    const subscriptionResult = await stripe.createSubscription({
+      customerId: data.customerId,
+      amount,
+      interval: 'month',
+      companyId: company.id,
+      planType: data.subscriptionTier,
+      defaultPaymentMethodId: data.paymentMethodId,
+      // Initiate the first ACH debit now instead of waiting for confirmation
+      paymentBehavior: 'allow_incomplete',
+      // Every value in the request is part of the key, so a retry sends
+      // identical params (Stripe rejects a reused key with different ones)
+      idempotencyKey: `initial-subscription-${data.customerId}-${company.id}-${data.subscriptionTier}-${data.paymentMethodId}`,
+      metadata: {
+        company_email: companyEmail,
+        signup_source: 'onboarding'
+      }
+    });
+
+    if (!subscriptionResult.success || !subscriptionResult.data) {
+      // Nothing was charged - the company waits (subscription_status
+      // 'pending') for a retry
+      const isInFlight = subscriptionResult.error?.code === 'idempotency_error';
+      return jsonResponse(isInFlight ? 409 : 500, {
+        error: subscriptionResult.error?.code || 'SUBSCRIPTION_FAILED',
+        message: isInFlight
+          ? 'Your subscription is already being set up. Please wait a moment.'
+          : subscriptionResult.error?.userMessage || 'Unable to start your subscription.'
+      });
+    }
+
+    const { subscriptionId, subscription, paymentIntent }: CreateStripeSubscriptionResponse =
+      subscriptionResult.data;
+    const subscriptionStatus = toCompanySubscriptionStatus(subscription.status);
+    const nextBillingDate = new Date(subscription.current_period_end * 1000);
+    console.log('Subscription created:', subscriptionId, '- Status:', subscription.status);
+
+    const { error: updateError } = await supabase
+      .from('companies')
+      .update({
+        subscription_status: subscriptionStatus,
+        next_billing_date: nextBillingDate.toISOString().split('T')[0],
+        billing_cycle_day: nextBillingDate.getDate(),
+        stripe_subscription_id: subscriptionId,
+        updated_at: now.toISOString()
+      })
+      .eq('id', company.id);
+
+    if (updateError) {
+      // The subscription carries company_id metadata - the
+      // customer.subscription.created webhook links it as well
+      console.error('Failed to link subscription to company (non-fatal):', updateError);
+    }
+
+    // =========================================================================
+    // STEP 7: Record First Payment
+    // =========================================================================
+    console.log('Step 7: Recording first payment...');
+    const { data: existingPayment } = await supabase
+      .from('payments')
+      .select('id')
+      .eq('stripe_subscription_id', subscriptionId)
+      .limit(1)
+      .maybeSingle();
+
+    if (existingPayment) {
+      console.log('Payment already recorded:', existingPayment.id);
+    } else {
+      const { error: paymentError } = await supabase
+        .from('payments')
+        .insert({
+          company_id: company.id,
+          amount: paymentIntent ? centsToDollars(paymentIntent.amount) : amount,
+          status: paymentIntent?.status === 'processing' ? 'processing' : 'pending',
+          payment_type: 'initial_subscription',
+          stripe_payment_intent_id: paymentIntent?.id || null,
+          stripe_subscription_id: subscriptionId,
+          stripe_invoice_id: subscription.latest_invoice || null,
+          subscription_period_start: new Date(subscription.current_period_start * 1000)
+            .toISOString().split('T')[0],
+          subscription_period_end: nextBillingDate.toISOString().split('T')[0],
+          metadata: {
+            subscription_tier: data.subscriptionTier,
+            stripe_customer_id: data.customerId
+          }
+        });
+
+      if (paymentError) {
+        // Webhooks will reconcile the payment record - don't fail the signup
+        console.error('Payment record creation failed (non-fatal):', paymentError);
+      }
+    }
+
+    // Mark the SetupIntent as used (NON-FATAL)
+    await supabase
+      .from('stripe_setup_intents')
+      .update({ status: 'succeeded', updated_at: now.toISOString() })
+      .eq('setup_intent_id', setupIntent.setupIntentId);
+
+    // Saved onboarding progress is no longer needed (NON-FATAL)
+    await new RegistrationDraftService(supabase).discardForEmail('onboarding', companyEmail);
+
+    console.log('=== INITIAL PAYMENT PROCESSED ===');
+
+    return jsonResponse(200, {
+      success: true,
+      alreadyProcessed: false,
+      companyId: company.id,
+      subscriptionId,
+      subscriptionStatus,
+      paymentStatus: paymentIntent?.status || null
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN INITIAL PAYMENT HANDLER ===');
+    console.error(error);
+
+    if (authUserId) {
+      console.log('Attempting to rollback auth user...');
+      try {
+        await supabase.auth.admin.deleteUser(authUserId);
+        console.log('Auth user rolled back');
+      } catch (rollbackError) {
+        console.error('Rollback failed:', rollbackError);
+      }
+    }
+
+    return jsonResponse(500, {
+      error: 'Payment processing failed',
+      message: 'An unexpected error occurred. Please try again or contact support.'
+    });
+  }
+};
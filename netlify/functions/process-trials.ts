@@ -0,0 +1,62 @@
+/**
+ * PROCESS TRIALS - Scheduled free trial run
+ *
+ * Runs on a schedule (see netlify.toml):
+ * 1. Queue the trial_ending reminder 7, 3 and 1 days before a trial ends
+ * 2. Move trials that are over to 'converting' (Stripe is debiting the
+ *    verified bank) or 'expired' (no bank - subscription paused, owner
+ *    emailed)
+ * 3. Resume expired trials whose owner has since verified a bank account
+ *
+ * Reminder days and extension limits live in src/config/trialPolicy.ts.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import StripeService from '../../src/services/StripeService';
+import TrialService from '../../src/services/TrialService';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async () => {
+  console.log('=== PROCESS TRIALS HANDLER START ===');
+
+  try {
+    const trials = new TrialService(supabase, {
+      stripe: StripeService.getInstance()
+    });
+    const summary = await trials.processTrials();
+
+    console.log(
+      `Processed ${summary.processed} trials: ${summary.remindersQueued} reminders, ` +
+      `${summary.converting} converting, ${summary.expired} expired, ${summary.resumed} resumed, ${summary.failed} failed`
+    );
+    console.log('=== PROCESS TRIALS COMPLETE ===');
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: true, ...summary })
+    };
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN PROCESS TRIALS HANDLER ===');
+    console.error(error);
+
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Trial run failed' })
+    };
+  }
+};
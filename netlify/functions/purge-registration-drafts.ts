@@ -0,0 +1,50 @@
+/**
+ * PURGE REGISTRATION DRAFTS - Scheduled cleanup of expired signup drafts
+ *
+ * Runs on a schedule (see netlify.toml). Expired drafts can no longer be
+ * resumed (RegistrationDraftService ignores them); this deletes the rows so
+ * unfinished signups are not kept past REGISTRATION_DRAFT_TTL_HOURS.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import RegistrationDraftService from '../../src/services/RegistrationDraftService';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async () => {
+  console.log('=== PURGE REGISTRATION DRAFTS HANDLER START ===');
+
+  try {
+    const deleted = await new RegistrationDraftService(supabase).purgeExpired();
+
+    console.log(`Deleted ${deleted} expired registration drafts`);
+    console.log('=== PURGE REGISTRATION DRAFTS COMPLETE ===');
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: true, deleted })
+    };
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN PURGE REGISTRATION DRAFTS HANDLER ===');
+    console.error(error);
+
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Draft purge failed' })
+    };
+  }
+};
@@ -0,0 +1,145 @@
+/**
+ * REGISTRATION DRAFT - Save and resume unfinished signups
+ *
+ * Public (the resume token is the credential):
+ * - POST { flow, step, data, token? } → save progress. Without a token a
+ *   new draft is created and the owner is emailed a resume link; the
+ *   response carries the token for later saves. A save whose email differs
+ *   from the draft's gets a 409 - the client starts a new draft instead.
+ * - GET ?token= → the saved step and form values
+ * - DELETE ?token= → discard the draft ("start over")
+ *
+ * flow is 'owner_registration' (/signup) or 'onboarding' (/onboarding).
+ * Passwords, bank details and consent checkboxes are never stored - see
+ * RegistrationDraftService for the fields that are.
+ *
+ * Drafts expire REGISTRATION_DRAFT_TTL_HOURS (default 72) after their last
+ * save; purge-registration-drafts deletes them.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import RegistrationDraftService, { isRegistrationFlow } from '../../src/services/RegistrationDraftService';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// Environment variables
+const REGISTRATION_DRAFT_SECRET = process.env.REGISTRATION_DRAFT_SECRET;
+
+// HTTP status for each failed outcome
+const OUTCOME_STATUS: Record<string, number> = {
+  invalid: 400,
+  not_found: 404,
+  email_changed: 409
+};
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== REGISTRATION DRAFT HANDLER START ===');
+
+  if (!['GET', 'POST', 'DELETE'].includes(event.httpMethod)) {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  if (!REGISTRATION_DRAFT_SECRET) {
+    console.error('REGISTRATION_DRAFT_SECRET not configured');
+    return jsonResponse(500, { error: 'Drafts not configured', message: 'Saving progress is not available right now.' });
+  }
+
+  try {
+    const drafts = new RegistrationDraftService(supabase, { secret: REGISTRATION_DRAFT_SECRET });
+
+    // =========================================================================
+    // GET / DELETE: By Resume Token
+    // =========================================================================
+    if (event.httpMethod !== 'POST') {
+      const token = event.queryStringParameters?.token;
+      if (!token) {
+        return jsonResponse(400, { error: 'Validation failed', message: 'Resume token is required.' });
+      }
+
+      if (event.httpMethod === 'DELETE') {
+        const discarded = await drafts.discard(token);
+        console.log(discarded ? 'Registration draft discarded' : 'No registration draft to discard');
+        return jsonResponse(200, { success: true, discarded });
+      }
+
+      const draft = await drafts.load(token);
+      if (!draft) {
+        return jsonResponse(404, {
+          error: 'NOT_FOUND',
+          message: 'This link has expired or is no longer valid. Please start again.'
+        });
+      }
+
+      return jsonResponse(200, { success: true, draft });
+    }
+
+    // =========================================================================
+    // POST: Save Progress
+    // =========================================================================
+    let data: { flow?: unknown; step?: unknown; data?: unknown; token?: unknown };
+    try {
+      data = JSON.parse(event.body || '{}');
+    } catch {
+      return jsonResponse(400, { error: 'Invalid JSON', message: 'Request body must be valid JSON.' });
+    }
+
+    if (!isRegistrationFlow(data.flow) || typeof data.data !== 'object' || data.data === null) {
+      return jsonResponse(400, { error: 'Validation failed', message: 'flow and data are required.' });
+    }
+
+    const result = await drafts.save(data.flow, {
+      step: Number(data.step),
+      data: data.data as Record<string, unknown>,
+      token: typeof data.token === 'string' ? data.token : null
+    });
+
+    if (OUTCOME_STATUS[result.outcome]) {
+      return jsonResponse(OUTCOME_STATUS[result.outcome], {
+        error: result.outcome.toUpperCase(),
+        message: result.message
+      });
+    }
+
+    console.log(`Registration draft ${result.outcome} (${data.flow}, step ${data.step})`);
+    console.log('=== REGISTRATION DRAFT COMPLETE ===');
+
+    return jsonResponse(200, {
+      success: true,
+      outcome: result.outcome,
+      message: result.message,
+      token: result.token,
+      draft: result.draft
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN REGISTRATION DRAFT HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: 'Your progress could not be saved. Please try again.'
+    });
+  }
+};
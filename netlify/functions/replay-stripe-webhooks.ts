@@ -0,0 +1,90 @@
+/**
+ * REPLAY STRIPE WEBHOOKS - Admin-triggered reprocessing of failed events
+ *
+ * Reprocesses stripe_webhooks rows where processed = false (oldest first):
+ * 1. Authenticate with the X-Admin-Key header (ADMIN_API_KEY)
+ * 2. Select unprocessed events (optionally filtered by event ID)
+ * 3. Re-run each event through the same handlers as stripe-webhook
+ *
+ * Request body (all optional):
+ * { eventIds?: string[], limit?: number, maxRetries?: number }
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import { isAdminRequest } from '../../src/services/AdminAuth';
+import StripeWebhookProcessor from '../../src/services/StripeWebhookProcessor';
+import type { ReplayOptions } from '../../src/services/StripeWebhookProcessor';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// Upper bound per invocation (keeps replay within the function timeout)
+const MAX_REPLAY_LIMIT = 100;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== REPLAY STRIPE WEBHOOKS HANDLER START ===');
+
+  // Only accept POST requests
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  if (!isAdminRequest(event.headers)) {
+    return jsonResponse(401, { error: 'Unauthorized', message: 'A valid admin key is required.' });
+  }
+
+  let options: ReplayOptions;
+  try {
+    options = JSON.parse(event.body || '{}');
+  } catch {
+    return jsonResponse(400, { error: 'Invalid JSON', message: 'Request body must be valid JSON.' });
+  }
+
+  if (options.eventIds && !Array.isArray(options.eventIds)) {
+    return jsonResponse(400, { error: 'Validation failed', message: 'eventIds must be an array' });
+  }
+
+  try {
+    const processor = new StripeWebhookProcessor(supabase);
+    const summary = await processor.replayUnprocessed({
+      eventIds: options.eventIds,
+      limit: Math.min(Math.max(Number(options.limit) || 50, 1), MAX_REPLAY_LIMIT),
+      maxRetries: options.maxRetries
+    });
+
+    console.log(`Replayed ${summary.attempted} events: ${summary.succeeded} succeeded, ${summary.failed} failed`);
+    console.log('=== REPLAY COMPLETE ===');
+
+    return jsonResponse(200, { success: true, ...summary });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN REPLAY HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Replay failed',
+      message: 'Failed to load unprocessed webhook events.'
+    });
+  }
+};
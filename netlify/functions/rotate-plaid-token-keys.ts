@@ -0,0 +1,87 @@
+/**
+ * ROTATE PLAID TOKEN KEYS - Admin-triggered re-wrap of stored access tokens
+ *
+ * After a new key is added to PLAID_TOKEN_KEYS and made active
+ * (PLAID_TOKEN_ACTIVE_KEY_ID):
+ * 1. Authenticate with the X-Admin-Key header (ADMIN_API_KEY)
+ * 2. Re-wrap plaid_items rows still on older keys with the active key
+ *
+ * Old keys keep decrypting until every row is moved - call repeatedly until
+ * scanned is 0, then remove the old key from PLAID_TOKEN_KEYS.
+ *
+ * Request body (optional): { limit?: number }
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import { isAdminRequest } from '../../src/services/AdminAuth';
+import PlaidItemRepository from '../../src/services/PlaidItemRepository';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// Upper bound per invocation (keeps rotation within the function timeout)
+const MAX_ROTATION_LIMIT = 500;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== ROTATE PLAID TOKEN KEYS HANDLER START ===');
+
+  // Only accept POST requests
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  if (!isAdminRequest(event.headers)) {
+    return jsonResponse(401, { error: 'Unauthorized', message: 'A valid admin key is required.' });
+  }
+
+  let options: { limit?: number };
+  try {
+    options = JSON.parse(event.body || '{}');
+  } catch {
+    return jsonResponse(400, { error: 'Invalid JSON', message: 'Request body must be valid JSON.' });
+  }
+
+  try {
+    const repository = new PlaidItemRepository(supabase);
+    const summary = await repository.rotateKeys({
+      limit: Math.min(Math.max(Number(options.limit) || 100, 1), MAX_ROTATION_LIMIT)
+    });
+
+    console.log(
+      `Rotated ${summary.rotated} of ${summary.scanned} rows to key ${summary.activeKeyId} (${summary.failed} failed)`
+    );
+    console.log('=== KEY ROTATION COMPLETE ===');
+
+    return jsonResponse(200, { success: true, ...summary });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN KEY ROTATION HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Key rotation failed',
+      message: 'Failed to rotate Plaid token encryption keys.'
+    });
+  }
+};
@@ -0,0 +1,104 @@
+/**
+ * SENDGRID EVENTS - Delivery, bounce and open tracking for outbox emails
+ *
+ * Endpoint configured as the SendGrid Event Webhook (with signing enabled):
+ * 1. Verify the ECDSA signature against SENDGRID_WEBHOOK_VERIFICATION_KEY
+ * 2. Log each event in email_events (deduplicated by sg_event_id)
+ * 3. Update the matching email_outbox row (found through the outbox_id
+ *    custom arg every outbox email carries)
+ *
+ * RESPONSES:
+ * - 401: signature invalid
+ * - 200: events recorded (duplicates and unknown emails included)
+ * - 500: recording failed - SendGrid retries the batch
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import EmailOutbox from '../../src/services/EmailOutbox';
+import { verifySendGridEventSignature } from '../../src/services/EmailTransport';
+import type { SendGridEvent } from '../../src/services/EmailOutbox';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// Environment variables
+const SENDGRID_WEBHOOK_VERIFICATION_KEY = process.env.SENDGRID_WEBHOOK_VERIFICATION_KEY;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== SENDGRID EVENTS HANDLER START ===');
+
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  if (!SENDGRID_WEBHOOK_VERIFICATION_KEY) {
+    console.error('SENDGRID_WEBHOOK_VERIFICATION_KEY not configured');
+    return jsonResponse(500, { error: 'Webhook verification key not configured' });
+  }
+
+  // =========================================================================
+  // STEP 1: Verify Signature
+  // =========================================================================
+  // Signature is computed over the raw body - decode without re-serializing
+  const payload = event.isBase64Encoded
+    ? Buffer.from(event.body || '', 'base64').toString('utf8')
+    : event.body || '';
+  const signature = event.headers['x-twilio-email-event-webhook-signature'] || '';
+  const timestamp = event.headers['x-twilio-email-event-webhook-timestamp'] || '';
+
+  if (!verifySendGridEventSignature(SENDGRID_WEBHOOK_VERIFICATION_KEY, payload, signature, timestamp)) {
+    console.error('SendGrid event signature verification failed');
+    return jsonResponse(401, { error: 'Invalid signature' });
+  }
+
+  let events: SendGridEvent[];
+  try {
+    const parsed = JSON.parse(payload);
+    events = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return jsonResponse(400, { error: 'Invalid JSON', message: 'Request body must be a JSON array of events.' });
+  }
+
+  try {
+    // =========================================================================
+    // STEP 2: Record Events and Update Outbox Rows
+    // =========================================================================
+    const summary = await new EmailOutbox(supabase, { transport: null }).recordEvents(events);
+
+    console.log(
+      `Received ${summary.received} events: ${summary.recorded} recorded, ` +
+      `${summary.duplicates} duplicates, ${summary.unmatched} for emails outside the outbox`
+    );
+    console.log('=== SENDGRID EVENTS COMPLETE ===');
+
+    return jsonResponse(200, { success: true, ...summary });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN SENDGRID EVENTS HANDLER ===');
+    console.error(error);
+
+    // Non-2xx makes SendGrid retry the batch (recorded events are deduplicated)
+    return jsonResponse(500, { error: 'Failed to record email events' });
+  }
+};
@@ -2,13 +2,33 @@
  * SIGNUP WITH PAYMENT - Complete owner registration flow
  *
  * This Netlify function handles the complete owner signup process including:
- * 1. Input validation
- * 2. Dwolla customer creation
- * 3. Bank account setup
- * 4. Micro-deposit initiation
+ * 1. Input validation and email reservation (signup_attempts - a second
+ *    signup for the same email gets a 409 instead of a duplicate account)
+ * 2. Plaid public token exchange (bank linked via Plaid Link in the browser)
+ * 3. Plaid → Stripe processor token
+ * 4. Stripe customer + ACH payment method creation
  * 5. Supabase Auth user creation
- * 6. Company and user record creation
- * 7. Welcome email sending
+ * 6. Company, linked bank account (encrypted Plaid token) and user records
+ * 7. Stripe subscription creation (trial ends at the server-computed
+ *    trial_ends_at - see TrialService)
+ * 8. Welcome email (queued in email_outbox, sent right away when possible)
+ *
+ * ROLLBACK: Steps that create external resources run through a SagaRunner.
+ * On failure their compensations run in reverse order (cancel subscription,
+ * delete company, delete auth user, detach payment method, delete customer,
+ * remove the Plaid item);
+ * progress is persisted to saga_runs so finish-saga-rollbacks can complete
+ * a rollback that was cut off.
+ *
+ * Raw routing/account numbers never reach this function - Plaid Link returns
+ * a short-lived public token and the selected account ID instead.
+ *
+ * MICRO-DEPOSIT FALLBACK: for banks Plaid cannot verify instantly, the
+ * browser confirms a micro-deposit SetupIntent (create-subscription-setup)
+ * with Stripe.js and sends stripeSetupIntentId instead of the Plaid fields.
+ * Steps 2-3 are skipped, the SetupIntent's customer is reused and the
+ * company starts with payment_method_status 'pending' until the owner
+ * verifies the deposits on /verify-bank.
  *
  * CRITICAL: The companies table HAS an owner_id column (uuid, nullable).
  * This links the company directly to its owner's Auth user ID for quick lookups.
@@ -16,13 +36,28 @@
 
 import { Handler } from '@netlify/functions';
 import { createClient } from '@supabase/supabase-js';
-import DwollaService from '../../src/services/DwollaService';
+import PlaidService from '../../src/services/PlaidService';
+import PlaidItemRepository from '../../src/services/PlaidItemRepository';
+import { TokenKeyring } from '../../src/services/TokenEncryption';
+import StripeService from '../../src/services/StripeService';
+import BankVerificationService from '../../src/services/BankVerificationService';
+import EmailOutbox from '../../src/services/EmailOutbox';
+import { calculateTrialEnd, toTrialEndDate } from '../../src/services/TrialService';
+import { PLAN_TRIAL_DAYS, getPlanPrice } from '../../src/config/planCatalog';
+import SagaRunner from '../../src/services/SagaRunner';
+import SignupReservationService, { normalizeSignupEmail } from '../../src/services/SignupReservationService';
+import RegistrationDraftService from '../../src/services/RegistrationDraftService';
+import { SIGNUP_SAGA_TYPE, createSignupCompensations } from '../../src/services/SignupSaga';
+import {
+  TRADESPHERE_PLAN_TYPES,
+  isTradespherePlanType,
+} from '../../src/types/stripe-payment';
 import type {
-  CreateCustomerParams,
-  CreateFundingSourceParams,
-  BusinessType,
-  FundingSourceType
-} from '../../src/types/payment';
+  StripeAccountHolderType,
+  StripeSetupIntentDetails,
+  TradespherePlanType,
+} from '../../src/types/stripe-payment';
+import type { PlaidAccountDetails } from '../../src/types/plaid';
 
 // Initialize Supabase client with service role key for admin operations
 const supabaseUrl = process.env.VITE_SUPABASE_URL!;
@@ -36,22 +71,14 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey, {
 
 // Environment variables
 const APP_URL = process.env.APP_URL || 'https://app.tradesphere.com';
-const FROM_EMAIL = process.env.FROM_EMAIL || 'noreply@tradesphere.com';
-const SENDGRID_API_KEY = process.env.SENDGRID_API_KEY;
-
-// Plan pricing in dollars (stored as numeric in DB)
-const PLAN_PRICING = {
-  standard: 2000.00,  // $2000/month
-  pro: 3500.00,       // $3500/month
-  enterprise: 5000.00 // $5000/month
-};
+const FRONTEND_URL = process.env.FRONTEND_URL || 'https://tradesphere.com';
+
+const signupReservations = new SignupReservationService(supabase);
+const registrationDrafts = new RegistrationDraftService(supabase);
 
 // Email validation regex
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
-// Routing number validation regex (exactly 9 digits)
-const ROUTING_NUMBER_REGEX = /^\d{9}$/;
-
 /**
  * Request body interface for signup
  */
@@ -65,16 +92,17 @@ interface SignupRequest {
   // Company info
   companyName: string;
   industry?: string;
-  businessType?: BusinessType;
+  accountHolderType?: StripeAccountHolderType;
+
+  // Bank account (from Plaid Link onSuccess)
+  plaidPublicToken?: string;
+  plaidAccountId?: string;
 
-  // Bank account info
-  routingNumber: string;
-  accountNumber: string;
-  bankAccountType: FundingSourceType;
-  bankAccountName?: string;
+  // Or: micro-deposit SetupIntent confirmed with Stripe.js
+  stripeSetupIntentId?: string;
 
   // Plan selection
-  selectedPlan: 'standard' | 'pro' | 'enterprise';
+  selectedPlan: TradespherePlanType;
 
   // Legal checkboxes
   agreeToTerms: boolean;
@@ -82,90 +110,38 @@ interface SignupRequest {
 }
 
 /**
- * Send welcome email to new owner
+ * Queue the welcome email and try to send it right away
+ *
+ * The outbox keeps it if SendGrid is down - process-email-outbox retries.
+ * Only a failure to write the outbox row is lost, and it is logged.
  */
 async function sendWelcomeEmail(
+  companyId: string,
   email: string,
   firstName: string,
   companyName: string,
   trialEndDate: string,
   sessionToken?: string
 ): Promise<void> {
-  if (!SENDGRID_API_KEY) {
-    console.log('SendGrid not configured - skipping welcome email');
-    console.log(`Would send welcome email to ${email} with onboarding link`);
-    return;
-  }
+  const onboardingUrl = sessionToken
+    ? `${APP_URL}/onboarding?token=${encodeURIComponent(sessionToken)}`
+    : `${APP_URL}/login`;
 
   try {
-    const sgMail = require('@sendgrid/mail');
-    sgMail.setApiKey(SENDGRID_API_KEY);
-
-    const onboardingUrl = sessionToken
-      ? `${APP_URL}/onboarding?token=${encodeURIComponent(sessionToken)}`
-      : `${APP_URL}/login`;
-
-    const msg = {
-      to: email,
-      from: FROM_EMAIL,
-      subject: `Welcome to TradeSphere, ${firstName}!`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2>Welcome to TradeSphere!</h2>
-
-          <p>Hi ${firstName},</p>
-
-          <p>Thank you for signing up ${companyName} with TradeSphere. Your account has been successfully created!</p>
-
-          <h3>What's Next?</h3>
-
-          <p><strong>Complete Your Onboarding:</strong></p>
-          <p>
-            <a href="${onboardingUrl}"
-               style="display: inline-block; padding: 12px 24px; background-color: #10b981; color: white; text-decoration: none; border-radius: 6px;">
-              Complete Setup
-            </a>
-          </p>
-
-          <h3>Your Trial Period</h3>
-          <ul>
-            <li>30-day free trial active until ${new Date(trialEndDate).toLocaleDateString()}</li>
-            <li>Full access to all features in your selected plan</li>
-            <li>No charges during the trial period</li>
-          </ul>
-
-          <h3>Bank Account Verification</h3>
-          <p>We've initiated micro-deposits to verify your bank account. Here's what to expect:</p>
-          <ul>
-            <li>Two small deposits (less than $0.10 each) will appear in 1-3 business days</li>
-            <li>You'll need to verify these amounts in your dashboard</li>
-            <li>Once verified, your payment method will be ready for automatic billing after the trial</li>
-          </ul>
-
-          <h3>Need Help?</h3>
-          <p>Our support team is here to help you get started:</p>
-          <ul>
-            <li>Email: support@tradesphere.com</li>
-            <li>Knowledge Base: ${APP_URL}/help</li>
-            <li>Schedule a Demo: ${APP_URL}/schedule-demo</li>
-          </ul>
-
-          <p>Best regards,<br>The TradeSphere Team</p>
-
-          <hr style="margin-top: 40px; border: none; border-top: 1px solid #e5e7eb;">
-          <p style="font-size: 12px; color: #6b7280;">
-            TradeSphere - Comprehensive Business Management Platform<br>
-            This email was sent to ${email} because you signed up for a TradeSphere account.
-          </p>
-        </div>
-      `
-    };
-
-    await sgMail.send(msg);
-    console.log('Welcome email sent successfully to:', email);
+    const outbox = new EmailOutbox(supabase);
+    const { id } = await outbox.enqueue('welcome', email, {
+      firstName,
+      companyName,
+      trialDays: PLAN_TRIAL_DAYS,
+      trialEndDate,
+      onboardingUrl,
+      helpUrl: `${APP_URL}/help`,
+    }, { companyId, dedupeKey: `welcome:${companyId}` });
+
+    const delivery = await outbox.deliver(id);
+    console.log(`Welcome email ${id}: ${delivery.outcome}`);
   } catch (error) {
-    console.error('Error sending welcome email:', error);
-    // Non-fatal - continue with signup
+    console.error('Failed to queue welcome email (non-fatal):', error);
   }
 }
 
@@ -181,9 +157,10 @@ function validateSignupRequest(data: any): { valid: boolean; errors: string[] }
   if (!data.email?.trim()) errors.push('Email is required');
   if (!data.password) errors.push('Password is required');
   if (!data.companyName?.trim()) errors.push('Company name is required');
-  if (!data.routingNumber) errors.push('Routing number is required');
-  if (!data.accountNumber) errors.push('Account number is required');
-  if (!data.bankAccountType) errors.push('Bank account type is required');
+  if (!data.stripeSetupIntentId) {
+    if (!data.plaidPublicToken) errors.push('Bank account connection is required');
+    if (!data.plaidAccountId) errors.push('Bank account selection is required');
+  }
   if (!data.selectedPlan) errors.push('Plan selection is required');
 
   // Email validation
@@ -196,19 +173,23 @@ function validateSignupRequest(data: any): { valid: boolean; errors: string[] }
     errors.push('Password must be at least 8 characters long');
   }
 
-  // Routing number validation (exactly 9 digits)
-  if (data.routingNumber && !ROUTING_NUMBER_REGEX.test(data.routingNumber)) {
-    errors.push('Routing number must be exactly 9 digits');
+  // Plaid public token validation (raw bank details are never accepted)
+  if (data.plaidPublicToken && !String(data.plaidPublicToken).startsWith('public-')) {
+    errors.push('Invalid bank account connection. Please reconnect your bank.');
   }
 
-  // Bank account type validation
-  if (data.bankAccountType && !['checking', 'savings'].includes(data.bankAccountType)) {
-    errors.push('Bank account type must be checking or savings');
+  if (data.stripeSetupIntentId && !String(data.stripeSetupIntentId).startsWith('seti_')) {
+    errors.push('Invalid bank account setup. Please enter your bank details again.');
+  }
+
+  // Account holder type validation
+  if (data.accountHolderType && !['company', 'individual'].includes(data.accountHolderType)) {
+    errors.push('Account holder type must be company or individual');
   }
 
   // Plan validation
-  if (data.selectedPlan && !['standard', 'pro', 'enterprise'].includes(data.selectedPlan)) {
-    errors.push('Invalid plan selection');
+  if (data.selectedPlan && !isTradespherePlanType(data.selectedPlan)) {
+    errors.push(`Plan must be one of: ${TRADESPHERE_PLAN_TYPES.join(', ')}`);
   }
 
   // Legal checkboxes
@@ -225,6 +206,138 @@ function validateSignupRequest(data: any): { valid: boolean; errors: string[] }
   };
 }
 
+/**
+ * A signup step failure with the response to return to the client
+ */
+class SignupStepError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    public readonly error: string,
+    public readonly details: string
+  ) {
+    super(`${error}: ${details}`);
+    this.name = 'SignupStepError';
+  }
+}
+
+/**
+ * A bank account linked through Plaid Link, ready for Stripe
+ */
+interface LinkedPlaidAccount {
+  accessToken: string;
+  itemId: string;
+  institutionId: string;
+  account: PlaidAccountDetails;
+  processorToken: string;
+}
+
+/**
+ * Exchange the Plaid public token and create a Stripe processor token
+ *
+ * The exchange is a saga step: a rollback removes the new item at Plaid.
+ */
+async function linkPlaidAccount(
+  saga: SagaRunner,
+  plaid: PlaidService,
+  keyring: TokenKeyring,
+  publicToken: string,
+  accountId: string
+): Promise<LinkedPlaidAccount> {
+  const { accessToken, itemId } = await saga.step('plaid_item', async () => {
+    const exchangeResult = await plaid.exchangePublicToken({ publicToken, accountId });
+
+    if (!exchangeResult.success || !exchangeResult.data) {
+      console.error('Plaid token exchange failed:', exchangeResult.error?.code);
+      throw new SignupStepError(
+        400,
+        'Bank connection failed',
+        exchangeResult.error?.userMessage || 'Unable to connect your bank account. Please reconnect and try again.'
+      );
+    }
+
+    return exchangeResult.data;
+  }, exchanged => ({
+    itemId: exchanged.itemId,
+    encryptedAccessToken: keyring.encrypt(exchanged.accessToken, exchanged.itemId).envelope
+  }));
+  console.log('Plaid item linked:', itemId);
+
+  const accountsResult = await plaid.getAccounts(accessToken, [accountId]);
+  const linkedAccount = accountsResult.data?.accounts.find(
+    account => account.account_id === accountId
+  );
+
+  if (!accountsResult.success || !accountsResult.data || !linkedAccount) {
+    console.error('Plaid account lookup failed:', accountsResult.error?.code);
+    throw new SignupStepError(
+      400,
+      'Bank connection failed',
+      accountsResult.error?.userMessage || 'Unable to read the selected bank account. Please reconnect and try again.'
+    );
+  }
+
+  console.log('Creating Stripe processor token...');
+  const processorResult = await plaid.createProcessorToken({ accessToken, accountId });
+
+  if (!processorResult.success || !processorResult.data) {
+    console.error('Processor token creation failed:', processorResult.error?.code);
+    throw new SignupStepError(
+      500,
+      'Bank account setup failed',
+      processorResult.error?.userMessage || 'Unable to set up your bank account for payments. Please try again.'
+    );
+  }
+
+  return {
+    accessToken,
+    itemId,
+    institutionId: accountsResult.data.item.institution_id,
+    account: linkedAccount,
+    processorToken: processorResult.data.processorToken
+  };
+}
+
+/**
+ * Load a micro-deposit SetupIntent the browser confirmed for this email
+ *
+ * @param email Normalized signup email
+ */
+async function loadMicrodepositSetup(
+  stripe: StripeService,
+  setupIntentId: string,
+  email: string
+): Promise<StripeSetupIntentDetails> {
+  const setupResult = await stripe.getSetupIntent(setupIntentId);
+
+  if (!setupResult.success || !setupResult.data) {
+    console.error('SetupIntent lookup failed:', setupResult.error?.code);
+    throw new SignupStepError(
+      400,
+      'Bank account setup failed',
+      setupResult.error?.userMessage || 'Unable to load your bank details. Please enter them again.'
+    );
+  }
+
+  const setupIntent = setupResult.data;
+
+  // create-subscription-setup tags each SetupIntent with the email it was created for
+  if (!setupIntent.customerId || setupIntent.metadata.company_email !== email) {
+    console.error('SetupIntent does not belong to this signup:', setupIntentId);
+    throw new SignupStepError(400, 'Bank account setup failed', 'Invalid bank account setup. Please enter your bank details again.');
+  }
+
+  if (setupIntent.status !== 'requires_action' || !setupIntent.microdeposits) {
+    console.error('SetupIntent is not awaiting micro-deposits:', setupIntent.status);
+    throw new SignupStepError(
+      400,
+      'Bank account setup failed',
+      'Your bank details were not submitted for verification. Please enter them again.'
+    );
+  }
+
+  return setupIntent;
+}
+
 /**
  * Main handler function
  */
@@ -242,13 +355,19 @@ export const handler: Handler = async (event) => {
     };
   }
 
-  // Variables to track created resources for potential rollback
-  let authUserId: string | null = null;
-  let companyId: string | null = null;
+  // Saga tracking created resources - rolled back in reverse order on failure
+  let saga: SagaRunner | null = null;
+  // Email reservation (signup_attempts) - completed or released at the end
+  let signupAttemptId: string | null = null;
 
   try {
     // Parse request body
     const data: SignupRequest = JSON.parse(event.body || '{}');
+
+    // One spelling of the email everywhere (auth user, company, Stripe, outbox)
+    if (typeof data.email === 'string') {
+      data.email = normalizeSignupEmail(data.email);
+    }
     console.log('Signup request for:', data.email, '- Company:', data.companyName);
 
     // =========================================================================
@@ -268,125 +387,122 @@ export const handler: Handler = async (event) => {
       };
     }
 
-    // Check if email already exists in Supabase Auth
-    console.log('Checking if email already exists...');
-    const { data: existingUsers, error: listError } = await supabase.auth.admin.listUsers();
-
-    if (!listError && existingUsers?.users) {
-      const emailExists = existingUsers.users.some(user => user.email === data.email);
-      if (emailExists) {
-        console.error('Email already registered:', data.email);
-        return {
-          statusCode: 400,
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            error: 'Email already registered',
-            details: 'An account with this email already exists. Please sign in or use a different email.'
-          })
-        };
-      }
-    }
+    // Reserve the email - the unique index on signup_attempts lets only one
+    // signup per email through, even when two arrive at the same time
+    console.log('Reserving email for signup...');
+    const reservation = await signupReservations.reserve(data.email, { plan: data.selectedPlan });
 
-    // =========================================================================
-    // STEP 2: Create Dwolla Customer
-    // =========================================================================
-    console.log('Step 2: Creating Dwolla customer...');
-    let customerUrl: string;
-    let customerId: string;
-
-    try {
-      const dwolla = DwollaService.getInstance();
-      const customerParams: CreateCustomerParams = {
-        firstName: data.firstName,
-        lastName: data.lastName,
-        email: data.email,
-        companyName: data.companyName,
-        businessType: data.businessType
+    if (reservation.outcome === 'registered') {
+      console.error('Email already registered:', data.email);
+      return {
+        statusCode: 409,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          error: 'Email already registered',
+          details: 'An account with this email already exists. Please sign in or use a different email.',
+          loginUrl: `${APP_URL}/login`
+        })
       };
+    }
 
-      const customerResponse = await dwolla.createCustomer(customerParams);
-
-      if (!customerResponse.success || !customerResponse.data) {
-        throw new Error(customerResponse.error?.message || 'Failed to create Dwolla customer');
-      }
-
-      customerUrl = customerResponse.data.customerUrl;
-      customerId = customerResponse.data.customerId;
-      console.log('Dwolla customer created:', customerId);
-      console.log('Customer URL:', customerUrl);
-    } catch (error) {
-      console.error('Dwolla customer creation failed:', error);
+    if (reservation.outcome === 'in_progress') {
+      console.error('Signup already in progress for:', data.email);
       return {
-        statusCode: 500,
+        statusCode: 409,
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          error: 'Payment setup failed',
-          details: 'Unable to create payment account. Please try again or contact support.'
+          error: 'Signup in progress',
+          details: 'A signup for this email is already being processed. Please wait a few minutes, then try again.',
+          resumeUrl: `${FRONTEND_URL}/signup?${new URLSearchParams({ email: data.email, plan: data.selectedPlan })}`
         })
       };
     }
 
+    signupAttemptId = reservation.attempt.id;
+
+    saga = await SagaRunner.start(supabase, SIGNUP_SAGA_TYPE, createSignupCompensations(supabase), {
+      email: data.email,
+      plan: data.selectedPlan,
+      signupAttemptId
+    });
+    console.log('Signup saga started:', saga.id);
+
     // =========================================================================
-    // STEP 3: Add Bank Account (Funding Source)
+    // STEP 2-3: Link Plaid Account and Create Processor Token
     // =========================================================================
-    console.log('Step 3: Adding bank account...');
-    let fundingSourceUrl: string;
-    let fundingSourceId: string;
+    const stripe = StripeService.getInstance();
+    const keyring = TokenKeyring.fromEnv();
+    const plaidItems = new PlaidItemRepository(supabase, keyring);
+    let plaidLink: LinkedPlaidAccount | null = null;
+    let microdepositSetup: StripeSetupIntentDetails | null = null;
+
+    if (data.stripeSetupIntentId) {
+      console.log('Step 2-3: Loading micro-deposit SetupIntent...');
+      microdepositSetup = await loadMicrodepositSetup(stripe, data.stripeSetupIntentId, data.email);
+    } else {
+      console.log('Step 2-3: Exchanging Plaid public token...');
+      plaidLink = await linkPlaidAccount(saga, PlaidService.getInstance(), keyring, data.plaidPublicToken!, data.plaidAccountId!);
+    }
 
-    try {
-      const dwolla = DwollaService.getInstance();
-      const fundingParams: CreateFundingSourceParams = {
-        customerUrl,
-        routingNumber: data.routingNumber,
-        accountNumber: data.accountNumber,
-        bankAccountType: data.bankAccountType,
-        name: data.bankAccountName || `${data.companyName} Bank Account`
-      };
+    // =========================================================================
+    // STEP 4: Create Stripe Customer and Payment Method
+    // =========================================================================
+    console.log('Step 4: Creating Stripe customer and payment method...');
 
-      const fundingResponse = await dwolla.createFundingSource(fundingParams);
+    // The micro-deposit SetupIntent already has a customer (and its payment
+    // method is attached by Stripe once the deposits are verified)
+    const customerId = microdepositSetup ? microdepositSetup.customerId! : await saga.step('stripe_customer', async () => {
+      const customerResult = await stripe.createCustomer({
+        email: data.email,
+        companyName: data.companyName,
+        ownerName: `${data.firstName} ${data.lastName}`,
+        metadata: {
+          signup_source: 'website',
+          plan_type: data.selectedPlan,
+          plaid_item_id: plaidLink!.itemId
+        }
+      });
 
-      if (!fundingResponse.success || !fundingResponse.data) {
-        throw new Error(fundingResponse.error?.message || 'Failed to add bank account');
+      if (!customerResult.success || !customerResult.data) {
+        console.error('Stripe customer creation failed:', customerResult.error?.code);
+        throw new SignupStepError(
+          500,
+          'Payment setup failed',
+          customerResult.error?.userMessage || 'Unable to create payment account. Please try again or contact support.'
+        );
       }
 
-      fundingSourceUrl = fundingResponse.data.fundingSourceUrl;
-      fundingSourceId = fundingResponse.data.fundingSourceId;
-      console.log('Bank account added:', fundingSourceId);
-    } catch (error) {
-      console.error('Bank account creation failed:', error);
-      return {
-        statusCode: 500,
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          error: 'Bank account setup failed',
-          details: 'Unable to add bank account. Please verify your routing and account numbers.'
-        })
-      };
-    }
+      return customerResult.data.customerId;
+    }, id => ({ customerId: id }));
+    console.log('Stripe customer created:', customerId);
 
-    // =========================================================================
-    // STEP 4: Initiate Micro-Deposits (NON-FATAL)
-    // =========================================================================
-    console.log('Step 4: Initiating micro-deposits...');
-    try {
-      const dwolla = DwollaService.getInstance();
-      const microDepositResponse = await dwolla.initiateMicroDeposits(fundingSourceUrl);
+    const plaidPaymentMethod = !plaidLink ? null : await saga.step('stripe_payment_method', async () => {
+      const paymentMethodResult = await stripe.createPaymentMethodFromPlaid({
+        customerId,
+        processorToken: plaidLink!.processorToken,
+        accountHolderType: data.accountHolderType || 'company',
+        setAsDefault: true
+      });
 
-      if (microDepositResponse.success) {
-        console.log('Micro-deposits initiated successfully');
-      } else {
-        console.warn('Micro-deposits failed (non-fatal):', microDepositResponse.error);
+      if (!paymentMethodResult.success || !paymentMethodResult.data) {
+        console.error('Payment method creation failed:', paymentMethodResult.error?.code);
+        throw new SignupStepError(
+          500,
+          'Bank account setup failed',
+          paymentMethodResult.error?.userMessage || 'Unable to add bank account. Please reconnect your bank and try again.'
+        );
       }
-    } catch (error) {
-      console.error('Micro-deposit initiation failed (non-fatal):', error);
-      // Continue - micro-deposits can be retried later
-    }
+
+      return paymentMethodResult.data;
+    }, result => ({ paymentMethodId: result.paymentMethodId }));
+    const paymentMethodId = plaidPaymentMethod?.paymentMethodId || null;
+    console.log(paymentMethodId ? `Payment method created: ${paymentMethodId}` : 'Payment method pending micro-deposit verification');
 
     // =========================================================================
     // STEP 5: Create Supabase Auth User
     // =========================================================================
     console.log('Step 5: Creating Supabase Auth user...');
-    try {
+    const authUserId = await saga.step('auth_user', async () => {
       const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
         email: data.email,
         password: data.password,
@@ -398,36 +514,32 @@ export const handler: Handler = async (event) => {
         }
       });
 
+      if (authError?.code === 'email_exists') {
+        // Account created outside this flow (e.g. invited from the app)
+        console.error('Auth user already exists:', data.email);
+        throw new SignupStepError(409, 'Email already registered', 'An account with this email already exists. Please sign in or use a different email.');
+      }
+
       if (authError || !authUser?.user) {
-        throw authError || new Error('Failed to create auth user');
+        console.error('Auth user creation failed:', authError);
+        throw new SignupStepError(500, 'Account creation failed', 'Unable to create user account. Please try again.');
       }
 
-      authUserId = authUser.user.id;
-      console.log('Auth user created:', authUserId);
-    } catch (error) {
-      console.error('Auth user creation failed:', error);
-      return {
-        statusCode: 500,
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          error: 'Account creation failed',
-          details: 'Unable to create user account. Please try again.'
-        })
-      };
-    }
+      return authUser.user.id;
+    }, id => ({ userId: id }));
+    console.log('Auth user created:', authUserId);
 
     // =========================================================================
     // STEP 6: Create Company Record
     // =========================================================================
     console.log('Step 6: Creating company record...');
     const now = new Date();
-    const trialEndDate = new Date(now);
-    trialEndDate.setDate(trialEndDate.getDate() + 30);
-    const nextBillingDate = new Date(now);
-    nextBillingDate.setDate(nextBillingDate.getDate() + 31);
+    // The trial end is computed here only - Stripe, the database and the response all use it
+    const trialEnd = calculateTrialEnd(now);
+    const trialEndDate = toTrialEndDate(trialEnd);
 
-    try {
-      const { data: company, error: companyError } = await supabase
+    const company = await saga.step('company', async () => {
+      const { data: newCompany, error: companyError } = await supabase
         .from('companies')
         .insert({
           name: data.companyName,
@@ -436,15 +548,19 @@ export const handler: Handler = async (event) => {
           industry: data.industry || null,
           subscription_status: 'trial',
           subscription_tier: data.selectedPlan,
-          trial_end_date: trialEndDate.toISOString().split('T')[0],
-          next_billing_date: nextBillingDate.toISOString().split('T')[0],
-          monthly_amount: PLAN_PRICING[data.selectedPlan],
-          dwolla_customer_url: customerUrl,
-          dwolla_funding_source_id: fundingSourceId,
-          payment_method_status: 'pending',
+          trial_end_date: trialEndDate,
+          trial_status: 'trialing',
+          trial_started_at: now.toISOString(),
+          trial_ends_at: trialEnd.toISOString(),
+          next_billing_date: trialEndDate,
+          monthly_amount: getPlanPrice(data.selectedPlan),
+          stripe_customer_id: customerId,
+          stripe_payment_method_id: paymentMethodId,
+          // Plaid verified the account instantly; micro-deposits wait for /verify-bank
+          payment_method_status: microdepositSetup ? 'pending' : 'verified',
           billing_email: data.email,
           billing_name: `${data.firstName} ${data.lastName}`,
-          billing_cycle_day: nextBillingDate.getDate(),
+          billing_cycle_day: trialEnd.getUTCDate(),
           payment_failure_count: 0,
           created_at: now.toISOString(),
           updated_at: now.toISOString()
@@ -452,32 +568,52 @@ export const handler: Handler = async (event) => {
         .select()
         .single();
 
-      if (companyError || !company) {
-        throw companyError || new Error('Failed to create company record');
+      if (companyError || !newCompany) {
+        console.error('Company creation failed:', companyError);
+        throw new SignupStepError(500, 'Company setup failed', 'Unable to create company account. Please try again.');
       }
 
-      companyId = company.id;
-      console.log('Company created with UUID:', companyId, '- Generated company_id:', company.company_id, '- Owner ID set to:', authUserId);
-    } catch (error) {
-      console.error('Company creation failed:', error);
+      return newCompany;
+    }, created => ({ companyId: created.id }));
+
+    const companyId: string = company.id;
+    console.log('Company created with UUID:', companyId, '- Generated company_id:', company.company_id, '- Owner ID set to:', authUserId);
 
-      // Rollback: Delete the auth user since company creation failed
-      console.log('Rolling back: Deleting auth user...');
+    // Linked account and verification rows are deleted with the company on rollback
+    if (plaidLink) {
       try {
-        await supabase.auth.admin.deleteUser(authUserId);
-        console.log('Auth user rolled back successfully');
-      } catch (rollbackError) {
-        console.error('Rollback failed:', rollbackError);
+        await plaidItems.saveItem({
+          companyId,
+          itemId: plaidLink.itemId,
+          accessToken: plaidLink.accessToken,
+          institutionId: plaidLink.institutionId,
+          institutionName: plaidPaymentMethod?.paymentMethod.us_bank_account?.bank_name || plaidLink.account.name,
+          account: {
+            accountId: plaidLink.account.account_id,
+            name: plaidLink.account.name,
+            mask: plaidLink.account.mask,
+            type: plaidLink.account.type,
+            subtype: plaidLink.account.subtype,
+            verificationStatus: plaidLink.account.verification_status
+          },
+          stripePaymentMethodId: paymentMethodId,
+          isPrimary: true
+        });
+        console.log('Plaid item stored');
+      } catch (error) {
+        console.error('Plaid item storage failed:', error);
+        throw new SignupStepError(500, 'Bank account setup failed', 'Unable to save your bank connection. Please try again.');
       }
+    }
 
-      return {
-        statusCode: 500,
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          error: 'Company setup failed',
-          details: 'Unable to create company account. Please try again.'
-        })
-      };
+    if (microdepositSetup) {
+      try {
+        await new BankVerificationService(supabase, { stripe }).start(companyId, microdepositSetup);
+        console.log('Micro-deposit verification recorded');
+      } catch (error) {
+        console.error('Bank verification record failed:', error);
+        throw new SignupStepError(500, 'Bank account setup failed', 'Unable to save your bank account. Please try again.');
+      }
     }
 
     // =========================================================================
@@ -510,9 +646,68 @@ export const handler: Handler = async (event) => {
     }
 
     // =========================================================================
-    // STEP 8: Generate Session Token
+    // STEP 8: Create Stripe Subscription
     // =========================================================================
-    console.log('Step 8: Generating session token...');
+    console.log('Step 8: Creating subscription...');
+    const subscriptionId = await saga.step('stripe_subscription', async () => {
+      const subscriptionResult = await stripe.createSubscription({
+        customerId,
+        amount: getPlanPrice(data.selectedPlan),
+        interval: 'month',
+        companyId,
+        planType: data.selectedPlan,
+        trialEnd,
+        defaultPaymentMethodId: paymentMethodId || undefined,
+        // A retry of this step never creates a second subscription; a new
+        // signup reusing the customer (micro-deposits) has a new company
+        idempotencyKey: `signup-subscription-${customerId}-${companyId}`,
+        metadata: {
+          company_email: data.email,
+          signup_source: 'website'
+        }
+      });
+
+      if (!subscriptionResult.success || !subscriptionResult.data) {
+        console.error('Subscription creation failed:', subscriptionResult.error?.code);
+        throw new SignupStepError(
+          500,
+          'Subscription setup failed',
+          subscriptionResult.error?.userMessage || 'Unable to start your subscription. Please try again or contact support.'
+        );
+      }
+
+      console.log('Subscription status:', subscriptionResult.data.subscription.status);
+      return subscriptionResult.data.subscriptionId;
+    }, id => ({ subscriptionId: id }));
+    console.log('Subscription created:', subscriptionId);
+
+    const { error: subscriptionLinkError } = await supabase
+      .from('companies')
+      .update({ stripe_subscription_id: subscriptionId, updated_at: new Date().toISOString() })
+      .eq('id', companyId);
+
+    if (subscriptionLinkError) {
+      // Non-fatal - customer.subscription.created webhook links it as well
+      console.error('Failed to link subscription to company (non-fatal):', subscriptionLinkError);
+    }
+
+    // All resources created - nothing to roll back from here on. If
+    // completion cannot be recorded, finish-saga-rollbacks sees the
+    // subscription and marks the saga completed instead of rolling back.
+    try {
+      await saga.complete();
+    } catch (completeError) {
+      console.error('Saga completion not recorded (recovery will mark it completed):', completeError);
+    }
+    saga = null;
+    await signupReservations.complete(signupAttemptId, companyId);
+    // Saved signup progress is no longer needed (non-fatal)
+    await registrationDrafts.discardForEmail('owner_registration', data.email);
+
+    // =========================================================================
+    // STEP 9: Generate Session Token
+    // =========================================================================
+    console.log('Step 9: Generating session token...');
     let sessionToken: string | undefined;
     try {
       const { data: linkData, error: linkError } = await supabase.auth.admin.generateLink({
@@ -534,14 +729,15 @@ export const handler: Handler = async (event) => {
     }
 
     // =========================================================================
-    // STEP 9: Send Welcome Email (NON-FATAL)
+    // STEP 10: Queue Welcome Email (NON-FATAL)
     // =========================================================================
-    console.log('Step 9: Sending welcome email...');
+    console.log('Step 10: Queueing welcome email...');
     await sendWelcomeEmail(
+      companyId,
       data.email,
       data.firstName,
       data.companyName,
-      trialEndDate.toISOString().split('T')[0],
+      trialEndDate,
       sessionToken
     );
 
@@ -551,8 +747,9 @@ export const handler: Handler = async (event) => {
     console.log('=== SIGNUP COMPLETED SUCCESSFULLY ===');
     console.log('User ID:', authUserId);
     console.log('Company ID:', companyId);
-    console.log('Dwolla Customer ID:', customerId);
-    console.log('Trial ends:', trialEndDate.toISOString().split('T')[0]);
+    console.log('Stripe Customer ID:', customerId);
+    console.log('Stripe Subscription ID:', subscriptionId);
+    console.log('Trial ends:', trialEndDate);
 
     return {
       statusCode: 200,
@@ -564,25 +761,47 @@ export const handler: Handler = async (event) => {
           userId: authUserId,
           companyId,
           email: data.email,
-          trialEndDate: trialEndDate.toISOString().split('T')[0],
+          trialEndDate,
+          subscriptionId,
+          bankAccountLast4: plaidPaymentMethod?.paymentMethod.us_bank_account?.last4 || microdepositSetup?.last4 || null,
+          bankVerification: microdepositSetup ? 'microdeposits' : 'instant',
           sessionToken: sessionToken || null
         }
       })
     };
 
   } catch (error) {
-    console.error('=== UNEXPECTED ERROR IN SIGNUP HANDLER ===');
-    console.error(error);
+    if (error instanceof SignupStepError) {
+      console.error('=== SIGNUP STEP FAILED ===', error.message);
+    } else {
+      console.error('=== UNEXPECTED ERROR IN SIGNUP HANDLER ===');
+      console.error(error);
+    }
 
-    // Attempt rollback if we have created resources
-    if (authUserId) {
-      console.log('Attempting to rollback auth user...');
-      try {
-        await supabase.auth.admin.deleteUser(authUserId);
-        console.log('Auth user rolled back');
-      } catch (rollbackError) {
-        console.error('Rollback failed:', rollbackError);
-      }
+    // Roll back every resource created so far (reverse order). Anything that
+    // cannot be undone now is finished by the finish-saga-rollbacks schedule.
+    let rolledBack = true;
+    if (saga) {
+      console.log('Rolling back signup saga:', saga.id);
+      rolledBack = await saga.compensate(error);
+      console.log(rolledBack ? 'Signup rolled back' : 'Rollback incomplete - scheduled for retry');
+    }
+
+    // Free the email only once nothing is left behind - otherwise the
+    // reservation holds it until its lease runs out
+    if (signupAttemptId && rolledBack) {
+      await signupReservations.release(signupAttemptId, error);
+    }
+
+    if (error instanceof SignupStepError) {
+      return {
+        statusCode: error.statusCode,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          error: error.error,
+          details: error.details
+        })
+      };
     }
 
     return {
@@ -594,4 +813,4 @@ export const handler: Handler = async (event) => {
       })
     };
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,121 @@
+/**
+ * STRIPE WEBHOOK - Receive and process Stripe events
+ *
+ * Endpoint configured in the Stripe dashboard:
+ * 1. Verify the stripe-signature header against STRIPE_WEBHOOK_SECRET
+ * 2. Record the event in stripe_webhooks (deduplicated by event ID)
+ * 3. Dispatch to the typed handler (payments / companies updates)
+ *
+ * RESPONSES:
+ * - 400: signature invalid (Stripe will not retry)
+ * - 200: processed, or duplicate of an already-processed event
+ * - 500: processing failed - retry_count incremented, Stripe retries delivery.
+ *        Unprocessed events can also be replayed with replay-stripe-webhooks.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import StripeService from '../../src/services/StripeService';
+import StripeWebhookProcessor from '../../src/services/StripeWebhookProcessor';
+import type { WebhookProcessingResponse } from '../../src/types/stripe-payment';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// Environment variables
+const STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: WebhookProcessingResponse | Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== STRIPE WEBHOOK HANDLER START ===');
+
+  // Only accept POST requests
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  if (!STRIPE_WEBHOOK_SECRET) {
+    console.error('STRIPE_WEBHOOK_SECRET not configured');
+    return jsonResponse(500, { received: false, processed: false, error: 'Webhook secret not configured' });
+  }
+
+  // =========================================================================
+  // STEP 1: Verify Signature
+  // =========================================================================
+  console.log('Step 1: Verifying signature...');
+  // Signature is computed over the raw body - decode without re-serializing
+  const payload = event.isBase64Encoded
+    ? Buffer.from(event.body || '', 'base64').toString('utf8')
+    : event.body || '';
+  const signature = event.headers['stripe-signature'] || event.headers['Stripe-Signature'] || '';
+
+  const verification = StripeService.verifyWebhookSignature(signature, payload, STRIPE_WEBHOOK_SECRET);
+  if (!verification.valid || !verification.event) {
+    console.error('Webhook signature verification failed:', verification.error);
+    return jsonResponse(400, { received: false, processed: false, error: verification.error });
+  }
+
+  const stripeEvent = verification.event;
+  console.log('Verified event:', stripeEvent.id, '- Type:', stripeEvent.type);
+
+  try {
+    const processor = new StripeWebhookProcessor(supabase);
+
+    // =========================================================================
+    // STEP 2: Record Event (deduplicated by event ID)
+    // =========================================================================
+    console.log('Step 2: Recording event...');
+    const { record, duplicate } = await processor.recordEvent(stripeEvent);
+
+    if (duplicate && record.processed) {
+      console.log('Duplicate delivery of processed event - skipping');
+      return jsonResponse(200, {
+        received: true,
+        processed: true,
+        eventId: stripeEvent.id,
+        duplicate: true
+      });
+    }
+
+    // =========================================================================
+    // STEP 3: Dispatch to Handler
+    // =========================================================================
+    console.log('Step 3: Processing event...');
+    const result = await processor.processRecord(record);
+
+    console.log(result.processed ? '=== WEBHOOK PROCESSED ===' : '=== WEBHOOK PROCESSING FAILED ===');
+
+    // Non-2xx makes Stripe redeliver the event
+    return jsonResponse(result.processed ? 200 : 500, { ...result, duplicate });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN STRIPE WEBHOOK HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      received: false,
+      processed: false,
+      eventId: stripeEvent.id,
+      error: 'Failed to record webhook event'
+    });
+  }
+};
@@ -0,0 +1,162 @@
+/**
+ * VERIFY BANK - Micro-deposit verification for manually entered bank accounts
+ *
+ * Owner-only (Authorization: Bearer <Supabase access token>).
+ *
+ * - GET → the company's bank account waiting for verification (null if none),
+ *   the deposit type to ask for and the attempts left
+ * - POST { amounts: [cents, cents] } or { descriptorCode: 'SMxxxx' } →
+ *   1. Validate the answer
+ *   2. Check it with Stripe (counts toward the attempt limit)
+ *   3. On success make the bank account the default payment method and
+ *      mark the company's payment method verified
+ *
+ * Incorrect answers return 200 with outcome 'incorrect' and the attempts left.
+ */
+
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import BankVerificationService from '../../src/services/BankVerificationService';
+import type { BankVerificationRecord, MicrodepositAnswer } from '../../src/services/BankVerificationService';
+import { authenticateCompanyOwner } from '../../src/services/CompanyOwnerAuth';
+
+// Initialize Supabase client with service role key for admin operations
+const supabaseUrl = process.env.VITE_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// Micro-deposits are always under $1
+const MAX_DEPOSIT_CENTS = 99;
+
+// Statement descriptor code on a single micro-deposit
+const DESCRIPTOR_CODE_REGEX = /^SM[A-Z0-9]{4}$/;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Verification fields safe to show in the browser
+ */
+function toVerificationSummary(record: BankVerificationRecord) {
+  return {
+    bankName: record.bank_name,
+    accountLast4: record.account_last4,
+    microdepositType: record.microdeposit_type,
+    arrivalDate: record.arrival_date,
+    status: record.status,
+    attemptsRemaining: record.status === 'pending'
+      ? Math.max(0, record.max_attempts - record.attempts)
+      : 0
+  };
+}
+
+/**
+ * Parse the owner's answer (amounts in cents or descriptor code)
+ */
+function parseAnswer(data: { amounts?: unknown; descriptorCode?: unknown }): MicrodepositAnswer | null {
+  if (Array.isArray(data.amounts)) {
+    const amounts = data.amounts.map(Number);
+    const valid = amounts.length === 2
+      && amounts.every(amount => Number.isInteger(amount) && amount > 0 && amount <= MAX_DEPOSIT_CENTS);
+    return valid ? { amounts: [amounts[0], amounts[1]] } : null;
+  }
+
+  if (typeof data.descriptorCode === 'string') {
+    const descriptorCode = data.descriptorCode.trim().toUpperCase();
+    return DESCRIPTOR_CODE_REGEX.test(descriptorCode) ? { descriptorCode } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event) => {
+  console.log('=== VERIFY BANK HANDLER START ===');
+
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed', message: 'Method Not Allowed' });
+  }
+
+  try {
+    const owner = await authenticateCompanyOwner(supabase, event.headers);
+    if (!owner) {
+      return jsonResponse(401, { error: 'Unauthorized', message: 'Please sign in as the company owner.' });
+    }
+
+    const verifications = new BankVerificationService(supabase);
+
+    // =========================================================================
+    // GET: Pending Verification
+    // =========================================================================
+    if (event.httpMethod === 'GET') {
+      const record = await verifications.findOutstanding(owner.companyId);
+      return jsonResponse(200, {
+        success: true,
+        verification: record ? toVerificationSummary(record) : null
+      });
+    }
+
+    // =========================================================================
+    // STEP 1: Validate Answer
+    // =========================================================================
+    let data: { amounts?: unknown; descriptorCode?: unknown };
+    try {
+      data = JSON.parse(event.body || '{}');
+    } catch {
+      return jsonResponse(400, { error: 'Invalid JSON', message: 'Request body must be valid JSON.' });
+    }
+
+    const answer = parseAnswer(data);
+    if (!answer) {
+      return jsonResponse(400, {
+        error: 'Validation failed',
+        message: 'Enter both deposit amounts in cents (for example 32 and 45), or the 6-character code starting with SM.'
+      });
+    }
+
+    // =========================================================================
+    // STEP 2: Verify with Stripe
+    // =========================================================================
+    console.log('Step 2: Verifying micro-deposits...');
+    const result = await verifications.verify(owner.companyId, answer);
+    console.log('Verification outcome:', result.outcome);
+
+    if (result.outcome === 'not_found') {
+      return jsonResponse(404, { error: 'NOT_FOUND', message: result.message });
+    }
+
+    if (result.outcome === 'error') {
+      return jsonResponse(502, { error: 'VERIFICATION_UNAVAILABLE', message: result.message });
+    }
+
+    return jsonResponse(200, {
+      success: result.outcome === 'verified',
+      outcome: result.outcome,
+      message: result.message,
+      verification: result.verification ? toVerificationSummary(result.verification) : null
+    });
+  } catch (error) {
+    console.error('=== UNEXPECTED ERROR IN VERIFY BANK HANDLER ===');
+    console.error(error);
+
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: 'An unexpected error occurred. Please try again or contact support.'
+    });
+  }
+};
@@ -0,0 +1,120 @@
+/**
+ * CHECK PLAN CATALOG AGAINST STRIPE
+ *
+ * Fails (exit code 1) when the plan catalog (src/config/plans.json) and the
+ * Stripe prices configured in the environment disagree.
+ *
+ * Checks, for every plan and billing interval:
+ * - STRIPE_PRICE_<TIER> / STRIPE_PRICE_<TIER>_ANNUAL is set
+ * - The price exists, is active and belongs to STRIPE_PRODUCT_ID (if set)
+ * - Amount, currency, interval and tier metadata match the catalog
+ *
+ * Also flags active prices on STRIPE_PRODUCT_ID tagged with a tier that is
+ * not in the catalog.
+ *
+ * Usage:
+ *   npm run check:plans
+ */
+
+require('dotenv').config();
+const Stripe = require('stripe');
+const { catalog, getCatalogPrices } = require('./plan-catalog-prices.cjs');
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'YOUR_STRIPE_SECRET_KEY_HERE', {
+  apiVersion: '2024-11-20.acacia'
+});
+
+const productId = process.env.STRIPE_PRODUCT_ID;
+
+/**
+ * Compare one catalog price with its configured Stripe price
+ *
+ * @returns {Promise<string[]>} Mismatch descriptions (empty when consistent)
+ */
+async function checkPrice({ planId, interval, envVar, params }) {
+  const priceId = process.env[envVar];
+  if (!priceId) {
+    return [`${envVar} is not set`];
+  }
+
+  let price;
+  try {
+    price = await stripe.prices.retrieve(priceId);
+  } catch (error) {
+    return [`${envVar} (${priceId}) could not be retrieved: ${error.message}`];
+  }
+
+  const problems = [];
+  const expect = (label, actual, expected) => {
+    if (actual !== expected) {
+      problems.push(`${envVar} (${priceId}) ${label} is ${actual}, catalog says ${expected}`);
+    }
+  };
+
+  expect('active', price.active, true);
+  expect('unit_amount', price.unit_amount, params.unit_amount);
+  expect('currency', price.currency, params.currency);
+  expect('interval', price.recurring?.interval, interval);
+  expect('interval_count', price.recurring?.interval_count, 1);
+  expect('tier metadata', price.metadata.tier || price.metadata.plan_type, planId);
+  if (productId) {
+    expect('product', price.product, productId);
+  }
+
+  return problems;
+}
+
+/**
+ * Find active prices on the product for tiers the catalog does not know
+ *
+ * @returns {Promise<string[]>}
+ */
+async function checkUnknownTiers() {
+  if (!productId) {
+    return [];
+  }
+
+  const knownTiers = catalog.plans.map(plan => plan.id);
+  const prices = await stripe.prices.list({ product: productId, active: true, limit: 100 });
+
+  return prices.data
+    .filter(price => {
+      const tier = price.metadata.tier || price.metadata.plan_type;
+      return tier && !knownTiers.includes(tier);
+    })
+    .map(price => `Active price ${price.id} has tier "${price.metadata.tier || price.metadata.plan_type}", which is not in the catalog`);
+}
+
+async function checkPlanCatalog() {
+  console.log('🔍 Checking plan catalog against Stripe...\n');
+
+  const problems = [];
+
+  for (const expected of getCatalogPrices()) {
+    const priceProblems = await checkPrice(expected);
+    const label = `${expected.planId} (${expected.interval})`;
+
+    if (priceProblems.length === 0) {
+      console.log(`✅ ${label}: ${process.env[expected.envVar]}`);
+    } else {
+      console.log(`❌ ${label}`);
+      problems.push(...priceProblems);
+    }
+  }
+
+  problems.push(...await checkUnknownTiers());
+
+  if (problems.length > 0) {
+    console.error(`\n❌ Plan catalog and Stripe disagree (${problems.length} problems):\n`);
+    problems.forEach(problem => console.error(`   • ${problem}`));
+    console.error('\nRun `node scripts/setup-stripe-products.js` and update the STRIPE_PRICE_* variables.');
+    process.exit(1);
+  }
+
+  console.log('\n✨ Plan catalog matches Stripe');
+}
+
+checkPlanCatalog().catch(error => {
+  console.error('❌ Error checking plan catalog:', error);
+  process.exit(1);
+});
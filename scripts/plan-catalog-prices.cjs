@@ -0,0 +1,47 @@
+/**
+ * PLAN CATALOG PRICES
+ *
+ * Expands src/config/plans.json (the plan catalog shared with the app and
+ * Netlify functions) into the Stripe prices it requires - one per plan and
+ * billing interval.
+ *
+ * Used by setup-stripe-products.js and check-plan-catalog.cjs.
+ */
+
+const catalog = require('../src/config/plans.json');
+
+const INTERVALS = ['month', 'year'];
+
+/**
+ * Expected Stripe prices for every plan and interval
+ *
+ * @returns {Array<{ planId: string, interval: string, envVar: string, params: object }>}
+ */
+function getCatalogPrices() {
+  return catalog.plans.flatMap(plan =>
+    INTERVALS.map(interval => ({
+      planId: plan.id,
+      interval,
+      envVar: plan.stripePriceEnv[interval],
+      params: {
+        nickname: interval === 'year' ? `${plan.name} (Annual)` : plan.name,
+        unit_amount: Math.round((interval === 'year' ? plan.annualPrice : plan.monthlyPrice) * 100),
+        currency: catalog.currency,
+        recurring: {
+          interval,
+          interval_count: 1
+        },
+        metadata: {
+          tier: plan.id,
+          plan_type: plan.id,
+          features: JSON.stringify(plan.features)
+        }
+      }
+    }))
+  );
+}
+
+module.exports = {
+  catalog,
+  getCatalogPrices
+};
@@ -3,6 +3,8 @@
  *
  * Run this script to create Stripe Products and Prices for your subscription tiers.
  * This only needs to be run once per Stripe account (test mode and live mode separately).
+ * Plans and prices come from the plan catalog (src/config/plans.json) - re-run
+ * after changing it, then verify with `npm run check:plans`.
  *
  * Usage:
  * 1. Set your STRIPE_SECRET_KEY environment variable
@@ -11,89 +13,28 @@
  *    - STRIPE_PRICE_STARTER=price_xxx
  *    - STRIPE_PRICE_GROWTH=price_xxx
  *    - STRIPE_PRICE_ENTERPRISE=price_xxx
+ *    - STRIPE_PRICE_<TIER>_ANNUAL=price_xxx for each tier
  */
 
 const Stripe = require('stripe');
+const { catalog, getCatalogPrices } = require('./plan-catalog-prices.cjs');
 
 // Initialize Stripe with your secret key
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'YOUR_STRIPE_SECRET_KEY_HERE', {
   apiVersion: '2024-11-20.acacia'
 });
 
-// Product and pricing configuration
+// Product configuration
 const PRODUCTS = {
   tradesphere: {
-    name: 'Tradesphere CRM',
-    description: 'AI-powered CRM for field service companies',
+    name: catalog.stripeProduct.name,
+    description: catalog.stripeProduct.description,
     metadata: {
       product_type: 'saas_subscription'
     }
   }
 };
 
-const PRICES = {
-  starter: {
-    nickname: 'Starter',
-    unit_amount: 9900, // $99 in cents
-    currency: 'usd',
-    recurring: {
-      interval: 'month',
-      interval_count: 1
-    },
-    metadata: {
-      tier: 'starter',
-      features: JSON.stringify([
-        'Up to 5 users',
-        'Basic AI quoting',
-        'Standard scheduling',
-        'Mobile app access',
-        'Email support'
-      ])
-    }
-  },
-  growth: {
-    nickname: 'Growth',
-    unit_amount: 29900, // $299 in cents
-    currency: 'usd',
-    recurring: {
-      interval: 'month',
-      interval_count: 1
-    },
-    metadata: {
-      tier: 'growth',
-      features: JSON.stringify([
-        'Up to 25 users',
-        'Advanced AI quoting',
-        'Smart scheduling',
-        'Real-time crew tracking',
-        'Integrations',
-        'Priority support'
-      ])
-    }
-  },
-  enterprise: {
-    nickname: 'Enterprise',
-    unit_amount: 200000, // $2000 in cents (placeholder - usually custom)
-    currency: 'usd',
-    recurring: {
-      interval: 'month',
-      interval_count: 1
-    },
-    metadata: {
-      tier: 'enterprise',
-      features: JSON.stringify([
-        'Unlimited users',
-        'Custom AI training',
-        'Advanced analytics',
-        'API access',
-        'Custom integrations',
-        'Dedicated support',
-        'SLA guarantee'
-      ])
-    }
-  }
-};
-
 async function setupStripeProducts() {
   try {
     console.log('🚀 Setting up Stripe Products and Prices...\n');
@@ -119,41 +60,43 @@ async function setupStripeProducts() {
 
     const priceIds = {};
 
-    // Step 2: Create prices for each tier
-    for (const [tier, priceConfig] of Object.entries(PRICES)) {
-      // Check if price already exists
-      const existingPrices = await stripe.prices.list({
-        product: product.id,
-        limit: 100
-      });
+    // Step 2: Create prices for each tier and interval
+    const existingPrices = await stripe.prices.list({
+      product: product.id,
+      active: true,
+      limit: 100
+    });
 
+    for (const { planId, interval, envVar, params } of getCatalogPrices()) {
+      // Check if price already exists
       let price = existingPrices.data.find(p =>
-        p.metadata.tier === tier &&
-        p.unit_amount === priceConfig.unit_amount &&
-        p.recurring?.interval === priceConfig.recurring.interval
+        p.metadata.tier === planId &&
+        p.unit_amount === params.unit_amount &&
+        p.currency === params.currency &&
+        p.recurring?.interval === interval
       );
 
       if (price) {
-        console.log(`✅ Found existing ${tier} price: ${price.id} ($${price.unit_amount / 100}/month)`);
+        console.log(`✅ Found existing ${planId} price: ${price.id} ($${price.unit_amount / 100}/${interval})`);
       } else {
         // Create new price
         price = await stripe.prices.create({
           product: product.id,
-          ...priceConfig
+          ...params
         });
-        console.log(`✅ Created ${tier} price: ${price.id} ($${price.unit_amount / 100}/month)`);
+        console.log(`✅ Created ${planId} price: ${price.id} ($${price.unit_amount / 100}/${interval})`);
       }
 
-      priceIds[tier] = price.id;
+      priceIds[envVar] = price.id;
     }
 
+    const priceEnvLines = Object.entries(priceIds).map(([envVar, priceId]) => `${envVar}=${priceId}`);
+
     // Step 3: Output environment variables
     console.log('\n🔑 Environment Variables to Set:\n');
     console.log('Add these to your .env file or Netlify environment variables:\n');
     console.log(`STRIPE_PRODUCT_ID=${product.id}`);
-    console.log(`STRIPE_PRICE_STARTER=${priceIds.starter}`);
-    console.log(`STRIPE_PRICE_GROWTH=${priceIds.growth}`);
-    console.log(`STRIPE_PRICE_ENTERPRISE=${priceIds.enterprise}`);
+    priceEnvLines.forEach(line => console.log(line));
 
     // Step 4: Create example .env.stripe file
     const fs = require('fs');
@@ -161,9 +104,7 @@ async function setupStripeProducts() {
 # Generated on ${new Date().toISOString()}
 
 STRIPE_PRODUCT_ID=${product.id}
-STRIPE_PRICE_STARTER=${priceIds.starter}
-STRIPE_PRICE_GROWTH=${priceIds.growth}
-STRIPE_PRICE_ENTERPRISE=${priceIds.enterprise}
+${priceEnvLines.join('\n')}
 `;
 
     fs.writeFileSync('.env.stripe', envContent);
@@ -171,9 +112,10 @@ STRIPE_PRICE_ENTERPRISE=${priceIds.enterprise}
 
     console.log('\n✨ Setup complete! Next steps:');
     console.log('1. Copy the environment variables to your Netlify dashboard');
-    console.log('2. Test the subscription flow with create-subscription-setup.js');
-    console.log('3. Configure webhook endpoint in Stripe dashboard:');
-    console.log('   - Endpoint URL: https://your-site.netlify.app/.netlify/functions/webhook-stripe');
+    console.log('2. Verify the prices match the catalog: npm run check:plans');
+    console.log('3. Test the subscription flow with create-subscription-setup.js');
+    console.log('4. Configure webhook endpoint in Stripe dashboard:');
+    console.log('   - Endpoint URL: https://your-site.netlify.app/.netlify/functions/stripe-webhook');
     console.log('   - Events to listen for:');
     console.log('     • customer.subscription.created');
     console.log('     • customer.subscription.updated');
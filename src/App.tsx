@@ -12,6 +12,11 @@ import Footer from './components/Footer';
 import OnboardingFlow from './components/OnboardingFlow';
 import OwnerRegistrationForm from './components/OwnerRegistrationForm';
 import RegistrationSuccess from './pages/RegistrationSuccess';
+import BillingOverview from './pages/BillingOverview';
+import BillingInvoices from './pages/BillingInvoices';
+import BillingPaymentMethods from './pages/BillingPaymentMethods';
+import BillingReconnectBank from './pages/BillingReconnectBank';
+import VerifyBank from './pages/VerifyBank';
 
 function HomePage() {
   return (
@@ -37,6 +42,11 @@ function App() {
         <Route path="/onboarding" element={<OnboardingFlow />} />
         <Route path="/signup" element={<OwnerRegistrationForm />} />
         <Route path="/registration-success" element={<RegistrationSuccess />} />
+        <Route path="/billing" element={<BillingOverview />} />
+        <Route path="/billing/invoices" element={<BillingInvoices />} />
+        <Route path="/billing/payment-methods" element={<BillingPaymentMethods />} />
+        <Route path="/billing/reconnect-bank" element={<BillingReconnectBank />} />
+        <Route path="/verify-bank" element={<VerifyBank />} />
       </Routes>
     </Router>
   );
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Landmark } from 'lucide-react';
+import { formatBankAccountLabel } from '../types/plaid';
+import type { InstitutionBranding } from '../types/plaid';
+
+// ==============================================================================
+// TYPES & INTERFACES
+// ==============================================================================
+
+interface BankAccountLabelProps {
+  /** Cached Plaid institution (null for banks not linked through Plaid) */
+  institution?: InstitutionBranding | null;
+
+  /** Bank name to show when there is no institution */
+  bankName: string;
+
+  last4: string;
+
+  /** Fallback icon color (Tailwind text class) */
+  iconClassName?: string;
+
+  /** Secondary lines under the label */
+  children?: React.ReactNode;
+}
+
+// ==============================================================================
+// COMPONENT
+// ==============================================================================
+
+/**
+ * Bank account shown as "Chase ••••1234" with the bank's logo
+ *
+ * Falls back to a generic bank icon when Plaid has no logo for the bank.
+ */
+const BankAccountLabel: React.FC<BankAccountLabelProps> = ({
+  institution,
+  bankName,
+  last4,
+  iconClassName = 'text-blue-400',
+  children,
+}) => (
+  <div className="flex items-center">
+    {institution?.logo ? (
+      <img
+        src={`data:image/png;base64,${institution.logo}`}
+        alt=""
+        className="h-10 w-10 rounded-lg bg-white p-1 mr-4 flex-shrink-0 object-contain"
+      />
+    ) : (
+      <div
+        className="h-10 w-10 rounded-lg mr-4 flex-shrink-0 flex items-center justify-center bg-gray-800"
+        style={institution?.primaryColor ? { backgroundColor: institution.primaryColor } : undefined}
+      >
+        <Landmark className={`h-6 w-6 ${institution?.primaryColor ? 'text-white' : iconClassName}`} />
+      </div>
+    )}
+    <div>
+      <p className="text-white font-semibold">
+        {formatBankAccountLabel(institution?.name || bankName, last4)}
+      </p>
+      {children}
+    </div>
+  </div>
+);
+
+export default BankAccountLabel;
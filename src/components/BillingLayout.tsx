@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { NavLink, Link } from 'react-router-dom';
+import { ArrowLeft, Loader2, Mail, LogOut, AlertCircle } from 'lucide-react';
+import type { Session } from '@supabase/supabase-js';
+import Header from './Header';
+import { getSupabaseClient } from '../utils/supabaseClient';
+
+// ==============================================================================
+// TYPES & INTERFACES
+// ==============================================================================
+
+interface BillingLayoutProps {
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}
+
+const BILLING_TABS = [
+  { to: '/billing', label: 'Overview', end: true },
+  { to: '/billing/invoices', label: 'Invoices', end: false },
+  { to: '/billing/payment-methods', label: 'Payment Methods', end: false },
+];
+
+// ==============================================================================
+// SIGN IN
+// ==============================================================================
+
+/**
+ * Magic-link sign in for company owners (existing accounts only)
+ */
+const OwnerSignIn: React.FC = () => {
+  const [email, setEmail] = useState<string>('');
+  const [isSending, setIsSending] = useState<boolean>(false);
+  const [sent, setSent] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError('');
+
+    try {
+      const { error: signInError } = await getSupabaseClient().auth.signInWithOtp({
+        email: email.trim().toLowerCase(),
+        options: {
+          emailRedirectTo: window.location.href,
+          shouldCreateUser: false,
+        },
+      });
+
+      if (signInError) {
+        throw signInError;
+      }
+
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to send sign-in link.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="text-center">
+        <Mail className="h-10 w-10 text-blue-400 mx-auto mb-4" />
+        <h2 className="text-xl font-bold text-white mb-2">Check your email</h2>
+        <p className="text-gray-300">
+          We sent a sign-in link to <span className="font-semibold">{email}</span>.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-md mx-auto">
+      <h2 className="text-xl font-bold text-white mb-2">Sign in to manage billing</h2>
+      <p className="text-gray-400 mb-6">Enter the email you registered with and we'll send you a sign-in link.</p>
+
+      {error && (
+        <div className="mb-4 bg-red-900/20 border border-red-500/50 rounded-lg p-3 flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      <input
+        type="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="owner@company.com"
+        disabled={isSending}
+        className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 mb-4"
+      />
+      <button
+        type="submit"
+        disabled={isSending || !email}
+        className="w-full flex items-center justify-center px-6 py-3 bg-gradient-to-r from-blue-600 to-teal-600 text-white rounded-lg hover:from-blue-700 hover:to-teal-700 transition-all font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSending ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Send Sign-In Link'}
+      </button>
+    </form>
+  );
+};
+
+// ==============================================================================
+// COMPONENT
+// ==============================================================================
+
+/**
+ * Shell for the owner billing portal: header, tabs and sign-in gate.
+ * Children only render once a Supabase session exists.
+ */
+const BillingLayout: React.FC<BillingLayoutProps> = ({ title, description, children }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [configError, setConfigError] = useState<string>('');
+
+  useEffect(() => {
+    let supabase;
+    try {
+      supabase = getSupabaseClient();
+    } catch (err) {
+      setConfigError(err instanceof Error ? err.message : 'Billing is unavailable.');
+      setIsLoading(false);
+      return;
+    }
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsLoading(false);
+    });
+
+    const { data: listener } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+
+    return () => listener.subscription.unsubscribe();
+  }, []);
+
+  const handleSignOut = async () => {
+    await getSupabaseClient().auth.signOut();
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 text-blue-400 animate-spin" />
+        </div>
+      );
+    }
+
+    if (configError) {
+      return <p className="text-red-300 text-center">Billing is temporarily unavailable. Please contact support.</p>;
+    }
+
+    if (!session) {
+      return <OwnerSignIn />;
+    }
+
+    return children;
+  };
+
+  return (
+    <>
+      {/* Header Component */}
+      <Header />
+
+      <div className="min-h-screen bg-gray-900 pt-24 pb-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-4xl mx-auto">
+          {/* Back to Home Link */}
+          <div className="mb-6 flex items-center justify-between">
+            <Link
+              to="/"
+              className="inline-flex items-center text-gray-400 hover:text-blue-400 transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Home
+            </Link>
+            {session && (
+              <button
+                onClick={handleSignOut}
+                className="inline-flex items-center text-gray-400 hover:text-blue-400 transition-colors"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign Out
+              </button>
+            )}
+          </div>
+
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl sm:text-4xl font-bold text-white mb-2">{title}</h1>
+            <p className="text-gray-300 text-lg">{description}</p>
+          </div>
+
+          {/* Tabs */}
+          {session && (
+            <nav className="flex space-x-2 mb-6 border-b border-gray-700">
+              {BILLING_TABS.map(tab => (
+                <NavLink
+                  key={tab.to}
+                  to={tab.to}
+                  end={tab.end}
+                  className={({ isActive }) =>
+                    `px-4 py-2 font-medium border-b-2 -mb-px transition-colors ${
+                      isActive
+                        ? 'border-blue-500 text-white'
+                        : 'border-transparent text-gray-400 hover:text-white'
+                    }`
+                  }
+                >
+                  {tab.label}
+                </NavLink>
+              ))}
+            </nav>
+          )}
+
+          <div className="bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 p-8">
+            {renderContent()}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default BillingLayout;
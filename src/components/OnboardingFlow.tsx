@@ -5,6 +5,11 @@ import { loadStripe } from '@stripe/stripe-js';
 import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js';
 import Header from './Header';
 import { validateEmail, validateCompanyName } from '../utils/validation';
+import { getPlan } from '../config/planCatalog';
+import { saveRegistrationDraft, loadRegistrationDraft, clearRegistrationDraft } from '../utils/registrationDrafts';
+
+// Plan subscribed to by the onboarding flow
+const ONBOARDING_PLAN = getPlan('growth');
 
 interface FormData {
   companyEmail: string;
@@ -107,6 +112,43 @@ const OnboardingFlow = () => {
     return Object.keys(errors).length === 0;
   };
 
+  // Saved draft (?resume= link from the email, or this browser's last
+  // session) - restore the company details and reopen at the saved step
+  useEffect(() => {
+    let active = true;
+    loadRegistrationDraft('onboarding').then(draft => {
+      if (!active || !draft) {
+        return;
+      }
+      setFormData(prev => ({
+        ...prev,
+        companyEmail: draft.data.companyEmail || '',
+        companyName: draft.data.companyName || '',
+        ownerName: draft.data.ownerName || '',
+        phone: draft.data.phone || ''
+      }));
+      setCurrentStep(Math.min(Math.max(draft.step, 1), 3));
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // Company details are complete - keep them server-side (emails a resume
+  // link the first time). Consent checkboxes are not saved.
+  const validateAndSaveBasicInfo = (): boolean => {
+    const valid = validateBasicInfo();
+    if (valid) {
+      saveRegistrationDraft('onboarding', 3, {
+        companyEmail: formData.companyEmail,
+        companyName: formData.companyName,
+        ownerName: formData.ownerName,
+        phone: formData.phone
+      });
+    }
+    return valid;
+  };
+
   // Initialize Stripe SetupIntent when Step 3 is reached
   useEffect(() => {
     if (currentStep === 3 && !clientSecret && formData.companyEmail && formData.companyName) {
@@ -129,7 +171,7 @@ const OnboardingFlow = () => {
           companyName: formData.companyName,
           ownerName: formData.ownerName || formData.companyName,
           phone: formData.phone,
-          subscriptionTier: 'growth' // Default to Growth tier
+          subscriptionTier: ONBOARDING_PLAN.id
         })
       });
 
@@ -497,7 +539,7 @@ const OnboardingFlow = () => {
                   <PaymentForm
                     formData={formData}
                     formErrors={formErrors}
-                    validateBasicInfo={validateBasicInfo}
+                    validateBasicInfo={validateAndSaveBasicInfo}
                     handleInputChange={handleInputChange}
                     setCurrentStep={setCurrentStep}
                     customerId={customerId}
@@ -610,7 +652,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
         setPaymentSuccess(true);
 
         // Now process the first payment
-        await processFirstPayment(setupIntent.payment_method as string);
+        await processFirstPayment(setupIntent.payment_method as string, setupIntent.client_secret || '');
       }
     } catch (error) {
       console.error('Payment setup error:', error);
@@ -619,7 +661,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     }
   };
 
-  const processFirstPayment = async (paymentMethodId: string) => {
+  const processFirstPayment = async (paymentMethodId: string, setupIntentClientSecret: string) => {
     try {
       // Call backend to process first payment
       const response = await fetch('/.netlify/functions/process-initial-payment', {
@@ -630,10 +672,12 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
         body: JSON.stringify({
           customerId: customerId,
           paymentMethodId: paymentMethodId,
+          // Proves this browser started the setup for customerId
+          setupIntentClientSecret,
           companyEmail: formData.companyEmail,
           companyName: formData.companyName,
           ownerName: formData.ownerName,
-          subscriptionTier: 'growth'
+          subscriptionTier: ONBOARDING_PLAN.id
         })
       });
 
@@ -645,6 +689,9 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
       const result = await response.json();
       console.log('Payment processed:', result);
 
+      // The server deleted the draft - forget its token here as well
+      clearRegistrationDraft('onboarding');
+
       // Move to success step
       setTimeout(() => {
         setCurrentStep(4);
@@ -716,17 +763,17 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
           <div className="mb-8">
             <h3 className="text-lg font-bold text-white mb-4">
               <Terminal className="inline h-4 w-4 mr-2" />
-              Growth Plan Subscription
+              {ONBOARDING_PLAN.name} Plan Subscription
             </h3>
             <div className="bg-gradient-to-r from-blue-600/10 to-cyan-400/10 border border-blue-500/30 rounded-lg p-6">
               <div className="flex items-center justify-between mb-4">
                 <div className="flex-1">
                   <h4 className="text-xl font-bold text-white mb-2">AI-Powered Field Service CRM</h4>
-                  <p className="text-gray-300 mb-2">Professional plan with advanced features</p>
+                  <p className="text-gray-300 mb-2">{ONBOARDING_PLAN.description}</p>
                   <p className="text-cyan-400 text-sm font-mono">First payment processes via ACH (3-5 days)</p>
                 </div>
                 <div className="text-right ml-6">
-                  <div className="text-4xl font-bold text-white">$299</div>
+                  <div className="text-4xl font-bold text-white">${ONBOARDING_PLAN.monthlyPrice.toLocaleString()}</div>
                   <div className="text-gray-400 font-mono text-sm">/month</div>
                   <div className="text-xs text-gray-500 mt-1">via ACH transfer</div>
                 </div>
@@ -1,16 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { Check, ArrowRight, ArrowLeft, Loader2, AlertCircle } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { loadStripe } from '@stripe/stripe-js';
+import type { PlaidLinkError, PlaidLinkOnSuccessMetadata } from 'react-plaid-link';
 import { BusinessType } from '../types/payment';
 import Header from './Header';
+import PlaidLinkButton from './PlaidLinkButton';
+import BankAccountLabel from './BankAccountLabel';
+import { PLANS } from '../config/planCatalog';
+import { isTradespherePlanType } from '../types/stripe-payment';
+import type { TradespherePlanType } from '../types/stripe-payment';
+import { validateRoutingNumber, validateAccountNumber } from '../utils/validation';
+import { fetchInstitution } from '../utils/institutions';
+import { saveRegistrationDraft, loadRegistrationDraft, clearRegistrationDraft } from '../utils/registrationDrafts';
+import type { InstitutionBranding } from '../types/plaid';
 
 // ==============================================================================
 // TYPES & INTERFACES
 // ==============================================================================
 
-type PlanType = 'standard' | 'pro' | 'enterprise';
-type BankAccountType = 'checking' | 'savings';
 type IndustryType = 'Landscaping' | 'HVAC' | 'Plumbing' | 'General Contractor' | 'Other';
+type BankVerification = 'plaid' | 'microdeposits';
 
 interface FormData {
   // Step 1: Account Information
@@ -25,14 +35,21 @@ interface FormData {
   industry: IndustryType | '';
   businessType: BusinessType | '';
 
-  // Step 3: Bank Account
+  // Step 3: Bank Account (from Plaid Link, or entered manually and
+  // verified by micro-deposits - those numbers only go to Stripe.js)
+  bankVerification: BankVerification;
+  plaidPublicToken: string;
+  plaidAccountId: string;
+  bankInstitutionId: string;
+  bankInstitutionName: string;
   bankAccountName: string;
+  bankAccountMask: string;
   routingNumber: string;
   accountNumber: string;
-  bankAccountType: BankAccountType | '';
+  confirmAccountNumber: string;
 
   // Step 4: Plan Selection
-  plan: PlanType | '';
+  plan: TradespherePlanType | '';
   agreeToTerms: boolean;
   authorizeACH: boolean;
 }
@@ -41,12 +58,33 @@ interface ValidationErrors {
   [key: string]: string;
 }
 
-interface PlanOption {
-  id: PlanType;
-  name: string;
-  price: number;
-  features: string[];
-}
+// Form progress kept across the redirect to an OAuth bank (passwords and
+// account numbers are never stored)
+const OAUTH_DRAFT_STORAGE_KEY = 'tradesphere.registrationDraft';
+
+// Fields kept in the server-side draft (see registration-draft) - no
+// passwords, bank details or consent checkboxes
+const toDraftData = (data: FormData): Record<string, string> => ({
+  firstName: data.firstName,
+  lastName: data.lastName,
+  email: data.email,
+  companyName: data.companyName,
+  industry: data.industry,
+  businessType: data.businessType,
+  bankVerification: data.bankVerification,
+  plan: data.plan,
+});
+
+const fromDraftData = (data: Record<string, string>): Partial<FormData> => ({
+  firstName: data.firstName || '',
+  lastName: data.lastName || '',
+  email: data.email || '',
+  companyName: data.companyName || '',
+  industry: (data.industry || '') as FormData['industry'],
+  businessType: (data.businessType || '') as FormData['businessType'],
+  bankVerification: data.bankVerification === 'microdeposits' ? 'microdeposits' : 'plaid',
+  ...(isTradespherePlanType(data.plan) ? { plan: data.plan } : {}),
+});
 
 // ==============================================================================
 // COMPONENT
@@ -57,6 +95,11 @@ const OwnerRegistrationForm: React.FC = () => {
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [submitError, setSubmitError] = useState<string>('');
+  // Sign-in or retry link sent with a duplicate-signup (409) error
+  const [submitErrorLink, setSubmitErrorLink] = useState<{ href: string; label: string } | null>(null);
+  const [bankInstitution, setBankInstitution] = useState<InstitutionBranding | null>(null);
+  // Set when the form was restored from a saved draft
+  const [resumedFromDraft, setResumedFromDraft] = useState<boolean>(false);
 
   const [formData, setFormData] = useState<FormData>({
     firstName: '',
@@ -67,67 +110,94 @@ const OwnerRegistrationForm: React.FC = () => {
     companyName: '',
     industry: '',
     businessType: '',
+    bankVerification: 'plaid',
+    plaidPublicToken: '',
+    plaidAccountId: '',
+    bankInstitutionId: '',
+    bankInstitutionName: '',
     bankAccountName: '',
+    bankAccountMask: '',
     routingNumber: '',
     accountNumber: '',
-    bankAccountType: '',
+    confirmAccountNumber: '',
     plan: '',
     agreeToTerms: false,
     authorizeACH: false,
   });
 
-  // Pre-fill plan from URL query parameter
+  // Pre-fill plan (and email, from a "signup in progress" retry link) from URL query parameters
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const planParam = params.get('plan');
+    const emailParam = params.get('email');
 
-    if (planParam && ['standard', 'pro', 'enterprise'].includes(planParam)) {
-      setFormData(prev => ({ ...prev, plan: planParam as PlanType }));
+    if (isTradespherePlanType(planParam)) {
+      setFormData(prev => ({ ...prev, plan: planParam }));
+    }
+    if (emailParam) {
+      setFormData(prev => ({ ...prev, email: emailParam }));
     }
   }, []);
 
-  // ==============================================================================
-  // PLAN OPTIONS
-  // ==============================================================================
+  // Saved draft (?resume= link from the email, or this browser's last
+  // session) - reopen at the saved step. Bank details are never saved, so
+  // a draft past the bank step reopens on it.
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).has('oauth_state_id')) {
+      return;
+    }
+
+    let active = true;
+    loadRegistrationDraft('owner_registration').then(draft => {
+      if (!active || !draft) {
+        return;
+      }
+      setFormData(prev => ({ ...prev, ...fromDraftData(draft.data) }));
+      setCurrentStep(Math.min(Math.max(draft.step, 1), 3));
+      setResumedFromDraft(true);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // Returning from an OAuth bank login - restore the form and let
+  // PlaidLinkButton finish the Link session on step 3
+  useEffect(() => {
+    if (!new URLSearchParams(window.location.search).has('oauth_state_id')) {
+      return;
+    }
+
+    try {
+      const draft = JSON.parse(sessionStorage.getItem(OAUTH_DRAFT_STORAGE_KEY) || 'null') as Partial<FormData> | null;
+      if (draft) {
+        setFormData(prev => ({ ...prev, ...draft }));
+      }
+    } catch {
+      // Ignore an unreadable draft - the user can fill the form in again
+    }
+
+    sessionStorage.removeItem(OAUTH_DRAFT_STORAGE_KEY);
+    setCurrentStep(3);
+  }, []);
+
+  // Logo and color for the linked bank (cosmetic - the name is already known)
+  useEffect(() => {
+    setBankInstitution(null);
+    if (!formData.bankInstitutionId) {
+      return;
+    }
 
-  const plans: PlanOption[] = [
-    {
-      id: 'standard',
-      name: 'Standard Plan',
-      price: 2000,
-      features: [
-        'Up to 10 users',
-        'AI-powered quoting',
-        'Smart scheduling',
-        'Customer management',
-        'Email support',
-      ],
-    },
-    {
-      id: 'pro',
-      name: 'Pro Plan',
-      price: 3500,
-      features: [
-        'Up to 25 users',
-        'All Standard features',
-        'Real-time crew tracking',
-        'Advanced reporting',
-        'Priority support',
-      ],
-    },
-    {
-      id: 'enterprise',
-      name: 'Enterprise Plan',
-      price: 5000,
-      features: [
-        'Unlimited users',
-        'All Pro features',
-        'API access',
-        'Dedicated account manager',
-        '24/7 phone support',
-      ],
-    },
-  ];
+    let active = true;
+    fetchInstitution(formData.bankInstitutionId).then(institution => {
+      if (active) {
+        setBankInstitution(institution);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [formData.bankInstitutionId]);
 
   // ==============================================================================
   // VALIDATION FUNCTIONS
@@ -148,11 +218,6 @@ const OwnerRegistrationForm: React.FC = () => {
     return hasMinLength && hasUppercase && hasLowercase && hasNumber;
   };
 
-  const validateRoutingNumber = (routingNumber: string): boolean => {
-    // Must be exactly 9 digits
-    return /^\d{9}$/.test(routingNumber);
-  };
-
   const validateStep = (step: number): ValidationErrors => {
     const newErrors: ValidationErrors = {};
 
@@ -193,19 +258,20 @@ const OwnerRegistrationForm: React.FC = () => {
     }
 
     if (step === 3) {
-      if (!formData.bankAccountName.trim()) {
-        newErrors.bankAccountName = 'Bank account name is required';
-      }
-      if (!formData.routingNumber.trim()) {
-        newErrors.routingNumber = 'Routing number is required';
-      } else if (!validateRoutingNumber(formData.routingNumber)) {
-        newErrors.routingNumber = 'Routing number must be exactly 9 digits';
-      }
-      if (!formData.accountNumber.trim()) {
-        newErrors.accountNumber = 'Account number is required';
-      }
-      if (!formData.bankAccountType) {
-        newErrors.bankAccountType = 'Please select an account type';
+      if (formData.bankVerification === 'microdeposits') {
+        const routingValidation = validateRoutingNumber(formData.routingNumber);
+        if (!routingValidation.isValid) {
+          newErrors.routingNumber = routingValidation.error || 'Please enter a valid routing number';
+        }
+        const accountValidation = validateAccountNumber(formData.accountNumber);
+        if (!accountValidation.isValid) {
+          newErrors.accountNumber = accountValidation.error || 'Please enter a valid account number';
+        }
+        if (formData.confirmAccountNumber !== formData.accountNumber) {
+          newErrors.confirmAccountNumber = 'Account numbers do not match';
+        }
+      } else if (!formData.plaidPublicToken || !formData.plaidAccountId) {
+        newErrors.plaidPublicToken = 'Please link your bank account';
       }
     }
 
@@ -255,6 +321,104 @@ const OwnerRegistrationForm: React.FC = () => {
     }
   };
 
+  const handleBankLinked = (publicToken: string, metadata: PlaidLinkOnSuccessMetadata) => {
+    const account = metadata.accounts[0];
+    if (!account) {
+      setErrors({ plaidPublicToken: 'No account was selected. Please link your bank account again.' });
+      return;
+    }
+
+    setFormData(prev => ({
+      ...prev,
+      plaidPublicToken: publicToken,
+      plaidAccountId: account.id,
+      bankInstitutionId: metadata.institution?.institution_id || '',
+      bankInstitutionName: metadata.institution?.name || 'Your bank',
+      bankAccountName: account.name,
+      bankAccountMask: account.mask,
+    }));
+    setErrors({});
+  };
+
+  const handleBankLinkExit = (error: PlaidLinkError | null) => {
+    if (error) {
+      setErrors({ plaidPublicToken: error.display_message || 'Your bank could not be linked. Please try again.' });
+    }
+  };
+
+  const handleBankLinkError = (message: string) => {
+    setErrors({ plaidPublicToken: message });
+  };
+
+  const saveOAuthDraft = () => {
+    sessionStorage.setItem(
+      OAUTH_DRAFT_STORAGE_KEY,
+      JSON.stringify({
+        ...formData,
+        password: '',
+        confirmPassword: '',
+        routingNumber: '',
+        accountNumber: '',
+        confirmAccountNumber: '',
+      })
+    );
+  };
+
+  const setBankVerification = (bankVerification: BankVerification) => {
+    setFormData(prev => ({ ...prev, bankVerification }));
+    setErrors({});
+  };
+
+  // Send the manually entered account to Stripe for micro-deposit
+  // verification and return the SetupIntent for signup-with-payment
+  const confirmMicrodepositSetup = async (): Promise<string> => {
+    const ownerName = `${formData.firstName} ${formData.lastName}`;
+
+    const setupResponse = await fetch('/.netlify/functions/create-subscription-setup', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        companyEmail: formData.email,
+        companyName: formData.companyName,
+        ownerName,
+        subscriptionTier: formData.plan,
+        verificationMethod: 'microdeposits',
+      }),
+    });
+
+    const setup = await setupResponse.json();
+    if (!setupResponse.ok) {
+      throw new Error(setup.message || 'Unable to set up bank verification. Please try again.');
+    }
+
+    const stripe = await loadStripe(setup.publishableKey);
+    if (!stripe) {
+      throw new Error('Unable to load secure payment setup. Please refresh and try again.');
+    }
+
+    const { setupIntent, error } = await stripe.confirmUsBankAccountSetup(setup.clientSecret, {
+      payment_method: {
+        us_bank_account: {
+          routing_number: formData.routingNumber.replace(/\D/g, ''),
+          account_number: formData.accountNumber.replace(/\D/g, ''),
+          account_holder_type: formData.businessType === 'soleProprietorship' ? 'individual' : 'company',
+        },
+        billing_details: {
+          name: ownerName,
+          email: formData.email,
+        },
+      },
+    });
+
+    if (error || !setupIntent) {
+      throw new Error(error?.message || 'Unable to submit your bank details. Please check them and try again.');
+    }
+
+    return setupIntent.id;
+  };
+
   const handleNext = () => {
     const stepErrors = validateStep(currentStep);
 
@@ -264,7 +428,16 @@ const OwnerRegistrationForm: React.FC = () => {
     }
 
     setErrors({});
-    setCurrentStep(prev => Math.min(prev + 1, 4));
+    const nextStep = Math.min(currentStep + 1, 4);
+    setCurrentStep(nextStep);
+
+    // Keep the completed step server-side (emails a resume link the first time)
+    saveRegistrationDraft('owner_registration', nextStep, toDraftData(formData));
+  };
+
+  const handleStartOver = async () => {
+    await clearRegistrationDraft('owner_registration', { discard: true });
+    window.location.href = '/signup';
   };
 
   const handlePrevious = () => {
@@ -275,17 +448,25 @@ const OwnerRegistrationForm: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    // Validate all steps
-    const step4Errors = validateStep(4);
-    if (Object.keys(step4Errors).length > 0) {
-      setErrors(step4Errors);
-      return;
+    // Validate all steps - after an OAuth bank login the passwords
+    // have to be entered again, so send the user back to that step
+    for (const step of [1, 2, 3, 4]) {
+      const stepErrors = validateStep(step);
+      if (Object.keys(stepErrors).length > 0) {
+        setErrors(stepErrors);
+        setCurrentStep(step);
+        return;
+      }
     }
 
     setIsSubmitting(true);
     setSubmitError('');
+    setSubmitErrorLink(null);
 
     try {
+      const usesMicrodeposits = formData.bankVerification === 'microdeposits';
+      const stripeSetupIntentId = usesMicrodeposits ? await confirmMicrodepositSetup() : undefined;
+
       // Prepare data for API
       const apiData = {
         firstName: formData.firstName,
@@ -294,14 +475,13 @@ const OwnerRegistrationForm: React.FC = () => {
         password: formData.password,
         companyName: formData.companyName,
         industry: formData.industry,
-        businessType: formData.businessType,
-        bankAccountName: formData.bankAccountName,
-        routingNumber: formData.routingNumber,
-        accountNumber: formData.accountNumber,
-        bankAccountType: formData.bankAccountType,
-        plan: formData.plan,
+        accountHolderType: formData.businessType === 'soleProprietorship' ? 'individual' : 'company',
+        plaidPublicToken: usesMicrodeposits ? undefined : formData.plaidPublicToken,
+        plaidAccountId: usesMicrodeposits ? undefined : formData.plaidAccountId,
+        stripeSetupIntentId,
+        selectedPlan: formData.plan,
         agreeToTerms: formData.agreeToTerms,
-        authorizeACH: formData.authorizeACH,
+        authorizePayments: formData.authorizeACH,
       };
 
       const response = await fetch('/.netlify/functions/signup-with-payment', {
@@ -315,11 +495,27 @@ const OwnerRegistrationForm: React.FC = () => {
       const result = await response.json();
 
       if (!response.ok) {
-        throw new Error(result.error || 'Registration failed. Please try again.');
+        if (result.loginUrl) {
+          setSubmitErrorLink({ href: result.loginUrl, label: 'Sign in instead' });
+        } else if (result.resumeUrl) {
+          setSubmitErrorLink({ href: result.resumeUrl, label: 'Try again' });
+        }
+        throw new Error(result.details || result.error || 'Registration failed. Please try again.');
       }
 
-      // Success - redirect to success page
-      window.location.href = '/registration-success';
+      // The server deleted the draft - forget its token here as well
+      clearRegistrationDraft('owner_registration');
+
+      // Success - redirect to success page (trial end as computed by the server)
+      const successParams = new URLSearchParams();
+      if (usesMicrodeposits) {
+        successParams.set('verification', 'microdeposits');
+      }
+      if (result.data?.trialEndDate) {
+        successParams.set('trialEnd', result.data.trialEndDate);
+      }
+      const query = successParams.toString();
+      window.location.href = query ? `/registration-success?${query}` : '/registration-success';
     } catch (error) {
       console.error('Registration error:', error);
       setSubmitError(
@@ -487,13 +683,70 @@ const OwnerRegistrationForm: React.FC = () => {
 
   const renderStep3 = () => (
     <div className="space-y-6">
-      {renderInputField('bankAccountName', 'Bank Account Name', 'text', 'Company Business Checking')}
-      {renderInputField('routingNumber', 'Routing Number', 'text', '123456789')}
-      {renderInputField('accountNumber', 'Account Number', 'text', 'Your account number')}
-      {renderSelectField('bankAccountType', 'Account Type', [
-        { value: 'checking', label: 'Checking' },
-        { value: 'savings', label: 'Savings' },
-      ])}
+      {formData.bankVerification === 'microdeposits' ? (
+        <>
+          <p className="text-gray-300">
+            Enter your business bank account. Stripe will send small deposits to it within 1-2 business days -
+            sign in and enter them on the Verify Bank page to finish setting up payments.
+          </p>
+
+          {renderInputField('routingNumber', 'Routing Number', 'text', '9-digit routing number')}
+          {renderInputField('accountNumber', 'Account Number', 'text', 'Your account number')}
+          {renderInputField('confirmAccountNumber', 'Confirm Account Number', 'text', 'Re-enter your account number')}
+
+          <button
+            type="button"
+            onClick={() => setBankVerification('plaid')}
+            disabled={isSubmitting}
+            className="text-sm text-blue-400 hover:text-blue-300 underline disabled:opacity-50"
+          >
+            Link your bank instantly with Plaid instead
+          </button>
+        </>
+      ) : (
+        <>
+          <p className="text-gray-300">
+            Connect your business bank account securely through Plaid. Your bank login is never shared with us.
+          </p>
+
+          {formData.plaidPublicToken && (
+            <div className="flex items-center rounded-lg p-4 border border-green-500/50 bg-green-900/20">
+              <BankAccountLabel
+                institution={bankInstitution}
+                bankName={formData.bankInstitutionName}
+                last4={formData.bankAccountMask}
+                iconClassName="text-green-300"
+              >
+                <p className="text-sm text-green-200">{formData.bankAccountName}</p>
+              </BankAccountLabel>
+            </div>
+          )}
+
+          <PlaidLinkButton
+            label={formData.plaidPublicToken ? 'Use a different account' : 'Link bank account'}
+            onSuccess={handleBankLinked}
+            onExit={handleBankLinkExit}
+            onError={handleBankLinkError}
+            onOpen={saveOAuthDraft}
+            disabled={isSubmitting}
+          />
+          {errors.plaidPublicToken && (
+            <p className="mt-1 text-sm text-red-400 flex items-center">
+              <AlertCircle className="h-4 w-4 mr-1" />
+              {errors.plaidPublicToken}
+            </p>
+          )}
+
+          <button
+            type="button"
+            onClick={() => setBankVerification('microdeposits')}
+            disabled={isSubmitting}
+            className="text-sm text-blue-400 hover:text-blue-300 underline disabled:opacity-50"
+          >
+            Can't find your bank? Verify with micro-deposits instead
+          </button>
+        </>
+      )}
 
       <div className="bg-blue-900/20 border border-blue-500/30 rounded-lg p-4">
         <p className="text-sm text-blue-300">
@@ -511,7 +764,7 @@ const OwnerRegistrationForm: React.FC = () => {
           Select Your Plan
         </label>
         <div className="space-y-4">
-          {plans.map((plan) => (
+          {PLANS.map((plan) => (
             <label
               key={plan.id}
               className={`block cursor-pointer ${isSubmitting ? 'opacity-50 cursor-not-allowed' : ''}`}
@@ -537,7 +790,7 @@ const OwnerRegistrationForm: React.FC = () => {
                     <div className="flex items-center justify-between">
                       <h4 className="text-lg font-bold text-white">{plan.name}</h4>
                       <span className="text-2xl font-bold text-white">
-                        ${plan.price.toLocaleString()}
+                        ${plan.monthlyPrice.toLocaleString()}
                         <span className="text-sm text-gray-400 font-normal">/month</span>
                       </span>
                     </div>
@@ -666,12 +919,35 @@ const OwnerRegistrationForm: React.FC = () => {
 
         {/* Form */}
         <div className="bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 p-8">
+          {resumedFromDraft && (
+            <div className="mb-6 bg-blue-900/20 border border-blue-500/50 rounded-lg p-4 flex items-start justify-between">
+              <div>
+                <h4 className="text-blue-400 font-semibold mb-1">Welcome back</h4>
+                <p className="text-blue-200 text-sm">
+                  We restored your progress. Passwords and bank details are never saved, so you'll enter them again.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={handleStartOver}
+                className="ml-4 text-sm text-blue-400 hover:text-blue-300 underline flex-shrink-0"
+              >
+                Start over
+              </button>
+            </div>
+          )}
+
           {submitError && (
             <div className="mb-6 bg-red-900/20 border border-red-500/50 rounded-lg p-4 flex items-start">
               <AlertCircle className="h-5 w-5 text-red-400 mr-3 flex-shrink-0 mt-0.5" />
               <div>
                 <h4 className="text-red-400 font-semibold mb-1">Registration Error</h4>
                 <p className="text-red-300 text-sm">{submitError}</p>
+                {submitErrorLink && (
+                  <a href={submitErrorLink.href} className="inline-block mt-2 text-sm text-blue-400 hover:text-blue-300 underline">
+                    {submitErrorLink.label}
+                  </a>
+                )}
               </div>
             </div>
           )}
@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { usePlaidLink } from 'react-plaid-link';
+import type { PlaidLinkError, PlaidLinkOnExitMetadata, PlaidLinkOnSuccessMetadata } from 'react-plaid-link';
+import { Landmark, Loader2 } from 'lucide-react';
+import { isLinkTokenExpired, getTokenTimeRemaining } from '../types/plaid';
+
+// ==============================================================================
+// TYPES & INTERFACES
+// ==============================================================================
+
+interface PlaidLinkButtonProps {
+  /** Bank linked - exchange the public token server-side */
+  onSuccess: (publicToken: string, metadata: PlaidLinkOnSuccessMetadata) => void;
+
+  /** Link closed without linking (error is null if the user just closed it) */
+  onExit?: (error: PlaidLinkError | null, metadata: PlaidLinkOnExitMetadata) => void;
+
+  /** Link could not be started (token request failed) */
+  onError?: (message: string) => void;
+
+  /** Called right before Link opens - save anything an OAuth redirect would lose */
+  onOpen?: () => void;
+
+  label?: string;
+  disabled?: boolean;
+}
+
+interface LinkToken {
+  linkToken: string;
+  expiration: string;
+}
+
+// Survives the OAuth round trip to the bank (same tab only)
+const LINK_TOKEN_STORAGE_KEY = 'tradesphere.plaidLinkToken';
+
+// Request a new token this long before the current one expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * True when Plaid redirected back here after an OAuth bank login
+ */
+function isPlaidOAuthRedirect(): boolean {
+  return new URLSearchParams(window.location.search).has('oauth_state_id');
+}
+
+function readStoredLinkToken(): LinkToken | null {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(LINK_TOKEN_STORAGE_KEY) || 'null') as LinkToken | null;
+    return stored && !isLinkTokenExpired(stored.expiration) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+function clearOAuthRedirect(): void {
+  sessionStorage.removeItem(LINK_TOKEN_STORAGE_KEY);
+  window.history.replaceState(null, '', window.location.pathname);
+}
+
+// ==============================================================================
+// COMPONENT
+// ==============================================================================
+
+/**
+ * Opens Plaid Link to connect a bank account
+ *
+ * Fetches its own Link token from create-link-token and replaces it before it
+ * expires. When the page loads from an OAuth redirect, Link is resumed with
+ * the original token and reopens automatically.
+ */
+const PlaidLinkButton: React.FC<PlaidLinkButtonProps> = ({
+  onSuccess,
+  onExit,
+  onError,
+  onOpen,
+  label = 'Link bank account',
+  disabled = false,
+}) => {
+  const [oauthRedirect, setOAuthRedirect] = useState<boolean>(() => isPlaidOAuthRedirect() && readStoredLinkToken() !== null);
+  const [oauthTokenLost] = useState<boolean>(() => isPlaidOAuthRedirect() && readStoredLinkToken() === null);
+  const [linkToken, setLinkToken] = useState<LinkToken | null>(() => (oauthRedirect ? readStoredLinkToken() : null));
+  const [isLoadingToken, setIsLoadingToken] = useState<boolean>(false);
+  const [openWhenReady, setOpenWhenReady] = useState<boolean>(oauthRedirect);
+
+  // Link keeps the callbacks it was created with - always call the latest props
+  const callbacks = useRef({ onSuccess, onExit, onError });
+  useEffect(() => {
+    callbacks.current = { onSuccess, onExit, onError };
+  }, [onSuccess, onExit, onError]);
+
+  const fetchLinkToken = useCallback(async () => {
+    setIsLoadingToken(true);
+    try {
+      const response = await fetch('/.netlify/functions/create-link-token', { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Unable to connect to Plaid. Please try again.');
+      }
+
+      const token: LinkToken = { linkToken: result.linkToken, expiration: result.expiration };
+      sessionStorage.setItem(LINK_TOKEN_STORAGE_KEY, JSON.stringify(token));
+      setLinkToken(token);
+    } catch (error) {
+      console.error('Link token error:', error);
+      setOpenWhenReady(false);
+      callbacks.current.onError?.(
+        error instanceof Error ? error.message : 'Unable to connect to Plaid. Please try again.'
+      );
+    } finally {
+      setIsLoadingToken(false);
+    }
+  }, []);
+
+  // A resumed OAuth session needs the token it started with - a new one will not work
+  useEffect(() => {
+    if (!oauthRedirect) {
+      fetchLinkToken();
+    }
+  }, [oauthRedirect, fetchLinkToken]);
+
+  useEffect(() => {
+    if (oauthTokenLost) {
+      clearOAuthRedirect();
+      callbacks.current.onError?.('Your bank connection timed out. Please link your bank account again.');
+    }
+  }, [oauthTokenLost]);
+
+  // Replace the token shortly before it expires
+  useEffect(() => {
+    if (!linkToken || oauthRedirect) {
+      return;
+    }
+
+    const timer = setTimeout(
+      fetchLinkToken,
+      Math.max(0, getTokenTimeRemaining(linkToken.expiration) - TOKEN_REFRESH_MARGIN_MS)
+    );
+    return () => clearTimeout(timer);
+  }, [linkToken, oauthRedirect, fetchLinkToken]);
+
+  const handleSuccess = useCallback((publicToken: string, metadata: PlaidLinkOnSuccessMetadata) => {
+    if (oauthRedirect) {
+      clearOAuthRedirect();
+      setOAuthRedirect(false);
+    }
+    callbacks.current.onSuccess(publicToken, metadata);
+  }, [oauthRedirect]);
+
+  const handleExit = useCallback((error: PlaidLinkError | null, metadata: PlaidLinkOnExitMetadata) => {
+    if (oauthRedirect) {
+      clearOAuthRedirect();
+      setOAuthRedirect(false);
+    }
+    if (error?.error_code === 'INVALID_LINK_TOKEN') {
+      fetchLinkToken();
+    }
+    callbacks.current.onExit?.(error, metadata);
+  }, [oauthRedirect, fetchLinkToken]);
+
+  const { open, ready } = usePlaidLink({
+    token: linkToken?.linkToken ?? null,
+    receivedRedirectUri: oauthRedirect ? window.location.href : undefined,
+    onSuccess: handleSuccess,
+    onExit: handleExit,
+  });
+
+  useEffect(() => {
+    if (openWhenReady && ready) {
+      setOpenWhenReady(false);
+      open();
+    }
+  }, [openWhenReady, ready, open]);
+
+  const handleClick = () => {
+    onOpen?.();
+
+    if (!linkToken || isLinkTokenExpired(linkToken.expiration)) {
+      setOpenWhenReady(true);
+      fetchLinkToken();
+      return;
+    }
+
+    open();
+  };
+
+  const isBusy = isLoadingToken || openWhenReady;
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={disabled || isBusy || (!ready && !!linkToken)}
+      className="flex items-center justify-center w-full px-6 py-3 bg-gradient-to-r from-blue-600 to-teal-600 text-white rounded-lg hover:from-blue-700 hover:to-teal-700 transition-all font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isBusy ? <Loader2 className="h-5 w-5 mr-2 animate-spin" /> : <Landmark className="h-5 w-5 mr-2" />}
+      {label}
+    </button>
+  );
+};
+
+export default PlaidLinkButton;
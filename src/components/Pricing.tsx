@@ -1,70 +1,26 @@
 import React, { useState } from 'react';
 import { Check, Star } from 'lucide-react';
+import { PLANS, PLAN_TRIAL_DAYS, getPlan, formatUserLimit } from '../config/planCatalog';
 
 const Pricing = () => {
   const [showComparison, setShowComparison] = useState(false);
 
-  const plans = [
-    {
-      name: 'Starter',
-      price: 'Contact Us',
-      period: '',
-      description: 'For small teams and solo operators',
-      features: [
-        'Up to 5 users',
-        'AI-powered quoting engine',
-        'Smart scheduling & mobile access',
-        'Customer management',
-        'Email + chat support',
-        '5 quote analytics projects/month'
-      ],
-      popular: false,
-      cta: 'Book a Demo',
-      planParam: 'standard'
-    },
-    {
-      name: 'Growth',
-      price: 'Contact Us',
-      period: '',
-      description: 'For growing field teams and businesses',
-      features: [
-        'Includes all Starter features',
-        'Up to 20 users',
-        'Real-time crew tracking',
-        'Route optimization',
-        'Advanced reporting & dashboards',
-        'Unlimited quote sessions',
-        'Live support & onboarding help'
-      ],
-      popular: true,
-      cta: 'Book a Demo',
-      planParam: 'pro'
-    },
-    {
-      name: 'Enterprise',
-      price: 'Contact Us',
-      period: '',
-      description: 'For large or multi-location businesses',
-      features: [
-        'Includes all Growth features',
-        'Unlimited users',
-        'Branch/location management',
-        'Dedicated account manager',
-        'API & integrations',
-        'White-labeled client portal',
-        'Custom onboarding & priority support'
-      ],
-      popular: false,
-      cta: 'Book a Demo',
-      planParam: 'enterprise'
-    }
-  ];
+  const plans = PLANS.map(plan => ({
+    ...plan,
+    price: `$${plan.monthlyPrice.toLocaleString()}`,
+    period: 'month',
+    cta: 'Book a Demo'
+  }));
+
+  const starterPlan = getPlan('starter');
+  const growthPlan = getPlan('growth');
+  const enterprisePlan = getPlan('enterprise');
 
   const allFeatures = [
     {
       category: 'Users & Access',
       features: [
-        { name: 'Number of users', starter: 'Up to 5', growth: 'Up to 20', enterprise: 'Unlimited' },
+        { name: 'Number of users', starter: formatUserLimit(starterPlan), growth: formatUserLimit(growthPlan), enterprise: formatUserLimit(enterprisePlan) },
         { name: 'Mobile access', starter: true, growth: true, enterprise: true },
         { name: 'Multi-location support', starter: false, growth: false, enterprise: true }
       ]
@@ -119,7 +75,7 @@ const Pricing = () => {
             Simple, Transparent Pricing
           </h2>
           <p className="text-xl text-gray-300 max-w-3xl mx-auto mb-8 animate-fade-in-up delay-100">
-            Choose the plan that fits your business size and needs. All plans include a 14-day free trial.
+            Choose the plan that fits your business size and needs. All plans include a {PLAN_TRIAL_DAYS}-day free trial.
           </p>
           
           {/* Compare Plans Toggle */}
@@ -189,7 +145,7 @@ const Pricing = () => {
                         : 'bg-gray-700 text-white hover:bg-gray-600 border border-gray-600 hover:border-blue-400 hover:scale-105'
                     }`}
                     onClick={() => {
-                      window.location.href = `/signup?plan=${plan.planParam}`;
+                      window.location.href = `/signup?plan=${plan.id}`;
                     }}
                   >
                     <span className="relative z-10">{plan.cta}</span>
@@ -222,10 +178,10 @@ const Pricing = () => {
                   <tr className="bg-gray-700 border-b border-gray-600">
                     <th className="text-left py-4 px-6 font-semibold text-white">Features</th>
                     <th className="text-center py-4 px-6 font-semibold text-white">
-                      Starter
+                      {starterPlan.name}
                     </th>
                     <th className="text-center py-4 px-6 font-semibold text-white relative">
-                      Growth
+                      {growthPlan.name}
                       <div className="absolute -top-2 left-1/2 transform -translate-x-1/2">
                         <div className="bg-gradient-to-r from-blue-500 to-teal-500 text-white px-2 py-1 rounded text-xs font-medium">
                           Most Popular
@@ -233,7 +189,7 @@ const Pricing = () => {
                       </div>
                     </th>
                     <th className="text-center py-4 px-6 font-semibold text-white">
-                      Enterprise
+                      {enterprisePlan.name}
                     </th>
                   </tr>
                 </thead>
@@ -295,7 +251,7 @@ const Pricing = () => {
                 <div></div>
                 <button
                   onClick={() => {
-                    window.location.href = '/signup?plan=standard';
+                    window.location.href = `/signup?plan=${starterPlan.id}`;
                   }}
                   className="bg-gray-600 text-white py-2 px-4 rounded-lg hover:bg-gray-500 transition-colors font-semibold text-sm border border-gray-500"
                 >
@@ -303,7 +259,7 @@ const Pricing = () => {
                 </button>
                 <button
                   onClick={() => {
-                    window.location.href = '/signup?plan=pro';
+                    window.location.href = `/signup?plan=${growthPlan.id}`;
                   }}
                   className="bg-gradient-to-r from-blue-600 to-teal-600 text-white py-2 px-4 rounded-lg hover:from-blue-700 hover:to-teal-700 transition-all font-semibold text-sm shadow-lg"
                 >
@@ -311,7 +267,7 @@ const Pricing = () => {
                 </button>
                 <button
                   onClick={() => {
-                    window.location.href = '/signup?plan=enterprise';
+                    window.location.href = `/signup?plan=${enterprisePlan.id}`;
                   }}
                   className="bg-gray-600 text-white py-2 px-4 rounded-lg hover:bg-gray-500 transition-colors font-semibold text-sm border border-gray-500"
                 >
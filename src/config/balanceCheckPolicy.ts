@@ -0,0 +1,77 @@
+/**
+ * BALANCE CHECK POLICY
+ *
+ * Optional check of the company's available bank balance (via Plaid)
+ * right before an ACH debit, to avoid NSF returns - each one costs a
+ * return fee and a week of delay. Used by BalanceCheckService (the
+ * invoice.created webhook and the process-balance-checks scheduled
+ * function).
+ *
+ * Configured per plan. Companies without a Plaid-linked account (e.g.
+ * micro-deposit verified banks) are never checked.
+ */
+
+import type { TradespherePlanType } from '../types/stripe-payment';
+
+/**
+ * What to do when the available balance is below the required balance
+ */
+export type BalanceCheckMode =
+  | 'off'    // No check - debit goes out as scheduled
+  | 'warn'   // Debit goes out, low balance is logged
+  | 'delay'; // Hold the debit and check again later
+
+/**
+ * Balance check settings for one plan
+ */
+export interface BalanceCheckPolicy {
+  mode: BalanceCheckMode;
+
+  /**
+   * Required available balance as a multiple of the debit amount
+   * (1 = exactly the amount, 1.1 = amount plus a 10% cushion)
+   */
+  minimumBalanceRatio: number;
+
+  /** Hours to wait before checking a delayed debit again */
+  recheckAfterHours: number;
+
+  /** Delays before the debit goes out regardless of the balance */
+  maxDelays: number;
+}
+
+/**
+ * Default policies: hold small-plan debits for up to three days, only warn
+ * for Enterprise (invoiced customers with account managers)
+ */
+export const DEFAULT_BALANCE_CHECK_POLICIES: Record<TradespherePlanType, BalanceCheckPolicy> = {
+  starter: {
+    mode: 'delay',
+    minimumBalanceRatio: 1,
+    recheckAfterHours: 24,
+    maxDelays: 3,
+  },
+  growth: {
+    mode: 'delay',
+    minimumBalanceRatio: 1,
+    recheckAfterHours: 24,
+    maxDelays: 3,
+  },
+  enterprise: {
+    mode: 'warn',
+    minimumBalanceRatio: 1,
+    recheckAfterHours: 24,
+    maxDelays: 0,
+  },
+};
+
+/**
+ * Get the balance check policy for a plan (unknown plans are not checked)
+ */
+export function getBalanceCheckPolicy(
+  planId: string | null | undefined,
+  policies: Record<TradespherePlanType, BalanceCheckPolicy> = DEFAULT_BALANCE_CHECK_POLICIES
+): BalanceCheckPolicy {
+  const policy = planId ? policies[planId as TradespherePlanType] : undefined;
+  return policy || { mode: 'off', minimumBalanceRatio: 1, recheckAfterHours: 24, maxDelays: 0 };
+}
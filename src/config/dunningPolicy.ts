@@ -0,0 +1,70 @@
+/**
+ * DUNNING POLICY
+ *
+ * How a company moves through dunning after an ACH debit fails, and when
+ * the failed invoice is retried. Used by DunningService (webhooks and the
+ * process-dunning scheduled function).
+ *
+ * Stages are entered by age of the dunning case (days since the first
+ * failure), so a company that never pays walks the whole ladder and one
+ * that pays at any point is restored to active.
+ */
+
+/**
+ * Dunning stage (companies.dunning_stage / dunning_cases.stage)
+ */
+export type DunningStage =
+  | 'past_due'      // Payment failed - full access, owner notified
+  | 'grace_period'  // Still unpaid - full access, final reminders
+  | 'restricted'    // Read-only access until payment succeeds
+  | 'suspended';    // Access suspended
+
+/**
+ * One rung of the dunning ladder
+ */
+export interface DunningStageConfig {
+  /** Stage entered */
+  stage: DunningStage;
+
+  /** Days after the first failure the stage starts */
+  afterDays: number;
+}
+
+/**
+ * Dunning policy
+ */
+export interface DunningPolicy {
+  /** Stages in order (the first must start at day 0) */
+  stages: DunningStageConfig[];
+
+  /**
+   * Days to wait before each retry of the failed invoice, counted from the
+   * failure that preceded it. One entry per retry.
+   */
+  retryAfterDays: number[];
+
+  /** Failure codes that need a new bank account - never retried */
+  nonRetryableFailureCodes: string[];
+}
+
+/**
+ * Default policy: 3 retries over two weeks, suspension after three weeks
+ */
+export const DEFAULT_DUNNING_POLICY: DunningPolicy = {
+  stages: [
+    { stage: 'past_due', afterDays: 0 },
+    { stage: 'grace_period', afterDays: 3 },
+    { stage: 'restricted', afterDays: 10 },
+    { stage: 'suspended', afterDays: 21 },
+  ],
+  retryAfterDays: [3, 4, 7],
+  nonRetryableFailureCodes: [
+    'account_closed',
+    'account_frozen',
+    'bank_account_restricted',
+    'bank_account_unusable',
+    'debit_not_authorized',
+    'invalid_account_number',
+    'no_account',
+  ],
+};
@@ -0,0 +1,130 @@
+/**
+ * PLAN CATALOG
+ *
+ * Single source of truth for Tradesphere subscription plans: IDs, display
+ * names, monthly/annual prices, user limits, features and the env vars
+ * holding each plan's Stripe price IDs.
+ *
+ * The data lives in plans.json so the CommonJS scripts can read it too:
+ * - scripts/setup-stripe-products.js creates the Stripe prices from it
+ * - scripts/check-plan-catalog.cjs fails when Stripe disagrees with it
+ *
+ * Safe to import in the browser - Stripe price IDs are only resolved
+ * server-side (getStripePriceId reads process.env).
+ */
+
+import catalogData from './plans.json';
+import type { StripeBillingInterval, TradespherePlanType } from '../types/stripe-payment';
+
+/**
+ * Plan definition
+ */
+export interface PlanDefinition {
+  /** Plan ID (stored in companies.subscription_tier) */
+  id: TradespherePlanType;
+
+  /** Display name */
+  name: string;
+
+  /** Short marketing description */
+  description: string;
+
+  /** Monthly price in dollars */
+  monthlyPrice: number;
+
+  /** Annual price in dollars */
+  annualPrice: number;
+
+  /** Maximum users (null = unlimited) */
+  userLimit: number | null;
+
+  /** Highlight on the pricing page */
+  popular: boolean;
+
+  /** Feature bullet points */
+  features: string[];
+
+  /** Env vars holding the Stripe price ID for each interval */
+  stripePriceEnv: Record<StripeBillingInterval, string>;
+}
+
+/**
+ * Plan catalog
+ */
+export interface PlanCatalog {
+  /** ISO currency code for every price */
+  currency: string;
+
+  /** Free trial length for new subscriptions */
+  trialDays: number;
+
+  /** Stripe product the plan prices belong to */
+  stripeProduct: {
+    name: string;
+    description: string;
+  };
+
+  /** Plans in display order */
+  plans: PlanDefinition[];
+}
+
+/**
+ * The catalog (see plans.json)
+ */
+export const PLAN_CATALOG = catalogData as PlanCatalog;
+
+/**
+ * Plans in display order
+ */
+export const PLANS: readonly PlanDefinition[] = PLAN_CATALOG.plans;
+
+/**
+ * Free trial length for new subscriptions
+ */
+export const PLAN_TRIAL_DAYS = PLAN_CATALOG.trialDays;
+
+/**
+ * Get a plan by ID
+ *
+ * @throws Error if the plan is not in the catalog
+ */
+export function getPlan(planId: TradespherePlanType): PlanDefinition {
+  const plan = PLANS.find(p => p.id === planId);
+  if (!plan) {
+    throw new Error(`Unknown plan: ${planId}`);
+  }
+  return plan;
+}
+
+/**
+ * Get a plan's price in dollars for a billing interval
+ */
+export function getPlanPrice(
+  planId: TradespherePlanType,
+  interval: StripeBillingInterval = 'month'
+): number {
+  const plan = getPlan(planId);
+  return interval === 'year' ? plan.annualPrice : plan.monthlyPrice;
+}
+
+/**
+ * Get the configured Stripe price ID for a plan (server-side only)
+ *
+ * @returns Price ID, or undefined if the env var is not set
+ */
+export function getStripePriceId(
+  planId: TradespherePlanType,
+  interval: StripeBillingInterval = 'month'
+): string | undefined {
+  if (typeof process === 'undefined') {
+    return undefined;
+  }
+  return process.env[getPlan(planId).stripePriceEnv[interval]] || undefined;
+}
+
+/**
+ * Format a user limit for display (e.g. "Up to 5", "Unlimited")
+ */
+export function formatUserLimit(plan: PlanDefinition): string {
+  return plan.userLimit === null ? 'Unlimited' : `Up to ${plan.userLimit}`;
+}
@@ -0,0 +1,32 @@
+/**
+ * TRIAL POLICY
+ *
+ * When trial reminders go out and how far an admin can extend a trial.
+ * Used by TrialService (signup, webhooks, the process-trials scheduled
+ * function and the extend-trial admin function).
+ *
+ * The trial length itself comes from the plan catalog (PLAN_TRIAL_DAYS).
+ */
+
+/**
+ * Trial policy
+ */
+export interface TrialPolicy {
+  /** Days before the trial ends that a reminder is sent */
+  reminderDays: number[];
+
+  /** Longest single extension an admin can grant */
+  maxExtensionDays: number;
+
+  /** Most days all extensions for one company can add up to */
+  maxTotalExtensionDays: number;
+}
+
+/**
+ * Default policy: reminders a week, three days and one day out
+ */
+export const DEFAULT_TRIAL_POLICY: TrialPolicy = {
+  reminderDays: [7, 3, 1],
+  maxExtensionDays: 30,
+  maxTotalExtensionDays: 60,
+};
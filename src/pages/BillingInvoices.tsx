@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Loader2, AlertCircle, Download, ExternalLink } from 'lucide-react';
+import BillingLayout from '../components/BillingLayout';
+import { ownerApi } from '../utils/ownerApi';
+import { formatAmount } from '../types/stripe-payment';
+import type { StripeInvoiceSummary } from '../types/stripe-payment';
+
+// ==============================================================================
+// TYPES & INTERFACES
+// ==============================================================================
+
+interface InvoicesResponse {
+  invoices: StripeInvoiceSummary[];
+  hasMore: boolean;
+}
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  paid: { label: 'Paid', className: 'text-green-300' },
+  open: { label: 'Processing', className: 'text-yellow-300' },
+  draft: { label: 'Upcoming', className: 'text-gray-400' },
+  uncollectible: { label: 'Failed', className: 'text-red-300' },
+  void: { label: 'Void', className: 'text-gray-500' },
+};
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// ==============================================================================
+// COMPONENT
+// ==============================================================================
+
+const BillingInvoicesContent: React.FC = () => {
+  const [invoices, setInvoices] = useState<StripeInvoiceSummary[]>([]);
+  const [hasMore, setHasMore] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+
+  const loadInvoices = useCallback(async (startingAfter?: string) => {
+    setIsLoading(true);
+    try {
+      const result = await ownerApi<InvoicesResponse>('billing-invoices', {
+        query: { startingAfter },
+      });
+      setInvoices(prev => (startingAfter ? [...prev, ...result.invoices] : result.invoices));
+      setHasMore(result.hasMore);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load invoices.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [loadInvoices]);
+
+  if (error) {
+    return (
+      <div className="flex items-start text-red-300">
+        <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+        {error}
+      </div>
+    );
+  }
+
+  if (!isLoading && invoices.length === 0) {
+    return <p className="text-gray-400 text-center py-8">No invoices yet. Your first invoice is created when your trial ends.</p>;
+  }
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-gray-700 text-left text-sm text-gray-400">
+              <th className="py-3 pr-4 font-medium">Date</th>
+              <th className="py-3 pr-4 font-medium">Invoice</th>
+              <th className="py-3 pr-4 font-medium">Amount</th>
+              <th className="py-3 pr-4 font-medium">Status</th>
+              <th className="py-3 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {invoices.map(invoice => {
+              const status = STATUS_LABELS[invoice.status || 'draft'] || STATUS_LABELS.draft;
+              return (
+                <tr key={invoice.id} className="border-b border-gray-700 text-gray-300">
+                  <td className="py-4 pr-4">{formatDate(invoice.created)}</td>
+                  <td className="py-4 pr-4 font-mono text-sm">{invoice.number || '—'}</td>
+                  <td className="py-4 pr-4">
+                    {formatAmount(invoice.status === 'paid' ? invoice.amountPaid : invoice.amountDue, invoice.currency.toUpperCase())}
+                  </td>
+                  <td className={`py-4 pr-4 font-medium ${status.className}`}>{status.label}</td>
+                  <td className="py-4 text-right space-x-3 whitespace-nowrap">
+                    {invoice.hostedInvoiceUrl && (
+                      <a
+                        href={invoice.hostedInvoiceUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center text-blue-400 hover:text-blue-300 text-sm"
+                      >
+                        <ExternalLink className="h-4 w-4 mr-1" />
+                        View
+                      </a>
+                    )}
+                    {invoice.invoicePdf && (
+                      <a
+                        href={invoice.invoicePdf}
+                        className="inline-flex items-center text-blue-400 hover:text-blue-300 text-sm"
+                      >
+                        <Download className="h-4 w-4 mr-1" />
+                        PDF
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {isLoading && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 text-blue-400 animate-spin" />
+        </div>
+      )}
+
+      {hasMore && !isLoading && (
+        <div className="text-center mt-6">
+          <button
+            onClick={() => loadInvoices(invoices[invoices.length - 1]?.id)}
+            className="px-6 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors font-medium"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const BillingInvoices: React.FC = () => (
+  <BillingLayout title="Invoices" description="Download past invoices and receipts">
+    <BillingInvoicesContent />
+  </BillingLayout>
+);
+
+export default BillingInvoices;
@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2, AlertCircle, Landmark, CalendarClock, ArrowRight } from 'lucide-react';
+import BillingLayout from '../components/BillingLayout';
+import BankAccountLabel from '../components/BankAccountLabel';
+import { ownerApi } from '../utils/ownerApi';
+import type { InstitutionBranding } from '../types/plaid';
+
+// ==============================================================================
+// TYPES & INTERFACES
+// ==============================================================================
+
+interface BillingOverviewResponse {
+  company: {
+    id: string;
+    name: string;
+    billingEmail: string;
+  };
+  plan: {
+    id: string | null;
+    name: string | null;
+    interval: 'month' | 'year';
+    monthlyAmount: number | null;
+    pendingPlanId: string | null;
+    pendingPlanName: string | null;
+    pendingInterval: 'month' | 'year' | null;
+    planChangeEffectiveAt: string | null;
+  };
+  subscription: {
+    status: string | null;
+    paymentMethodStatus: string | null;
+    trialEndDate: string | null;
+    nextBillingDate: string | null;
+    cancelAtPeriodEnd: boolean;
+    currentPeriodEnd: number | null;
+  };
+  bankAccount: {
+    id: string;
+    bankName: string;
+    last4: string;
+    accountType: string | null;
+    institution: InstitutionBranding | null;
+  } | null;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  active: 'bg-green-900/30 text-green-300 border-green-500/50',
+  trialing: 'bg-blue-900/30 text-blue-300 border-blue-500/50',
+  pending: 'bg-yellow-900/30 text-yellow-300 border-yellow-500/50',
+  past_due: 'bg-red-900/30 text-red-300 border-red-500/50',
+  canceled: 'bg-gray-700 text-gray-300 border-gray-500',
+};
+
+const formatDate = (value: string | number | null): string => {
+  if (!value) {
+    return '—';
+  }
+  const date = typeof value === 'number' ? new Date(value * 1000) : new Date(value);
+  return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+};
+
+// ==============================================================================
+// COMPONENT
+// ==============================================================================
+
+const BillingOverviewContent: React.FC = () => {
+  const [overview, setOverview] = useState<BillingOverviewResponse | null>(null);
+  const [error, setError] = useState<string>('');
+  const [showCancel, setShowCancel] = useState<boolean>(false);
+  const [cancelReason, setCancelReason] = useState<string>('');
+  const [isCanceling, setIsCanceling] = useState<boolean>(false);
+
+  const loadOverview = useCallback(async () => {
+    try {
+      setOverview(await ownerApi<BillingOverviewResponse>('billing-overview'));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load billing details.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOverview();
+  }, [loadOverview]);
+
+  const handleCancel = async () => {
+    setIsCanceling(true);
+    try {
+      await ownerApi('billing-cancel-subscription', {
+        method: 'POST',
+        body: { reason: cancelReason },
+      });
+      setShowCancel(false);
+      await loadOverview();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to cancel your subscription.');
+    } finally {
+      setIsCanceling(false);
+    }
+  };
+
+  if (error && !overview) {
+    return (
+      <div className="flex items-start text-red-300">
+        <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+        {error}
+      </div>
+    );
+  }
+
+  if (!overview) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 text-blue-400 animate-spin" />
+      </div>
+    );
+  }
+
+  const { plan, subscription, bankAccount } = overview;
+  const status = subscription.status || 'pending';
+  const isCanceled = status === 'canceled' || subscription.cancelAtPeriodEnd;
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-4 flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-400 mr-3 flex-shrink-0 mt-0.5" />
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Plan */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wide mb-1">Current Plan</h3>
+          <p className="text-2xl font-bold text-white">{plan.name || 'No plan'}</p>
+          {plan.monthlyAmount !== null && (
+            <p className="text-gray-300">
+              ${plan.monthlyAmount.toLocaleString()}/month
+              {plan.interval === 'year' && ' (billed annually)'}
+            </p>
+          )}
+        </div>
+        <span className={`px-3 py-1 rounded-full text-sm font-medium border ${STATUS_STYLES[status] || STATUS_STYLES.pending}`}>
+          {status.replace('_', ' ')}
+        </span>
+      </div>
+
+      {plan.pendingPlanName && (
+        <div className="bg-blue-900/20 border border-blue-500/50 rounded-lg p-4 text-blue-200 text-sm">
+          Your plan changes to <span className="font-semibold">{plan.pendingPlanName}</span>
+          {plan.pendingInterval === 'year' ? ' (annual)' : ''} on {formatDate(plan.planChangeEffectiveAt)}.
+        </div>
+      )}
+
+      {subscription.paymentMethodStatus === 'pending' && (
+        <div className="bg-yellow-900/20 border border-yellow-500/50 rounded-lg p-4 text-yellow-200 text-sm flex items-center justify-between">
+          <span>Your bank account still needs to be verified before we can collect payments.</span>
+          <Link to="/verify-bank" className="text-yellow-100 hover:text-white font-medium inline-flex items-center ml-4 flex-shrink-0">
+            Verify now <ArrowRight className="h-3 w-3 ml-1" />
+          </Link>
+        </div>
+      )}
+
+      {/* Billing dates */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="bg-gray-700/50 rounded-lg p-4 flex items-start">
+          <CalendarClock className="h-5 w-5 text-blue-400 mr-3 mt-0.5" />
+          <div>
+            <p className="text-sm text-gray-400">
+              {subscription.cancelAtPeriodEnd ? 'Access ends' : status === 'trialing' ? 'Trial ends' : 'Next payment'}
+            </p>
+            <p className="text-white font-semibold">
+              {subscription.cancelAtPeriodEnd
+                ? formatDate(subscription.currentPeriodEnd)
+                : status === 'trialing'
+                  ? formatDate(subscription.trialEndDate)
+                  : formatDate(subscription.nextBillingDate)}
+            </p>
+          </div>
+        </div>
+        {bankAccount ? (
+          <div className="bg-gray-700/50 rounded-lg p-4">
+            <p className="text-sm text-gray-400 mb-2">Bank account</p>
+            <BankAccountLabel institution={bankAccount.institution} bankName={bankAccount.bankName} last4={bankAccount.last4}>
+              <Link to="/billing/payment-methods" className="text-sm text-blue-400 hover:text-blue-300 inline-flex items-center mt-1">
+                Manage <ArrowRight className="h-3 w-3 ml-1" />
+              </Link>
+            </BankAccountLabel>
+          </div>
+        ) : (
+          <div className="bg-gray-700/50 rounded-lg p-4 flex items-start">
+            <Landmark className="h-5 w-5 text-blue-400 mr-3 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm text-gray-400">Bank account</p>
+              <p className="text-white font-semibold">Not connected</p>
+              <Link to="/billing/payment-methods" className="text-sm text-blue-400 hover:text-blue-300 inline-flex items-center mt-1">
+                Manage <ArrowRight className="h-3 w-3 ml-1" />
+              </Link>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Cancel */}
+      <div className="pt-6 border-t border-gray-700">
+        {isCanceled ? (
+          <p className="text-gray-400 text-sm">
+            {subscription.cancelAtPeriodEnd
+              ? `Your subscription is canceled and stays active until ${formatDate(subscription.currentPeriodEnd)}.`
+              : 'Your subscription is canceled.'}
+          </p>
+        ) : showCancel ? (
+          <div className="space-y-4">
+            <p className="text-gray-300">
+              Your subscription stays active until the end of the current billing period. No further payments will be taken.
+            </p>
+            <textarea
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder="Anything we could have done better? (optional)"
+              rows={3}
+              maxLength={500}
+              disabled={isCanceling}
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex space-x-3">
+              <button
+                onClick={handleCancel}
+                disabled={isCanceling}
+                className="flex items-center px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-semibold disabled:opacity-50"
+              >
+                {isCanceling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Confirm Cancellation
+              </button>
+              <button
+                onClick={() => setShowCancel(false)}
+                disabled={isCanceling}
+                className="px-6 py-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors font-semibold"
+              >
+                Keep Subscription
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setShowCancel(true)}
+            className="text-red-400 hover:text-red-300 text-sm font-medium"
+          >
+            Cancel subscription
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const BillingOverview: React.FC = () => (
+  <BillingLayout title="Billing" description="Your subscription, payments and bank account">
+    <BillingOverviewContent />
+  </BillingLayout>
+);
+
+export default BillingOverview;
@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Loader2, AlertCircle, Check } from 'lucide-react';
+import BillingLayout from '../components/BillingLayout';
+import BankAccountLabel from '../components/BankAccountLabel';
+import { ownerApi } from '../utils/ownerApi';
+import type { InstitutionBranding } from '../types/plaid';
+
+// ==============================================================================
+// TYPES & INTERFACES
+// ==============================================================================
+
+interface BankAccount {
+  id: string;
+  bankName: string;
+  last4: string;
+  institution: InstitutionBranding | null;
+  accountType: string | null;
+  status: string | null;
+  isDefault: boolean;
+  created: number;
+}
+
+interface PaymentMethodsResponse {
+  paymentMethods: BankAccount[];
+}
+
+// ==============================================================================
+// COMPONENT
+// ==============================================================================
+
+const BillingPaymentMethodsContent: React.FC = () => {
+  const [accounts, setAccounts] = useState<BankAccount[] | null>(null);
+  const [updatingId, setUpdatingId] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      const result = await ownerApi<PaymentMethodsResponse>('billing-payment-methods');
+      setAccounts(result.paymentMethods);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load bank accounts.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const handleMakeDefault = async (paymentMethodId: string) => {
+    setUpdatingId(paymentMethodId);
+    try {
+      const result = await ownerApi<PaymentMethodsResponse>('billing-payment-methods', {
+        method: 'POST',
+        body: { paymentMethodId },
+      });
+      setAccounts(result.paymentMethods);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to update your bank account.');
+    } finally {
+      setUpdatingId('');
+    }
+  };
+
+  if (!accounts) {
+    return error ? (
+      <div className="flex items-start text-red-300">
+        <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+        {error}
+      </div>
+    ) : (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 text-blue-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-4 flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-400 mr-3 flex-shrink-0 mt-0.5" />
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      {accounts.length === 0 && (
+        <p className="text-gray-400 text-center py-8">No bank accounts connected.</p>
+      )}
+
+      {accounts.map(account => (
+        <div
+          key={account.id}
+          className={`flex items-center justify-between rounded-lg p-5 border ${
+            account.isDefault ? 'border-blue-500 bg-blue-900/20' : 'border-gray-600 bg-gray-700/50'
+          }`}
+        >
+          <BankAccountLabel institution={account.institution} bankName={account.bankName} last4={account.last4}>
+            <p className="text-sm text-gray-400 capitalize">
+              {account.accountType || 'bank account'}
+              {account.status && account.status !== 'verified' && (
+                <span className="ml-2 text-yellow-300">({account.status.replace('_', ' ')})</span>
+              )}
+            </p>
+          </BankAccountLabel>
+
+          {account.isDefault ? (
+            <span className="inline-flex items-center text-sm text-blue-300 font-medium">
+              <Check className="h-4 w-4 mr-1" />
+              Default
+            </span>
+          ) : (
+            <button
+              onClick={() => handleMakeDefault(account.id)}
+              disabled={!!updatingId || (account.status !== null && account.status !== 'verified')}
+              className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-500 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {updatingId === account.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Make Default
+            </button>
+          )}
+        </div>
+      ))}
+
+      <p className="text-sm text-gray-400 pt-2">
+        Your subscription is paid from the default account by ACH debit.
+      </p>
+    </div>
+  );
+};
+
+const BillingPaymentMethods: React.FC = () => (
+  <BillingLayout title="Payment Methods" description="Choose the bank account your subscription is paid from">
+    <BillingPaymentMethodsContent />
+  </BillingLayout>
+);
+
+export default BillingPaymentMethods;
@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { usePlaidLink } from 'react-plaid-link';
+import { Loader2, AlertCircle, Landmark, CheckCircle, RefreshCw } from 'lucide-react';
+import BillingLayout from '../components/BillingLayout';
+import { ownerApi } from '../utils/ownerApi';
+
+// ==============================================================================
+// TYPES & INTERFACES
+// ==============================================================================
+
+interface ReconnectItem {
+  itemId: string;
+  institutionName: string;
+  accountName: string;
+  accountMask: string;
+  status: string;
+  consentExpirationTime: string | null;
+}
+
+interface ReconnectResponse {
+  item: ReconnectItem | null;
+  linkToken?: string;
+}
+
+const STATUS_MESSAGES: Record<string, string> = {
+  login_required: 'Your bank needs you to sign in again before we can collect payments.',
+  pending_expiration: 'Your permission for us to access this account expires soon.',
+  error: 'We are having trouble reaching this account.',
+};
+
+// ==============================================================================
+// COMPONENT
+// ==============================================================================
+
+const BillingReconnectBankContent: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const itemId = searchParams.get('itemId') || undefined;
+
+  const [item, setItem] = useState<ReconnectItem | null>(null);
+  const [linkToken, setLinkToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isCompleting, setIsCompleting] = useState<boolean>(false);
+  const [reconnected, setReconnected] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const loadItem = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await ownerApi<ReconnectResponse>('bank-reconnect', { query: { itemId } });
+      setItem(result.item);
+      setLinkToken(result.linkToken || null);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load your bank connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [itemId]);
+
+  useEffect(() => {
+    loadItem();
+  }, [loadItem]);
+
+  const handleSuccess = useCallback(async () => {
+    if (!item) {
+      return;
+    }
+
+    setIsCompleting(true);
+    try {
+      await ownerApi('bank-reconnect', {
+        method: 'POST',
+        body: { itemId: item.itemId },
+      });
+      setReconnected(true);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to finish reconnecting your bank.');
+    } finally {
+      setIsCompleting(false);
+    }
+  }, [item]);
+
+  const { open, ready } = usePlaidLink({
+    token: linkToken,
+    onSuccess: handleSuccess,
+    onExit: (exitError) => {
+      if (exitError) {
+        setError(exitError.display_message || 'Bank reconnection was not completed. Please try again.');
+      }
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 text-blue-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (reconnected) {
+    return (
+      <div className="text-center py-6">
+        <CheckCircle className="h-12 w-12 text-green-400 mx-auto mb-4" />
+        <h2 className="text-xl font-bold text-white mb-2">Your bank is reconnected</h2>
+        <p className="text-gray-300 mb-6">Subscription payments will continue from this account.</p>
+        <Link to="/billing" className="text-blue-400 hover:text-blue-300 font-medium">
+          Back to billing
+        </Link>
+      </div>
+    );
+  }
+
+  if (!item) {
+    return error ? (
+      <div className="flex items-start text-red-300">
+        <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+        {error}
+      </div>
+    ) : (
+      <div className="text-center py-6">
+        <CheckCircle className="h-12 w-12 text-green-400 mx-auto mb-4" />
+        <p className="text-gray-300">Your bank connection is working. Nothing to do here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-4 flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-400 mr-3 flex-shrink-0 mt-0.5" />
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="flex items-center rounded-lg p-5 border border-yellow-500/50 bg-yellow-900/20">
+        <Landmark className="h-6 w-6 text-yellow-300 mr-4 flex-shrink-0" />
+        <div>
+          <p className="text-white font-semibold">
+            {item.institutionName} ••••{item.accountMask}
+          </p>
+          <p className="text-sm text-yellow-200">
+            {STATUS_MESSAGES[item.status] || STATUS_MESSAGES.error}
+          </p>
+        </div>
+      </div>
+
+      <p className="text-gray-300">
+        Sign in to your bank through Plaid to restore the connection. Your account details stay the same.
+      </p>
+
+      <button
+        onClick={() => open()}
+        disabled={!ready || !linkToken || isCompleting}
+        className="flex items-center px-6 py-3 bg-gradient-to-r from-blue-600 to-teal-600 text-white rounded-lg hover:from-blue-700 hover:to-teal-700 transition-all font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isCompleting ? <Loader2 className="h-5 w-5 mr-2 animate-spin" /> : <RefreshCw className="h-5 w-5 mr-2" />}
+        Reconnect your bank
+      </button>
+    </div>
+  );
+};
+
+const BillingReconnectBank: React.FC = () => (
+  <BillingLayout title="Reconnect Your Bank" description="Restore the bank connection your subscription is paid from">
+    <BillingReconnectBankContent />
+  </BillingLayout>
+);
+
+export default BillingReconnectBank;
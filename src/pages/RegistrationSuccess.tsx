@@ -1,15 +1,26 @@
 import React from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { CheckCircle2, Mail, CreditCard, Settings, Clock, HelpCircle, Phone, FileText } from 'lucide-react';
 import Header from '../components/Header';
 import Footer from '../components/Footer';
+import { PLAN_TRIAL_DAYS } from '../config/planCatalog';
 
 /**
  * RegistrationSuccess Component
  *
  * Displays a success message after user registration with clear next steps
  * and important information about the trial period and bank verification process.
+ *
+ * `?verification=microdeposits` - the bank account was entered manually and
+ * still has to be verified on /verify-bank (Plaid-linked accounts are verified instantly).
+ * `?trialEnd=YYYY-MM-DD` - trial end returned by signup-with-payment (the
+ * trial end is only ever computed on the server).
  */
 const RegistrationSuccess: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const awaitingMicrodeposits = searchParams.get('verification') === 'microdeposits';
+  const trialEnd = searchParams.get('trialEnd');
+
   const handleOpenEmail = (): void => {
     // Opens default email client with mailto link
     window.location.href = 'mailto:';
@@ -19,13 +30,16 @@ const RegistrationSuccess: React.FC = () => {
     window.location.href = 'mailto:support@tradesphere.com';
   };
 
-  const calculateTrialEndDate = (): string => {
-    const endDate = new Date();
-    endDate.setDate(endDate.getDate() + 30);
+  const formatTrialEndDate = (): string => {
+    const endDate = trialEnd && /^\d{4}-\d{2}-\d{2}$/.test(trialEnd) ? new Date(`${trialEnd}T00:00:00Z`) : null;
+    if (!endDate || isNaN(endDate.getTime())) {
+      return 'When your trial ends';
+    }
     return endDate.toLocaleDateString('en-US', {
       month: 'long',
       day: 'numeric',
-      year: 'numeric'
+      year: 'numeric',
+      timeZone: 'UTC'
     });
   };
 
@@ -47,14 +61,23 @@ const RegistrationSuccess: React.FC = () => {
       iconBgColor: 'bg-blue-100',
       iconColor: 'text-blue-600',
     },
-    {
-      number: 2,
-      title: 'Verify Your Bank Account',
-      description: "We've initiated 2 small deposits (less than $0.10 each) to your bank account. These will appear in 1-3 business days. You'll verify these amounts in your account settings to complete payment setup.",
-      icon: <CreditCard className="w-6 h-6" />,
-      iconBgColor: 'bg-teal-100',
-      iconColor: 'text-teal-600',
-    },
+    awaitingMicrodeposits
+      ? {
+          number: 2,
+          title: 'Verify Your Bank Account',
+          description: "Stripe is sending small deposits (less than $1.00) to your bank account. They will appear in 1-2 business days. Sign in and enter them on the Verify Bank page to complete payment setup.",
+          icon: <CreditCard className="w-6 h-6" />,
+          iconBgColor: 'bg-teal-100',
+          iconColor: 'text-teal-600',
+        }
+      : {
+          number: 2,
+          title: 'Bank Account Connected',
+          description: 'Your bank account was verified instantly through Plaid. Subscription payments will be collected from it by ACH after your trial.',
+          icon: <CreditCard className="w-6 h-6" />,
+          iconBgColor: 'bg-teal-100',
+          iconColor: 'text-teal-600',
+        },
     {
       number: 3,
       title: 'Complete Onboarding',
@@ -65,7 +88,7 @@ const RegistrationSuccess: React.FC = () => {
     },
     {
       number: 4,
-      title: 'Start Your 30-Day Trial',
+      title: `Start Your ${PLAN_TRIAL_DAYS}-Day Trial`,
       description: "Your trial period has started! Explore all premium features with no charges until your trial ends.",
       icon: <Clock className="w-6 h-6" />,
       iconBgColor: 'bg-green-100',
@@ -83,19 +106,26 @@ const RegistrationSuccess: React.FC = () => {
   const keyInfo: InfoBox[] = [
     {
       title: 'Trial Period',
-      value: '30 Days Free',
+      value: `${PLAN_TRIAL_DAYS} Days Free`,
       description: 'Full access to all features',
       gradient: 'from-blue-600 to-blue-700',
     },
-    {
-      title: 'Micro-Deposits',
-      value: '1-3 Business Days',
-      description: 'Check your bank account',
-      gradient: 'from-teal-600 to-teal-700',
-    },
+    awaitingMicrodeposits
+      ? {
+          title: 'Micro-Deposits',
+          value: '1-2 Business Days',
+          description: 'Check your bank account',
+          gradient: 'from-teal-600 to-teal-700',
+        }
+      : {
+          title: 'Bank Account',
+          value: 'Verified',
+          description: 'Connected through Plaid',
+          gradient: 'from-teal-600 to-teal-700',
+        },
     {
       title: 'Next Billing Date',
-      value: calculateTrialEndDate(),
+      value: formatTrialEndDate(),
       description: 'After trial ends',
       gradient: 'from-purple-600 to-purple-700',
     },
@@ -120,7 +150,7 @@ const RegistrationSuccess: React.FC = () => {
 
           <p className="text-xl sm:text-2xl text-gray-700 max-w-2xl mx-auto">
             Welcome to <span className="font-semibold bg-gradient-to-r from-blue-600 to-teal-600 bg-clip-text text-transparent">TradeSphere</span>!
-            Your 30-day free trial has started.
+            Your {PLAN_TRIAL_DAYS}-day free trial has started.
           </p>
         </div>
 
@@ -0,0 +1,270 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2, AlertCircle, Landmark, CheckCircle, ShieldCheck } from 'lucide-react';
+import BillingLayout from '../components/BillingLayout';
+import { ownerApi } from '../utils/ownerApi';
+
+// ==============================================================================
+// TYPES & INTERFACES
+// ==============================================================================
+
+interface VerificationSummary {
+  bankName: string | null;
+  accountLast4: string | null;
+  microdepositType: 'amounts' | 'descriptor_code';
+  arrivalDate: string | null;
+  status: 'pending' | 'verified' | 'locked' | 'failed';
+  attemptsRemaining: number;
+}
+
+interface VerificationResponse {
+  verification: VerificationSummary | null;
+}
+
+interface VerifyResult {
+  success: boolean;
+  outcome: 'verified' | 'incorrect' | 'locked' | 'failed' | 'in_progress';
+  message: string;
+  verification: VerificationSummary | null;
+}
+
+const formatDate = (value: string | null): string => {
+  if (!value) {
+    return 'within 1-2 business days';
+  }
+  return `by ${new Date(value).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`;
+};
+
+/**
+ * "0.32" / "32" / ".32" → 32 cents (null if not a valid deposit amount)
+ */
+const parseCents = (value: string): number | null => {
+  const trimmed = value.trim().replace(/^\$/, '');
+  if (!/^(0?\.\d{2}|\d{1,2})$/.test(trimmed)) {
+    return null;
+  }
+  const cents = trimmed.includes('.') ? Math.round(parseFloat(trimmed) * 100) : parseInt(trimmed, 10);
+  return cents > 0 && cents <= 99 ? cents : null;
+};
+
+// ==============================================================================
+// COMPONENT
+// ==============================================================================
+
+const VerifyBankContent: React.FC = () => {
+  const [verification, setVerification] = useState<VerificationSummary | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [verified, setVerified] = useState<boolean>(false);
+  const [firstAmount, setFirstAmount] = useState<string>('');
+  const [secondAmount, setSecondAmount] = useState<string>('');
+  const [descriptorCode, setDescriptorCode] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const loadVerification = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await ownerApi<VerificationResponse>('verify-bank');
+      setVerification(result.verification);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load your bank verification.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVerification();
+  }, [loadVerification]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!verification) {
+      return;
+    }
+
+    let body: { amounts: [number, number] } | { descriptorCode: string };
+    if (verification.microdepositType === 'descriptor_code') {
+      const code = descriptorCode.trim().toUpperCase();
+      if (!/^SM[A-Z0-9]{4}$/.test(code)) {
+        setError('Enter the 6-character code starting with SM from your bank statement.');
+        return;
+      }
+      body = { descriptorCode: code };
+    } else {
+      const first = parseCents(firstAmount);
+      const second = parseCents(secondAmount);
+      if (first === null || second === null) {
+        setError('Enter both deposit amounts in cents, for example 32 and 45.');
+        return;
+      }
+      body = { amounts: [first, second] };
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await ownerApi<VerifyResult>('verify-bank', { method: 'POST', body });
+      setVerification(result.verification);
+
+      if (result.outcome === 'verified') {
+        setVerified(true);
+        setError('');
+      } else {
+        setError(result.message);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to verify your bank account.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 text-blue-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (verified) {
+    return (
+      <div className="text-center py-6">
+        <CheckCircle className="h-12 w-12 text-green-400 mx-auto mb-4" />
+        <h2 className="text-xl font-bold text-white mb-2">Your bank account is verified</h2>
+        <p className="text-gray-300 mb-6">Subscription payments will be collected from this account.</p>
+        <Link to="/billing" className="text-blue-400 hover:text-blue-300 font-medium">
+          Back to billing
+        </Link>
+      </div>
+    );
+  }
+
+  if (!verification) {
+    return error ? (
+      <div className="flex items-start text-red-300">
+        <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+        {error}
+      </div>
+    ) : (
+      <div className="text-center py-6">
+        <CheckCircle className="h-12 w-12 text-green-400 mx-auto mb-4" />
+        <p className="text-gray-300">There is no bank account waiting for verification. Nothing to do here.</p>
+      </div>
+    );
+  }
+
+  const isClosed = verification.status !== 'pending';
+  const bankLabel = `${verification.bankName || 'Bank account'}${verification.accountLast4 ? ` ••••${verification.accountLast4}` : ''}`;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-4 flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-400 mr-3 flex-shrink-0 mt-0.5" />
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="flex items-center rounded-lg p-5 border border-yellow-500/50 bg-yellow-900/20">
+        <Landmark className="h-6 w-6 text-yellow-300 mr-4 flex-shrink-0" />
+        <div>
+          <p className="text-white font-semibold">{bankLabel}</p>
+          <p className="text-sm text-yellow-200">
+            {isClosed
+              ? 'This bank account can no longer be verified.'
+              : verification.microdepositType === 'descriptor_code'
+                ? `We sent a $0.01 deposit that should arrive ${formatDate(verification.arrivalDate)}.`
+                : `We sent two small deposits that should arrive ${formatDate(verification.arrivalDate)}.`}
+          </p>
+        </div>
+      </div>
+
+      {isClosed ? (
+        <p className="text-gray-300">
+          Please{' '}
+          <a href="mailto:support@tradesphere.com" className="text-blue-400 hover:text-blue-300 underline">
+            contact support
+          </a>{' '}
+          or add your bank account again from{' '}
+          <Link to="/billing/payment-methods" className="text-blue-400 hover:text-blue-300 underline">
+            payment methods
+          </Link>.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {verification.microdepositType === 'descriptor_code' ? (
+            <div>
+              <label htmlFor="descriptorCode" className="block text-sm font-medium text-gray-300 mb-2">
+                Code from the deposit description
+              </label>
+              <input
+                id="descriptorCode"
+                type="text"
+                value={descriptorCode}
+                onChange={(e) => setDescriptorCode(e.target.value)}
+                placeholder="SM11AA"
+                maxLength={6}
+                autoComplete="off"
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white uppercase tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-400 mt-2">
+                Look for a deposit from Stripe on your bank statement. The code starts with SM.
+              </p>
+            </div>
+          ) : (
+            <div>
+              <p className="block text-sm font-medium text-gray-300 mb-2">Deposit amounts (in cents)</p>
+              <div className="grid grid-cols-2 gap-4">
+                <input
+                  aria-label="First deposit amount"
+                  type="text"
+                  inputMode="numeric"
+                  value={firstAmount}
+                  onChange={(e) => setFirstAmount(e.target.value)}
+                  placeholder="32"
+                  autoComplete="off"
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <input
+                  aria-label="Second deposit amount"
+                  type="text"
+                  inputMode="numeric"
+                  value={secondAmount}
+                  onChange={(e) => setSecondAmount(e.target.value)}
+                  placeholder="45"
+                  autoComplete="off"
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-400">
+            {verification.attemptsRemaining === 1
+              ? '1 attempt remaining.'
+              : `${verification.attemptsRemaining} attempts remaining.`}
+          </p>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex items-center px-6 py-3 bg-gradient-to-r from-blue-600 to-teal-600 text-white rounded-lg hover:from-blue-700 hover:to-teal-700 transition-all font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? <Loader2 className="h-5 w-5 mr-2 animate-spin" /> : <ShieldCheck className="h-5 w-5 mr-2" />}
+            Verify bank account
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+const VerifyBank: React.FC = () => (
+  <BillingLayout title="Verify Your Bank" description="Confirm the small deposits we sent to your bank account">
+    <VerifyBankContent />
+  </BillingLayout>
+);
+
+export default VerifyBank;
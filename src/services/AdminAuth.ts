@@ -0,0 +1,32 @@
+/**
+ * ADMIN AUTH
+ *
+ * Authenticates requests to admin-only functions (webhook replay, trial
+ * extensions, key rotation). The caller sends the shared ADMIN_API_KEY in
+ * the `X-Admin-Key` header; it is compared in constant time.
+ *
+ * IMPORTANT: Server-side only (the admin key must never reach the browser).
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Whether a request carries the admin key
+ *
+ * @param headers Request headers (Netlify lower-cases header names)
+ * @param adminKey Expected key (default: ADMIN_API_KEY)
+ * @returns False when no admin key is configured
+ */
+export function isAdminRequest(
+  headers: Record<string, string | undefined>,
+  adminKey: string | undefined = process.env.ADMIN_API_KEY
+): boolean {
+  const providedKey = headers['x-admin-key'];
+  if (!adminKey || !providedKey) {
+    return false;
+  }
+
+  const expected = Buffer.from(adminKey);
+  const provided = Buffer.from(providedKey);
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+}
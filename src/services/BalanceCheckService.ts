@@ -0,0 +1,534 @@
+/**
+ * BALANCE CHECK SERVICE
+ *
+ * Reads the company's available balance through Plaid right before an ACH
+ * debit and proceeds, warns or delays according to the plan's policy.
+ * Every decision is written to balance_checks for audit.
+ *
+ * FLOW:
+ * 1. checkInvoice()         - invoice.created webhook: Stripe finalizes
+ *                             renewal drafts about an hour later, so a
+ *                             delayed invoice is held as a draft
+ * 2. processDelayedDebits() - scheduled: check held invoices again and
+ *                             finalize them once the balance covers the
+ *                             amount (or the plan's delays run out)
+ *
+ * checkDebit() runs the same check for other debits (e.g. before
+ * StripeService.createPaymentIntent); the caller acts on the decision.
+ *
+ * A balance that cannot be read (no Plaid-linked account, login required,
+ * Plaid outage) never blocks a debit - the decision is logged as
+ * balance_unavailable and the debit proceeds.
+ *
+ * IMPORTANT: Server-side only (requires a service-role Supabase client,
+ * Plaid credentials and the token encryption keys).
+ *
+ * @see src/config/balanceCheckPolicy.ts
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_BALANCE_CHECK_POLICIES, getBalanceCheckPolicy } from '../config/balanceCheckPolicy';
+import type { BalanceCheckMode, BalanceCheckPolicy } from '../config/balanceCheckPolicy';
+import type { TradespherePlanType } from '../types/stripe-payment';
+import { PlaidItemRepository } from './PlaidItemRepository';
+import { PlaidService } from './PlaidService';
+import { StripeService } from './StripeService';
+
+// Postgres unique_violation error code
+const UNIQUE_VIOLATION = '23505';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Kind of debit being checked
+ */
+export type BalanceCheckSource = 'invoice' | 'payment_intent';
+
+/**
+ * Why a decision was made
+ */
+export type BalanceCheckReason =
+  | 'check_disabled'
+  | 'sufficient_funds'
+  | 'insufficient_funds'
+  | 'balance_unavailable'
+  | 'max_delays_reached';
+
+/**
+ * Row in balance_checks
+ */
+export interface BalanceCheckRecord {
+  id: string;
+  company_id: string;
+  source: BalanceCheckSource;
+  debit_reference: string;
+  attempt: number;
+  plan_id: string | null;
+  mode: BalanceCheckMode;
+  amount: number;
+  required_balance: number;
+  available_balance: number | null;
+  current_balance: number | null;
+  plaid_item_id: string | null;
+  plaid_account_id: string | null;
+  decision: 'proceed' | 'warn' | 'delay';
+  reason: BalanceCheckReason;
+  error: string | null;
+  recheck_at: string | null;
+  rechecked_at: string | null;
+  created_at: string;
+}
+
+/**
+ * A debit about to be initiated
+ */
+export interface DebitCheckRequest {
+  companyId: string;
+  source: BalanceCheckSource;
+
+  /** Stripe invoice ID, or the caller's idempotency key for a payment intent */
+  reference: string;
+
+  /** Debit amount in dollars */
+  amount: number;
+
+  /** Plan whose policy applies (default: the company's subscription_tier) */
+  planId?: string | null;
+}
+
+/**
+ * Summary of a scheduled run
+ */
+export interface ProcessBalanceChecksSummary {
+  processed: number;
+  released: number;
+  delayed: number;
+  failed: number;
+}
+
+/**
+ * Balance check service options
+ */
+export interface BalanceCheckServiceOptions {
+  /** Policy per plan (default: DEFAULT_BALANCE_CHECK_POLICIES) */
+  policies?: Record<TradespherePlanType, BalanceCheckPolicy>;
+
+  /** Balance lookups (default: PlaidService singleton, created on first use) */
+  plaid?: Pick<PlaidService, 'getBalance'>;
+
+  /** Linked accounts and access tokens (default: PlaidItemRepository from env) */
+  items?: Pick<PlaidItemRepository, 'findByCompany' | 'getAccessToken'>;
+
+  /** Invoice holds (default: StripeService singleton, created on first use) */
+  stripe?: Pick<StripeService, 'holdInvoice' | 'finalizeInvoice'>;
+
+  /** Clock (for tests) */
+  now?: () => Date;
+}
+
+/**
+ * Decision fields before they are written to balance_checks
+ */
+type BalanceCheckDecision = Omit<BalanceCheckRecord, 'id' | 'rechecked_at' | 'created_at'>;
+
+/**
+ * Balance read from the company's linked account
+ */
+interface AccountBalance {
+  itemId: string;
+  accountId: string;
+  available: number | null;
+  current: number | null;
+}
+
+/**
+ * Balance check service
+ *
+ * @example
+ * ```typescript
+ * const balanceChecks = new BalanceCheckService(supabase);
+ *
+ * // Webhook (invoice.created)
+ * await balanceChecks.checkInvoice(companyId, invoice.id, centsToDollars(invoice.amount_due));
+ *
+ * // Before a one-off debit
+ * const check = await balanceChecks.checkDebit({ companyId, source: 'payment_intent', reference: key, amount: 99 });
+ * if (check.decision === 'delay') {
+ *   return;
+ * }
+ *
+ * // Scheduler
+ * const summary = await balanceChecks.processDelayedDebits();
+ * ```
+ */
+export class BalanceCheckService {
+  private readonly policies: Record<TradespherePlanType, BalanceCheckPolicy>;
+  private readonly now: () => Date;
+  private plaid?: Pick<PlaidService, 'getBalance'>;
+  private items?: Pick<PlaidItemRepository, 'findByCompany' | 'getAccessToken'>;
+  private stripe?: Pick<StripeService, 'holdInvoice' | 'finalizeInvoice'>;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    options: BalanceCheckServiceOptions = {}
+  ) {
+    this.policies = options.policies || DEFAULT_BALANCE_CHECK_POLICIES;
+    this.plaid = options.plaid;
+    this.items = options.items;
+    this.stripe = options.stripe;
+    this.now = options.now || (() => new Date());
+  }
+
+  // ============================================================================
+  // CHECKS
+  // ============================================================================
+
+  /**
+   * Check the balance before a debit and log the decision
+   *
+   * Repeated calls for the same source and reference return the first
+   * decision instead of checking again.
+   *
+   * @param request Debit details
+   * @returns Logged decision
+   */
+  async checkDebit(request: DebitCheckRequest): Promise<BalanceCheckRecord> {
+    const existing = await this.findCheck(request.source, request.reference, 1);
+    if (existing) {
+      return existing;
+    }
+
+    const planId = request.planId !== undefined
+      ? request.planId
+      : await this.findCompanyPlan(request.companyId);
+
+    const decision = await this.decide(request, planId, 1);
+    return this.logDecision(decision);
+  }
+
+  /**
+   * Check a subscription renewal invoice and hold it as a draft if delayed
+   *
+   * Safe to call again for the same invoice (webhook redelivery) - the hold
+   * is reapplied while the invoice is still waiting.
+   *
+   * @param companyId Company UUID
+   * @param invoiceId Draft invoice ID (in_xxx)
+   * @param amount Amount due in dollars
+   * @throws Error if a delayed invoice could not be held (retry the webhook)
+   */
+  async checkInvoice(companyId: string, invoiceId: string, amount: number): Promise<BalanceCheckRecord> {
+    const check = await this.checkDebit({
+      companyId,
+      source: 'invoice',
+      reference: invoiceId,
+      amount,
+    });
+
+    if (check.decision === 'delay' && !check.rechecked_at) {
+      const holdResult = await this.stripeService().holdInvoice(invoiceId);
+      if (!holdResult.success) {
+        throw new Error(`Failed to hold invoice ${invoiceId}: ${holdResult.error?.message}`);
+      }
+      console.log(`Invoice ${invoiceId} held until ${check.recheck_at} (available balance below $${check.required_balance})`);
+    }
+
+    return check;
+  }
+
+  // ============================================================================
+  // SCHEDULED PROCESSING
+  // ============================================================================
+
+  /**
+   * Check held invoices whose recheck is due and finalize the ones that
+   * may proceed
+   *
+   * @param options.limit Maximum invoices per run (default: 100)
+   */
+  async processDelayedDebits(options: { limit?: number } = {}): Promise<ProcessBalanceChecksSummary> {
+    const summary: ProcessBalanceChecksSummary = {
+      processed: 0,
+      released: 0,
+      delayed: 0,
+      failed: 0,
+    };
+
+    const { data, error } = await this.supabase
+      .from('balance_checks')
+      .select('*')
+      .eq('source', 'invoice')
+      .eq('decision', 'delay')
+      .is('rechecked_at', null)
+      .lte('recheck_at', this.now().toISOString())
+      .order('recheck_at', { ascending: true })
+      .limit(options.limit || 100);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const row of (data || []) as BalanceCheckRecord[]) {
+      summary.processed++;
+
+      try {
+        const outcome = await this.recheckInvoice(row);
+        if (outcome === 'released') {
+          summary.released++;
+        } else if (outcome === 'delayed') {
+          summary.delayed++;
+        } else if (outcome === 'failed') {
+          summary.failed++;
+        }
+      } catch (checkError) {
+        summary.failed++;
+        console.error(`Balance check ${row.id} failed to process:`, checkError);
+      }
+    }
+
+    return summary;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Check a held invoice again and finalize it unless it is delayed again
+   */
+  private async recheckInvoice(check: BalanceCheckRecord): Promise<'released' | 'delayed' | 'failed' | 'skipped'> {
+    // Claim the row so overlapping runs cannot both finalize the invoice
+    const { data: claimed, error: claimError } = await this.supabase
+      .from('balance_checks')
+      .update({ rechecked_at: this.now().toISOString() })
+      .eq('id', check.id)
+      .is('rechecked_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (claimError) {
+      throw claimError;
+    }
+    if (!claimed) {
+      return 'skipped';
+    }
+
+    const decision = await this.decide(
+      {
+        companyId: check.company_id,
+        source: check.source,
+        reference: check.debit_reference,
+        amount: Number(check.amount),
+      },
+      check.plan_id,
+      check.attempt + 1
+    );
+
+    if (decision.decision !== 'delay') {
+      const finalizeResult = await this.stripeService().finalizeInvoice(check.debit_reference);
+
+      if (!finalizeResult.success) {
+        if (finalizeResult.error?.retryable) {
+          // Give the row back - the next run tries again
+          await this.supabase
+            .from('balance_checks')
+            .update({ rechecked_at: null })
+            .eq('id', check.id);
+          console.warn(`Finalizing invoice ${check.debit_reference} failed, will retry:`, finalizeResult.error?.message);
+          return 'failed';
+        }
+
+        // Voided, deleted or paid by other means - record why and stop
+        decision.error = finalizeResult.error?.message || 'Invoice could not be finalized';
+      }
+    }
+
+    await this.logDecision(decision);
+    return decision.decision === 'delay' ? 'delayed' : 'released';
+  }
+
+  /**
+   * Apply the plan's policy to the current balance
+   */
+  private async decide(
+    request: DebitCheckRequest,
+    planId: string | null | undefined,
+    attempt: number
+  ): Promise<BalanceCheckDecision> {
+    const policy = getBalanceCheckPolicy(planId, this.policies);
+    const decision: BalanceCheckDecision = {
+      company_id: request.companyId,
+      source: request.source,
+      debit_reference: request.reference,
+      attempt,
+      plan_id: planId || null,
+      mode: policy.mode,
+      amount: request.amount,
+      required_balance: Math.round(request.amount * policy.minimumBalanceRatio * 100) / 100,
+      available_balance: null,
+      current_balance: null,
+      plaid_item_id: null,
+      plaid_account_id: null,
+      decision: 'proceed',
+      reason: 'check_disabled',
+      error: null,
+      recheck_at: null,
+    };
+
+    if (policy.mode === 'off') {
+      return decision;
+    }
+
+    let balance: AccountBalance;
+    try {
+      balance = await this.readBalance(request.companyId);
+    } catch (balanceError) {
+      decision.reason = 'balance_unavailable';
+      decision.error = balanceError instanceof Error ? balanceError.message : String(balanceError);
+      return decision;
+    }
+
+    decision.plaid_item_id = balance.itemId;
+    decision.plaid_account_id = balance.accountId;
+    decision.available_balance = balance.available;
+    decision.current_balance = balance.current;
+
+    // Some banks only report the current balance
+    const spendable = balance.available ?? balance.current;
+    if (spendable === null) {
+      decision.reason = 'balance_unavailable';
+      decision.error = 'Bank did not report a balance';
+      return decision;
+    }
+
+    if (spendable >= decision.required_balance) {
+      decision.reason = 'sufficient_funds';
+      return decision;
+    }
+
+    if (policy.mode === 'delay' && attempt <= policy.maxDelays) {
+      decision.decision = 'delay';
+      decision.reason = 'insufficient_funds';
+      decision.recheck_at = new Date(this.now().getTime() + policy.recheckAfterHours * HOUR_MS).toISOString();
+      return decision;
+    }
+
+    decision.decision = 'warn';
+    decision.reason = policy.mode === 'delay' ? 'max_delays_reached' : 'insufficient_funds';
+    console.warn(
+      `Low balance for company ${request.companyId}: $${spendable} available, ` +
+      `$${decision.required_balance} required for ${request.source} ${request.reference}`
+    );
+    return decision;
+  }
+
+  /**
+   * Real-time balance of the company's most recently linked account
+   *
+   * @throws Error if the company has no usable Plaid account or Plaid fails
+   */
+  private async readBalance(companyId: string): Promise<AccountBalance> {
+    if (!this.items) {
+      this.items = new PlaidItemRepository(this.supabase);
+    }
+    if (!this.plaid) {
+      this.plaid = PlaidService.getInstance();
+    }
+
+    const linked = await this.items.findByCompany(companyId);
+    const item = linked.filter(record => record.status === 'active' || record.status === 'pending_expiration').pop();
+    if (!item) {
+      throw new Error('No Plaid-linked bank account');
+    }
+
+    const accessToken = await this.items.getAccessToken(item.item_id);
+    const result = await this.plaid.getBalance(accessToken, item.account_id);
+    if (!result.success || !result.data) {
+      throw new Error(`Plaid balance lookup failed: ${result.error?.code || 'UNKNOWN_ERROR'}`);
+    }
+
+    return {
+      itemId: item.item_id,
+      accountId: item.account_id,
+      available: result.data.available,
+      current: result.data.current,
+    };
+  }
+
+  private stripeService(): Pick<StripeService, 'holdInvoice' | 'finalizeInvoice'> {
+    if (!this.stripe) {
+      this.stripe = StripeService.getInstance();
+    }
+    return this.stripe;
+  }
+
+  /**
+   * Write a decision to balance_checks (returns the existing row if another
+   * request logged the same attempt first)
+   */
+  private async logDecision(decision: BalanceCheckDecision): Promise<BalanceCheckRecord> {
+    const { data, error } = await this.supabase
+      .from('balance_checks')
+      .insert(decision)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        const raced = await this.findCheck(decision.source, decision.debit_reference, decision.attempt);
+        if (raced) {
+          return raced;
+        }
+      }
+      throw error;
+    }
+
+    console.log(
+      `Balance check ${decision.source} ${decision.debit_reference} #${decision.attempt}: ` +
+      `${decision.decision} (${decision.reason})`
+    );
+    return data as BalanceCheckRecord;
+  }
+
+  /**
+   * Find the logged decision for one attempt at a debit
+   */
+  private async findCheck(
+    source: BalanceCheckSource,
+    reference: string,
+    attempt: number
+  ): Promise<BalanceCheckRecord | null> {
+    const { data, error } = await this.supabase
+      .from('balance_checks')
+      .select('*')
+      .eq('source', source)
+      .eq('debit_reference', reference)
+      .eq('attempt', attempt)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as BalanceCheckRecord | null;
+  }
+
+  /**
+   * The company's current plan
+   */
+  private async findCompanyPlan(companyId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('companies')
+      .select('subscription_tier')
+      .eq('id', companyId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data?.subscription_tier || null;
+  }
+}
+
+export default BalanceCheckService;
@@ -0,0 +1,456 @@
+/**
+ * BANK ACCOUNT SERVICE
+ *
+ * Manages the bank accounts a company has linked through Plaid. Every
+ * linked account is also a Stripe payment method; exactly one of them is
+ * the primary account the subscription is billed from
+ * (companies.stripe_payment_method_id), the others are backups.
+ *
+ * OPERATIONS:
+ * - list()    - linked items with their accounts
+ * - add()     - link another account from a Plaid Link public token as a
+ *               backup (primary only if the company has no bank yet)
+ * - promote() - bill a different linked account
+ * - remove()  - remove an item at Plaid, detach its Stripe payment methods
+ *               and delete the stored access token. The primary account
+ *               cannot be removed - promote another account first.
+ *
+ * IMPORTANT: Server-side only (requires a service-role Supabase client
+ * and the token encryption keys).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PlaidService } from './PlaidService';
+import { StripeService } from './StripeService';
+import { PlaidItemRepository } from './PlaidItemRepository';
+import type { PlaidItemHealthStatus, PlaidItemRecord } from '../types/plaid';
+
+// Backup accounts are for switching banks, not for spreading payments
+const DEFAULT_MAX_ACCOUNTS = 5;
+
+/**
+ * A linked account, safe to show in the browser
+ */
+export interface LinkedBankAccount {
+  /** plaid_items row ID (used to promote the account) */
+  id: string;
+  accountName: string;
+  accountMask: string;
+  accountSubtype: string;
+  isPrimary: boolean;
+
+  /** Whether the account can be billed (healthy and has a payment method) */
+  canBill: boolean;
+}
+
+/**
+ * A linked Plaid item (one bank login) and its accounts
+ */
+export interface LinkedBankItem {
+  itemId: string;
+  institutionId: string;
+  institutionName: string;
+  status: PlaidItemHealthStatus;
+  accounts: LinkedBankAccount[];
+}
+
+/**
+ * Result of an add, promote or remove
+ */
+export interface BankAccountChangeResult {
+  outcome: 'added' | 'promoted' | 'removed' | 'not_found' | 'not_allowed' | 'failed';
+
+  /** Message to show the owner */
+  message: string;
+
+  /** Service error code when Plaid or Stripe failed */
+  errorCode?: string;
+}
+
+/**
+ * Account picked in Plaid Link
+ */
+export interface AddBankAccountParams {
+  publicToken: string;
+  accountId: string;
+}
+
+/**
+ * Bank account service options
+ */
+export interface BankAccountServiceOptions {
+  /** Item exchange, lookup and removal */
+  plaid?: Pick<PlaidService, 'exchangePublicToken' | 'getAccounts' | 'createProcessorToken' | 'removeItem'>;
+
+  /** Payment methods for linked accounts */
+  stripe?: Pick<StripeService, 'createPaymentMethodFromPlaid' | 'setDefaultPaymentMethod' | 'detachPaymentMethod'>;
+
+  /** Stored items and access tokens */
+  items?: PlaidItemRepository;
+
+  /** Most accounts a company can link (default: 5) */
+  maxAccounts?: number;
+}
+
+interface BillingCompany {
+  id: string;
+  stripe_customer_id: string | null;
+  stripe_payment_method_id: string | null;
+  stripe_subscription_id: string | null;
+}
+
+/**
+ * Bank account service
+ *
+ * @example
+ * ```typescript
+ * const bankAccounts = new BankAccountService(supabase);
+ *
+ * const items = await bankAccounts.list(companyId);
+ * await bankAccounts.add(companyId, { publicToken, accountId });
+ * await bankAccounts.promote(companyId, items[1].accounts[0].id);
+ * await bankAccounts.remove(companyId, items[0].itemId);
+ * ```
+ */
+export class BankAccountService {
+  private readonly plaid: Pick<PlaidService, 'exchangePublicToken' | 'getAccounts' | 'createProcessorToken' | 'removeItem'>;
+  private readonly stripe: Pick<StripeService, 'createPaymentMethodFromPlaid' | 'setDefaultPaymentMethod' | 'detachPaymentMethod'>;
+  private readonly items: PlaidItemRepository;
+  private readonly maxAccounts: number;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    options: BankAccountServiceOptions = {}
+  ) {
+    this.plaid = options.plaid || PlaidService.getInstance();
+    this.stripe = options.stripe || StripeService.getInstance();
+    this.items = options.items || new PlaidItemRepository(supabase);
+    this.maxAccounts = options.maxAccounts || DEFAULT_MAX_ACCOUNTS;
+  }
+
+  // ============================================================================
+  // LISTING
+  // ============================================================================
+
+  /**
+   * The company's linked items and accounts, oldest first
+   *
+   * Includes items that need reconnecting or were revoked, so the owner can
+   * fix or remove them.
+   */
+  async list(companyId: string): Promise<LinkedBankItem[]> {
+    const records = await this.items.findByCompany(companyId, { activeOnly: false });
+
+    const byItem = new Map<string, LinkedBankItem>();
+    records.forEach(record => {
+      let item = byItem.get(record.item_id);
+      if (!item) {
+        item = {
+          itemId: record.item_id,
+          institutionId: record.institution_id,
+          institutionName: record.institution_name,
+          status: record.status,
+          accounts: [],
+        };
+        byItem.set(record.item_id, item);
+      }
+
+      item.accounts.push({
+        id: record.id,
+        accountName: record.account_name,
+        accountMask: record.account_mask,
+        accountSubtype: record.account_subtype,
+        isPrimary: record.is_primary,
+        canBill: this.canBill(record),
+      });
+    });
+
+    return [...byItem.values()];
+  }
+
+  // ============================================================================
+  // CHANGES
+  // ============================================================================
+
+  /**
+   * Link another account as a backup
+   *
+   * The new Plaid item is removed again if any later step fails, so a
+   * failed add leaves nothing behind.
+   *
+   * @param companyId Company UUID
+   * @param params Public token and account ID from Plaid Link
+   */
+  async add(companyId: string, params: AddBankAccountParams): Promise<BankAccountChangeResult> {
+    const company = await this.getCompany(companyId);
+    if (!company?.stripe_customer_id) {
+      return { outcome: 'not_allowed', message: 'No billing account found for your company.' };
+    }
+
+    const existing = await this.items.findByCompany(companyId);
+    if (existing.length >= this.maxAccounts) {
+      return {
+        outcome: 'not_allowed',
+        message: `You can link up to ${this.maxAccounts} bank accounts. Remove one before adding another.`,
+      };
+    }
+
+    const exchangeResult = await this.plaid.exchangePublicToken({
+      publicToken: params.publicToken,
+      accountId: params.accountId,
+    });
+
+    if (!exchangeResult.success || !exchangeResult.data) {
+      return this.failed(
+        exchangeResult.error?.code,
+        exchangeResult.error?.userMessage || 'Unable to connect your bank account. Please try again.'
+      );
+    }
+
+    const { accessToken, itemId } = exchangeResult.data;
+    const discardItem = () => this.discardItem(itemId, accessToken);
+
+    const accountsResult = await this.plaid.getAccounts(accessToken, [params.accountId]);
+    const account = accountsResult.data?.accounts.find(a => a.account_id === params.accountId);
+
+    if (!accountsResult.success || !accountsResult.data || !account) {
+      await discardItem();
+      return this.failed(
+        accountsResult.error?.code,
+        accountsResult.error?.userMessage || 'Unable to read the selected bank account. Please try again.'
+      );
+    }
+
+    const institutionId = accountsResult.data.item.institution_id;
+    const duplicate = existing.find(r => r.institution_id === institutionId && r.account_mask === account.mask);
+    if (duplicate) {
+      await discardItem();
+      return {
+        outcome: 'not_allowed',
+        message: `${duplicate.institution_name} ••••${duplicate.account_mask} is already linked.`,
+      };
+    }
+
+    const processorResult = await this.plaid.createProcessorToken({ accessToken, accountId: account.account_id });
+    if (!processorResult.success || !processorResult.data) {
+      await discardItem();
+      return this.failed(
+        processorResult.error?.code,
+        processorResult.error?.userMessage || 'Unable to set up this bank account for payments. Please try again.'
+      );
+    }
+
+    const paymentMethodResult = await this.stripe.createPaymentMethodFromPlaid({
+      customerId: company.stripe_customer_id,
+      processorToken: processorResult.data.processorToken,
+      accountHolderType: 'company',
+      setAsDefault: false,
+    });
+
+    if (!paymentMethodResult.success || !paymentMethodResult.data) {
+      await discardItem();
+      return this.failed(
+        paymentMethodResult.error?.code,
+        paymentMethodResult.error?.userMessage || 'Unable to add this bank account. Please try again.'
+      );
+    }
+
+    const { paymentMethodId, paymentMethod } = paymentMethodResult.data;
+
+    let record: PlaidItemRecord;
+    try {
+      record = await this.items.saveItem({
+        companyId,
+        itemId,
+        accessToken,
+        institutionId,
+        institutionName: paymentMethod.us_bank_account?.bank_name || account.name,
+        account: {
+          accountId: account.account_id,
+          name: account.name,
+          mask: account.mask,
+          type: account.type,
+          subtype: account.subtype,
+          verificationStatus: account.verification_status,
+        },
+        stripePaymentMethodId: paymentMethodId,
+      });
+    } catch (error) {
+      await this.detach(paymentMethodId);
+      await discardItem();
+      throw error;
+    }
+
+    // A company without any bank (e.g. its micro-deposit account was
+    // detached) starts billing the new account right away
+    if (!company.stripe_payment_method_id) {
+      const promoted = await this.promote(companyId, record.id);
+      if (promoted.outcome !== 'promoted') {
+        console.error(`Linked account ${record.id} could not be made primary:`, promoted.errorCode);
+      }
+    }
+
+    return { outcome: 'added', message: `${record.institution_name} ••••${record.account_mask} was added.` };
+  }
+
+  /**
+   * Bill a different linked account
+   *
+   * @param companyId Company UUID
+   * @param recordId plaid_items row ID of the account
+   */
+  async promote(companyId: string, recordId: string): Promise<BankAccountChangeResult> {
+    const records = await this.items.findByCompany(companyId, { activeOnly: false });
+    const record = records.find(r => r.id === recordId);
+    if (!record) {
+      return { outcome: 'not_found', message: 'Bank account not found.' };
+    }
+
+    if (!this.canBill(record)) {
+      return {
+        outcome: 'not_allowed',
+        message: record.status === 'active'
+          ? 'This bank account cannot be used for payments. Please link it again.'
+          : 'Please reconnect this bank before using it for payments.',
+      };
+    }
+
+    const company = await this.getCompany(companyId);
+    if (!company?.stripe_customer_id) {
+      return { outcome: 'not_allowed', message: 'No billing account found for your company.' };
+    }
+
+    const paymentMethodId = record.stripe_payment_method_id!;
+    if (record.is_primary && company.stripe_payment_method_id === paymentMethodId) {
+      return { outcome: 'promoted', message: 'This bank account is already your primary account.' };
+    }
+
+    const defaultResult = await this.stripe.setDefaultPaymentMethod(
+      company.stripe_customer_id,
+      paymentMethodId,
+      company.stripe_subscription_id || undefined
+    );
+
+    if (!defaultResult.success) {
+      return this.failed(
+        defaultResult.error?.code,
+        defaultResult.error?.userMessage || 'Unable to update your bank account. Please try again.'
+      );
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('companies')
+      .update({
+        stripe_payment_method_id: paymentMethodId,
+        payment_method_status: 'verified',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', companyId);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    await this.items.setPrimary(companyId, record.id);
+
+    return {
+      outcome: 'promoted',
+      message: `${record.institution_name} ••••${record.account_mask} is now your primary bank account.`,
+    };
+  }
+
+  /**
+   * Remove a linked item and all of its accounts
+   *
+   * Plaid is told first - if that fails nothing changes and the owner can
+   * try again. Detaching payment methods is best-effort.
+   *
+   * @param companyId Company UUID
+   * @param itemId Plaid item ID
+   */
+  async remove(companyId: string, itemId: string): Promise<BankAccountChangeResult> {
+    const records = await this.items.findByCompany(companyId, { activeOnly: false });
+    const itemRecords = records.filter(r => r.item_id === itemId);
+    if (itemRecords.length === 0) {
+      return { outcome: 'not_found', message: 'Bank connection not found.' };
+    }
+
+    const company = await this.getCompany(companyId);
+    const billed = itemRecords.some(
+      r => r.is_primary || (!!r.stripe_payment_method_id && r.stripe_payment_method_id === company?.stripe_payment_method_id)
+    );
+
+    if (billed) {
+      return {
+        outcome: 'not_allowed',
+        message: 'This is your primary bank account. Make another account primary before removing it.',
+      };
+    }
+
+    const accessToken = await this.items.getAccessToken(itemId);
+    const removeResult = await this.plaid.removeItem({ accessToken });
+    if (!removeResult.success) {
+      return this.failed(
+        removeResult.error?.code,
+        removeResult.error?.userMessage || 'Unable to remove this bank. Please try again.'
+      );
+    }
+
+    for (const record of itemRecords) {
+      if (record.stripe_payment_method_id) {
+        await this.detach(record.stripe_payment_method_id);
+      }
+    }
+
+    await this.items.deleteItem(companyId, itemId);
+
+    console.log(`Removed Plaid item ${itemId} (${itemRecords.length} account(s)) for company ${companyId}`);
+
+    return { outcome: 'removed', message: `${itemRecords[0].institution_name} was removed.` };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  private canBill(record: PlaidItemRecord): boolean {
+    return record.is_active && record.status === 'active' && !!record.stripe_payment_method_id;
+  }
+
+  private async getCompany(companyId: string): Promise<BillingCompany | null> {
+    const { data, error } = await this.supabase
+      .from('companies')
+      .select('id, stripe_customer_id, stripe_payment_method_id, stripe_subscription_id')
+      .eq('id', companyId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as BillingCompany | null;
+  }
+
+  /**
+   * Remove a just-exchanged item after a failed add (best-effort)
+   */
+  private async discardItem(itemId: string, accessToken: string): Promise<void> {
+    const result = await this.plaid.removeItem({ accessToken });
+    if (!result.success) {
+      console.error(`Failed to remove abandoned Plaid item ${itemId}:`, result.error?.code);
+    }
+  }
+
+  private async detach(paymentMethodId: string): Promise<void> {
+    const result = await this.stripe.detachPaymentMethod(paymentMethodId);
+    if (!result.success) {
+      console.error(`Failed to detach payment method ${paymentMethodId} (non-fatal):`, result.error?.code);
+    }
+  }
+
+  private failed(errorCode: string | undefined, message: string): BankAccountChangeResult {
+    return { outcome: 'failed', message, errorCode };
+  }
+}
+
+export default BankAccountService;
@@ -0,0 +1,375 @@
+/**
+ * BANK VERIFICATION SERVICE
+ *
+ * Micro-deposit fallback for bank accounts Plaid cannot verify instantly.
+ *
+ * FLOW:
+ * 1. The owner enters routing/account numbers; Stripe.js confirms a
+ *    SetupIntent created with verificationMethod 'microdeposits' (the numbers
+ *    go straight to Stripe, never to our functions)
+ * 2. start()  - signup records the pending verification; the company's
+ *               payment_method_status stays 'pending'
+ * 3. verify() - the owner enters the two amounts (or the SMxxxx descriptor
+ *               code) on /verify-bank. On success the bank account becomes
+ *               the default payment method and the company is 'verified'
+ *
+ * ATTEMPT LIMITS: each answer Stripe checks counts as one attempt. After
+ * max_attempts (default 3, well under Stripe's own limit of 10) the
+ * verification is locked and the owner must contact support or add the
+ * bank again. Attempts are claimed with a conditional update, so two
+ * concurrent submissions cannot both use the last attempt.
+ *
+ * IMPORTANT: Server-side only (requires a service-role Supabase client).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { StripeService } from './StripeService';
+import type { StripeMicrodepositType, StripeSetupIntentDetails } from '../types/stripe-payment';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Stripe errors meaning the SetupIntent can no longer be verified
+const TERMINAL_ERROR_CODES = [
+  'payment_method_microdeposit_verification_attempts_exceeded',
+  'payment_method_microdeposit_verification_timeout',
+];
+
+// Stripe errors meaning the answer was checked and wrong
+const INCORRECT_ANSWER_CODES = [
+  'payment_method_microdeposit_verification_amounts_mismatch',
+  'payment_method_microdeposit_verification_descriptor_code_mismatch',
+  'payment_method_microdeposit_verification_amounts_invalid',
+];
+
+/**
+ * Row in bank_verifications
+ */
+export interface BankVerificationRecord {
+  id: string;
+  company_id: string;
+  stripe_customer_id: string;
+  setup_intent_id: string;
+  payment_method_id: string | null;
+  bank_name: string | null;
+  account_last4: string | null;
+  microdeposit_type: StripeMicrodepositType;
+  arrival_date: string | null;
+  status: 'pending' | 'verified' | 'locked' | 'failed';
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  verified_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Values the owner read from their bank statement (one of the two)
+ */
+export type MicrodepositAnswer =
+  | { amounts: [number, number] }
+  | { descriptorCode: string };
+
+/**
+ * Result of a verification attempt
+ */
+export interface BankVerificationResult {
+  outcome: 'verified' | 'incorrect' | 'locked' | 'failed' | 'in_progress' | 'not_found' | 'error';
+
+  /** Message to show the owner */
+  message: string;
+
+  attemptsRemaining: number;
+
+  verification: BankVerificationRecord | null;
+}
+
+/**
+ * Bank verification service options
+ */
+export interface BankVerificationServiceOptions {
+  /** Micro-deposit checks and default payment method updates */
+  stripe?: Pick<StripeService, 'verifyMicrodeposits' | 'setDefaultPaymentMethod'>;
+
+  /** Attempts allowed for new verifications (default: 3) */
+  maxAttempts?: number;
+
+  /** Clock (for tests) */
+  now?: () => Date;
+}
+
+/**
+ * Bank verification service
+ *
+ * @example
+ * ```typescript
+ * const verifications = new BankVerificationService(supabase);
+ *
+ * // Signup
+ * await verifications.start(companyId, setupIntent);
+ *
+ * // /verify-bank
+ * const result = await verifications.verify(companyId, { amounts: [32, 45] });
+ * ```
+ */
+export class BankVerificationService {
+  private readonly stripe: Pick<StripeService, 'verifyMicrodeposits' | 'setDefaultPaymentMethod'>;
+  private readonly maxAttempts: number;
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    options: BankVerificationServiceOptions = {}
+  ) {
+    this.stripe = options.stripe || StripeService.getInstance();
+    this.maxAttempts = options.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+    this.now = options.now || (() => new Date());
+  }
+
+  // ============================================================================
+  // VERIFICATION
+  // ============================================================================
+
+  /**
+   * Record a SetupIntent waiting for micro-deposit verification
+   *
+   * @param companyId Company UUID
+   * @param setupIntent SetupIntent confirmed in the browser (status requires_action)
+   */
+  async start(companyId: string, setupIntent: StripeSetupIntentDetails): Promise<BankVerificationRecord> {
+    if (!setupIntent.customerId) {
+      throw new Error(`SetupIntent ${setupIntent.setupIntentId} has no customer`);
+    }
+
+    const { data, error } = await this.supabase
+      .from('bank_verifications')
+      .insert({
+        company_id: companyId,
+        stripe_customer_id: setupIntent.customerId,
+        setup_intent_id: setupIntent.setupIntentId,
+        payment_method_id: setupIntent.paymentMethodId,
+        bank_name: setupIntent.bankName,
+        account_last4: setupIntent.last4,
+        microdeposit_type: setupIntent.microdeposits?.type || 'amounts',
+        arrival_date: setupIntent.microdeposits?.arrivalDate || null,
+        max_attempts: this.maxAttempts,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as BankVerificationRecord;
+  }
+
+  /**
+   * The company's most recent unverified bank account, if any
+   */
+  async findOutstanding(companyId: string): Promise<BankVerificationRecord | null> {
+    const { data, error } = await this.supabase
+      .from('bank_verifications')
+      .select('*')
+      .eq('company_id', companyId)
+      .neq('status', 'verified')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as BankVerificationRecord | null) || null;
+  }
+
+  /**
+   * Check the owner's micro-deposit answer
+   *
+   * @param companyId Company UUID
+   * @param answer The two amounts in cents, or the descriptor code
+   */
+  async verify(companyId: string, answer: MicrodepositAnswer): Promise<BankVerificationResult> {
+    const verification = await this.findOutstanding(companyId);
+
+    if (!verification) {
+      return this.result('not_found', 'There is no bank account waiting for verification.', null);
+    }
+
+    if (verification.status !== 'pending') {
+      return this.closedResult(verification);
+    }
+
+    // Claim an attempt before asking Stripe
+    const claimed = await this.updateVerification(
+      verification,
+      { attempts: verification.attempts + 1 },
+      { attempts: verification.attempts, status: 'pending' }
+    );
+
+    if (!claimed) {
+      return this.result(
+        'in_progress',
+        'Another verification attempt is in progress. Please wait a moment and try again.',
+        verification
+      );
+    }
+
+    const stripeResult = await this.stripe.verifyMicrodeposits({
+      setupIntentId: verification.setup_intent_id,
+      ...('amounts' in answer ? { amounts: answer.amounts } : { descriptorCode: answer.descriptorCode }),
+    });
+
+    if (stripeResult.success && stripeResult.data?.status === 'succeeded') {
+      return this.complete(claimed, stripeResult.data);
+    }
+
+    const errorCode = stripeResult.error?.code || 'VERIFICATION_INCOMPLETE';
+    const userMessage = stripeResult.error?.userMessage
+      || 'We could not verify your bank account. Please try again.';
+
+    if (TERMINAL_ERROR_CODES.includes(errorCode)) {
+      const failed = await this.updateVerification(claimed, { status: 'failed', last_error: errorCode });
+      return this.result('failed', userMessage, failed || claimed);
+    }
+
+    if (!INCORRECT_ANSWER_CODES.includes(errorCode)) {
+      // Stripe never checked the answer (network error, outage) - give the attempt back
+      const refunded = await this.updateVerification(
+        claimed,
+        { attempts: verification.attempts, last_error: errorCode },
+        { attempts: claimed.attempts }
+      );
+      return this.result('error', userMessage, refunded || claimed);
+    }
+
+    if (claimed.attempts >= claimed.max_attempts) {
+      const locked = await this.updateVerification(claimed, { status: 'locked', last_error: errorCode });
+      return this.closedResult(locked || { ...claimed, status: 'locked' });
+    }
+
+    const updated = await this.updateVerification(claimed, { last_error: errorCode });
+    return this.result('incorrect', userMessage, updated || claimed);
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Mark the verification done and make the bank account the company's
+   * default payment method
+   */
+  private async complete(
+    verification: BankVerificationRecord,
+    setupIntent: StripeSetupIntentDetails
+  ): Promise<BankVerificationResult> {
+    const now = this.now().toISOString();
+    const paymentMethodId = setupIntent.paymentMethodId || verification.payment_method_id;
+
+    const verified = await this.updateVerification(verification, {
+      status: 'verified',
+      payment_method_id: paymentMethodId,
+      last_error: null,
+      verified_at: now,
+    });
+
+    const { data: company, error: companyError } = await this.supabase
+      .from('companies')
+      .select('id, stripe_subscription_id')
+      .eq('id', verification.company_id)
+      .maybeSingle();
+
+    if (companyError) {
+      throw companyError;
+    }
+
+    if (paymentMethodId) {
+      const defaultResult = await this.stripe.setDefaultPaymentMethod(
+        verification.stripe_customer_id,
+        paymentMethodId,
+        company?.stripe_subscription_id || undefined
+      );
+
+      if (!defaultResult.success) {
+        console.error('Failed to set verified bank as default payment method:', defaultResult.error?.code);
+      }
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('companies')
+      .update({
+        stripe_payment_method_id: paymentMethodId,
+        payment_method_status: 'verified',
+        updated_at: now,
+      })
+      .eq('id', verification.company_id);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    return this.result('verified', 'Your bank account is verified.', verified || verification);
+  }
+
+  private closedResult(verification: BankVerificationRecord): BankVerificationResult {
+    return verification.status === 'locked'
+      ? this.result(
+          'locked',
+          'Too many incorrect attempts. Please contact support or add your bank account again.',
+          verification
+        )
+      : this.result(
+          'failed',
+          'This bank account can no longer be verified. Please add your bank account again.',
+          verification
+        );
+  }
+
+  private result(
+    outcome: BankVerificationResult['outcome'],
+    message: string,
+    verification: BankVerificationRecord | null
+  ): BankVerificationResult {
+    return {
+      outcome,
+      message,
+      attemptsRemaining: verification && verification.status === 'pending'
+        ? Math.max(0, verification.max_attempts - verification.attempts)
+        : 0,
+      verification,
+    };
+  }
+
+  /**
+   * Update a verification row, optionally only if it still matches `expected`
+   *
+   * @returns Updated row, or null if `expected` no longer matched
+   */
+  private async updateVerification(
+    verification: BankVerificationRecord,
+    updates: Partial<BankVerificationRecord>,
+    expected: Partial<Pick<BankVerificationRecord, 'attempts' | 'status'>> = {}
+  ): Promise<BankVerificationRecord | null> {
+    let query = this.supabase
+      .from('bank_verifications')
+      .update({ ...updates, updated_at: this.now().toISOString() })
+      .eq('id', verification.id);
+
+    if (expected.attempts !== undefined) {
+      query = query.eq('attempts', expected.attempts);
+    }
+    if (expected.status !== undefined) {
+      query = query.eq('status', expected.status);
+    }
+
+    const { data, error } = await query.select().maybeSingle();
+    if (error) {
+      throw error;
+    }
+
+    return (data as BankVerificationRecord | null) || null;
+  }
+}
+
+export default BankVerificationService;
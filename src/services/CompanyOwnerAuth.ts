@@ -0,0 +1,69 @@
+/**
+ * COMPANY OWNER AUTH
+ *
+ * Authenticates requests to owner-only functions (billing, plan changes).
+ * The caller sends its Supabase access token as
+ * `Authorization: Bearer <access_token>`; the token's user must be the
+ * owner of a company in the users table.
+ *
+ * IMPORTANT: Server-side only (requires a service-role Supabase client).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Authenticated company owner
+ */
+export interface CompanyOwner {
+  /** Supabase Auth user ID (users.id) */
+  userId: string;
+
+  /** Owner email */
+  email: string;
+
+  /** Company UUID (companies.id) */
+  companyId: string;
+}
+
+/**
+ * Resolve the company owner behind a request
+ *
+ * @param supabase Service-role Supabase client
+ * @param headers Request headers (Netlify lower-cases header names)
+ * @returns Owner, or null if the token is missing/invalid or the user is not an owner
+ */
+export async function authenticateCompanyOwner(
+  supabase: SupabaseClient,
+  headers: Record<string, string | undefined>
+): Promise<CompanyOwner | null> {
+  const authorization = headers.authorization || headers.Authorization || '';
+  const match = authorization.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const { data: authData, error: authError } = await supabase.auth.getUser(match[1]);
+  if (authError || !authData.user) {
+    return null;
+  }
+
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('id, email, company_id, is_owner')
+    .eq('id', authData.user.id)
+    .maybeSingle();
+
+  if (userError) {
+    throw userError;
+  }
+
+  if (!user || !user.is_owner || !user.company_id) {
+    return null;
+  }
+
+  return {
+    userId: user.id,
+    email: user.email,
+    companyId: user.company_id,
+  };
+}
@@ -0,0 +1,565 @@
+/**
+ * DUNNING SERVICE
+ *
+ * Moves a company through the dunning ladder after an ACH debit fails and
+ * restores it when a later payment succeeds.
+ *
+ * FLOW:
+ * 1. recordFailure()    - charge.failed / payment_intent.payment_failed open
+ *                         (or update) the company's dunning case, mark the
+ *                         company past_due and schedule an invoice retry
+ * 2. processOpenCases() - scheduled: advance stages by case age, send the
+ *                         email for each stage once, retry due invoices
+ * 3. recordRecovery()   - payment_intent.succeeded resolves the case and
+ *                         returns the company to active
+ *
+ * Retries are fire-and-forget: ACH settles in days, so the outcome arrives
+ * later as another failure (next retry scheduled) or a success (recovery).
+ *
+ * Emails go through the email outbox keyed by case and stage, so a rerun
+ * after a partial failure queues each one once.
+ *
+ * IMPORTANT: Server-side only (requires a service-role Supabase client).
+ *
+ * @see src/config/dunningPolicy.ts
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_DUNNING_POLICY } from '../config/dunningPolicy';
+import type { DunningPolicy, DunningStage } from '../config/dunningPolicy';
+import EmailOutbox from './EmailOutbox';
+import { StripeService } from './StripeService';
+
+// Postgres unique_violation error code
+const UNIQUE_VIOLATION = '23505';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Row in dunning_cases
+ */
+export interface DunningCaseRecord {
+  id: string;
+  company_id: string;
+  status: 'open' | 'recovered' | 'closed';
+  stage: DunningStage;
+  failure_code: string | null;
+  failure_message: string | null;
+  amount: number | null;
+  failure_count: number;
+  last_failure_key: string | null;
+  payment_id: string | null;
+  stripe_invoice_id: string | null;
+  stripe_payment_intent_id: string | null;
+  retry_count: number;
+  next_retry_at: string | null;
+  notified_stages: DunningStage[];
+  opened_at: string;
+  stage_changed_at: string;
+  resolved_at: string | null;
+}
+
+/**
+ * A failed payment reported by a webhook
+ */
+export interface DunningFailure {
+  companyId: string;
+
+  /**
+   * Identifies the failure - the charge ID when known, else the payment
+   * intent ID. charge.failed and payment_intent.payment_failed report the
+   * same failure, so the second event is ignored.
+   */
+  failureKey: string;
+
+  failureCode?: string | null;
+  failureMessage?: string | null;
+
+  /** Failed amount in dollars */
+  amount?: number | null;
+
+  paymentId?: string | null;
+  invoiceId?: string | null;
+  paymentIntentId?: string | null;
+}
+
+/**
+ * Result of recording a failure
+ */
+export interface RecordFailureResult {
+  dunningCase: DunningCaseRecord;
+
+  /** Whether this failure opened a new case */
+  opened: boolean;
+
+  /** Whether the failure had already been recorded */
+  duplicate: boolean;
+}
+
+/**
+ * Summary of a scheduled run
+ */
+export interface ProcessDunningSummary {
+  processed: number;
+  advanced: number;
+  emailsSent: number;
+  retried: number;
+  recovered: number;
+  failed: number;
+}
+
+/**
+ * Dunning service options
+ */
+export interface DunningServiceOptions {
+  /** Stage ladder and retry schedule (default: DEFAULT_DUNNING_POLICY) */
+  policy?: DunningPolicy;
+
+  /** Stage and recovery emails (default: outbox with transport from env) */
+  outbox?: EmailOutbox;
+
+  /** Invoice retries (only needed by processOpenCases) */
+  stripe?: Pick<StripeService, 'retryInvoicePayment'>;
+
+  /** Billing portal link used in emails */
+  billingUrl?: string;
+
+  /** Clock (for tests) */
+  now?: () => Date;
+}
+
+/**
+ * Dunning service
+ *
+ * @example
+ * ```typescript
+ * const dunning = new DunningService(supabase, { stripe: StripeService.getInstance() });
+ *
+ * // Webhook
+ * await dunning.recordFailure({ companyId, failureKey: charge.id, failureCode: 'insufficient_funds' });
+ *
+ * // Scheduler
+ * const summary = await dunning.processOpenCases();
+ * ```
+ */
+export class DunningService {
+  private readonly policy: DunningPolicy;
+  private readonly outbox: EmailOutbox;
+  private readonly stripe?: Pick<StripeService, 'retryInvoicePayment'>;
+  private readonly billingUrl: string;
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    options: DunningServiceOptions = {}
+  ) {
+    this.policy = options.policy || DEFAULT_DUNNING_POLICY;
+    this.outbox = options.outbox || new EmailOutbox(supabase);
+    this.stripe = options.stripe;
+    this.billingUrl = options.billingUrl
+      || `${process.env.FRONTEND_URL || 'https://tradesphere.com'}/billing/payment-methods`;
+    this.now = options.now || (() => new Date());
+  }
+
+  // ============================================================================
+  // WEBHOOK EVENTS
+  // ============================================================================
+
+  /**
+   * Record a failed payment, opening a dunning case if none is open
+   *
+   * @param failure Failure details from the webhook
+   * @returns The open case and whether it was created by this call
+   */
+  async recordFailure(failure: DunningFailure): Promise<RecordFailureResult> {
+    const existing = await this.findOpenCase(failure.companyId);
+
+    if (existing) {
+      return this.addFailure(existing, failure);
+    }
+
+    const now = this.now().toISOString();
+    const { data, error } = await this.supabase
+      .from('dunning_cases')
+      .insert({
+        company_id: failure.companyId,
+        stage: this.policy.stages[0].stage,
+        failure_code: failure.failureCode || null,
+        failure_message: failure.failureMessage || null,
+        amount: failure.amount ?? null,
+        last_failure_key: failure.failureKey,
+        payment_id: failure.paymentId || null,
+        stripe_invoice_id: failure.invoiceId || null,
+        stripe_payment_intent_id: failure.paymentIntentId || null,
+        next_retry_at: this.nextRetryAt(0, failure.failureCode, failure.invoiceId),
+        opened_at: now,
+        stage_changed_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Another event opened the case first
+      if (error.code === UNIQUE_VIOLATION) {
+        const raced = await this.findOpenCase(failure.companyId);
+        if (raced) {
+          return this.addFailure(raced, failure);
+        }
+      }
+      throw error;
+    }
+
+    const dunningCase = data as DunningCaseRecord;
+
+    await this.updateCompany(failure.companyId, {
+      dunning_stage: dunningCase.stage,
+      subscription_status: 'past_due',
+      updated_at: now,
+    });
+
+    await this.notifyStage(dunningCase);
+
+    console.log(`Opened dunning case ${dunningCase.id} for company ${failure.companyId} (${failure.failureCode || 'unknown'})`);
+    return { dunningCase, opened: true, duplicate: false };
+  }
+
+  /**
+   * Resolve the company's open case after a successful payment
+   *
+   * @param companyId Company UUID
+   * @returns Whether an open case was resolved
+   */
+  async recordRecovery(companyId: string): Promise<boolean> {
+    const dunningCase = await this.findOpenCase(companyId);
+    if (!dunningCase) {
+      return false;
+    }
+
+    const now = this.now().toISOString();
+    await this.updateCase(dunningCase.id, {
+      status: 'recovered',
+      next_retry_at: null,
+      resolved_at: now,
+    });
+
+    await this.updateCompany(companyId, {
+      dunning_stage: null,
+      subscription_status: 'active',
+      payment_failure_count: 0,
+      updated_at: now,
+    });
+
+    await this.sendEmail(dunningCase, 'recovered');
+
+    console.log(`Dunning case ${dunningCase.id} recovered for company ${companyId}`);
+    return true;
+  }
+
+  // ============================================================================
+  // SCHEDULED PROCESSING
+  // ============================================================================
+
+  /**
+   * Advance open cases, send stage emails and retry due invoices
+   *
+   * @param options.limit Maximum cases per run (default: 100)
+   */
+  async processOpenCases(options: { limit?: number } = {}): Promise<ProcessDunningSummary> {
+    const summary: ProcessDunningSummary = {
+      processed: 0,
+      advanced: 0,
+      emailsSent: 0,
+      retried: 0,
+      recovered: 0,
+      failed: 0,
+    };
+
+    const { data, error } = await this.supabase
+      .from('dunning_cases')
+      .select('*')
+      .eq('status', 'open')
+      .order('opened_at', { ascending: true })
+      .limit(options.limit || 100);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const row of (data || []) as DunningCaseRecord[]) {
+      summary.processed++;
+
+      try {
+        let dunningCase = row;
+
+        const stage = this.stageFor(dunningCase);
+        if (stage !== dunningCase.stage) {
+          dunningCase = await this.advanceStage(dunningCase, stage);
+          summary.advanced++;
+        }
+
+        if (await this.notifyStage(dunningCase)) {
+          summary.emailsSent++;
+        }
+
+        const retry = await this.retryIfDue(dunningCase);
+        if (retry === 'paid') {
+          summary.recovered++;
+        } else if (retry === 'retried') {
+          summary.retried++;
+        }
+      } catch (caseError) {
+        summary.failed++;
+        console.error(`Dunning case ${row.id} failed to process:`, caseError);
+      }
+    }
+
+    return summary;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Apply a further failure to an open case (ignores repeats of the same failure)
+   */
+  private async addFailure(
+    dunningCase: DunningCaseRecord,
+    failure: DunningFailure
+  ): Promise<RecordFailureResult> {
+    if (dunningCase.last_failure_key === failure.failureKey) {
+      return { dunningCase, opened: false, duplicate: true };
+    }
+
+    const invoiceId = failure.invoiceId || dunningCase.stripe_invoice_id;
+    const updated = await this.updateCase(dunningCase.id, {
+      failure_code: failure.failureCode || null,
+      failure_message: failure.failureMessage || null,
+      amount: failure.amount ?? dunningCase.amount,
+      failure_count: dunningCase.failure_count + 1,
+      last_failure_key: failure.failureKey,
+      payment_id: failure.paymentId || dunningCase.payment_id,
+      stripe_invoice_id: invoiceId,
+      stripe_payment_intent_id: failure.paymentIntentId || dunningCase.stripe_payment_intent_id,
+      next_retry_at: this.nextRetryAt(dunningCase.retry_count, failure.failureCode, invoiceId),
+    });
+
+    return { dunningCase: updated, opened: false, duplicate: false };
+  }
+
+  /**
+   * Move a case (and its company) to a later stage
+   */
+  private async advanceStage(dunningCase: DunningCaseRecord, stage: DunningStage): Promise<DunningCaseRecord> {
+    const now = this.now().toISOString();
+    const updated = await this.updateCase(dunningCase.id, {
+      stage,
+      stage_changed_at: now,
+    });
+
+    await this.updateCompany(dunningCase.company_id, {
+      dunning_stage: stage,
+      updated_at: now,
+    });
+
+    console.log(`Dunning case ${dunningCase.id}: ${dunningCase.stage} → ${stage}`);
+    return updated;
+  }
+
+  /**
+   * Retry the case's invoice if a retry is due
+   */
+  private async retryIfDue(dunningCase: DunningCaseRecord): Promise<'skipped' | 'retried' | 'paid'> {
+    if (
+      !this.stripe ||
+      !dunningCase.stripe_invoice_id ||
+      !dunningCase.next_retry_at ||
+      new Date(dunningCase.next_retry_at) > this.now()
+    ) {
+      return 'skipped';
+    }
+
+    const result = await this.stripe.retryInvoicePayment(dunningCase.stripe_invoice_id);
+
+    if (!result.success) {
+      // Transient errors keep next_retry_at and run again next time; anything
+      // else waits for the failure webhook to schedule the next retry
+      if (!result.error?.retryable) {
+        await this.updateCase(dunningCase.id, {
+          retry_count: dunningCase.retry_count + 1,
+          next_retry_at: null,
+        });
+      }
+      console.warn(`Retry of invoice ${dunningCase.stripe_invoice_id} failed:`, result.error?.message);
+      return 'skipped';
+    }
+
+    // Paid outside the retry (e.g. by the owner from the invoice page)
+    if (result.data?.status === 'paid') {
+      await this.recordRecovery(dunningCase.company_id);
+      return 'paid';
+    }
+
+    await this.updateCase(dunningCase.id, {
+      retry_count: dunningCase.retry_count + 1,
+      next_retry_at: null,
+    });
+    return 'retried';
+  }
+
+  /**
+   * Stage for a case's age (never moves backwards)
+   */
+  private stageFor(dunningCase: DunningCaseRecord): DunningStage {
+    const ageDays = (this.now().getTime() - new Date(dunningCase.opened_at).getTime()) / DAY_MS;
+    const stages = this.policy.stages;
+    const currentIndex = stages.findIndex(config => config.stage === dunningCase.stage);
+
+    let index = currentIndex;
+    stages.forEach((config, i) => {
+      if (i > index && ageDays >= config.afterDays) {
+        index = i;
+      }
+    });
+
+    return stages[Math.max(index, 0)].stage;
+  }
+
+  /**
+   * When the next retry is due (null when retries are exhausted or pointless)
+   */
+  private nextRetryAt(
+    retryCount: number,
+    failureCode: string | null | undefined,
+    invoiceId: string | null | undefined
+  ): string | null {
+    const delayDays = this.policy.retryAfterDays[retryCount];
+
+    if (
+      !invoiceId ||
+      delayDays === undefined ||
+      (failureCode && this.policy.nonRetryableFailureCodes.includes(failureCode))
+    ) {
+      return null;
+    }
+
+    return new Date(this.now().getTime() + delayDays * DAY_MS).toISOString();
+  }
+
+  /**
+   * Send the current stage's email once per case
+   *
+   * @returns Whether an email was queued
+   */
+  private async notifyStage(dunningCase: DunningCaseRecord): Promise<boolean> {
+    if (dunningCase.notified_stages.includes(dunningCase.stage)) {
+      return false;
+    }
+
+    const sent = await this.sendEmail(dunningCase, dunningCase.stage);
+    if (sent) {
+      await this.updateCase(dunningCase.id, {
+        notified_stages: [...dunningCase.notified_stages, dunningCase.stage],
+      });
+    }
+
+    return sent;
+  }
+
+  /**
+   * Queue an email to the company's billing contact (failures are logged, not thrown)
+   */
+  private async sendEmail(dunningCase: DunningCaseRecord, type: DunningStage | 'recovered'): Promise<boolean> {
+    try {
+      const { data: company, error } = await this.supabase
+        .from('companies')
+        .select('name, email, billing_email')
+        .eq('id', dunningCase.company_id)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const to = company.billing_email || company.email;
+      if (!to) {
+        console.warn(`Company ${dunningCase.company_id} has no billing email - skipping ${type} dunning email`);
+        return false;
+      }
+
+      const stageIndex = this.policy.stages.findIndex(config => config.stage === dunningCase.stage);
+      const nextStage = this.policy.stages[stageIndex + 1];
+
+      await this.outbox.enqueue('dunning_notice', to, {
+        stage: type,
+        companyName: company.name,
+        amount: dunningCase.amount,
+        failureReason: StripeService.getUserFriendlyErrorMessage({
+          code: dunningCase.failure_code || undefined,
+          message: dunningCase.failure_message || 'The payment was returned by the bank.',
+        }),
+        nextStageAt: nextStage
+          ? new Date(new Date(dunningCase.opened_at).getTime() + nextStage.afterDays * DAY_MS).toISOString()
+          : null,
+        billingUrl: this.billingUrl,
+      }, { companyId: dunningCase.company_id, dedupeKey: `dunning:${dunningCase.id}:${type}` });
+
+      return true;
+    } catch (emailError) {
+      console.error(`Failed to queue ${type} dunning email for case ${dunningCase.id}:`, emailError);
+      return false;
+    }
+  }
+
+  /**
+   * Find the company's open case
+   */
+  private async findOpenCase(companyId: string): Promise<DunningCaseRecord | null> {
+    const { data, error } = await this.supabase
+      .from('dunning_cases')
+      .select('*')
+      .eq('company_id', companyId)
+      .eq('status', 'open')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as DunningCaseRecord | null;
+  }
+
+  /**
+   * Apply an update to a case row
+   */
+  private async updateCase(caseId: string, updates: Record<string, unknown>): Promise<DunningCaseRecord> {
+    const { data, error } = await this.supabase
+      .from('dunning_cases')
+      .update({ ...updates, updated_at: this.now().toISOString() })
+      .eq('id', caseId)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as DunningCaseRecord;
+  }
+
+  /**
+   * Apply an update to a company row
+   */
+  private async updateCompany(companyId: string, updates: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('companies')
+      .update(updates)
+      .eq('id', companyId);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+export default DunningService;
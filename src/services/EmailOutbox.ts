@@ -0,0 +1,557 @@
+/**
+ * EMAIL OUTBOX
+ *
+ * Durable queue for transactional emails (email_outbox table).
+ *
+ * FLOW:
+ * 1. enqueue()  - store the template, recipient and data (a dedupe key makes
+ *                 repeated enqueues from replayed webhooks a no-op)
+ * 2. deliver()  - optional immediate attempt right after enqueueing
+ * 3. drain()    - scheduled (process-email-outbox): claim due rows, render
+ *                 and send them; failures are retried with backoff and
+ *                 marked failed after the last attempt
+ * 4. recordEvents() - SendGrid event webhook (sendgrid-events): log each
+ *                 event and update delivery / bounce / open status
+ *
+ * A row is claimed by moving it to 'sending' with a lease (next_attempt_at
+ * in the future). If the function dies mid-send the lease runs out and the
+ * next drain picks the row up again - so an email can, rarely, go out twice,
+ * but it is never lost.
+ *
+ * IMPORTANT: Server-side only (requires a service-role Supabase client).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { renderEmail } from './EmailTemplates';
+import type { EmailTemplateData, EmailTemplateName } from './EmailTemplates';
+import { emailTransportFromEnv } from './EmailTransport';
+import type { EmailTransport } from './EmailTransport';
+
+// Postgres unique_violation error code
+const UNIQUE_VIOLATION = '23505';
+
+// Wait before each retry, in minutes (attempts = retries + 1)
+const DEFAULT_RETRY_DELAYS_MINUTES = [1, 5, 15, 60, 240, 720];
+
+// How long a claimed row stays reserved for the drain that claimed it
+const SENDING_LEASE_MINUTES = 10;
+
+/**
+ * Outbox row status
+ */
+export type EmailOutboxStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+/**
+ * Delivery state reported by SendGrid
+ */
+export type EmailDeliveryStatus =
+  | 'processed'
+  | 'deferred'
+  | 'delivered'
+  | 'bounced'
+  | 'dropped'
+  | 'spam_report'
+  | 'unsubscribed';
+
+/**
+ * Database row in email_outbox
+ */
+export interface EmailOutboxRecord {
+  id: string;
+  company_id: string | null;
+  template: EmailTemplateName;
+  template_version: number | null;
+  recipient: string;
+  data: Record<string, unknown>;
+  dedupe_key: string | null;
+  status: EmailOutboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  provider: string | null;
+  provider_message_id: string | null;
+  sent_at: string | null;
+  delivery_status: EmailDeliveryStatus | null;
+  delivered_at: string | null;
+  opened_at: string | null;
+  bounced_at: string | null;
+  bounce_reason: string | null;
+  last_event_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Where an email belongs and how to deduplicate it
+ */
+export interface EnqueueEmailOptions {
+  companyId?: string | null;
+
+  /** Same key twice = one email (e.g. payment_receipt:<payment intent ID>) */
+  dedupeKey?: string;
+}
+
+/**
+ * Result of enqueueing
+ */
+export interface EnqueueEmailResult {
+  outcome: 'queued' | 'duplicate';
+  id: string;
+}
+
+/**
+ * Result of one delivery attempt
+ */
+export interface EmailDeliveryResult {
+  outcome: 'sent' | 'retrying' | 'failed' | 'skipped';
+  message: string;
+}
+
+/**
+ * Summary of a drain run
+ */
+export interface EmailOutboxDrainSummary {
+  claimed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+/**
+ * A SendGrid event webhook entry (only the fields used here)
+ */
+export interface SendGridEvent {
+  event: string;
+  email: string;
+  timestamp: number;
+  sg_event_id: string;
+  sg_message_id?: string;
+  reason?: string;
+  type?: string;
+
+  /** Custom arg set on every outbox email */
+  outbox_id?: string;
+
+  [key: string]: unknown;
+}
+
+/**
+ * Summary of recorded SendGrid events
+ */
+export interface RecordEmailEventsSummary {
+  received: number;
+  recorded: number;
+  duplicates: number;
+  unmatched: number;
+}
+
+/**
+ * Email outbox options
+ */
+export interface EmailOutboxOptions {
+  /** Delivery provider (default: from env; null leaves emails queued) */
+  transport?: EmailTransport | null;
+
+  /** Minutes to wait before each retry (default: 1, 5, 15, 60, 240, 720) */
+  retryDelaysMinutes?: number[];
+
+  /** Clock (for tests) */
+  now?: () => Date;
+}
+
+// SendGrid event → delivery status
+const DELIVERY_EVENTS: Record<string, EmailDeliveryStatus> = {
+  processed: 'processed',
+  deferred: 'deferred',
+  delivered: 'delivered',
+  bounce: 'bounced',
+  dropped: 'dropped',
+  spamreport: 'spam_report',
+  unsubscribe: 'unsubscribed',
+  group_unsubscribe: 'unsubscribed',
+};
+
+// Late or out-of-order events never move the status to a lower rank
+// (e.g. deferred after delivered)
+const DELIVERY_RANK: Record<EmailDeliveryStatus, number> = {
+  processed: 1,
+  deferred: 2,
+  delivered: 3,
+  bounced: 4,
+  dropped: 4,
+  spam_report: 5,
+  unsubscribed: 5,
+};
+
+/**
+ * Durable transactional email queue
+ *
+ * @example
+ * ```typescript
+ * const outbox = new EmailOutbox(supabase);
+ *
+ * const { id } = await outbox.enqueue('welcome', 'owner@company.com', welcomeData, {
+ *   companyId,
+ *   dedupeKey: `welcome:${companyId}`
+ * });
+ * await outbox.deliver(id); // try now; the scheduled drain retries on failure
+ * ```
+ */
+export class EmailOutbox {
+  private readonly transport: EmailTransport | null;
+  private readonly retryDelaysMinutes: number[];
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    options: EmailOutboxOptions = {}
+  ) {
+    this.transport = options.transport !== undefined ? options.transport : emailTransportFromEnv();
+    this.retryDelaysMinutes = options.retryDelaysMinutes || DEFAULT_RETRY_DELAYS_MINUTES;
+    this.now = options.now || (() => new Date());
+  }
+
+  // ============================================================================
+  // QUEUEING
+  // ============================================================================
+
+  /**
+   * Store an email for delivery
+   *
+   * @throws When the row cannot be written
+   */
+  async enqueue<K extends EmailTemplateName>(
+    template: K,
+    to: string,
+    data: EmailTemplateData[K],
+    options: EnqueueEmailOptions = {}
+  ): Promise<EnqueueEmailResult> {
+    const { data: row, error } = await this.supabase
+      .from('email_outbox')
+      .insert({
+        company_id: options.companyId || null,
+        template,
+        recipient: to,
+        data,
+        dedupe_key: options.dedupeKey || null,
+        next_attempt_at: this.now().toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (!error && row) {
+      console.log(`Queued ${template} email ${row.id}`);
+      return { outcome: 'queued', id: row.id };
+    }
+
+    if (error?.code !== UNIQUE_VIOLATION || !options.dedupeKey) {
+      throw error || new Error(`Failed to queue ${template} email`);
+    }
+
+    // Already queued under this key (replayed webhook, retried request)
+    const { data: existing, error: fetchError } = await this.supabase
+      .from('email_outbox')
+      .select('id')
+      .eq('dedupe_key', options.dedupeKey)
+      .single();
+
+    if (fetchError || !existing) {
+      throw fetchError || new Error(`Email ${options.dedupeKey} not found after duplicate insert`);
+    }
+
+    return { outcome: 'duplicate', id: existing.id };
+  }
+
+  /**
+   * Try to send one queued email right away
+   *
+   * Never throws. Emails that cannot go out now stay queued for drain().
+   */
+  async deliver(id: string): Promise<EmailDeliveryResult> {
+    const transport = this.transport;
+    if (!transport) {
+      return { outcome: 'skipped', message: 'Email is not configured - left in the outbox.' };
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('email_outbox')
+        .select('*')
+        .eq('id', id)
+        .eq('status', 'pending')
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      const claimed = data ? await this.claim(data as EmailOutboxRecord) : null;
+      if (!claimed) {
+        return { outcome: 'skipped', message: 'Email already sent or being sent.' };
+      }
+
+      return await this.send(claimed, transport);
+    } catch (error) {
+      console.error(`Immediate delivery of email ${id} failed (left in the outbox):`, error);
+      return { outcome: 'retrying', message: 'Email left in the outbox.' };
+    }
+  }
+
+  /**
+   * Send every due email (scheduled)
+   *
+   * @param limit Most emails to claim in one run
+   */
+  async drain(limit = 50): Promise<EmailOutboxDrainSummary> {
+    const summary: EmailOutboxDrainSummary = { claimed: 0, sent: 0, retrying: 0, failed: 0 };
+
+    const transport = this.transport;
+    if (!transport) {
+      console.warn('Email not configured - leaving the outbox untouched');
+      return summary;
+    }
+
+    const { data, error } = await this.supabase
+      .from('email_outbox')
+      .select('*')
+      .in('status', ['pending', 'sending'])
+      .lte('next_attempt_at', this.now().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const row of (data || []) as EmailOutboxRecord[]) {
+      const claimed = await this.claim(row);
+      if (!claimed) {
+        // Another run (or an immediate deliver) claimed it first
+        continue;
+      }
+
+      summary.claimed += 1;
+      const result = await this.send(claimed, transport);
+      if (result.outcome === 'sent') {
+        summary.sent += 1;
+      } else if (result.outcome === 'failed') {
+        summary.failed += 1;
+      } else {
+        summary.retrying += 1;
+      }
+    }
+
+    return summary;
+  }
+
+  // ============================================================================
+  // DELIVERY EVENTS
+  // ============================================================================
+
+  /**
+   * Log SendGrid events and update the matching outbox rows
+   *
+   * Events are deduplicated by sg_event_id. Events for emails not sent
+   * through the outbox are logged without a row.
+   */
+  async recordEvents(events: SendGridEvent[]): Promise<RecordEmailEventsSummary> {
+    const summary: RecordEmailEventsSummary = { received: events.length, recorded: 0, duplicates: 0, unmatched: 0 };
+
+    for (const event of events) {
+      if (!event.sg_event_id || !event.event) {
+        continue;
+      }
+
+      const row = await this.findForEvent(event);
+      const occurredAt = new Date((event.timestamp || 0) * 1000 || this.now().getTime()).toISOString();
+
+      const { error } = await this.supabase
+        .from('email_events')
+        .insert({
+          outbox_id: row?.id || null,
+          sg_event_id: event.sg_event_id,
+          sg_message_id: event.sg_message_id || null,
+          event: event.event,
+          payload: event,
+          occurred_at: occurredAt,
+        });
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        summary.duplicates += 1;
+        continue;
+      }
+      if (error) {
+        throw error;
+      }
+
+      summary.recorded += 1;
+      if (!row) {
+        summary.unmatched += 1;
+        continue;
+      }
+
+      const update = this.deliveryUpdate(row, event, occurredAt);
+      if (update) {
+        const { error: updateError } = await this.supabase
+          .from('email_outbox')
+          .update({ ...update, updated_at: this.now().toISOString() })
+          .eq('id', row.id);
+
+        if (updateError) {
+          throw updateError;
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Reserve a row for sending (conditional on it being unchanged since read)
+   */
+  private async claim(row: EmailOutboxRecord): Promise<EmailOutboxRecord | null> {
+    const leaseUntil = new Date(this.now().getTime() + SENDING_LEASE_MINUTES * 60 * 1000);
+
+    const { data, error } = await this.supabase
+      .from('email_outbox')
+      .update({
+        status: 'sending',
+        next_attempt_at: leaseUntil.toISOString(),
+        updated_at: this.now().toISOString(),
+      })
+      .eq('id', row.id)
+      .eq('status', row.status)
+      .eq('next_attempt_at', row.next_attempt_at)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Failed to claim email ${row.id}:`, error);
+      return null;
+    }
+
+    return data as EmailOutboxRecord | null;
+  }
+
+  /**
+   * Render and send a claimed row, then record the outcome
+   */
+  private async send(row: EmailOutboxRecord, transport: EmailTransport): Promise<EmailDeliveryResult> {
+    const attempts = row.attempts + 1;
+
+    try {
+      const email = renderEmail(row.template, row.recipient, row.data as unknown as EmailTemplateData[typeof row.template]);
+      const { messageId } = await transport.send({ ...email, customArgs: { outbox_id: row.id } });
+
+      await this.updateRow(row.id, {
+        status: 'sent',
+        attempts,
+        template_version: email.templateVersion,
+        provider: transport.name,
+        provider_message_id: messageId,
+        sent_at: this.now().toISOString(),
+        last_error: null,
+      });
+
+      console.log(`Sent ${row.template} email ${row.id} via ${transport.name}`);
+      return { outcome: 'sent', message: 'Email sent.' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const delayMinutes = this.retryDelaysMinutes[attempts - 1];
+
+      if (delayMinutes === undefined) {
+        console.error(`Giving up on ${row.template} email ${row.id} after ${attempts} attempts:`, error);
+        await this.updateRow(row.id, { status: 'failed', attempts, last_error: message });
+        return { outcome: 'failed', message };
+      }
+
+      console.warn(`Sending ${row.template} email ${row.id} failed (attempt ${attempts}) - retrying in ${delayMinutes}m:`, error);
+      await this.updateRow(row.id, {
+        status: 'pending',
+        attempts,
+        last_error: message,
+        next_attempt_at: new Date(this.now().getTime() + delayMinutes * 60 * 1000).toISOString(),
+      });
+      return { outcome: 'retrying', message };
+    }
+  }
+
+  /**
+   * Record a send outcome (logged, not thrown - the lease covers a lost write)
+   */
+  private async updateRow(id: string, update: Partial<EmailOutboxRecord>): Promise<void> {
+    const { error } = await this.supabase
+      .from('email_outbox')
+      .update({ ...update, updated_at: this.now().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Failed to update email ${id}:`, error);
+    }
+  }
+
+  /**
+   * Outbox row for an event: the outbox_id custom arg, else the message ID
+   */
+  private async findForEvent(event: SendGridEvent): Promise<EmailOutboxRecord | null> {
+    const query = this.supabase.from('email_outbox').select('*');
+
+    if (event.outbox_id) {
+      const { data, error } = await query.eq('id', event.outbox_id).maybeSingle();
+      if (error) {
+        throw error;
+      }
+      return data as EmailOutboxRecord | null;
+    }
+
+    // sg_message_id is the X-Message-Id returned at send time plus a suffix
+    const messageId = event.sg_message_id?.split('.')[0];
+    if (!messageId) {
+      return null;
+    }
+
+    const { data, error } = await query.eq('provider_message_id', messageId).maybeSingle();
+    if (error) {
+      throw error;
+    }
+    return data as EmailOutboxRecord | null;
+  }
+
+  /**
+   * Columns an event changes on its outbox row (null = nothing to change)
+   */
+  private deliveryUpdate(
+    row: EmailOutboxRecord,
+    event: SendGridEvent,
+    occurredAt: string
+  ): Partial<EmailOutboxRecord> | null {
+    if (event.event === 'open') {
+      return row.opened_at ? null : { opened_at: occurredAt, last_event_at: occurredAt };
+    }
+
+    const status = DELIVERY_EVENTS[event.event];
+    if (!status) {
+      return { last_event_at: occurredAt };
+    }
+
+    const currentRank = row.delivery_status ? DELIVERY_RANK[row.delivery_status] : 0;
+    if (DELIVERY_RANK[status] < currentRank) {
+      return { last_event_at: occurredAt };
+    }
+
+    return {
+      delivery_status: status,
+      last_event_at: occurredAt,
+      ...(status === 'delivered' ? { delivered_at: occurredAt } : {}),
+      ...(status === 'bounced' || status === 'dropped'
+        ? { bounced_at: occurredAt, bounce_reason: event.reason || event.type || null }
+        : {}),
+    };
+  }
+}
+
+export default EmailOutbox;
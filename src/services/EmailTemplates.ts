@@ -0,0 +1,664 @@
+/**
+ * EMAIL TEMPLATES
+ *
+ * Transactional emails sent to company owners. Each template turns typed
+ * data into content blocks (headings, paragraphs, lists, a button), and
+ * one layout renders the blocks to both HTML and plain text - so every
+ * value is escaped and every email has a text alternative.
+ *
+ * VERSIONING: bump a template's version whenever its wording or data
+ * changes. The version travels with the message (X-Template header,
+ * SendGrid custom args) so delivery events can be traced to the copy the
+ * owner actually received.
+ *
+ * Previews of every template (with the sample data below) are served by
+ * the email-preview function in development.
+ */
+
+import type { DunningStage } from '../config/dunningPolicy';
+
+/**
+ * Templates by name
+ */
+export type EmailTemplateName =
+  | 'welcome'
+  | 'trial_ending'
+  | 'trial_expired'
+  | 'payment_failed'
+  | 'dunning_notice'
+  | 'payment_receipt'
+  | 'bank_reconnect'
+  | 'password_reset'
+  | 'registration_resume';
+
+/**
+ * Data each template needs (dates are ISO strings, amounts are dollars)
+ */
+export interface EmailTemplateData {
+  welcome: {
+    firstName: string;
+    companyName: string;
+    trialDays: number;
+    trialEndDate: string;
+    onboardingUrl: string;
+    helpUrl: string;
+  };
+  trial_ending: {
+    firstName: string;
+    companyName: string;
+    planName: string;
+    trialEndDate: string;
+    amount: number;
+
+    /** Whether a verified bank account will be billed at trial end */
+    hasPaymentMethod: boolean;
+
+    bankLabel: string | null;
+    billingUrl: string;
+  };
+  trial_expired: {
+    firstName: string;
+    companyName: string;
+    planName: string;
+    billingUrl: string;
+  };
+  payment_failed: {
+    companyName: string;
+    amount: number | null;
+    failureReason: string;
+    retryDate: string | null;
+    billingUrl: string;
+  };
+  dunning_notice: {
+    /** Dunning stage just entered, or 'recovered' once the balance is paid */
+    stage: DunningStage | 'recovered';
+
+    companyName: string;
+    amount: number | null;
+    failureReason: string;
+
+    /** When the next stage starts (if any) */
+    nextStageAt: string | null;
+
+    billingUrl: string;
+  };
+  payment_receipt: {
+    companyName: string;
+    planName: string;
+    amount: number;
+    paidAt: string;
+    invoiceNumber: string | null;
+    invoiceUrl: string | null;
+    bankLabel: string | null;
+  };
+  bank_reconnect: {
+    companyName: string;
+    institutionName: string;
+    reason: 'login_required' | 'pending_expiration';
+    reconnectUrl: string;
+  };
+  password_reset: {
+    firstName: string | null;
+    resetUrl: string;
+    expiresInMinutes: number;
+  };
+  registration_resume: {
+    firstName: string | null;
+    companyName: string | null;
+    resumeUrl: string;
+    expiresAt: string;
+  };
+}
+
+/**
+ * Building blocks of an email body
+ */
+export type EmailBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] }
+  | { type: 'button'; label: string; url: string }
+  | { type: 'note'; text: string };
+
+/**
+ * Template output before layout
+ */
+export interface EmailContent {
+  subject: string;
+
+  /** Inbox preview line (hidden in the body) */
+  preheader: string;
+
+  blocks: EmailBlock[];
+}
+
+/**
+ * A rendered email, ready for a transport
+ */
+export interface RenderedEmail {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  template: EmailTemplateName;
+  templateVersion: number;
+}
+
+interface EmailTemplate<T> {
+  version: number;
+  description: string;
+  render: (data: T) => EmailContent;
+
+  /** Sample data for previews */
+  sample: T;
+}
+
+type EmailTemplateRegistry = { [K in EmailTemplateName]: EmailTemplate<EmailTemplateData[K]> };
+
+const SIGN_OFF = 'The Tradesphere Team';
+const SUPPORT_EMAIL = 'support@tradesphere.com';
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Escape a value for HTML interpolation
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(iso: string | null | undefined): string {
+  return iso
+    ? new Date(iso).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+    : 'soon';
+}
+
+function formatAmount(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Only http(s) links make it into an email
+ */
+function safeUrl(url: string): string {
+  return /^https?:\/\//i.test(url) ? url : '#';
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+const TEMPLATES: EmailTemplateRegistry = {
+  welcome: {
+    version: 1,
+    description: 'Sent once the signup completes, with the onboarding link',
+    render: data => ({
+      subject: `Welcome to Tradesphere, ${data.firstName}!`,
+      preheader: `Your ${data.trialDays}-day free trial for ${data.companyName} has started.`,
+      blocks: [
+        { type: 'heading', text: 'Welcome to Tradesphere!' },
+        { type: 'paragraph', text: `Hi ${data.firstName},` },
+        {
+          type: 'paragraph',
+          text: `Thank you for signing up ${data.companyName} with Tradesphere. Your account has been created.`,
+        },
+        { type: 'button', label: 'Complete setup', url: data.onboardingUrl },
+        { type: 'heading', text: 'Your trial' },
+        {
+          type: 'list',
+          items: [
+            `${data.trialDays}-day free trial, active until ${formatDate(data.trialEndDate)}`,
+            'Full access to every feature in your plan',
+            'No charges until the trial ends',
+          ],
+        },
+        { type: 'heading', text: 'Your bank account' },
+        {
+          type: 'list',
+          items: [
+            'Your first ACH debit is initiated when the trial ends',
+            'ACH payments take 3-5 business days to clear',
+            'You can change your bank account at any time from the billing portal',
+          ],
+        },
+        { type: 'paragraph', text: `Questions? Email ${SUPPORT_EMAIL} or visit ${data.helpUrl}.` },
+      ],
+    }),
+    sample: {
+      firstName: 'Jordan',
+      companyName: 'Green Acres Landscaping',
+      trialDays: 14,
+      trialEndDate: '2026-11-02',
+      onboardingUrl: 'https://app.tradesphere.com/onboarding?token=sample',
+      helpUrl: 'https://app.tradesphere.com/help',
+    },
+  },
+
+  trial_ending: {
+    version: 2,
+    description: 'Sent 7, 3 and 1 days before the free trial converts to a paid plan',
+    render: data => ({
+      subject: `Your Tradesphere trial ends on ${formatDate(data.trialEndDate)}`,
+      preheader: data.hasPaymentMethod
+        ? `Your ${data.planName} plan starts at ${formatAmount(data.amount)}.`
+        : 'Add a bank account to keep your account running.',
+      blocks: [
+        { type: 'paragraph', text: `Hi ${data.firstName},` },
+        {
+          type: 'paragraph',
+          text: `The free trial for ${data.companyName} ends on ${formatDate(data.trialEndDate)}. ` +
+            `After that, your ${data.planName} plan is billed at ${formatAmount(data.amount)}` +
+            (data.hasPaymentMethod && data.bankLabel ? ` from ${data.bankLabel}.` : '.'),
+        },
+        data.hasPaymentMethod
+          ? {
+              type: 'paragraph',
+              text: 'Nothing else is needed to keep your account running. To change your plan or bank account, visit the billing portal.',
+            }
+          : {
+              type: 'paragraph',
+              text: "We don't have a verified bank account for you yet. Add one before your trial ends - otherwise your account is paused until you do.",
+            },
+        data.hasPaymentMethod
+          ? { type: 'button', label: 'Review billing', url: data.billingUrl }
+          : { type: 'button', label: 'Add a bank account', url: data.billingUrl },
+      ],
+    }),
+    sample: {
+      firstName: 'Jordan',
+      companyName: 'Green Acres Landscaping',
+      planName: 'Growth',
+      trialEndDate: '2026-11-02',
+      amount: 599,
+      hasPaymentMethod: true,
+      bankLabel: 'First Platypus Bank ••••0000',
+      billingUrl: 'https://tradesphere.com/billing',
+    },
+  },
+
+  trial_expired: {
+    version: 1,
+    description: 'Sent when the free trial ends without a verified bank account',
+    render: data => ({
+      subject: 'Your Tradesphere trial has ended',
+      preheader: `Add a bank account to start your ${data.planName} plan.`,
+      blocks: [
+        { type: 'paragraph', text: `Hi ${data.firstName},` },
+        {
+          type: 'paragraph',
+          text: `The free trial for ${data.companyName} has ended, and we don't have a verified bank account to bill your ${data.planName} plan.`,
+        },
+        {
+          type: 'paragraph',
+          text: 'Your account is paused. Add a bank account and your subscription starts again right away - your data is kept.',
+        },
+        { type: 'button', label: 'Add a bank account', url: data.billingUrl },
+      ],
+    }),
+    sample: {
+      firstName: 'Jordan',
+      companyName: 'Green Acres Landscaping',
+      planName: 'Growth',
+      billingUrl: 'https://tradesphere.com/billing/payment-methods',
+    },
+  },
+
+  payment_failed: {
+    version: 1,
+    description: 'Sent when a subscription payment is returned or declined',
+    render: data => ({
+      subject: 'Your Tradesphere payment failed',
+      preheader: 'Please check your bank account to avoid an interruption.',
+      blocks: [
+        {
+          type: 'paragraph',
+          text: `We couldn't collect ${data.amount ? formatAmount(data.amount) : 'your subscription payment'} for ${data.companyName}.`,
+        },
+        { type: 'paragraph', text: `Reason: ${data.failureReason}` },
+        {
+          type: 'paragraph',
+          text: data.retryDate
+            ? `We'll try again on ${formatDate(data.retryDate)}. If your bank account has changed, please update it before then.`
+            : 'If your bank account has changed, please update it now to avoid any interruption.',
+        },
+        { type: 'button', label: 'Update payment details', url: data.billingUrl },
+      ],
+    }),
+    sample: {
+      companyName: 'Green Acres Landscaping',
+      amount: 599,
+      failureReason: 'Insufficient funds in the bank account.',
+      retryDate: '2026-10-24',
+      billingUrl: 'https://tradesphere.com/billing',
+    },
+  },
+
+  dunning_notice: {
+    version: 1,
+    description: 'Sent as an unpaid subscription moves through each dunning stage, and once it is paid',
+    render: data => {
+      const amount = data.amount ? formatAmount(data.amount) : 'your subscription payment';
+      const button = data.stage === 'recovered'
+        ? { type: 'button' as const, label: 'View billing', url: data.billingUrl }
+        : { type: 'button' as const, label: 'Update payment details', url: data.billingUrl };
+
+      switch (data.stage) {
+        case 'past_due':
+          return {
+            subject: 'Your Tradesphere payment failed',
+            preheader: 'Please check your bank account to avoid an interruption.',
+            blocks: [
+              { type: 'paragraph', text: `We couldn't collect ${amount} for ${data.companyName}.` },
+              { type: 'paragraph', text: `Reason: ${data.failureReason}` },
+              {
+                type: 'paragraph',
+                text: "We'll retry automatically. If your bank account has changed, please update it now to avoid any interruption.",
+              },
+              button,
+            ],
+          };
+        case 'grace_period':
+          return {
+            subject: 'Action needed: your Tradesphere payment is still outstanding',
+            preheader: `Your account switches to read-only on ${formatDate(data.nextStageAt)}.`,
+            blocks: [
+              { type: 'paragraph', text: `The subscription payment for ${data.companyName} is still unpaid.` },
+              { type: 'paragraph', text: `Reason: ${data.failureReason}` },
+              {
+                type: 'paragraph',
+                text: `Your account will switch to read-only on ${formatDate(data.nextStageAt)} unless the payment goes through.`,
+              },
+              button,
+            ],
+          };
+        case 'restricted':
+          return {
+            subject: 'Your Tradesphere account is now read-only',
+            preheader: `Your account will be suspended on ${formatDate(data.nextStageAt)}.`,
+            blocks: [
+              {
+                type: 'paragraph',
+                text: `Because the subscription payment for ${data.companyName} is still outstanding, your account is now read-only.`,
+              },
+              {
+                type: 'paragraph',
+                text: `Your account will be suspended on ${formatDate(data.nextStageAt)}. Update your bank account to restore full access right away.`,
+              },
+              button,
+            ],
+          };
+        case 'suspended':
+          return {
+            subject: 'Your Tradesphere account has been suspended',
+            preheader: 'Your data is safe - pay the outstanding balance to reactivate.',
+            blocks: [
+              {
+                type: 'paragraph',
+                text: `The subscription for ${data.companyName} has been suspended because payment could not be collected.`,
+              },
+              {
+                type: 'paragraph',
+                text: 'Your data is safe. Update your bank account to pay the outstanding balance and reactivate your account.',
+              },
+              button,
+            ],
+          };
+        case 'recovered':
+          return {
+            subject: 'Payment received - thank you',
+            preheader: `Your Tradesphere account for ${data.companyName} is fully active again.`,
+            blocks: [
+              {
+                type: 'paragraph',
+                text: `We've received the subscription payment for ${data.companyName}. Your account is fully active again.`,
+              },
+              button,
+            ],
+          };
+      }
+    },
+    sample: {
+      stage: 'grace_period',
+      companyName: 'Green Acres Landscaping',
+      amount: 599,
+      failureReason: 'Insufficient funds in the bank account.',
+      nextStageAt: '2026-10-29T00:00:00.000Z',
+      billingUrl: 'https://tradesphere.com/billing',
+    },
+  },
+
+  payment_receipt: {
+    version: 1,
+    description: 'Sent when a subscription payment clears',
+    render: data => ({
+      subject: `Receipt for your Tradesphere payment of ${formatAmount(data.amount)}`,
+      preheader: `Thank you - we received ${formatAmount(data.amount)} for ${data.companyName}.`,
+      blocks: [
+        { type: 'paragraph', text: `Thank you - we received your payment for ${data.companyName}.` },
+        {
+          type: 'list',
+          items: [
+            `Amount: ${formatAmount(data.amount)}`,
+            `Plan: ${data.planName}`,
+            `Paid: ${formatDate(data.paidAt)}`,
+            ...(data.bankLabel ? [`Paid from: ${data.bankLabel}`] : []),
+            ...(data.invoiceNumber ? [`Invoice: ${data.invoiceNumber}`] : []),
+          ],
+        },
+        ...(data.invoiceUrl ? [{ type: 'button' as const, label: 'View invoice', url: data.invoiceUrl }] : []),
+      ],
+    }),
+    sample: {
+      companyName: 'Green Acres Landscaping',
+      planName: 'Growth',
+      amount: 599,
+      paidAt: '2026-10-19T15:00:00Z',
+      invoiceNumber: 'TS-0042',
+      invoiceUrl: 'https://invoice.stripe.com/i/sample',
+      bankLabel: 'First Platypus Bank ••••0000',
+    },
+  },
+
+  bank_reconnect: {
+    version: 1,
+    description: 'Sent when a linked bank needs the owner to log in again',
+    render: data => ({
+      subject: 'Reconnect your bank to keep your Tradesphere subscription active',
+      preheader: `Your connection to ${data.institutionName} needs attention.`,
+      blocks: [
+        {
+          type: 'paragraph',
+          text: data.reason === 'login_required'
+            ? `Your connection to ${data.institutionName} has stopped working, usually because your bank login changed.`
+            : `Your connection to ${data.institutionName} expires soon.`,
+        },
+        {
+          type: 'paragraph',
+          text: `Reconnect it so your subscription payments for ${data.companyName} keep going through. It only takes a minute.`,
+        },
+        { type: 'button', label: 'Reconnect your bank', url: data.reconnectUrl },
+      ],
+    }),
+    sample: {
+      companyName: 'Green Acres Landscaping',
+      institutionName: 'First Platypus Bank',
+      reason: 'login_required',
+      reconnectUrl: 'https://tradesphere.com/billing/reconnect-bank?itemId=sample',
+    },
+  },
+
+  password_reset: {
+    version: 1,
+    description: 'Sent when an owner asks to reset their password',
+    render: data => ({
+      subject: 'Reset your Tradesphere password',
+      preheader: `This link expires in ${data.expiresInMinutes} minutes.`,
+      blocks: [
+        { type: 'paragraph', text: data.firstName ? `Hi ${data.firstName},` : 'Hi,' },
+        { type: 'paragraph', text: 'We received a request to reset the password for your Tradesphere account.' },
+        { type: 'button', label: 'Choose a new password', url: data.resetUrl },
+        {
+          type: 'note',
+          text: `This link expires in ${data.expiresInMinutes} minutes. If you didn't ask for a reset, you can ignore this email - your password won't change.`,
+        },
+      ],
+    }),
+    sample: {
+      firstName: 'Jordan',
+      resetUrl: 'https://tradesphere.com/reset-password?token=sample',
+      expiresInMinutes: 60,
+    },
+  },
+
+  registration_resume: {
+    version: 1,
+    description: 'Sent when an unfinished signup is saved, with the link to pick it up again',
+    render: data => ({
+      subject: 'Finish setting up your Tradesphere account',
+      preheader: `Your progress is saved until ${formatDate(data.expiresAt)}.`,
+      blocks: [
+        { type: 'paragraph', text: data.firstName ? `Hi ${data.firstName},` : 'Hi,' },
+        {
+          type: 'paragraph',
+          text: data.companyName
+            ? `We saved your progress setting up ${data.companyName} on Tradesphere. Pick up where you left off at any time:`
+            : 'We saved your progress setting up Tradesphere. Pick up where you left off at any time:',
+        },
+        { type: 'button', label: 'Continue signing up', url: data.resumeUrl },
+        {
+          type: 'note',
+          text: `This link works until ${formatDate(data.expiresAt)}. For your security, passwords and bank details are never saved - you'll enter them again. If you didn't start a signup, you can ignore this email.`,
+        },
+      ],
+    }),
+    sample: {
+      firstName: 'Jordan',
+      companyName: 'Green Acres Landscaping',
+      resumeUrl: 'https://tradesphere.com/signup?resume=sample',
+      expiresAt: '2026-10-22T00:00:00.000Z',
+    },
+  },
+};
+
+/** Every template name, in display order */
+export const EMAIL_TEMPLATE_NAMES = Object.keys(TEMPLATES) as EmailTemplateName[];
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+function blockToHtml(block: EmailBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h2 style="font-size: 18px; margin: 24px 0 8px;">${escapeHtml(block.text)}</h2>`;
+    case 'paragraph':
+      return `<p>${escapeHtml(block.text)}</p>`;
+    case 'list':
+      return `<ul>${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    case 'button':
+      return `<p><a href="${escapeHtml(safeUrl(block.url))}" style="display: inline-block; padding: 12px 24px; background: #2563eb; color: white; text-decoration: none; border-radius: 6px;">${escapeHtml(block.label)}</a></p>`;
+    case 'note':
+      return `<p style="font-size: 13px; color: #6b7280;">${escapeHtml(block.text)}</p>`;
+  }
+}
+
+function blockToText(block: EmailBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return block.text.toUpperCase();
+    case 'paragraph':
+    case 'note':
+      return block.text;
+    case 'list':
+      return block.items.map(item => `- ${item}`).join('\n');
+    case 'button':
+      return `${block.label}: ${safeUrl(block.url)}`;
+  }
+}
+
+function layoutHtml(content: EmailContent, to: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(content.subject)}</title></head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="display: none; max-height: 0; overflow: hidden;">${escapeHtml(content.preheader)}</div>
+  ${content.blocks.map(blockToHtml).join('\n  ')}
+  <p>${SIGN_OFF}</p>
+  <hr style="margin-top: 40px; border: none; border-top: 1px solid #e5e7eb;">
+  <p style="font-size: 12px; color: #6b7280;">This email was sent to ${escapeHtml(to)} about your Tradesphere account.</p>
+</body>
+</html>`;
+}
+
+function layoutText(content: EmailContent, to: string): string {
+  return [
+    ...content.blocks.map(blockToText),
+    SIGN_OFF,
+    '--',
+    `This email was sent to ${to} about your Tradesphere account.`,
+  ].join('\n\n');
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Render a template for a recipient
+ *
+ * @example
+ * ```typescript
+ * const email = renderEmail('bank_reconnect', 'owner@company.com', {
+ *   companyName: 'ABC Landscaping',
+ *   institutionName: 'Chase',
+ *   reason: 'login_required',
+ *   reconnectUrl: 'https://tradesphere.com/billing/reconnect-bank?itemId=...'
+ * });
+ * ```
+ */
+export function renderEmail<K extends EmailTemplateName>(
+  template: K,
+  to: string,
+  data: EmailTemplateData[K]
+): RenderedEmail {
+  const definition = TEMPLATES[template] as EmailTemplate<EmailTemplateData[K]>;
+  const content = definition.render(data);
+
+  return {
+    to,
+    subject: content.subject,
+    text: layoutText(content, to),
+    html: layoutHtml(content, to),
+    template,
+    templateVersion: definition.version,
+  };
+}
+
+/**
+ * Render a template with its sample data (for previews)
+ */
+export function renderEmailPreview(template: EmailTemplateName, to = 'owner@example.com'): RenderedEmail {
+  return renderEmail(template, to, TEMPLATES[template].sample as EmailTemplateData[typeof template]);
+}
+
+/**
+ * Version and description of a template
+ */
+export function describeEmailTemplate(template: EmailTemplateName): { version: number; description: string } {
+  const { version, description } = TEMPLATES[template];
+  return { version, description };
+}
+
+/**
+ * Type guard for template names from untrusted input
+ */
+export function isEmailTemplateName(value: unknown): value is EmailTemplateName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TEMPLATES, value);
+}
@@ -0,0 +1,322 @@
+/**
+ * EMAIL TRANSPORTS
+ *
+ * Delivery providers behind one interface:
+ * - SendGridEmailTransport - production (SENDGRID_API_KEY)
+ * - FileCaptureEmailTransport - writes each email as an .eml file (open it
+ *   in any mail client) plus an .html copy, for local development
+ * - SmtpCaptureEmailTransport - hands emails to a local capture server such
+ *   as Mailpit or MailHog (plain SMTP, no auth)
+ *
+ * EMAIL_TRANSPORT picks one explicitly (sendgrid | file | smtp); without it
+ * SendGrid is used when SENDGRID_API_KEY is set, and email is disabled
+ * otherwise.
+ *
+ * IMPORTANT: Server-side only (SendGrid API key).
+ */
+
+import sgMail from '@sendgrid/mail';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import net from 'net';
+import path from 'path';
+
+/**
+ * An email handed to a transport
+ */
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+
+  /** Template name and version (see EmailTemplates) */
+  template?: string;
+  templateVersion?: number;
+
+  /** Extra values echoed back by provider events (e.g. an outbox ID) */
+  customArgs?: Record<string, string>;
+}
+
+/**
+ * Result of a successful send
+ */
+export interface EmailSendResult {
+  /** Provider message ID (null if the provider did not return one) */
+  messageId: string | null;
+}
+
+/**
+ * Email delivery provider (throws when the provider rejects the email)
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<EmailSendResult>;
+}
+
+const DEFAULT_FROM_EMAIL = 'noreply@tradesphere.com';
+
+/**
+ * Custom args shared by every transport
+ */
+function trackingArgs(email: OutgoingEmail): Record<string, string> {
+  return {
+    ...(email.template ? { template: email.template } : {}),
+    ...(email.templateVersion ? { template_version: String(email.templateVersion) } : {}),
+    ...email.customArgs,
+  };
+}
+
+/**
+ * Encode a header value (RFC 2047) when it is not plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Wrap base64 at 76 characters per line
+ */
+function base64Lines(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * Build a multipart/alternative MIME message
+ */
+function toMime(email: OutgoingEmail, from: string, messageId: string): string {
+  const boundary = `tradesphere-${crypto.randomBytes(12).toString('hex')}`;
+  const domain = from.split('@')[1] || 'localhost';
+  const tracking = Object.entries(email.customArgs || {}).map(([key, value]) => `X-Tradesphere-${key}: ${value}`);
+
+  return [
+    `From: ${from}`,
+    `To: ${email.to}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${messageId}@${domain}>`,
+    ...(email.template ? [`X-Template: ${email.template}@v${email.templateVersion || 1}`] : []),
+    ...tracking,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(email.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(email.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// ============================================================================
+// SENDGRID
+// ============================================================================
+
+/**
+ * SendGrid delivery (SENDGRID_API_KEY, FROM_EMAIL)
+ */
+export class SendGridEmailTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(apiKey: string, private readonly fromEmail: string = DEFAULT_FROM_EMAIL) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(email: OutgoingEmail): Promise<EmailSendResult> {
+    const [response] = await sgMail.send({
+      to: email.to,
+      from: this.fromEmail,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+      customArgs: trackingArgs(email),
+    });
+
+    const messageId = response?.headers?.['x-message-id'];
+    return { messageId: typeof messageId === 'string' ? messageId : null };
+  }
+}
+
+/**
+ * Verify a signed SendGrid event webhook
+ *
+ * SendGrid signs timestamp + raw body with ECDSA (P-256, SHA-256).
+ *
+ * @param publicKey Verification key from the SendGrid dashboard (base64 DER)
+ * @param payload Raw request body (exactly as received)
+ * @param signature X-Twilio-Email-Event-Webhook-Signature header
+ * @param timestamp X-Twilio-Email-Event-Webhook-Timestamp header
+ */
+export function verifySendGridEventSignature(
+  publicKey: string,
+  payload: string,
+  signature: string,
+  timestamp: string
+): boolean {
+  if (!signature || !timestamp) {
+    return false;
+  }
+
+  try {
+    return crypto.verify(
+      'sha256',
+      Buffer.from(timestamp + payload, 'utf8'),
+      { key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' },
+      Buffer.from(signature, 'base64')
+    );
+  } catch (error) {
+    console.error('SendGrid event signature could not be checked:', error);
+    return false;
+  }
+}
+
+// ============================================================================
+// FILE CAPTURE
+// ============================================================================
+
+/**
+ * Write emails to a directory instead of sending them (EMAIL_CAPTURE_DIR)
+ */
+export class FileCaptureEmailTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string, private readonly fromEmail: string = DEFAULT_FROM_EMAIL) {}
+
+  async send(email: OutgoingEmail): Promise<EmailSendResult> {
+    const messageId = `capture-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+    const fileName = `${messageId}-${(email.template || 'email').replace(/[^a-z0-9_-]/gi, '')}`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, `${fileName}.eml`), toMime(email, this.fromEmail, messageId));
+    await fs.writeFile(path.join(this.directory, `${fileName}.html`), email.html);
+
+    console.log(`Captured email "${email.subject}" to ${email.to} in ${path.join(this.directory, fileName)}.eml`);
+    return { messageId };
+  }
+}
+
+// ============================================================================
+// SMTP CAPTURE
+// ============================================================================
+
+/**
+ * Hand emails to a local SMTP capture server (SMTP_CAPTURE_URL, e.g.
+ * smtp://127.0.0.1:1025 for Mailpit or MailHog)
+ *
+ * Speaks just enough plain SMTP for a capture server - no TLS, no auth.
+ */
+export class SmtpCaptureEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private readonly host: string;
+  private readonly port: number;
+
+  constructor(url: string, private readonly fromEmail: string = DEFAULT_FROM_EMAIL) {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'smtp:') {
+      throw new Error(`SMTP_CAPTURE_URL must be an smtp:// URL, got ${url}`);
+    }
+    this.host = parsed.hostname;
+    this.port = Number(parsed.port || 25);
+  }
+
+  async send(email: OutgoingEmail): Promise<EmailSendResult> {
+    const messageId = `capture-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+    // Dot-stuff lines starting with "." (RFC 5321 4.5.2)
+    const data = toMime(email, this.fromEmail, messageId).replace(/^\./gm, '..');
+
+    await this.converse([
+      { command: null, expect: 220 },
+      { command: 'HELO tradesphere.local', expect: 250 },
+      { command: `MAIL FROM:<${this.fromEmail}>`, expect: 250 },
+      { command: `RCPT TO:<${email.to}>`, expect: 250 },
+      { command: 'DATA', expect: 354 },
+      { command: `${data}\r\n.`, expect: 250 },
+      { command: 'QUIT', expect: 221 },
+    ]);
+
+    return { messageId };
+  }
+
+  /**
+   * Run an SMTP exchange, one command per server reply
+   */
+  private converse(steps: Array<{ command: string | null; expect: number }>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect(this.port, this.host);
+      let buffer = '';
+      let step = 0;
+
+      const fail = (error: Error) => {
+        socket.destroy();
+        reject(error);
+      };
+
+      socket.setTimeout(10000, () => fail(new Error('SMTP capture server timed out')));
+      socket.on('error', fail);
+      socket.on('data', chunk => {
+        buffer += chunk.toString('utf8');
+
+        // A reply is complete at a line with "NNN " (multi-line replies use "NNN-")
+        const lines = buffer.split('\r\n');
+        const last = lines.slice(0, -1).reverse().find(line => /^\d{3} /.test(line));
+        if (!last) {
+          return;
+        }
+        buffer = '';
+
+        const code = Number(last.slice(0, 3));
+        if (code !== steps[step].expect) {
+          fail(new Error(`SMTP capture server replied "${last}" (expected ${steps[step].expect})`));
+          return;
+        }
+
+        step++;
+        if (step >= steps.length) {
+          socket.end();
+          resolve();
+          return;
+        }
+        socket.write(`${steps[step].command}\r\n`);
+      });
+    });
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Build the transport configured in the environment (null = email disabled)
+ */
+export function emailTransportFromEnv(): EmailTransport | null {
+  const fromEmail = process.env.FROM_EMAIL || DEFAULT_FROM_EMAIL;
+  const transport = process.env.EMAIL_TRANSPORT || (process.env.SENDGRID_API_KEY ? 'sendgrid' : '');
+
+  switch (transport) {
+    case 'sendgrid':
+      if (!process.env.SENDGRID_API_KEY) {
+        console.warn('EMAIL_TRANSPORT=sendgrid but SENDGRID_API_KEY is not set - email disabled');
+        return null;
+      }
+      return new SendGridEmailTransport(process.env.SENDGRID_API_KEY, fromEmail);
+    case 'file':
+      return new FileCaptureEmailTransport(process.env.EMAIL_CAPTURE_DIR || '.email-capture', fromEmail);
+    case 'smtp':
+      return new SmtpCaptureEmailTransport(process.env.SMTP_CAPTURE_URL || 'smtp://127.0.0.1:1025', fromEmail);
+    case '':
+      return null;
+    default:
+      console.warn(`Unknown EMAIL_TRANSPORT "${transport}" - email disabled`);
+      return null;
+  }
+}
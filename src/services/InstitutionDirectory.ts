@@ -0,0 +1,231 @@
+/**
+ * INSTITUTION DIRECTORY
+ *
+ * Cached Plaid institution metadata (name, logo, primary color, URL) for
+ * showing bank accounts as "Chase ••••1234" with the bank's logo.
+ *
+ * LOOKUP ORDER:
+ * 1. In-memory cache (shared by every directory in the function instance)
+ * 2. plaid_institutions table, if fetched within the TTL
+ * 3. PlaidService.getInstitution - the result is written back to both
+ *
+ * If Plaid fails, a stale row is better than nothing and is returned as is.
+ *
+ * IMPORTANT: Server-side only (requires a service-role Supabase client).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PlaidService } from './PlaidService';
+import type { InstitutionBranding } from '../types/plaid';
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Row in plaid_institutions
+ */
+interface InstitutionRecord {
+  institution_id: string;
+  name: string;
+  logo: string | null;
+  primary_color: string | null;
+  url: string | null;
+  fetched_at: string;
+}
+
+interface CachedInstitution {
+  branding: InstitutionBranding;
+  fetchedAt: number;
+}
+
+// Survives between invocations while the function instance stays warm
+const memoryCache = new Map<string, CachedInstitution>();
+
+/**
+ * Institution directory options
+ */
+export interface InstitutionDirectoryOptions {
+  /** Institution lookups (default: PlaidService singleton, created on first use) */
+  plaid?: Pick<PlaidService, 'getInstitution'>;
+
+  /** How long fetched metadata is trusted (default: 7 days) */
+  ttlMs?: number;
+
+  /** Clock override (milliseconds) */
+  now?: () => number;
+}
+
+/**
+ * Institution directory
+ *
+ * @example
+ * ```typescript
+ * const institutions = new InstitutionDirectory(supabase);
+ *
+ * const chase = await institutions.get('ins_56');
+ * // { institutionId: 'ins_56', name: 'Chase', logo: 'iVBORw0...', primaryColor: '#095aa6', url: '...' }
+ *
+ * // Billing pages - branding for each linked account, by Stripe payment method
+ * const byPaymentMethod = await institutions.getForCompanyAccounts(companyId);
+ * ```
+ */
+export class InstitutionDirectory {
+  private plaid?: Pick<PlaidService, 'getInstitution'>;
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    options: InstitutionDirectoryOptions = {}
+  ) {
+    this.plaid = options.plaid;
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.now = options.now || (() => Date.now());
+  }
+
+  // ============================================================================
+  // LOOKUPS
+  // ============================================================================
+
+  /**
+   * Get an institution's display details
+   *
+   * @param institutionId Plaid institution ID (ins_xxx)
+   * @returns Branding, or null if Plaid does not know the institution
+   */
+  async get(institutionId: string): Promise<InstitutionBranding | null> {
+    const cached = memoryCache.get(institutionId);
+    if (cached && this.isFresh(cached.fetchedAt)) {
+      return cached.branding;
+    }
+
+    const { data, error } = await this.supabase
+      .from('plaid_institutions')
+      .select('*')
+      .eq('institution_id', institutionId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    const stored = data as InstitutionRecord | null;
+    if (stored && this.isFresh(new Date(stored.fetched_at).getTime())) {
+      return this.remember(stored);
+    }
+
+    const fetched = await this.fetch(institutionId);
+    if (fetched) {
+      return fetched;
+    }
+
+    return stored ? this.remember(stored) : null;
+  }
+
+  /**
+   * Get several institutions at once (unknown IDs are left out)
+   */
+  async getMany(institutionIds: string[]): Promise<Record<string, InstitutionBranding>> {
+    const unique = [...new Set(institutionIds.filter(Boolean))];
+    const results = await Promise.all(unique.map(id => this.get(id)));
+
+    const byId: Record<string, InstitutionBranding> = {};
+    results.forEach(branding => {
+      if (branding) {
+        byId[branding.institutionId] = branding;
+      }
+    });
+    return byId;
+  }
+
+  /**
+   * Branding for a company's Plaid-linked accounts, keyed by Stripe payment method ID
+   *
+   * Stripe bank accounts only carry the last 4 digits and Stripe's bank
+   * name, and two banks can share a mask - so accounts are matched through
+   * the payment method each Plaid item was attached as.
+   */
+  async getForCompanyAccounts(companyId: string): Promise<Record<string, InstitutionBranding>> {
+    const { data, error } = await this.supabase
+      .from('plaid_items')
+      .select('institution_id, stripe_payment_method_id')
+      .eq('company_id', companyId)
+      .eq('is_active', true);
+
+    if (error) {
+      throw error;
+    }
+
+    const accounts = (data || []) as Array<{ institution_id: string; stripe_payment_method_id: string | null }>;
+    const byId = await this.getMany(accounts.map(account => account.institution_id));
+
+    const byPaymentMethod: Record<string, InstitutionBranding> = {};
+    accounts.forEach(account => {
+      const branding = byId[account.institution_id];
+      if (branding && account.stripe_payment_method_id) {
+        byPaymentMethod[account.stripe_payment_method_id] = branding;
+      }
+    });
+    return byPaymentMethod;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Fetch from Plaid and store the result (null if Plaid fails)
+   */
+  private async fetch(institutionId: string): Promise<InstitutionBranding | null> {
+    if (!this.plaid) {
+      this.plaid = PlaidService.getInstance();
+    }
+
+    const result = await this.plaid.getInstitution(institutionId);
+    if (!result.success || !result.data) {
+      console.warn(`Institution lookup for ${institutionId} failed:`, result.error?.code);
+      return null;
+    }
+
+    const record: InstitutionRecord = {
+      institution_id: result.data.institution_id,
+      name: result.data.name,
+      logo: result.data.logo || null,
+      primary_color: result.data.primary_color || null,
+      url: result.data.url || null,
+      fetched_at: new Date(this.now()).toISOString(),
+    };
+
+    const { error } = await this.supabase
+      .from('plaid_institutions')
+      .upsert({ ...record, updated_at: record.fetched_at }, { onConflict: 'institution_id' });
+
+    if (error) {
+      // The lookup still worked - the next cold start fetches again
+      console.error(`Failed to cache institution ${institutionId}:`, error);
+    }
+
+    return this.remember(record);
+  }
+
+  private remember(record: InstitutionRecord): InstitutionBranding {
+    const branding: InstitutionBranding = {
+      institutionId: record.institution_id,
+      name: record.name,
+      logo: record.logo,
+      primaryColor: record.primary_color,
+      url: record.url,
+    };
+
+    memoryCache.set(record.institution_id, {
+      branding,
+      fetchedAt: new Date(record.fetched_at).getTime(),
+    });
+    return branding;
+  }
+
+  private isFresh(fetchedAt: number): boolean {
+    return this.now() - fetchedAt < this.ttlMs;
+  }
+}
+
+export default InstitutionDirectory;
@@ -0,0 +1,322 @@
+/**
+ * PLAID ITEM REPOSITORY
+ *
+ * Stores linked Plaid items (one plaid_items row per account) with the
+ * access token envelope-encrypted by TokenKeyring. The token is bound to
+ * its item ID, so an envelope copied onto another item's row will not
+ * decrypt.
+ *
+ * Callers never see encrypted_access_token handling - use saveItem() to
+ * store a token and getAccessToken() to read it back.
+ *
+ * IMPORTANT: Server-side only (requires a service-role Supabase client
+ * and the token encryption keys).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TokenKeyring } from './TokenEncryption';
+import type {
+  PlaidAccountType,
+  PlaidItemRecord,
+  PlaidVerificationStatus,
+} from '../types/plaid';
+
+/**
+ * Parameters for storing a linked account
+ */
+export interface SavePlaidItemParams {
+  companyId: string;
+  itemId: string;
+
+  /** Plain access token from exchangePublicToken (encrypted here) */
+  accessToken: string;
+
+  institutionId: string;
+  institutionName: string;
+
+  account: {
+    accountId: string;
+    name: string;
+    mask: string;
+    type: PlaidAccountType;
+    subtype: string;
+    verificationStatus?: PlaidVerificationStatus;
+  };
+
+  /** Stripe payment method created from the account */
+  stripePaymentMethodId?: string | null;
+
+  /** Bill this account (default: false - use setPrimary to switch later) */
+  isPrimary?: boolean;
+}
+
+/**
+ * Summary of a key rotation run
+ */
+export interface KeyRotationSummary {
+  /** Active key rows were moved to */
+  activeKeyId: string;
+
+  /** Rows found on older keys */
+  scanned: number;
+
+  /** Rows re-wrapped with the active key */
+  rotated: number;
+
+  /** Rows that could not be re-wrapped (e.g. key missing from the keyring) */
+  failed: number;
+}
+
+/**
+ * Plaid item repository
+ *
+ * @example
+ * ```typescript
+ * const items = new PlaidItemRepository(supabase);
+ *
+ * await items.saveItem({ companyId, itemId, accessToken, institutionId, institutionName, account });
+ * const accessToken = await items.getAccessToken(itemId);
+ *
+ * // Bill a different linked account
+ * await items.setPrimary(companyId, recordId);
+ * ```
+ */
+export class PlaidItemRepository {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly keyring: TokenKeyring = TokenKeyring.fromEnv()
+  ) {}
+
+  /**
+   * Store (or refresh) a linked account with its encrypted access token
+   *
+   * @param params Item, account and plain access token
+   * @returns Stored record
+   */
+  async saveItem(params: SavePlaidItemParams): Promise<PlaidItemRecord> {
+    const { keyId, envelope } = this.keyring.encrypt(params.accessToken, params.itemId);
+
+    const { data, error } = await this.supabase
+      .from('plaid_items')
+      .upsert(
+        {
+          company_id: params.companyId,
+          item_id: params.itemId,
+          encrypted_access_token: envelope,
+          encryption_key_id: keyId,
+          institution_id: params.institutionId,
+          institution_name: params.institutionName,
+          account_id: params.account.accountId,
+          account_name: params.account.name,
+          account_mask: params.account.mask,
+          account_type: params.account.type,
+          account_subtype: params.account.subtype,
+          verification_status: params.account.verificationStatus || null,
+          stripe_payment_method_id: params.stripePaymentMethodId || null,
+          is_primary: params.isPrimary || false,
+          is_active: true,
+          status: 'active',
+          last_error: null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'item_id,account_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as PlaidItemRecord;
+  }
+
+  /**
+   * Decrypt the access token for an item
+   *
+   * @param itemId Plaid item ID
+   * @throws TokenDecryptionError if the stored envelope fails authentication
+   */
+  async getAccessToken(itemId: string): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('plaid_items')
+      .select('encrypted_access_token')
+      .eq('item_id', itemId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      throw new Error(`Plaid item ${itemId} not found`);
+    }
+
+    return this.keyring.decrypt(data.encrypted_access_token, itemId);
+  }
+
+  /**
+   * List a company's linked accounts
+   *
+   * @param companyId Company UUID
+   * @param options.activeOnly Exclude revoked/removed items (default: true)
+   */
+  async findByCompany(
+    companyId: string,
+    options: { activeOnly?: boolean } = {}
+  ): Promise<PlaidItemRecord[]> {
+    let query = this.supabase
+      .from('plaid_items')
+      .select('*')
+      .eq('company_id', companyId)
+      .order('created_at', { ascending: true });
+
+    if (options.activeOnly !== false) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw error;
+    }
+
+    return (data || []) as PlaidItemRecord[];
+  }
+
+  /**
+   * Make one of a company's accounts the primary (billed) account
+   *
+   * @param companyId Company UUID
+   * @param recordId plaid_items row ID
+   */
+  async setPrimary(companyId: string, recordId: string): Promise<void> {
+    await this.markPrimary(companyId, 'id', recordId);
+  }
+
+  /**
+   * Keep is_primary in step with a default payment method chosen elsewhere
+   * (e.g. the billing portal). Clears the primary flag if no linked
+   * account holds the payment method (such as a micro-deposit account).
+   *
+   * @param companyId Company UUID
+   * @param paymentMethodId Stripe payment method now billed
+   */
+  async setPrimaryByPaymentMethod(companyId: string, paymentMethodId: string): Promise<void> {
+    await this.markPrimary(companyId, 'stripe_payment_method_id', paymentMethodId);
+  }
+
+  /**
+   * Delete every account row of an item, including its encrypted token
+   *
+   * Call after the item was removed at Plaid - the token is useless then.
+   *
+   * @param companyId Company UUID (the item must belong to it)
+   * @param itemId Plaid item ID
+   * @returns Number of rows deleted
+   */
+  async deleteItem(companyId: string, itemId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('plaid_items')
+      .delete()
+      .eq('company_id', companyId)
+      .eq('item_id', itemId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).length;
+  }
+
+  /**
+   * Re-wrap rows still on older keys with the active key
+   *
+   * Only the wrapped data key changes, and each update is conditional on
+   * the row still holding the envelope that was read - safe to run while
+   * the app is live and to repeat until scanned is 0.
+   *
+   * @param options.limit Maximum rows per run (default: 100)
+   */
+  async rotateKeys(options: { limit?: number } = {}): Promise<KeyRotationSummary> {
+    const activeKeyId = this.keyring.activeKeyId;
+
+    const { data, error } = await this.supabase
+      .from('plaid_items')
+      .select('id, encrypted_access_token')
+      .neq('encryption_key_id', activeKeyId)
+      .limit(options.limit || 100);
+
+    if (error) {
+      throw error;
+    }
+
+    const summary: KeyRotationSummary = { activeKeyId, scanned: 0, rotated: 0, failed: 0 };
+
+    for (const row of data || []) {
+      summary.scanned++;
+
+      try {
+        const { keyId, envelope } = this.keyring.rewrap(row.encrypted_access_token);
+
+        const { error: updateError } = await this.supabase
+          .from('plaid_items')
+          .update({
+            encrypted_access_token: envelope,
+            encryption_key_id: keyId,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', row.id)
+          .eq('encrypted_access_token', row.encrypted_access_token);
+
+        if (updateError) {
+          throw updateError;
+        }
+
+        summary.rotated++;
+      } catch (rotateError) {
+        summary.failed++;
+        console.error(`Failed to rotate encryption key for plaid_items row ${row.id}:`, rotateError);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Clear the company's primary account, then flag the matching row
+   *
+   * The unique index allows only one primary row per company, so the old
+   * one has to go first.
+   */
+  private async markPrimary(
+    companyId: string,
+    column: 'id' | 'stripe_payment_method_id',
+    value: string
+  ): Promise<void> {
+    const updatedAt = new Date().toISOString();
+
+    const { error: clearError } = await this.supabase
+      .from('plaid_items')
+      .update({ is_primary: false, updated_at: updatedAt })
+      .eq('company_id', companyId)
+      .eq('is_primary', true);
+
+    if (clearError) {
+      throw clearError;
+    }
+
+    const { error } = await this.supabase
+      .from('plaid_items')
+      .update({ is_primary: true, updated_at: updatedAt })
+      .eq('company_id', companyId)
+      .eq(column, value);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+export default PlaidItemRepository;
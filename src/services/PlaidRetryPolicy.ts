@@ -0,0 +1,246 @@
+/**
+ * PLAID RETRY POLICY
+ *
+ * Retries Plaid API calls that failed for transient reasons, the way the
+ * Stripe SDK does with maxNetworkRetries:
+ * - Exponential backoff with full jitter, capped per delay
+ * - A deadline per request across all its attempts (each attempt's HTTP
+ *   timeout is cut to the time left). Netlify stops functions after 10s
+ *   and a handler makes other calls too, so the default budget is 6s.
+ * - RATE_LIMIT_EXCEEDED / HTTP 429 back off longer and honor Retry-After
+ *
+ * IDEMPOTENCY: Plaid has no idempotency keys, so calls are marked as safe
+ * to repeat or not. Reads and processor token creation are safe. A public
+ * token can only be exchanged once, so exchanges are only retried when
+ * Plaid certainly did not process the request (rate limited, or the
+ * connection was never made) - retrying after a timeout could fail with
+ * INVALID_PUBLIC_TOKEN even though the first exchange worked.
+ *
+ * The clock, sleep and randomness are injectable so the policy can be
+ * exercised against a fake Plaid client without real waiting.
+ */
+
+import type { PlaidError } from '../types/plaid';
+import { isRetryablePlaidError } from '../types/plaid';
+
+/**
+ * Retry configuration
+ */
+export interface PlaidRetryPolicyOptions {
+  /** Total attempts including the first (default: 4) */
+  maxAttempts?: number;
+
+  /** Backoff before the first retry, doubled for each further retry (default: 250ms) */
+  baseDelayMs?: number;
+
+  /** Longest single backoff (default: 4s) */
+  maxDelayMs?: number;
+
+  /** Backoff before the first retry after a rate limit (default: 1s) */
+  rateLimitDelayMs?: number;
+
+  /** Time budget per request - all attempts and backoffs together (default: 6s) */
+  deadlineMs?: number;
+
+  /** Clock override (milliseconds) */
+  now?: () => number;
+
+  /** Sleep override */
+  sleep?: (ms: number) => Promise<void>;
+
+  /** Random source in [0, 1) for jitter */
+  random?: () => number;
+}
+
+/**
+ * A single attempt of a Plaid call
+ */
+export interface PlaidAttempt {
+  /** 1 for the first attempt */
+  attempt: number;
+
+  /** HTTP timeout for this attempt (time left before the deadline) */
+  timeoutMs: number;
+}
+
+/**
+ * How a failed request may be retried
+ */
+export type PlaidFailureKind =
+  | 'rate_limited'   // Rejected before processing - always safe to retry
+  | 'not_sent'       // Connection never made - always safe to retry
+  | 'transient'      // Timeout, 5xx, Plaid internal error - safe for idempotent calls only
+  | 'permanent';     // Invalid request, item errors, etc.
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_BASE_DELAY_MS = 250;
+const DEFAULT_MAX_DELAY_MS = 4000;
+const DEFAULT_RATE_LIMIT_DELAY_MS = 1000;
+const DEFAULT_DEADLINE_MS = 6000;
+
+// Node/axios error codes for connections that never reached Plaid
+const NOT_SENT_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+// Node/axios error codes for requests that may or may not have been processed
+const TRANSIENT_NETWORK_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', 'ERR_NETWORK'];
+
+/**
+ * Error shape thrown by the Plaid SDK (axios) or a fake client
+ */
+interface PlaidRequestError {
+  code?: string;
+  error_code?: string;
+  response?: {
+    status?: number;
+    headers?: Record<string, string | undefined>;
+    data?: Partial<PlaidError>;
+  };
+}
+
+/**
+ * Classify a thrown Plaid request error
+ */
+export function classifyPlaidFailure(error: unknown): PlaidFailureKind {
+  if (!error || typeof error !== 'object') {
+    return 'permanent';
+  }
+
+  const requestError = error as PlaidRequestError;
+  const plaidError = requestError.response?.data?.error_code
+    ? requestError.response.data as PlaidError
+    : requestError.error_code
+      ? error as PlaidError
+      : undefined;
+  const status = requestError.response?.status;
+
+  if (status === 429 || plaidError?.error_code === 'RATE_LIMIT_EXCEEDED' || plaidError?.error_type === 'RATE_LIMIT_EXCEEDED') {
+    return 'rate_limited';
+  }
+
+  if (plaidError) {
+    return isRetryablePlaidError(plaidError) ? 'transient' : 'permanent';
+  }
+
+  if (status !== undefined) {
+    return status >= 500 ? 'transient' : 'permanent';
+  }
+
+  if (requestError.code && NOT_SENT_CODES.includes(requestError.code)) {
+    return 'not_sent';
+  }
+
+  if (requestError.code && TRANSIENT_NETWORK_CODES.includes(requestError.code)) {
+    return 'transient';
+  }
+
+  return 'permanent';
+}
+
+/**
+ * Whether a failure could succeed if the same call is made again
+ */
+export function isRetryablePlaidFailure(error: unknown, idempotent = true): boolean {
+  const kind = classifyPlaidFailure(error);
+  return kind === 'rate_limited' || kind === 'not_sent' || (kind === 'transient' && idempotent);
+}
+
+/**
+ * Shared retry policy for PlaidService calls
+ *
+ * @example
+ * ```typescript
+ * const retry = new PlaidRetryPolicy();
+ *
+ * const response = await retry.run(
+ *   'accounts/get',
+ *   ({ timeoutMs }) => plaidApi.accountsGet(request, { timeout: timeoutMs })
+ * );
+ *
+ * // A public token can only be exchanged once
+ * await retry.run('item/public_token/exchange', call, { idempotent: false });
+ * ```
+ */
+export class PlaidRetryPolicy {
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly rateLimitDelayMs: number;
+  private readonly deadlineMs: number;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly random: () => number;
+
+  constructor(options: PlaidRetryPolicyOptions = {}) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.rateLimitDelayMs = options.rateLimitDelayMs ?? DEFAULT_RATE_LIMIT_DELAY_MS;
+    this.deadlineMs = options.deadlineMs ?? DEFAULT_DEADLINE_MS;
+    this.now = options.now || (() => Date.now());
+    this.sleep = options.sleep || (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.random = options.random || Math.random;
+  }
+
+  /**
+   * Run a Plaid call, retrying transient failures until it succeeds, the
+   * attempts run out or the next backoff would pass the deadline
+   *
+   * @param operation Name used in logs (e.g. 'accounts/get')
+   * @param call The request - pass attempt.timeoutMs as the HTTP timeout
+   * @param options.idempotent Whether repeating a possibly-processed request is safe (default: true)
+   * @param options.deadlineMs Budget for this request (default: the policy's deadlineMs)
+   * @throws The last error when the call does not succeed
+   */
+  async run<T>(
+    operation: string,
+    call: (attempt: PlaidAttempt) => Promise<T>,
+    options: { idempotent?: boolean; deadlineMs?: number } = {}
+  ): Promise<T> {
+    const idempotent = options.idempotent !== false;
+    const deadline = this.now() + (options.deadlineMs ?? this.deadlineMs);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await call({ attempt, timeoutMs: Math.max(1, deadline - this.now()) });
+      } catch (error) {
+        if (attempt >= this.maxAttempts || !isRetryablePlaidFailure(error, idempotent)) {
+          throw error;
+        }
+
+        const delayMs = this.backoff(attempt, error);
+        if (this.now() + delayMs >= deadline) {
+          console.warn(`Plaid ${operation} failed on attempt ${attempt} - no time left before the deadline`);
+          throw error;
+        }
+
+        console.warn(
+          `Plaid ${operation} failed on attempt ${attempt} (${classifyPlaidFailure(error)}) - retrying in ${delayMs}ms`
+        );
+        await this.sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Backoff before the next attempt
+   *
+   * Full jitter: a random delay between 0 and the exponential cap. Rate
+   * limits start from a longer base and never wait less than Retry-After.
+   */
+  private backoff(attempt: number, error: unknown): number {
+    const rateLimited = classifyPlaidFailure(error) === 'rate_limited';
+    const base = rateLimited ? this.rateLimitDelayMs : this.baseDelayMs;
+    const cap = Math.min(this.maxDelayMs, base * 2 ** (attempt - 1));
+    const jittered = Math.round(this.random() * cap);
+
+    if (!rateLimited) {
+      return jittered;
+    }
+
+    const retryAfterSeconds = Number((error as PlaidRequestError).response?.headers?.['retry-after']);
+    const retryAfterMs = Number.isFinite(retryAfterSeconds) ? retryAfterSeconds * 1000 : 0;
+    return Math.max(jittered, base / 2, retryAfterMs);
+  }
+}
+
+export default PlaidRetryPolicy;
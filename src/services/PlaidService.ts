@@ -7,7 +7,7 @@
  * IMPORTANT SECURITY NOTES:
  * - This service can ONLY be used server-side (Netlify functions)
  * - Never expose Plaid secret keys to the frontend
- * - Always encrypt access tokens before storing in database
+ * - Store access tokens only through PlaidItemRepository (envelope-encrypted)
  * - Exchange public tokens immediately (expire in 30 minutes)
  * - Link tokens expire after 4 hours
  *
@@ -27,6 +27,7 @@ import {
   LinkTokenCreateRequest,
   ItemPublicTokenExchangeRequest,
   AccountsGetRequest,
+  AccountsBalanceGetRequest,
   InstitutionsGetByIdRequest,
   ItemRemoveRequest,
   ItemGetRequest,
@@ -44,6 +45,7 @@ import type {
   CreateProcessorTokenResponse,
   GetAccountDetailsResponse,
   PlaidAccountDetails,
+  PlaidBalance,
   PlaidItem,
   PlaidInstitution,
   RemoveItemParams,
@@ -54,6 +56,10 @@ import type {
   PlaidErrorType,
   PlaidErrorCode,
   PlaidAccountFilters,
+  PlaidWebhookVerificationKey,
+  PlaidWebhookVerificationResult,
+} from '../types/plaid';
+import {
   validatePublicToken,
   validateAccessToken,
   validateAccountId,
@@ -61,13 +67,73 @@ import type {
   requiresUserAction,
   getUserFriendlyErrorMessage,
 } from '../types/plaid';
+import { PlaidWebhookVerifier } from './PlaidWebhookVerifier';
+import { PlaidRetryPolicy, isRetryablePlaidFailure } from './PlaidRetryPolicy';
+import type { PlaidRetryPolicyOptions } from './PlaidRetryPolicy';
+
+/**
+ * Configuration for one PlaidService instance
+ */
+export interface PlaidServiceConfig {
+  clientId: string;
+  secret: string;
+
+  /** Plaid environment (default: sandbox) */
+  environment?: PlaidEnvironment;
+
+  /** Send API requests here instead of Plaid (not allowed in production) */
+  apiBaseUrl?: string;
+
+  /** Ready-made Plaid client (e.g. a test double) - apiBaseUrl is then unused */
+  client?: PlaidApi;
+
+  /** Retry policy overrides (e.g. a shorter deadline, or a fake clock in tests) */
+  retry?: PlaidRetryPolicyOptions;
+}
 
 /**
- * Plaid service singleton for instant bank verification
+ * Read the default PlaidService configuration from the environment
+ */
+export function plaidConfigFromEnv(): PlaidServiceConfig {
+  const envString = process.env.PLAID_ENV || 'sandbox';
+
+  // Validate environment
+  const validEnvs: PlaidEnvironment[] = ['sandbox', 'development', 'production'];
+  if (!validEnvs.includes(envString as PlaidEnvironment)) {
+    throw new Error(
+      `Invalid PLAID_ENV: ${envString}. Must be one of: ${validEnvs.join(', ')}`
+    );
+  }
+
+  return {
+    clientId: process.env.PLAID_CLIENT_ID || '',
+    secret: process.env.PLAID_SECRET || '',
+    environment: envString as PlaidEnvironment,
+    apiBaseUrl: process.env.PLAID_API_BASE_URL,
+  };
+}
+
+/**
+ * Create a PlaidService for explicit credentials
  *
  * @example
  * ```typescript
- * const plaid = PlaidService.getInstance();
+ * const sandbox = createPlaidService({ clientId, secret: sandboxSecret, environment: 'sandbox' });
+ *
+ * // Around a test double
+ * const plaid = createPlaidService({ clientId: 'test', secret: 'test', client: fakePlaidApi as unknown as PlaidApi });
+ * ```
+ */
+export function createPlaidService(config: PlaidServiceConfig): PlaidService {
+  return new PlaidService(config);
+}
+
+/**
+ * Plaid service for instant bank verification
+ *
+ * @example
+ * ```typescript
+ * const plaid = PlaidService.getInstance(); // or createPlaidService(config)
  *
  * // 1. Create Link token for frontend
  * const { data: linkToken } = await plaid.createLinkToken({
@@ -94,56 +160,68 @@ import type {
  */
 export class PlaidService {
   private plaid: PlaidApi;
-  private static instance: PlaidService;
+  private retry: PlaidRetryPolicy;
+  private static instance: PlaidService | undefined;
+  private webhookVerifier: PlaidWebhookVerifier | undefined;
+  private readonly clientId: string;
+  private readonly secret: string;
   private environment: PlaidEnvironment;
 
   /**
-   * Private constructor for singleton pattern
+   * Create a service for one Plaid client and environment
+   *
+   * Prefer createPlaidService(config), or PlaidService.getInstance() for the
+   * credentials configured in the environment.
    *
    * SECURITY: Plaid credentials must ONLY be available server-side.
    * This service should only be used in Netlify functions, never in browser code.
    */
-  private constructor() {
-    // Validate environment
-    if (typeof window !== 'undefined') {
+  constructor(config: PlaidServiceConfig) {
+    if (!config.clientId || !config.secret) {
       throw new Error(
-        'PlaidService cannot be used in browser environment. ' +
-        'This service contains secret keys and must only be used server-side.'
+        'Plaid credentials not configured. Set PLAID_CLIENT_ID and PLAID_SECRET environment variables. ' +
+        'This service can only be used server-side (Netlify functions), never in browser code.'
       );
     }
 
-    // Validate environment variables (server-side only)
-    const clientId = process.env.PLAID_CLIENT_ID;
-    const secret = process.env.PLAID_SECRET;
-    const envString = process.env.PLAID_ENV || 'sandbox';
+    this.clientId = config.clientId;
+    this.secret = config.secret;
+    this.environment = config.environment || 'sandbox';
 
-    if (!clientId || !secret) {
-      throw new Error(
-        'Plaid credentials not configured. Set PLAID_CLIENT_ID and PLAID_SECRET environment variables. ' +
-        'This service can only be used server-side (Netlify functions), never in browser code.'
-      );
+    // Transient failures of exchange, processor token, account and
+    // institution calls are retried (see PlaidRetryPolicy)
+    this.retry = new PlaidRetryPolicy(config.retry);
+
+    // An injected client (e.g. a test double) needs no configuration
+    if (config.client) {
+      this.plaid = config.client;
+      return;
     }
 
     // Validate environment
-    const validEnvs: PlaidEnvironment[] = ['sandbox', 'development', 'production'];
-    if (!validEnvs.includes(envString as PlaidEnvironment)) {
+    if (typeof window !== 'undefined') {
       throw new Error(
-        `Invalid PLAID_ENV: ${envString}. Must be one of: ${validEnvs.join(', ')}`
+        'PlaidService cannot be used in browser environment. ' +
+        'This service contains secret keys and must only be used server-side.'
       );
     }
 
-    this.environment = envString as PlaidEnvironment;
+    // apiBaseUrl points the client at a local stand-in
+    // (src/testing/FakePlaidServer) - never at production
+    if (config.apiBaseUrl && this.environment === 'production') {
+      throw new Error('PLAID_API_BASE_URL cannot be used with PLAID_ENV=production.');
+    }
 
     // Map environment to Plaid configuration
-    const plaidEnv = this.getPlaidEnvironment(this.environment);
+    const plaidEnv = config.apiBaseUrl || this.getPlaidEnvironment(this.environment);
 
     // Initialize Plaid configuration
     const configuration = new Configuration({
       basePath: plaidEnv,
       baseOptions: {
         headers: {
-          'PLAID-CLIENT-ID': clientId,
-          'PLAID-SECRET': secret,
+          'PLAID-CLIENT-ID': this.clientId,
+          'PLAID-SECRET': this.secret,
           'Plaid-Version': '2020-09-14', // Latest stable version
         },
         timeout: 30000, // 30 second timeout
@@ -154,15 +232,23 @@ export class PlaidService {
   }
 
   /**
-   * Get singleton instance
+   * Get the default instance, configured from the environment
    */
   public static getInstance(): PlaidService {
     if (!PlaidService.instance) {
-      PlaidService.instance = new PlaidService();
+      PlaidService.instance = createPlaidService(plaidConfigFromEnv());
     }
     return PlaidService.instance;
   }
 
+  /**
+   * Replace the default instance (e.g. with one built around a test
+   * double). Pass undefined to go back to the environment configuration.
+   */
+  public static setInstance(instance: PlaidService | undefined): void {
+    PlaidService.instance = instance;
+  }
+
   // ============================================================================
   // LINK TOKEN MANAGEMENT
   // ============================================================================
@@ -188,6 +274,14 @@ export class PlaidService {
    *   }
    * });
    * // Send data.linkToken to frontend
+   *
+   * // Update mode - re-authenticate an existing item (ITEM_LOGIN_REQUIRED)
+   * const { data: update } = await plaid.createLinkToken({
+   *   userId: companyId,
+   *   companyName: 'Tradesphere',
+   *   flow: 'update',
+   *   accessToken
+   * });
    * ```
    */
   async createLinkToken(
@@ -217,6 +311,23 @@ export class PlaidService {
         };
       }
 
+      const isUpdateMode = params.flow === 'update' || params.flow === 'reauth';
+
+      if (isUpdateMode) {
+        try {
+          validateAccessToken(params.accessToken || '');
+        } catch (error) {
+          return {
+            success: false,
+            error: {
+              code: 'INVALID_ACCESS_TOKEN',
+              message: error instanceof Error ? error.message : 'Invalid access token format',
+              userMessage: 'This bank connection can no longer be updated. Please link your bank again.',
+            },
+          };
+        }
+      }
+
       // Build account filters for ACH (checking/savings only)
       const accountFilters = params.accountFilters || {
         depository: {
@@ -229,8 +340,8 @@ export class PlaidService {
 
       // Build request
       const request: LinkTokenCreateRequest = {
-        client_id: process.env.PLAID_CLIENT_ID!,
-        secret: process.env.PLAID_SECRET!,
+        client_id: this.clientId,
+        secret: this.secret,
         user: {
           client_user_id: params.userId,
         },
@@ -248,6 +359,14 @@ export class PlaidService {
         link_customization_name: undefined, // Use default customization
       };
 
+      // Update mode reopens the existing item - products and account
+      // filters were fixed when the item was created and must be omitted
+      if (isUpdateMode) {
+        request.access_token = params.accessToken;
+        delete request.products;
+        delete request.account_filters;
+      }
+
       // Create link token
       const response = await this.plaid.linkTokenCreate(request);
 
@@ -274,7 +393,7 @@ export class PlaidService {
    * Exchange public token for access token
    *
    * CRITICAL: Public tokens expire in 30 minutes. Exchange immediately.
-   * Access tokens MUST be encrypted before storing in database.
+   * Access tokens MUST be stored through PlaidItemRepository (encrypted).
    *
    * @param params Public token exchange parameters
    * @returns Access token and item ID
@@ -286,11 +405,12 @@ export class PlaidService {
    *   accountId: 'account-id-xxx'
    * });
    *
-   * // IMPORTANT: Encrypt data.accessToken before storing!
-   * const encryptedToken = await encryptSensitiveData(data.accessToken);
-   * await saveToDatabase({
-   *   encrypted_access_token: encryptedToken,
-   *   item_id: data.itemId
+   * // IMPORTANT: Never store data.accessToken directly
+   * await new PlaidItemRepository(supabase).saveItem({
+   *   companyId,
+   *   itemId: data.itemId,
+   *   accessToken: data.accessToken,
+   *   ...institutionAndAccount
    * });
    * ```
    */
@@ -331,7 +451,12 @@ export class PlaidService {
         public_token: params.publicToken,
       };
 
-      const response = await this.plaid.itemPublicTokenExchange(request);
+      // Single-use token - only retried if Plaid certainly did not process it
+      const response = await this.retry.run(
+        'item/public_token/exchange',
+        ({ timeoutMs }) => this.plaid.itemPublicTokenExchange(request, { timeout: timeoutMs }),
+        { idempotent: false }
+      );
 
       const result: ExchangePublicTokenResponse = {
         accessToken: response.data.access_token,
@@ -412,7 +537,10 @@ export class PlaidService {
         processor: 'stripe' as any, // TypeScript type issue with Plaid SDK
       };
 
-      const response = await this.plaid.processorStripeBankAccountTokenCreate(request);
+      const response = await this.retry.run(
+        'processor/stripe/bank_account_token/create',
+        ({ timeoutMs }) => this.plaid.processorStripeBankAccountTokenCreate(request, { timeout: timeoutMs })
+      );
 
       const result: CreateProcessorTokenResponse = {
         processorToken: response.data.stripe_bank_account_token,
@@ -478,14 +606,20 @@ export class PlaidService {
         };
       }
 
-      const accountsResponse = await this.plaid.accountsGet(accountsRequest);
+      const accountsResponse = await this.retry.run(
+        'accounts/get',
+        ({ timeoutMs }) => this.plaid.accountsGet(accountsRequest, { timeout: timeoutMs })
+      );
 
       // Get item details
       const itemRequest: ItemGetRequest = {
         access_token: accessToken,
       };
 
-      const itemResponse = await this.plaid.itemGet(itemRequest);
+      const itemResponse = await this.retry.run(
+        'item/get',
+        ({ timeoutMs }) => this.plaid.itemGet(itemRequest, { timeout: timeoutMs })
+      );
 
       // Map accounts to our type
       const accounts: PlaidAccountDetails[] = accountsResponse.data.accounts.map(account => ({
@@ -531,9 +665,87 @@ export class PlaidService {
     }
   }
 
+  /**
+   * Get an account's real-time balance
+   *
+   * Unlike getAccounts (cached balances), this asks the bank directly - it
+   * is slower and billed per call, so only use it right before a debit.
+   *
+   * @param accessToken Access token
+   * @param accountId Account to read
+   * @returns Available and current balance
+   *
+   * @example
+   * ```typescript
+   * const { data } = await plaid.getBalance('access-sandbox-xxx', 'account-id-xxx');
+   * if (data.available !== null && data.available < 99) {
+   *   // likely NSF
+   * }
+   * ```
+   */
+  async getBalance(
+    accessToken: string,
+    accountId: string
+  ): Promise<PlaidServiceResponse<PlaidBalance>> {
+    try {
+      try {
+        validateAccessToken(accessToken);
+        validateAccountId(accountId);
+      } catch (error) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: error instanceof Error ? error.message : 'Invalid access token or account ID',
+            userMessage: 'Session expired. Please reconnect your bank account.',
+          },
+        };
+      }
+
+      const balanceRequest: AccountsBalanceGetRequest = {
+        access_token: accessToken,
+        options: {
+          account_ids: [accountId],
+        },
+      };
+
+      const response = await this.retry.run(
+        'accounts/balance/get',
+        ({ timeoutMs }) => this.plaid.accountsBalanceGet(balanceRequest, { timeout: timeoutMs })
+      );
+      const account = response.data.accounts.find(a => a.account_id === accountId);
+
+      if (!account) {
+        return {
+          success: false,
+          error: {
+            code: 'ACCOUNT_NOT_FOUND',
+            message: `Account ${accountId} not returned by Plaid`,
+            userMessage: 'Bank account not found. Please reconnect your bank account.',
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          available: account.balances.available,
+          current: account.balances.current,
+          limit: account.balances.limit,
+          iso_currency_code: account.balances.iso_currency_code,
+          unofficial_currency_code: account.balances.unofficial_currency_code,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to get balance');
+    }
+  }
+
   /**
    * Get bank institution details
    *
+   * Calls Plaid every time - use InstitutionDirectory for display lookups.
+   *
    * @param institutionId Institution ID
    * @param countryCodes Country codes (default: US)
    * @returns Institution details
@@ -563,9 +775,16 @@ export class PlaidService {
       const request: InstitutionsGetByIdRequest = {
         institution_id: institutionId,
         country_codes: countryCodes.map(c => c as CountryCode),
+        // Logo, primary color and URL are only returned when asked for
+        options: {
+          include_optional_metadata: true,
+        },
       };
 
-      const response = await this.plaid.institutionsGetById(request);
+      const response = await this.retry.run(
+        'institutions/get_by_id',
+        ({ timeoutMs }) => this.plaid.institutionsGetById(request, { timeout: timeoutMs })
+      );
       const inst = response.data.institution;
 
       const result: PlaidInstitution = {
@@ -685,59 +904,10 @@ export class PlaidService {
     return `temp-${timestamp}-${random}`;
   }
 
-  /**
-   * Encrypt sensitive data (access tokens) before storage
-   *
-   * IMPORTANT: Implement proper encryption in production!
-   * This is a placeholder - use proper AES-256-GCM encryption.
-   *
-   * @param data Data to encrypt
-   * @param key Encryption key
-   * @returns Encrypted data
-   */
-  static encryptSensitiveData(data: string, key: string): string {
-    // WARNING: This is a simplified example
-    // Use proper encryption library like node-forge or crypto-js in production
-    const algorithm = 'aes-256-cbc';
-    const keyBuffer = crypto.scryptSync(key, 'salt', 32);
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv(algorithm, keyBuffer, iv);
-
-    let encrypted = cipher.update(data, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-
-    // Return IV + encrypted data
-    return iv.toString('hex') + ':' + encrypted;
-  }
-
-  /**
-   * Decrypt sensitive data
-   *
-   * @param encryptedData Encrypted data
-   * @param key Decryption key
-   * @returns Decrypted data
-   */
-  static decryptSensitiveData(encryptedData: string, key: string): string {
-    // WARNING: This is a simplified example
-    const algorithm = 'aes-256-cbc';
-    const keyBuffer = crypto.scryptSync(key, 'salt', 32);
-
-    const parts = encryptedData.split(':');
-    const iv = Buffer.from(parts[0], 'hex');
-    const encrypted = parts[1];
-
-    const decipher = crypto.createDecipheriv(algorithm, keyBuffer, iv);
-
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-
-    return decrypted;
-  }
-
   /**
    * Handle Plaid API errors with proper typing and user-friendly messages
    */
-  private handleError(error: any, context: string): PlaidServiceResponse {
+  private handleError<T = never>(error: any, context: string): PlaidServiceResponse<T> {
     console.error(`${context}:`, error);
 
     let errorCode = 'UNKNOWN_ERROR';
@@ -778,7 +948,9 @@ export class PlaidService {
       retryable = isRetryablePlaidError(plaidError);
       userMessage = getUserFriendlyErrorMessage(plaidError);
     } else if (error.message) {
+      // Network failure (connection refused, reset, timeout)
       errorMessage = error.message;
+      retryable = isRetryablePlaidFailure(error);
     }
 
     // Never expose sensitive information in user messages
@@ -811,48 +983,92 @@ export class PlaidService {
       .replace(/\b[a-f0-9]{24,}\b/g, '[ID]'); // MongoDB-like IDs
   }
 
+  // ============================================================================
+  // WEBHOOK VERIFICATION
+  // ============================================================================
+
   /**
-   * Verify webhook signature for Plaid webhooks
-   *
-   * Plaid webhooks don't use signatures by default.
-   * Instead, verify by:
-   * 1. Checking the webhook came from Plaid IPs
-   * 2. Validating the webhook format
-   * 3. Verifying item_id exists in your database
-   *
-   * For production, consider implementing webhook verification tokens.
+   * Fetch the public key used to sign Plaid webhooks
    *
-   * @param payload Webhook payload
-   * @param headers Request headers
-   * @returns Whether webhook is valid
+   * @param keyId Key ID from the Plaid-Verification JWT header
+   * @returns JWK public key
    */
-  static verifyWebhook(payload: any, headers: Record<string, string>): boolean {
+  async getWebhookVerificationKey(
+    keyId: string
+  ): Promise<PlaidServiceResponse<PlaidWebhookVerificationKey>> {
     try {
-      // Basic validation
-      if (!payload || typeof payload !== 'object') {
-        return false;
-      }
+      const response = await this.plaid.webhookVerificationKeyGet({
+        client_id: this.clientId,
+        secret: this.secret,
+        key_id: keyId,
+      });
 
-      // Check required fields
-      if (!payload.webhook_type || !payload.webhook_code || !payload.item_id) {
-        return false;
-      }
+      return {
+        success: true,
+        data: response.data.key as PlaidWebhookVerificationKey,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to fetch webhook verification key');
+    }
+  }
 
-      // In production, also verify:
-      // 1. Request came from Plaid IP ranges
-      // 2. Item ID exists in your database
-      // 3. Webhook URL matches your configured URL
+  /**
+   * Verify a Plaid webhook using the Plaid-Verification JWT
+   *
+   * Keys are fetched from Plaid and cached per warm function instance.
+   *
+   * @param rawBody Raw request body (exactly as received)
+   * @param headers Request headers
+   * @returns Verification result with parsed payload
+   *
+   * @example
+   * ```typescript
+   * const result = await PlaidService.verifyWebhook(event.body, event.headers);
+   * if (!result.valid) {
+   *   return { statusCode: 401, body: result.error };
+   * }
+   * ```
+   */
+  static async verifyWebhook(
+    rawBody: string,
+    headers: Record<string, string | undefined>
+  ): Promise<PlaidWebhookVerificationResult> {
+    return PlaidService.getInstance().verifyWebhook(rawBody, headers);
+  }
 
-      return true;
-    } catch (error) {
-      console.error('Webhook verification failed:', error);
-      return false;
+  /**
+   * Verify a Plaid webhook with keys fetched by this instance
+   *
+   * @param rawBody Raw request body (exactly as received)
+   * @param headers Request headers
+   * @returns Verification result with parsed payload
+   */
+  async verifyWebhook(
+    rawBody: string,
+    headers: Record<string, string | undefined>
+  ): Promise<PlaidWebhookVerificationResult> {
+    if (!this.webhookVerifier) {
+      this.webhookVerifier = new PlaidWebhookVerifier({
+        getKey: async (keyId) => {
+          const result = await this.getWebhookVerificationKey(keyId);
+          if (!result.success) {
+            // Plaid returns INVALID_WEBHOOK_VERIFICATION_KEY_ID for unknown keys
+            if (result.error?.code === 'INVALID_WEBHOOK_VERIFICATION_KEY_ID') {
+              return null;
+            }
+            throw new Error(result.error?.message || 'Failed to fetch webhook verification key');
+          }
+          return result.data || null;
+        },
+      });
     }
+
+    return this.webhookVerifier.verify(
+      rawBody,
+      headers['plaid-verification'] || headers['Plaid-Verification']
+    );
   }
 }
 
-// Export singleton instance
-export const plaid = PlaidService.getInstance();
-
-// Export class for testing and custom instances
+// Export class for custom instances (see createPlaidService)
 export default PlaidService;
\ No newline at end of file
@@ -0,0 +1,319 @@
+/**
+ * PLAID WEBHOOK VERIFIER
+ *
+ * Verifies the Plaid-Verification JWT sent with every Plaid webhook:
+ * 1. JWT header must use ES256 and name a key ID (kid)
+ * 2. Signature must verify against Plaid's published key for that kid
+ * 3. iat claim must be recent (replay protection) and not in the future
+ *    beyond a small clock skew
+ * 4. request_body_sha256 claim must match the raw request body
+ *
+ * Keys come from a PlaidWebhookKeyProvider and are cached by key ID.
+ * PlaidService wires in the real /webhook_verification_key/get provider;
+ * StubPlaidWebhookKeyProvider signs and verifies locally for tests and
+ * sandbox development without Plaid credentials.
+ *
+ * @see https://plaid.com/docs/api/webhooks/webhook-verification/
+ */
+
+import crypto from 'crypto';
+import type {
+  PlaidWebhookPayload,
+  PlaidWebhookVerificationKey,
+  PlaidWebhookVerificationResult,
+} from '../types/plaid';
+
+/**
+ * Source of Plaid webhook verification keys
+ */
+export interface PlaidWebhookKeyProvider {
+  /**
+   * Fetch the public key for a key ID
+   *
+   * @returns The key, or null if the key ID is unknown
+   */
+  getKey(keyId: string): Promise<PlaidWebhookVerificationKey | null>;
+}
+
+/**
+ * Verifier configuration
+ */
+export interface PlaidWebhookVerifierOptions {
+  /** How long a fetched key is trusted before refetching (default: 24 hours) */
+  keyCacheTtlMs?: number;
+
+  /** Maximum JWT age in seconds (default: 5 minutes, per Plaid guidance) */
+  maxTokenAgeSeconds?: number;
+
+  /** How far iat may be ahead of our clock in seconds (default: 60) */
+  maxClockSkewSeconds?: number;
+
+  /** Clock override (milliseconds) */
+  now?: () => number;
+}
+
+interface CachedKey {
+  key: PlaidWebhookVerificationKey;
+  fetchedAt: number;
+}
+
+const DEFAULT_KEY_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_TOKEN_AGE_SECONDS = 5 * 60;
+const DEFAULT_MAX_CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Decode a base64url JWT segment as JSON
+ */
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+}
+
+/**
+ * SHA-256 hex digest of the raw request body
+ */
+function sha256Hex(body: string): string {
+  return crypto.createHash('sha256').update(body, 'utf8').digest('hex');
+}
+
+/**
+ * Verifies Plaid webhook JWTs with a cached key provider
+ *
+ * @example
+ * ```typescript
+ * const verifier = new PlaidWebhookVerifier(keyProvider);
+ * const result = await verifier.verify(
+ *   event.body,
+ *   event.headers['plaid-verification']
+ * );
+ *
+ * if (result.valid && result.payload) {
+ *   console.log('Valid webhook:', result.payload.webhook_code);
+ * }
+ * ```
+ */
+export class PlaidWebhookVerifier {
+  private readonly keyCache = new Map<string, CachedKey>();
+  private readonly keyCacheTtlMs: number;
+  private readonly maxTokenAgeSeconds: number;
+  private readonly maxClockSkewSeconds: number;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly keyProvider: PlaidWebhookKeyProvider,
+    options: PlaidWebhookVerifierOptions = {}
+  ) {
+    this.keyCacheTtlMs = options.keyCacheTtlMs ?? DEFAULT_KEY_CACHE_TTL_MS;
+    this.maxTokenAgeSeconds = options.maxTokenAgeSeconds ?? DEFAULT_MAX_TOKEN_AGE_SECONDS;
+    this.maxClockSkewSeconds = options.maxClockSkewSeconds ?? DEFAULT_MAX_CLOCK_SKEW_SECONDS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Verify a webhook request
+   *
+   * @param rawBody Raw request body (exactly as received)
+   * @param verificationHeader Plaid-Verification header value
+   * @returns Verification result with parsed payload
+   */
+  async verify(
+    rawBody: string,
+    verificationHeader: string | undefined
+  ): Promise<PlaidWebhookVerificationResult> {
+    try {
+      if (!rawBody || !verificationHeader) {
+        return { valid: false, error: 'Missing webhook body or Plaid-Verification header' };
+      }
+
+      const segments = verificationHeader.split('.');
+      if (segments.length !== 3) {
+        return { valid: false, error: 'Malformed verification JWT' };
+      }
+      const [encodedHeader, encodedClaims, encodedSignature] = segments;
+
+      // Only ES256 is valid - rejects alg=none and algorithm confusion
+      const header = decodeSegment<{ alg?: string; kid?: string }>(encodedHeader);
+      if (header.alg !== 'ES256' || !header.kid) {
+        return { valid: false, error: 'Verification JWT must use ES256 with a key ID' };
+      }
+
+      const key = await this.getKey(header.kid);
+      if (!key) {
+        return { valid: false, error: `Unknown verification key: ${header.kid}` };
+      }
+
+      if (key.expired_at !== null && key.expired_at * 1000 <= this.now()) {
+        return { valid: false, error: `Verification key ${header.kid} has expired` };
+      }
+
+      const publicKey = crypto.createPublicKey({
+        key: { kty: key.kty, crv: key.crv, x: key.x, y: key.y },
+        format: 'jwk',
+      });
+
+      const signatureValid = crypto.verify(
+        'sha256',
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        { key: publicKey, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(encodedSignature, 'base64url')
+      );
+
+      if (!signatureValid) {
+        return { valid: false, error: 'Invalid webhook signature' };
+      }
+
+      const claims = decodeSegment<{ iat?: number; request_body_sha256?: string }>(encodedClaims);
+      const ageSeconds = Math.floor(this.now() / 1000) - (claims.iat ?? 0);
+      if (!claims.iat || ageSeconds > this.maxTokenAgeSeconds) {
+        return { valid: false, error: 'Webhook timestamp too old (possible replay attack)' };
+      }
+
+      // A future iat would stay "fresh" long past the replay window
+      if (ageSeconds < -this.maxClockSkewSeconds) {
+        return { valid: false, error: 'Webhook timestamp is in the future' };
+      }
+
+      const expectedHash = Buffer.from(sha256Hex(rawBody));
+      const claimedHash = Buffer.from(claims.request_body_sha256 || '');
+      if (
+        expectedHash.length !== claimedHash.length ||
+        !crypto.timingSafeEqual(expectedHash, claimedHash)
+      ) {
+        return { valid: false, error: 'Webhook body does not match signed hash' };
+      }
+
+      const payload = JSON.parse(rawBody) as PlaidWebhookPayload;
+      if (!payload.webhook_type || !payload.webhook_code || !payload.item_id) {
+        return { valid: false, error: 'Webhook payload missing required fields' };
+      }
+
+      return { valid: true, payload };
+    } catch (error) {
+      console.error('Plaid webhook verification error:', error);
+      return {
+        valid: false,
+        error: `Webhook verification failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Drop all cached keys (e.g. after a key rotation)
+   */
+  clearCache(): void {
+    this.keyCache.clear();
+  }
+
+  /**
+   * Get a key from the cache, fetching it when missing or stale
+   */
+  private async getKey(keyId: string): Promise<PlaidWebhookVerificationKey | null> {
+    const cached = this.keyCache.get(keyId);
+    if (cached && this.now() - cached.fetchedAt < this.keyCacheTtlMs) {
+      return cached.key;
+    }
+
+    const key = await this.keyProvider.getKey(keyId);
+    if (key) {
+      this.keyCache.set(keyId, { key, fetchedAt: this.now() });
+    } else {
+      this.keyCache.delete(keyId);
+    }
+
+    return key;
+  }
+}
+
+/**
+ * Local ES256 key provider for tests and sandbox development
+ *
+ * Signs webhooks exactly like Plaid does, so the real verification path runs
+ * end to end without calling Plaid.
+ *
+ * NEVER use in production - anyone holding the private key can forge webhooks.
+ *
+ * @example
+ * ```typescript
+ * const stub = StubPlaidWebhookKeyProvider.generate();
+ * const verifier = new PlaidWebhookVerifier(stub);
+ *
+ * const body = JSON.stringify({ webhook_type: 'ITEM', webhook_code: 'ERROR', item_id: 'item-1' });
+ * const result = await verifier.verify(body, stub.signWebhook(body));
+ * // result.valid === true
+ * ```
+ */
+export class StubPlaidWebhookKeyProvider implements PlaidWebhookKeyProvider {
+  private constructor(
+    private readonly publicKey: PlaidWebhookVerificationKey,
+    private readonly privateKey?: crypto.KeyObject
+  ) {}
+
+  /**
+   * Generate a fresh P-256 key pair (can sign and verify)
+   */
+  static generate(keyId: string = 'stub-webhook-key'): StubPlaidWebhookKeyProvider {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const jwk = publicKey.export({ format: 'jwk' });
+
+    return new StubPlaidWebhookKeyProvider(
+      {
+        alg: 'ES256',
+        crv: jwk.crv!,
+        kid: keyId,
+        kty: jwk.kty!,
+        use: 'sig',
+        x: jwk.x!,
+        y: jwk.y!,
+        created_at: Math.floor(Date.now() / 1000),
+        expired_at: null,
+      },
+      privateKey
+    );
+  }
+
+  /**
+   * Verify-only provider from a published key (e.g. PLAID_WEBHOOK_STUB_KEY)
+   */
+  static fromPublicKey(key: PlaidWebhookVerificationKey): StubPlaidWebhookKeyProvider {
+    return new StubPlaidWebhookKeyProvider(key);
+  }
+
+  async getKey(keyId: string): Promise<PlaidWebhookVerificationKey | null> {
+    return keyId === this.publicKey.kid ? this.publicKey : null;
+  }
+
+  /**
+   * The public key (share with a verifier running in another process)
+   */
+  getPublicKey(): PlaidWebhookVerificationKey {
+    return this.publicKey;
+  }
+
+  /**
+   * Build a Plaid-Verification header value for a raw body
+   *
+   * @param rawBody Exact request body that will be sent
+   * @param issuedAt Unix timestamp for the iat claim (default: now)
+   */
+  signWebhook(rawBody: string, issuedAt: number = Math.floor(Date.now() / 1000)): string {
+    if (!this.privateKey) {
+      throw new Error('This stub key provider has no private key and cannot sign webhooks');
+    }
+
+    const encodedHeader = Buffer.from(
+      JSON.stringify({ alg: 'ES256', kid: this.publicKey.kid, typ: 'JWT' })
+    ).toString('base64url');
+    const encodedClaims = Buffer.from(
+      JSON.stringify({ iat: issuedAt, request_body_sha256: sha256Hex(rawBody) })
+    ).toString('base64url');
+
+    const signature = crypto.sign(
+      'sha256',
+      Buffer.from(`${encodedHeader}.${encodedClaims}`),
+      { key: this.privateKey, dsaEncoding: 'ieee-p1363' }
+    );
+
+    return `${encodedHeader}.${encodedClaims}.${signature.toString('base64url')}`;
+  }
+}
+
+export default PlaidWebhookVerifier;
@@ -0,0 +1,482 @@
+/**
+ * REGISTRATION DRAFT SERVICE
+ *
+ * Server-side progress for the owner signup form (/signup) and the
+ * onboarding flow (/onboarding), so a refresh or a closed tab does not lose
+ * what the owner already entered.
+ *
+ * FLOW:
+ * 1. save() without a token - the first completed step creates the draft,
+ *    returns its resume token and emails the owner a link with it
+ *    (registration_resume template, via the outbox)
+ * 2. save() with the token - later steps update the draft and push its
+ *    expiry out by the TTL. The email is fixed: a different address needs
+ *    a new draft, so a token never sends its resume link somewhere new
+ * 3. load() - the resume link (or the token kept in the browser) reopens
+ *    the form at the saved step
+ * 4. discardForEmail() / discard() - the signup completed; the draft goes
+ *
+ * RESUME TOKENS: <draft ID>.<HMAC-SHA256 of the ID> (REGISTRATION_DRAFT_SECRET).
+ * A token only works while its draft exists and has not expired.
+ *
+ * Only whitelisted fields are stored (DRAFT_FLOWS) - passwords, bank account
+ * numbers, Plaid tokens and consent checkboxes are dropped before saving.
+ *
+ * IMPORTANT: Server-side only (signing secret, service-role Supabase client).
+ */
+
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import EmailOutbox from './EmailOutbox';
+
+// Drafts are unusable this long after their last save
+const DEFAULT_TTL_HOURS = 72;
+
+// Resume emails one address can receive per hour (new drafts still save)
+const DEFAULT_MAX_RESUME_EMAILS_PER_HOUR = 3;
+
+// Longest value kept for any field
+const MAX_FIELD_LENGTH = 200;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Forms that keep drafts
+ */
+export type RegistrationFlow = 'owner_registration' | 'onboarding';
+
+interface DraftFlowDefinition {
+  /** Page the resume link opens */
+  path: string;
+
+  /** Number of steps in the form */
+  steps: number;
+
+  /** Fields saved - everything else is dropped */
+  fields: string[];
+
+  /** Field holding the owner's email (required to create a draft) */
+  emailField: string;
+
+  /** Fields used to greet the owner in the resume email */
+  nameField: string;
+  companyField: string;
+}
+
+const DRAFT_FLOWS: Record<RegistrationFlow, DraftFlowDefinition> = {
+  owner_registration: {
+    path: '/signup',
+    steps: 4,
+    fields: ['firstName', 'lastName', 'email', 'companyName', 'industry', 'businessType', 'bankVerification', 'plan'],
+    emailField: 'email',
+    nameField: 'firstName',
+    companyField: 'companyName',
+  },
+  onboarding: {
+    path: '/onboarding',
+    steps: 10,
+    fields: ['companyEmail', 'companyName', 'ownerName', 'phone'],
+    emailField: 'companyEmail',
+    nameField: 'ownerName',
+    companyField: 'companyName',
+  },
+};
+
+/**
+ * Database row in registration_drafts
+ */
+export interface RegistrationDraftRecord {
+  id: string;
+  flow: RegistrationFlow;
+  email: string;
+  email_normalized: string;
+  step: number;
+  data: Record<string, string>;
+  expires_at: string;
+  resume_email_sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A draft as returned to the browser
+ */
+export interface RegistrationDraft {
+  flow: RegistrationFlow;
+  step: number;
+  data: Record<string, string>;
+  expiresAt: string;
+}
+
+/**
+ * Result of saving a draft
+ */
+export interface SaveRegistrationDraftResult {
+  /**
+   * - created: new draft (token returned, resume link emailed)
+   * - saved: existing draft updated
+   * - not_found: token invalid, or its draft expired or completed
+   * - invalid: unknown step or no valid email
+   * - email_changed: token saved with a different email (save again without the token)
+   */
+  outcome: 'created' | 'saved' | 'not_found' | 'invalid' | 'email_changed';
+  message: string;
+
+  /** Resume token (created and saved) */
+  token?: string;
+
+  draft?: RegistrationDraft;
+}
+
+/**
+ * Registration draft options
+ */
+export interface RegistrationDraftServiceOptions {
+  /** Signs resume tokens (default: REGISTRATION_DRAFT_SECRET - only needed to save, load or discard by token) */
+  secret?: string;
+
+  /** Hours a draft lives after its last save (default: REGISTRATION_DRAFT_TTL_HOURS, else 72) */
+  ttlHours?: number;
+
+  /** Resume emails one address can receive per hour (default: 3) */
+  maxResumeEmailsPerHour?: number;
+
+  /** Resume emails (default: outbox with transport from env) */
+  outbox?: EmailOutbox;
+
+  /** Website the resume links point at (default: FRONTEND_URL) */
+  frontendUrl?: string;
+
+  /** Clock (for tests) */
+  now?: () => Date;
+}
+
+/**
+ * Whether a value names a form that keeps drafts
+ */
+export function isRegistrationFlow(value: unknown): value is RegistrationFlow {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DRAFT_FLOWS, value);
+}
+
+/**
+ * Keep the flow's whitelisted string fields, trimmed to MAX_FIELD_LENGTH
+ */
+function sanitizeDraftData(flow: RegistrationFlow, data: Record<string, unknown>): Record<string, string> {
+  const sanitized: Record<string, string> = {};
+  for (const field of DRAFT_FLOWS[flow].fields) {
+    const value = data[field];
+    if (typeof value === 'string' && value.trim()) {
+      sanitized[field] = value.trim().slice(0, MAX_FIELD_LENGTH);
+    }
+  }
+  return sanitized;
+}
+
+function toDraft(record: RegistrationDraftRecord): RegistrationDraft {
+  return {
+    flow: record.flow,
+    step: record.step,
+    data: record.data,
+    expiresAt: record.expires_at,
+  };
+}
+
+/**
+ * Registration draft service
+ *
+ * @example
+ * ```typescript
+ * const drafts = new RegistrationDraftService(supabase);
+ *
+ * // Step 1 done - creates the draft and emails the resume link
+ * const { token } = await drafts.save('owner_registration', { step: 2, data: formData });
+ *
+ * // Later, from the link
+ * const draft = await drafts.load(token!);
+ * ```
+ */
+export class RegistrationDraftService {
+  private readonly secret: string | undefined;
+  private readonly ttlHours: number;
+  private readonly maxResumeEmailsPerHour: number;
+  private readonly outbox: EmailOutbox;
+  private readonly frontendUrl: string;
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    options: RegistrationDraftServiceOptions = {}
+  ) {
+    this.secret = options.secret || process.env.REGISTRATION_DRAFT_SECRET;
+    this.ttlHours = options.ttlHours || Number(process.env.REGISTRATION_DRAFT_TTL_HOURS) || DEFAULT_TTL_HOURS;
+    this.maxResumeEmailsPerHour = options.maxResumeEmailsPerHour ?? DEFAULT_MAX_RESUME_EMAILS_PER_HOUR;
+    this.outbox = options.outbox || new EmailOutbox(supabase);
+    this.frontendUrl = options.frontendUrl || process.env.FRONTEND_URL || 'https://tradesphere.com';
+    this.now = options.now || (() => new Date());
+  }
+
+  // ============================================================================
+  // DRAFTS
+  // ============================================================================
+
+  /**
+   * Save the form's progress
+   *
+   * @param flow Form the draft belongs to
+   * @param input.step Step the owner should reopen at
+   * @param input.data Form values (non-whitelisted fields are dropped)
+   * @param input.token Resume token from an earlier save (omit to create)
+   * @throws The database error if the draft could not be written
+   */
+  async save(
+    flow: RegistrationFlow,
+    input: { step: number; data: Record<string, unknown>; token?: string | null }
+  ): Promise<SaveRegistrationDraftResult> {
+    const definition = DRAFT_FLOWS[flow];
+    if (!Number.isInteger(input.step) || input.step < 1 || input.step > definition.steps) {
+      return { outcome: 'invalid', message: `Step must be between 1 and ${definition.steps}.` };
+    }
+
+    const data = sanitizeDraftData(flow, input.data);
+    const email = data[definition.emailField];
+    if (!email || !EMAIL_PATTERN.test(email)) {
+      return { outcome: 'invalid', message: 'A valid email is needed to save your progress.' };
+    }
+
+    const now = this.now();
+    const fields = {
+      email,
+      email_normalized: email.toLowerCase(),
+      step: input.step,
+      data,
+      expires_at: this.expiresAt(now),
+      updated_at: now.toISOString(),
+    };
+
+    if (input.token) {
+      const existing = await this.find(input.token);
+      if (!existing || existing.flow !== flow) {
+        return { outcome: 'not_found', message: 'This saved signup has expired. Please start again.' };
+      }
+
+      // The resume link belongs to the address it was sent to
+      if (existing.email_normalized !== fields.email_normalized) {
+        return { outcome: 'email_changed', message: 'Your email changed - your progress will be saved under the new address.' };
+      }
+
+      const { data: updated, error } = await this.supabase
+        .from('registration_drafts')
+        .update(fields)
+        .eq('id', existing.id)
+        .select()
+        .single();
+
+      if (error || !updated) {
+        throw error || new Error(`Registration draft ${existing.id} disappeared while saving`);
+      }
+
+      return { outcome: 'saved', message: 'Progress saved.', token: input.token, draft: toDraft(updated as RegistrationDraftRecord) };
+    }
+
+    const { data: created, error } = await this.supabase
+      .from('registration_drafts')
+      .insert({ ...fields, flow, created_at: now.toISOString() })
+      .select()
+      .single();
+
+    if (error || !created) {
+      throw error || new Error('Failed to create registration draft');
+    }
+
+    const record = created as RegistrationDraftRecord;
+    const token = this.sign(record.id);
+    console.log(`Registration draft ${record.id} created (${flow})`);
+
+    await this.sendResumeLink(record, token);
+
+    return {
+      outcome: 'created',
+      message: 'Progress saved. We emailed you a link to pick up where you left off.',
+      token,
+      draft: toDraft(record),
+    };
+  }
+
+  /**
+   * Draft for a resume token (null if the token is invalid or the draft expired)
+   */
+  async load(token: string): Promise<RegistrationDraft | null> {
+    const record = await this.find(token);
+    return record ? toDraft(record) : null;
+  }
+
+  /**
+   * Delete the draft behind a resume token
+   *
+   * @returns Whether a draft was deleted
+   */
+  async discard(token: string): Promise<boolean> {
+    const draftId = this.verify(token);
+    if (!draftId) {
+      return false;
+    }
+
+    const { data, error } = await this.supabase
+      .from('registration_drafts')
+      .delete()
+      .eq('id', draftId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Delete every draft for an email once its signup completed
+   *
+   * Failures are logged, not thrown - leftover drafts expire on their own.
+   */
+  async discardForEmail(flow: RegistrationFlow, email: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('registration_drafts')
+      .delete()
+      .eq('flow', flow)
+      .eq('email_normalized', email.trim().toLowerCase());
+
+    if (error) {
+      console.error(`Failed to discard ${flow} drafts for ${email}:`, error);
+    }
+  }
+
+  /**
+   * Delete expired drafts
+   *
+   * @returns Number of drafts deleted
+   */
+  async purgeExpired(): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('registration_drafts')
+      .delete()
+      .lte('expires_at', this.now().toISOString())
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).length;
+  }
+
+  // ============================================================================
+  // RESUME LINKS
+  // ============================================================================
+
+  /**
+   * Email the resume link (non-fatal - the browser keeps the token as well)
+   */
+  private async sendResumeLink(record: RegistrationDraftRecord, token: string): Promise<void> {
+    const definition = DRAFT_FLOWS[record.flow];
+
+    try {
+      const since = new Date(this.now().getTime() - 60 * 60 * 1000).toISOString();
+      const { count, error: countError } = await this.supabase
+        .from('registration_drafts')
+        .select('id', { count: 'exact', head: true })
+        .eq('email_normalized', record.email_normalized)
+        .gte('resume_email_sent_at', since);
+
+      if (countError) {
+        throw countError;
+      }
+
+      if ((count || 0) >= this.maxResumeEmailsPerHour) {
+        console.warn(`Resume email for draft ${record.id} skipped - ${count} sent to this address in the last hour`);
+        return;
+      }
+
+      const { id } = await this.outbox.enqueue(
+        'registration_resume',
+        record.email,
+        {
+          firstName: record.data[definition.nameField]?.split(' ')[0] || null,
+          companyName: record.data[definition.companyField] || null,
+          resumeUrl: `${this.frontendUrl}${definition.path}?resume=${encodeURIComponent(token)}`,
+          expiresAt: record.expires_at,
+        },
+        { dedupeKey: `registration_resume:${record.id}:${record.email_normalized}` }
+      );
+
+      await this.supabase
+        .from('registration_drafts')
+        .update({ resume_email_sent_at: this.now().toISOString() })
+        .eq('id', record.id);
+
+      const delivery = await this.outbox.deliver(id);
+      console.log(`Resume email for draft ${record.id}: ${delivery.outcome}`);
+    } catch (error) {
+      console.error(`Failed to queue resume email for draft ${record.id} (non-fatal):`, error);
+    }
+  }
+
+  // ============================================================================
+  // TOKENS
+  // ============================================================================
+
+  /**
+   * Live draft for a resume token
+   */
+  private async find(token: string): Promise<RegistrationDraftRecord | null> {
+    const draftId = this.verify(token);
+    if (!draftId) {
+      return null;
+    }
+
+    const { data, error } = await this.supabase
+      .from('registration_drafts')
+      .select('*')
+      .eq('id', draftId)
+      .gt('expires_at', this.now().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as RegistrationDraftRecord | null;
+  }
+
+  private sign(draftId: string): string {
+    return `${draftId}.${this.signature(draftId)}`;
+  }
+
+  /**
+   * Draft ID from a resume token (null if the signature does not match)
+   */
+  private verify(token: string): string | null {
+    const [draftId, signature, ...rest] = String(token).split('.');
+    if (rest.length > 0 || !draftId || !signature || !UUID_PATTERN.test(draftId)) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.signature(draftId));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? draftId : null;
+  }
+
+  private signature(draftId: string): string {
+    if (!this.secret) {
+      throw new Error('Resume tokens need a signing secret (REGISTRATION_DRAFT_SECRET)');
+    }
+    return crypto.createHmac('sha256', this.secret).update(`registration_draft:${draftId}`).digest('base64url');
+  }
+
+  private expiresAt(now: Date): string {
+    return new Date(now.getTime() + this.ttlHours * 60 * 60 * 1000).toISOString();
+  }
+}
+
+export default RegistrationDraftService;
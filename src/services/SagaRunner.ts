@@ -0,0 +1,429 @@
+/**
+ * SAGA RUNNER
+ *
+ * Compensating-transaction runner for workflows that span Stripe, Plaid and
+ * Supabase, where no single database transaction can roll everything back.
+ *
+ * FLOW:
+ * 1. start()      - insert a saga_runs row (status 'running')
+ * 2. step()       - run an action; on success persist the step with the
+ *                   context its compensation needs (IDs - secrets only as
+ *                   encrypted envelopes)
+ * 3. complete()   - mark the saga completed (retried; throws if it cannot
+ *                   be recorded)
+ * 4. compensate() - on failure run compensations in reverse order,
+ *                   persisting progress after each one
+ *
+ * If the process dies mid-flow the row stays 'running' or 'compensating'.
+ * finishStaleSagas() (run by the finish-saga-rollbacks scheduled function)
+ * claims those rows and completes the rollback - except for 'running' sagas
+ * whose commit check shows the final step succeeded (e.g. complete() could
+ * not be recorded): those are marked completed, never rolled back.
+ *
+ * Compensations must be idempotent - a rollback cut off halfway is retried
+ * from the first step that was not marked compensated.
+ *
+ * IMPORTANT: Server-side only (requires a service-role Supabase client).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Attempts to record completion (with a growing delay between them)
+const COMPLETE_ATTEMPTS = 3;
+const COMPLETE_RETRY_DELAY_MS = 250;
+
+/**
+ * Saga lifecycle status
+ */
+export type SagaStatus =
+  | 'running'             // Steps in progress
+  | 'completed'           // All steps succeeded
+  | 'compensating'        // Rolling back
+  | 'compensated'         // Fully rolled back
+  | 'compensation_failed'; // Some compensations failed - retried by the scheduler
+
+/**
+ * Context stored with a step for its compensation (IDs - never plain-text secrets)
+ */
+export type SagaStepContext = Record<string, string | number | boolean | null>;
+
+/**
+ * Persisted step
+ */
+export interface SagaStepRecord {
+  /** Step name (key into the compensation registry) */
+  name: string;
+
+  /** Step status */
+  status: 'done' | 'compensated' | 'compensation_failed';
+
+  /** Context passed to the compensation */
+  context: SagaStepContext;
+
+  /** Timestamp when the step completed */
+  completed_at: string;
+
+  /** Last compensation error (if any) */
+  error?: string;
+}
+
+/**
+ * Row in saga_runs
+ */
+export interface SagaRunRecord {
+  id: string;
+  saga_type: string;
+  status: SagaStatus;
+  steps: SagaStepRecord[];
+  metadata: Record<string, unknown>;
+  error: string | null;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Undo action for a step
+ */
+export type SagaCompensation = (context: SagaStepContext) => Promise<void>;
+
+/**
+ * Compensation registry for one saga type (step name → undo action)
+ */
+export type SagaCompensations = Record<string, SagaCompensation>;
+
+/**
+ * Whether a saga's final step succeeded (so it must never be rolled back)
+ */
+export type SagaCommitCheck = (record: SagaRunRecord) => Promise<boolean>;
+
+/**
+ * Options for finishing interrupted sagas
+ */
+export interface FinishStaleSagasOptions {
+  /** Commit checks by saga type - run for 'running' sagas before any rollback */
+  commitChecks?: Record<string, SagaCommitCheck>;
+
+  /** Consider a non-terminal saga abandoned after this many minutes (default: 15) */
+  staleAfterMinutes?: number;
+
+  /** Give up after this many compensation attempts (default: 5) */
+  maxAttempts?: number;
+
+  /** Maximum sagas per run (default: 25) */
+  limit?: number;
+}
+
+/**
+ * Summary of a recovery run
+ */
+export interface FinishStaleSagasSummary {
+  /** Running sagas that had in fact finished - marked completed */
+  completed: number;
+
+  claimed: number;
+  compensated: number;
+  failed: number;
+}
+
+/**
+ * Persisted saga with compensating actions
+ *
+ * @example
+ * ```typescript
+ * const saga = await SagaRunner.start(supabase, 'owner_signup', compensations);
+ *
+ * try {
+ *   const customer = await saga.step(
+ *     'stripe_customer',
+ *     () => createCustomerOrThrow(),
+ *     customer => ({ customerId: customer.id })
+ *   );
+ *   // ... more steps
+ *   await saga.complete();
+ * } catch (error) {
+ *   await saga.compensate(error);
+ * }
+ * ```
+ */
+export class SagaRunner {
+  private constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly record: SagaRunRecord,
+    private readonly compensations: SagaCompensations
+  ) {}
+
+  /**
+   * Start a new saga
+   *
+   * @param supabase Service-role Supabase client
+   * @param sagaType Saga type (selects the compensation registry on recovery)
+   * @param compensations Undo actions by step name
+   * @param metadata Non-sensitive context for debugging (e.g. email)
+   */
+  static async start(
+    supabase: SupabaseClient,
+    sagaType: string,
+    compensations: SagaCompensations,
+    metadata: Record<string, unknown> = {}
+  ): Promise<SagaRunner> {
+    const { data, error } = await supabase
+      .from('saga_runs')
+      .insert({ saga_type: sagaType, status: 'running', steps: [], metadata })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw error || new Error('Failed to start saga');
+    }
+
+    return new SagaRunner(supabase, data as SagaRunRecord, compensations);
+  }
+
+  /**
+   * Saga run ID
+   */
+  get id(): string {
+    return this.record.id;
+  }
+
+  /**
+   * Run a step and register its compensation
+   *
+   * @param name Step name - must exist in the compensation registry if undoContext is given
+   * @param action Step action (throw to fail the saga)
+   * @param undoContext Builds the compensation context from the action result.
+   *                    Omit for steps that need no undo.
+   * @returns Action result
+   */
+  async step<T>(
+    name: string,
+    action: () => Promise<T>,
+    undoContext?: (result: T) => SagaStepContext
+  ): Promise<T> {
+    const result = await action();
+
+    if (undoContext) {
+      if (!this.compensations[name]) {
+        throw new Error(`No compensation registered for saga step "${name}"`);
+      }
+
+      this.record.steps.push({
+        name,
+        status: 'done',
+        context: undoContext(result),
+        completed_at: new Date().toISOString(),
+      });
+
+      try {
+        await this.persist();
+      } catch (error) {
+        // Keep going - the in-memory record can still compensate this run
+        console.error(`Failed to persist saga step ${name}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Mark the saga as completed (no rollback needed)
+   */
+  async complete(): Promise<void> {
+    this.record.status = 'completed';
+
+    // A saga left 'running' looks abandoned to the recovery job - retry
+    // before giving up
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= COMPLETE_ATTEMPTS; attempt++) {
+      try {
+        await this.persist();
+        return;
+      } catch (error) {
+        lastError = error;
+        console.error(`Failed to mark saga ${this.record.id} completed (attempt ${attempt}):`, error);
+        if (attempt < COMPLETE_ATTEMPTS) {
+          await new Promise(resolve => setTimeout(resolve, attempt * COMPLETE_RETRY_DELAY_MS));
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Run compensations in reverse order
+   *
+   * Never throws - failed compensations are recorded and left for the
+   * scheduled recovery to retry.
+   *
+   * @param cause Error that triggered the rollback
+   * @returns Whether every step was compensated
+   */
+  async compensate(cause?: unknown): Promise<boolean> {
+    this.record.status = 'compensating';
+    this.record.attempts += 1;
+    if (cause !== undefined) {
+      this.record.error = cause instanceof Error ? cause.message : String(cause);
+    }
+    await this.persistQuietly();
+
+    let allCompensated = true;
+    for (const step of [...this.record.steps].reverse()) {
+      if (step.status === 'compensated') {
+        continue;
+      }
+
+      const compensation = this.compensations[step.name];
+      try {
+        if (!compensation) {
+          throw new Error(`No compensation registered for saga step "${step.name}"`);
+        }
+
+        console.log(`Compensating saga step ${step.name}...`);
+        await compensation(step.context);
+        step.status = 'compensated';
+        delete step.error;
+      } catch (error) {
+        allCompensated = false;
+        step.status = 'compensation_failed';
+        step.error = error instanceof Error ? error.message : String(error);
+        console.error(`Compensation failed for saga step ${step.name}:`, error);
+      }
+
+      await this.persistQuietly();
+    }
+
+    this.record.status = allCompensated ? 'compensated' : 'compensation_failed';
+    await this.persistQuietly();
+
+    return allCompensated;
+  }
+
+  /**
+   * Finish rollbacks for sagas that were cut off (process died or compensation failed)
+   *
+   * Each saga is claimed with a conditional update on updated_at, so
+   * overlapping runs never compensate the same saga twice.
+   *
+   * @param supabase Service-role Supabase client
+   * @param registries Compensation registries by saga type
+   * @param options Recovery options
+   */
+  static async finishStaleSagas(
+    supabase: SupabaseClient,
+    registries: Record<string, SagaCompensations>,
+    options: FinishStaleSagasOptions = {}
+  ): Promise<FinishStaleSagasSummary> {
+    const staleAfterMinutes = options.staleAfterMinutes ?? 15;
+    const cutoff = new Date(Date.now() - staleAfterMinutes * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('saga_runs')
+      .select('*')
+      .in('status', ['running', 'compensating', 'compensation_failed'])
+      .in('saga_type', Object.keys(registries))
+      .lt('updated_at', cutoff)
+      .lt('attempts', options.maxAttempts ?? 5)
+      .order('updated_at', { ascending: true })
+      .limit(options.limit ?? 25);
+
+    if (error) {
+      throw error;
+    }
+
+    const summary: FinishStaleSagasSummary = { completed: 0, claimed: 0, compensated: 0, failed: 0 };
+
+    for (const row of (data || []) as SagaRunRecord[]) {
+      // A running saga may have finished without recording it - check
+      // before touching anything it created
+      const commitCheck = options.commitChecks?.[row.saga_type];
+      if (row.status === 'running' && commitCheck) {
+        let committed: boolean;
+        try {
+          committed = await commitCheck(row);
+        } catch (error) {
+          console.error(`Commit check failed for saga ${row.id} - leaving it for the next run:`, error);
+          continue;
+        }
+
+        if (committed) {
+          const { data: completed, error: completeError } = await supabase
+            .from('saga_runs')
+            .update({ status: 'completed', updated_at: new Date().toISOString() })
+            .eq('id', row.id)
+            .eq('updated_at', row.updated_at)
+            .select('id')
+            .maybeSingle();
+
+          if (!completeError && completed) {
+            summary.completed += 1;
+            console.log(`Saga ${row.id} (${row.saga_type}) had finished - marked completed`);
+          }
+          continue;
+        }
+      }
+
+      const { data: claimed, error: claimError } = await supabase
+        .from('saga_runs')
+        .update({ status: 'compensating', updated_at: new Date().toISOString() })
+        .eq('id', row.id)
+        .eq('updated_at', row.updated_at)
+        .select('*')
+        .maybeSingle();
+
+      if (claimError || !claimed) {
+        // Another run claimed it first (or it was updated since we read it)
+        continue;
+      }
+
+      summary.claimed += 1;
+      console.log(`Finishing rollback for saga ${row.id} (${row.saga_type}, was ${row.status})`);
+
+      const runner = new SagaRunner(supabase, claimed as SagaRunRecord, registries[row.saga_type]);
+      if (await runner.compensate()) {
+        summary.compensated += 1;
+      } else {
+        summary.failed += 1;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Write the current state to saga_runs
+   */
+  private async persist(): Promise<void> {
+    const updatedAt = new Date().toISOString();
+    const { error } = await this.supabase
+      .from('saga_runs')
+      .update({
+        status: this.record.status,
+        steps: this.record.steps,
+        error: this.record.error,
+        attempts: this.record.attempts,
+        updated_at: updatedAt,
+      })
+      .eq('id', this.record.id);
+
+    if (error) {
+      throw error;
+    }
+
+    this.record.updated_at = updatedAt;
+  }
+
+  /**
+   * Persist during compensation - failures are logged, rollback continues
+   */
+  private async persistQuietly(): Promise<void> {
+    try {
+      await this.persist();
+    } catch (error) {
+      console.error(`Failed to persist saga ${this.record.id}:`, error);
+    }
+  }
+}
+
+export default SagaRunner;
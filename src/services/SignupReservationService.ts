@@ -0,0 +1,268 @@
+/**
+ * SIGNUP RESERVATION SERVICE
+ *
+ * Guards owner signup against duplicate emails. Each signup first reserves
+ * its normalized email in signup_attempts (unique constraint), so two
+ * concurrent signups for the same email cannot both get past step 1.
+ *
+ * FLOW:
+ * 1. reserve()  - insert the reservation; on a unique violation the
+ *                 existing row decides:
+ *                 - completed         → 'registered' (sign in instead)
+ *                 - in_progress       → 'in_progress' while its lease runs
+ *                 - abandoned/expired → taken over by this attempt
+ * 2. complete() - the account exists; the email stays taken
+ * 3. release()  - the signup failed and was rolled back; the email is free
+ *
+ * A signup that dies without releasing keeps its reservation until the
+ * lease runs out (a few minutes), so an owner can simply try again.
+ *
+ * IMPORTANT: Server-side only (requires a service-role Supabase client).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Postgres unique_violation error code
+const UNIQUE_VIOLATION = '23505';
+
+// How long an in_progress reservation blocks other attempts
+const DEFAULT_LEASE_MINUTES = 5;
+
+/**
+ * Reservation status (signup_attempts.status)
+ */
+export type SignupAttemptStatus = 'in_progress' | 'completed' | 'abandoned';
+
+/**
+ * Database row in signup_attempts
+ */
+export interface SignupAttemptRecord {
+  id: string;
+  email_normalized: string;
+  email: string;
+  status: SignupAttemptStatus;
+  plan: string | null;
+  attempts: number;
+  lease_expires_at: string | null;
+  company_id: string | null;
+  last_error: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Result of reserving an email
+ */
+export interface ReserveSignupResult {
+  /**
+   * - reserved: this attempt owns the email
+   * - in_progress: another signup for the email is running (or died recently)
+   * - registered: an account already exists for the email
+   */
+  outcome: 'reserved' | 'in_progress' | 'registered';
+
+  attempt: SignupAttemptRecord;
+}
+
+/**
+ * Signup reservation options
+ */
+export interface SignupReservationServiceOptions {
+  /** Minutes an in_progress reservation blocks other attempts (default: 5) */
+  leaseMinutes?: number;
+
+  /** Clock (for tests) */
+  now?: () => Date;
+}
+
+/**
+ * Email as used for uniqueness (trimmed, lower-cased)
+ */
+export function normalizeSignupEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Signup reservation service
+ *
+ * @example
+ * ```typescript
+ * const reservations = new SignupReservationService(supabase);
+ *
+ * const { outcome, attempt } = await reservations.reserve(email, { plan: 'growth' });
+ * if (outcome !== 'reserved') {
+ *   return conflict(outcome);
+ * }
+ *
+ * // ... create the account ...
+ * await reservations.complete(attempt.id, companyId);
+ * // or, after a rollback:
+ * await reservations.release(attempt.id, error);
+ * ```
+ */
+export class SignupReservationService {
+  private readonly leaseMinutes: number;
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    options: SignupReservationServiceOptions = {}
+  ) {
+    this.leaseMinutes = options.leaseMinutes || DEFAULT_LEASE_MINUTES;
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Reserve an email for a signup
+   *
+   * @param email Email as entered by the owner
+   * @param details.plan Selected plan (kept for support lookups)
+   * @throws The database error if the reservation could not be read or written
+   */
+  async reserve(email: string, details: { plan?: string | null } = {}): Promise<ReserveSignupResult> {
+    const now = this.now();
+    const { data, error } = await this.supabase
+      .from('signup_attempts')
+      .insert({
+        email_normalized: normalizeSignupEmail(email),
+        email: email.trim(),
+        status: 'in_progress',
+        plan: details.plan || null,
+        lease_expires_at: this.leaseUntil(now),
+        created_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (!error) {
+      return { outcome: 'reserved', attempt: data as SignupAttemptRecord };
+    }
+
+    if (error.code !== UNIQUE_VIOLATION) {
+      throw error;
+    }
+
+    const existing = await this.find(email);
+    if (!existing) {
+      // The row was freed (company deleted) between the insert and the read
+      throw new Error(`Signup reservation for ${normalizeSignupEmail(email)} changed while reserving - please retry`);
+    }
+
+    if (existing.status === 'completed') {
+      return { outcome: 'registered', attempt: existing };
+    }
+
+    if (
+      existing.status === 'in_progress' &&
+      existing.lease_expires_at &&
+      new Date(existing.lease_expires_at) > now
+    ) {
+      return { outcome: 'in_progress', attempt: existing };
+    }
+
+    // Abandoned, or its signup died without releasing - take it over
+    // (conditional on the row not having moved, so only one attempt wins)
+    const { data: claimed, error: claimError } = await this.supabase
+      .from('signup_attempts')
+      .update({
+        email: email.trim(),
+        status: 'in_progress',
+        plan: details.plan || existing.plan,
+        attempts: existing.attempts + 1,
+        lease_expires_at: this.leaseUntil(now),
+        last_error: null,
+        updated_at: now.toISOString(),
+      })
+      .eq('id', existing.id)
+      .eq('status', existing.status)
+      .eq('updated_at', existing.updated_at)
+      .select()
+      .maybeSingle();
+
+    if (claimError) {
+      throw claimError;
+    }
+
+    if (!claimed) {
+      const current = await this.find(email);
+      return {
+        outcome: current?.status === 'completed' ? 'registered' : 'in_progress',
+        attempt: current || existing,
+      };
+    }
+
+    console.log(`Signup reservation ${existing.id} taken over (attempt ${existing.attempts + 1})`);
+    return { outcome: 'reserved', attempt: claimed as SignupAttemptRecord };
+  }
+
+  /**
+   * Mark the reservation completed - the email now belongs to an account
+   *
+   * Failures are logged, not thrown: the signup has already succeeded, and
+   * Supabase Auth still rejects a second account for the email.
+   */
+  async complete(attemptId: string, companyId: string): Promise<void> {
+    const now = this.now().toISOString();
+    const { error } = await this.supabase
+      .from('signup_attempts')
+      .update({
+        status: 'completed',
+        company_id: companyId,
+        lease_expires_at: null,
+        completed_at: now,
+        updated_at: now,
+      })
+      .eq('id', attemptId);
+
+    if (error) {
+      console.error(`Failed to complete signup reservation ${attemptId}:`, error);
+    }
+  }
+
+  /**
+   * Free the email after a signup failed and was rolled back
+   *
+   * Failures are logged, not thrown - the lease frees the email anyway.
+   */
+  async release(attemptId: string, cause?: unknown): Promise<void> {
+    const { error } = await this.supabase
+      .from('signup_attempts')
+      .update({
+        status: 'abandoned',
+        lease_expires_at: null,
+        last_error: cause instanceof Error ? cause.message : cause ? String(cause) : null,
+        updated_at: this.now().toISOString(),
+      })
+      .eq('id', attemptId)
+      .eq('status', 'in_progress');
+
+    if (error) {
+      console.error(`Failed to release signup reservation ${attemptId}:`, error);
+    }
+  }
+
+  /**
+   * Current reservation for an email (null if none)
+   */
+  async find(email: string): Promise<SignupAttemptRecord | null> {
+    const { data, error } = await this.supabase
+      .from('signup_attempts')
+      .select('*')
+      .eq('email_normalized', normalizeSignupEmail(email))
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as SignupAttemptRecord | null;
+  }
+
+  private leaseUntil(now: Date): string {
+    return new Date(now.getTime() + this.leaseMinutes * 60 * 1000).toISOString();
+  }
+}
+
+export default SignupReservationService;
@@ -0,0 +1,134 @@
+/**
+ * OWNER SIGNUP SAGA
+ *
+ * Compensations for the signup-with-payment flow. Shared by the signup
+ * function (immediate rollback) and finish-saga-rollbacks (recovery).
+ *
+ * Steps, in execution order:
+ * - plaid_item             { itemId, encryptedAccessToken }
+ *                                              → remove the item at Plaid
+ * - stripe_customer        { customerId }      → delete the Stripe customer
+ * - stripe_payment_method  { paymentMethodId } → detach from the customer
+ * - auth_user              { userId }          → delete the Supabase Auth user
+ * - company                { companyId }       → delete users + companies rows
+ * - stripe_subscription    { subscriptionId }  → cancel immediately
+ *
+ * The subscription is the final step: once it exists the signup has
+ * succeeded, so createSignupCommitCheck() keeps recovery from rolling back
+ * a signup whose completion was never recorded.
+ *
+ * The Plaid access token is only stored as a TokenKeyring envelope bound to
+ * the item ID (the same encryption as plaid_items), never in plain text.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import PlaidService from './PlaidService';
+import StripeService from './StripeService';
+import { TokenKeyring } from './TokenEncryption';
+import type { SagaCommitCheck, SagaCompensations } from './SagaRunner';
+
+/**
+ * Saga type stored in saga_runs.saga_type
+ */
+export const SIGNUP_SAGA_TYPE = 'owner_signup';
+
+/**
+ * Build the signup compensation registry
+ *
+ * @param supabase Service-role Supabase client
+ */
+export function createSignupCompensations(supabase: SupabaseClient): SagaCompensations {
+  return {
+    plaid_item: async ({ itemId, encryptedAccessToken }) => {
+      const accessToken = TokenKeyring.fromEnv().decrypt(String(encryptedAccessToken), String(itemId));
+      const result = await PlaidService.getInstance().removeItem({ accessToken });
+      if (!result.success && result.error?.code !== 'ITEM_NOT_FOUND') {
+        throw new Error(result.error?.message || 'Failed to remove Plaid item');
+      }
+    },
+
+    stripe_customer: async ({ customerId }) => {
+      const result = await StripeService.getInstance().deleteCustomer(String(customerId));
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to delete Stripe customer');
+      }
+    },
+
+    stripe_payment_method: async ({ paymentMethodId }) => {
+      const result = await StripeService.getInstance().detachPaymentMethod(String(paymentMethodId));
+      // Already detached (or deleted with the customer) - nothing left to undo
+      const alreadyGone = ['payment_method_unexpected_state', 'resource_missing'].includes(result.error?.code || '');
+      if (!result.success && !alreadyGone) {
+        throw new Error(result.error?.message || 'Failed to detach payment method');
+      }
+    },
+
+    auth_user: async ({ userId }) => {
+      const { error } = await supabase.auth.admin.deleteUser(String(userId));
+      if (error && error.status !== 404) {
+        throw error;
+      }
+    },
+
+    company: async ({ companyId }) => {
+      const { error: userError } = await supabase
+        .from('users')
+        .delete()
+        .eq('company_id', companyId);
+
+      if (userError) {
+        throw userError;
+      }
+
+      const { error: companyError } = await supabase
+        .from('companies')
+        .delete()
+        .eq('id', companyId);
+
+      if (companyError) {
+        throw companyError;
+      }
+    },
+
+    stripe_subscription: async ({ subscriptionId }) => {
+      const result = await StripeService.getInstance().cancelSubscription(String(subscriptionId), true);
+      if (!result.success && result.error?.code !== 'resource_missing') {
+        throw new Error(result.error?.message || 'Failed to cancel subscription');
+      }
+    },
+  };
+}
+
+/**
+ * Build the signup commit check (see SagaRunner.finishStaleSagas)
+ *
+ * A signup is committed once its subscription exists: the step was
+ * recorded, or the company was linked to a subscription (by the signup or
+ * by the customer.subscription.created webhook).
+ *
+ * @param supabase Service-role Supabase client
+ */
+export function createSignupCommitCheck(supabase: SupabaseClient): SagaCommitCheck {
+  return async record => {
+    if (record.steps.some(step => step.name === 'stripe_subscription')) {
+      return true;
+    }
+
+    const companyId = record.steps.find(step => step.name === 'company')?.context.companyId;
+    if (!companyId) {
+      return false;
+    }
+
+    const { data, error } = await supabase
+      .from('companies')
+      .select('stripe_subscription_id')
+      .eq('id', companyId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return Boolean(data?.stripe_subscription_id);
+  };
+}
@@ -26,32 +26,134 @@ import type {
   CreateStripePaymentResponse,
   CreateStripeSubscriptionParams,
   CreateStripeSubscriptionResponse,
+  UpdateStripeSubscriptionParams,
+  SubscriptionPlanChangeType,
+  SubscriptionPlanChangeTiming,
+  SubscriptionProrationPreview,
+  ListStripeInvoicesParams,
+  ListStripeInvoicesResponse,
+  StripeInvoiceSummary,
+  StripeInvoiceStatus,
+  CreateStripeSetupIntentParams,
+  CreateStripeSetupIntentResponse,
+  StripeSetupIntentStatus,
+  StripeSetupIntentDetails,
+  VerifyStripeMicrodepositsParams,
   StripeCustomer,
   StripePaymentMethod,
   StripePaymentIntent,
   StripeSubscription,
   StripePaymentStatus,
   StripeSubscriptionStatus,
+  StripeBillingInterval,
   StripeServiceResponse,
   StripeServiceError,
   StripeWebhookEvent,
   WebhookVerificationResult,
   StripeMandateData,
+  StripeError,
+  StripeErrorType,
+  StripeErrorCode,
+} from '../types/stripe-payment';
+import {
   dollarsToCents,
   centsToDollars,
   validatePaymentAmount,
   isRetryableStripeError,
-  StripeError,
-  StripeErrorType,
-  StripeErrorCode,
+  isTradespherePlanType,
 } from '../types/stripe-payment';
+import { PLAN_CATALOG, getPlanPrice, getStripePriceId } from '../config/planCatalog';
+
+/**
+ * Plan a subscription is on (or moving to)
+ */
+interface SubscriptionPlanState {
+  planType: string;
+  interval: StripeBillingInterval;
+  amountInCents: number;
+  priceId: string;
+}
+
+/**
+ * Resolved plan change for a subscription
+ */
+interface ResolvedPlanChange {
+  subscription: Stripe.Subscription;
+  item: Stripe.SubscriptionItem;
+  current: SubscriptionPlanState;
+  next: SubscriptionPlanState;
+  changeType: SubscriptionPlanChangeType;
+  timing: SubscriptionPlanChangeTiming;
+}
+
+// Subscription metadata cleared once a scheduled plan change takes effect
+const PENDING_PLAN_METADATA = {
+  pending_plan_type: '',
+  pending_billing_interval: '',
+  pending_change_at: '',
+};
+
+/**
+ * Configuration for one StripeService instance
+ */
+export interface StripeServiceConfig {
+  /** Secret or restricted API key - decides test vs live mode */
+  secretKey?: string;
+
+  /** Endpoint secret used by constructWebhookEvent when none is passed */
+  webhookSecret?: string;
+
+  /** Send API requests here instead of api.stripe.com (test keys only) */
+  apiBaseUrl?: string;
+
+  /** Product new prices are created under (default: a new product per price) */
+  productId?: string;
+
+  /** Ready-made Stripe client (e.g. a test double) - secretKey and apiBaseUrl are then unused */
+  client?: Stripe;
+}
+
+/**
+ * Read the default StripeService configuration from the environment
+ */
+export function stripeConfigFromEnv(): StripeServiceConfig {
+  if (!process.env.STRIPE_WEBHOOK_SECRET) {
+    console.warn(
+      'STRIPE_WEBHOOK_SECRET not configured. Webhook signature verification will fail.'
+    );
+  }
+
+  return {
+    secretKey: process.env.STRIPE_SECRET_KEY,
+    webhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
+    apiBaseUrl: process.env.STRIPE_API_BASE_URL,
+    productId: process.env.STRIPE_PRODUCT_ID,
+  };
+}
 
 /**
- * Stripe service singleton for ACH payment processing
+ * Create a StripeService for an explicit account and mode
  *
  * @example
  * ```typescript
- * const stripe = StripeService.getInstance();
+ * // Test and live mode side by side (e.g. an admin tool)
+ * const testStripe = createStripeService({ secretKey: process.env.STRIPE_TEST_SECRET_KEY });
+ * const liveStripe = createStripeService({ secretKey: process.env.STRIPE_LIVE_SECRET_KEY });
+ *
+ * // Around a test double
+ * const stripe = createStripeService({ client: fakeStripeClient as unknown as Stripe });
+ * ```
+ */
+export function createStripeService(config: StripeServiceConfig): StripeService {
+  return new StripeService(config);
+}
+
+/**
+ * Stripe service for ACH payment processing
+ *
+ * @example
+ * ```typescript
+ * const stripe = StripeService.getInstance(); // or createStripeService(config)
  *
  * // Create customer
  * const { data: customer } = await stripe.createCustomer({
@@ -80,15 +182,33 @@ import type {
  */
 export class StripeService {
   private stripe: Stripe;
-  private static instance: StripeService;
+  private static instance: StripeService | undefined;
+  private readonly webhookSecret?: string;
+  private readonly productId?: string;
+
+  /** True when the service talks to Stripe live mode */
+  readonly livemode: boolean;
 
   /**
-   * Private constructor for singleton pattern
+   * Create a service for one Stripe account and mode
+   *
+   * Prefer createStripeService(config), or StripeService.getInstance() for
+   * the account configured in the environment.
    *
    * SECURITY: Stripe credentials must ONLY be available server-side.
    * This service should only be used in Netlify functions, never in browser code.
    */
-  private constructor() {
+  constructor(config: StripeServiceConfig) {
+    this.webhookSecret = config.webhookSecret;
+    this.productId = config.productId;
+    this.livemode = /^(sk|rk)_live_/.test(config.secretKey || '');
+
+    // An injected client (e.g. a test double) carries no key of ours
+    if (config.client) {
+      this.stripe = config.client;
+      return;
+    }
+
     // Validate environment
     if (typeof window !== 'undefined') {
       throw new Error(
@@ -97,43 +217,53 @@ export class StripeService {
       );
     }
 
-    // Validate environment variables (server-side only)
-    const secretKey = process.env.STRIPE_SECRET_KEY;
-    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
-
-    if (!secretKey) {
+    if (!config.secretKey) {
       throw new Error(
         'Stripe secret key not configured. Set STRIPE_SECRET_KEY environment variable. ' +
         'This service can only be used server-side (Netlify functions), never in browser code.'
       );
     }
 
-    if (!webhookSecret) {
-      console.warn(
-        'STRIPE_WEBHOOK_SECRET not configured. Webhook signature verification will fail.'
-      );
+    // apiBaseUrl points the client at a local stand-in
+    // (src/testing/FakeStripeServer) - never with a live key
+    if (config.apiBaseUrl && this.livemode) {
+      throw new Error('STRIPE_API_BASE_URL cannot be used with a live Stripe key.');
     }
+    const apiHost = config.apiBaseUrl ? new URL(config.apiBaseUrl) : null;
 
     // Initialize Stripe with production-ready configuration
-    this.stripe = new Stripe(secretKey, {
+    this.stripe = new Stripe(config.secretKey, {
       apiVersion: '2024-11-20.acacia',
       typescript: true,
       maxNetworkRetries: 3, // Automatic retry for network failures
       timeout: 30000, // 30 second timeout
       telemetry: false, // Disable telemetry for privacy
+      ...(apiHost ? {
+        host: apiHost.hostname,
+        port: apiHost.port ? Number(apiHost.port) : undefined,
+        protocol: apiHost.protocol === 'http:' ? 'http' : 'https',
+      } : {}),
     });
   }
 
   /**
-   * Get singleton instance
+   * Get the default instance, configured from the environment
    */
   public static getInstance(): StripeService {
     if (!StripeService.instance) {
-      StripeService.instance = new StripeService();
+      StripeService.instance = createStripeService(stripeConfigFromEnv());
     }
     return StripeService.instance;
   }
 
+  /**
+   * Replace the default instance (e.g. with one built around a test
+   * double). Pass undefined to go back to the environment configuration.
+   */
+  public static setInstance(instance: StripeService | undefined): void {
+    StripeService.instance = instance;
+  }
+
   // ============================================================================
   // CUSTOMER MANAGEMENT
   // ============================================================================
@@ -337,10 +467,247 @@ export class StripeService {
     }
   }
 
+  /**
+   * Find an existing customer by email address
+   *
+   * Used to avoid creating duplicate customers when an owner restarts signup.
+   *
+   * @param email Customer email
+   * @returns Most recently created matching customer, or null if none exists
+   *
+   * @example
+   * ```typescript
+   * const { data: existing } = await stripe.findCustomerByEmail('owner@company.com');
+   * if (existing) {
+   *   console.log('Reusing customer', existing.id);
+   * }
+   * ```
+   */
+  async findCustomerByEmail(email: string): Promise<StripeServiceResponse<StripeCustomer | null>> {
+    try {
+      if (!email || !email.includes('@')) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_EMAIL',
+            message: 'Invalid email address provided',
+            userMessage: 'Please provide a valid email address.',
+          },
+        };
+      }
+
+      const customers = await this.stripe.customers.list({
+        email: email.toLowerCase(),
+        limit: 1,
+      });
+
+      const customer = customers.data[0];
+
+      return {
+        success: true,
+        data: customer ? this.mapStripeCustomer(customer) : null,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to look up customer');
+    }
+  }
+
+  /**
+   * Delete a customer (cancels their subscriptions and detaches payment methods)
+   *
+   * Used to compensate a failed signup. Already-deleted customers count as success.
+   *
+   * @param customerId Customer ID
+   * @returns Whether the customer is deleted
+   */
+  async deleteCustomer(customerId: string): Promise<StripeServiceResponse<{ deleted: boolean }>> {
+    try {
+      const result = await this.stripe.customers.del(customerId);
+
+      return {
+        success: true,
+        data: { deleted: result.deleted },
+      };
+    } catch (error) {
+      if ((error as Stripe.errors.StripeError).code === 'resource_missing') {
+        return { success: true, data: { deleted: true } };
+      }
+
+      return this.handleError(error, 'Failed to delete customer');
+    }
+  }
+
   // ============================================================================
   // PAYMENT METHOD MANAGEMENT
   // ============================================================================
 
+  /**
+   * Create a SetupIntent for collecting an ACH bank account
+   *
+   * The client secret is handed to the Payment Element, which runs Stripe's
+   * built-in Plaid (Financial Connections) flow for instant verification.
+   *
+   * @param params SetupIntent parameters
+   * @returns SetupIntent ID and client secret
+   *
+   * @example
+   * ```typescript
+   * const { data } = await stripe.createSetupIntent({
+   *   customerId: 'cus_xxx',
+   *   metadata: { subscription_tier: 'growth' }
+   * });
+   * console.log(data.clientSecret); // seti_xxx_secret_xxx
+   * ```
+   */
+  async createSetupIntent(
+    params: CreateStripeSetupIntentParams
+  ): Promise<StripeServiceResponse<CreateStripeSetupIntentResponse>> {
+    try {
+      if (!params.customerId || !params.customerId.startsWith('cus_')) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_CUSTOMER_ID',
+            message: `Invalid customer ID format: ${params.customerId}`,
+            userMessage: 'Invalid customer identifier.',
+          },
+        };
+      }
+
+      const setupIntent = await this.stripe.setupIntents.create({
+        customer: params.customerId,
+        payment_method_types: ['us_bank_account'],
+        payment_method_options: {
+          us_bank_account: {
+            verification_method: params.verificationMethod || 'automatic',
+            financial_connections: {
+              permissions: ['payment_method'],
+            },
+          },
+        },
+        // Payment method will be charged by the subscription, not the customer
+        usage: 'off_session',
+        metadata: {
+          ...params.metadata,
+        },
+      });
+
+      if (!setupIntent.client_secret) {
+        return {
+          success: false,
+          error: {
+            code: 'SETUP_INTENT_FAILED',
+            message: `SetupIntent ${setupIntent.id} was created without a client secret`,
+            userMessage: 'Unable to initialize bank account setup. Please try again.',
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          setupIntentId: setupIntent.id,
+          clientSecret: setupIntent.client_secret,
+          status: setupIntent.status as StripeSetupIntentStatus,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to create setup intent');
+    }
+  }
+
+  /**
+   * Get a SetupIntent with its bank account and micro-deposit status
+   *
+   * @param setupIntentId Setup intent ID (seti_xxx)
+   */
+  async getSetupIntent(setupIntentId: string): Promise<StripeServiceResponse<StripeSetupIntentDetails>> {
+    try {
+      const setupIntent = await this.stripe.setupIntents.retrieve(setupIntentId, {
+        expand: ['payment_method'],
+      });
+
+      return { success: true, data: this.mapStripeSetupIntent(setupIntent) };
+    } catch (error) {
+      return this.handleError(error, 'Failed to retrieve setup intent');
+    }
+  }
+
+  /**
+   * Get a SetupIntent by its client secret
+   *
+   * The client secret is only handed to the browser that started the setup,
+   * so a match proves the caller owns the SetupIntent (and its customer).
+   *
+   * @param clientSecret Client secret (seti_xxx_secret_xxx)
+   */
+  async getSetupIntentByClientSecret(
+    clientSecret: string
+  ): Promise<StripeServiceResponse<StripeSetupIntentDetails>> {
+    const mismatch: StripeServiceResponse<StripeSetupIntentDetails> = {
+      success: false,
+      error: {
+        code: 'SETUP_INTENT_MISMATCH',
+        message: 'SetupIntent client secret does not match',
+        userMessage: 'Your bank account setup could not be verified. Please start again.',
+      },
+    };
+
+    const setupIntentId = String(clientSecret).split('_secret_')[0];
+    if (!setupIntentId.startsWith('seti_') || setupIntentId === clientSecret) {
+      return mismatch;
+    }
+
+    try {
+      const setupIntent = await this.stripe.setupIntents.retrieve(setupIntentId, {
+        expand: ['payment_method'],
+      });
+
+      const expected = Buffer.from(setupIntent.client_secret || '');
+      const actual = Buffer.from(clientSecret);
+      if (expected.length === 0 || expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return mismatch;
+      }
+
+      return { success: true, data: this.mapStripeSetupIntent(setupIntent) };
+    } catch (error) {
+      return this.handleError(error, 'Failed to retrieve setup intent');
+    }
+  }
+
+  /**
+   * Verify a bank account with the micro-deposit values the customer entered
+   *
+   * Stripe allows 10 failed attempts before the SetupIntent must be
+   * recreated - callers should enforce their own, lower limit.
+   *
+   * @param params Setup intent and either the two amounts or the descriptor code
+   * @returns Updated SetupIntent (status 'succeeded' once verified)
+   *
+   * @example
+   * ```typescript
+   * const { data } = await stripe.verifyMicrodeposits({
+   *   setupIntentId: 'seti_xxx',
+   *   amounts: [32, 45]
+   * });
+   * console.log(data.status); // succeeded
+   * ```
+   */
+  async verifyMicrodeposits(
+    params: VerifyStripeMicrodepositsParams
+  ): Promise<StripeServiceResponse<StripeSetupIntentDetails>> {
+    try {
+      const setupIntent = await this.stripe.setupIntents.verifyMicrodeposits(params.setupIntentId, {
+        ...(params.amounts ? { amounts: params.amounts } : { descriptor_code: params.descriptorCode }),
+        expand: ['payment_method'],
+      });
+
+      return { success: true, data: this.mapStripeSetupIntent(setupIntent) };
+    } catch (error) {
+      return this.handleError(error, 'Failed to verify micro-deposits');
+    }
+  }
+
   /**
    * Create ACH payment method from Plaid processor token
    *
@@ -480,16 +847,42 @@ export class StripeService {
     }
   }
 
+  /**
+   * Detach a payment method from its customer
+   *
+   * @param paymentMethodId Payment method ID
+   * @returns Detached payment method
+   */
+  async detachPaymentMethod(
+    paymentMethodId: string
+  ): Promise<StripeServiceResponse<StripePaymentMethod>> {
+    try {
+      const paymentMethod = await this.stripe.paymentMethods.detach(paymentMethodId);
+
+      return {
+        success: true,
+        data: this.mapStripePaymentMethod(paymentMethod),
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to detach payment method');
+    }
+  }
+
   /**
    * Set default payment method for a customer
    *
+   * Subscriptions created with their own default_payment_method ignore the
+   * customer default - pass subscriptionId to switch the subscription too.
+   *
    * @param customerId Customer ID
    * @param paymentMethodId Payment method ID
+   * @param subscriptionId Subscription to charge with this payment method
    * @returns Updated customer
    */
   async setDefaultPaymentMethod(
     customerId: string,
-    paymentMethodId: string
+    paymentMethodId: string,
+    subscriptionId?: string
   ): Promise<StripeServiceResponse<StripeCustomer>> {
     try {
       const customer = await this.stripe.customers.update(customerId, {
@@ -498,6 +891,12 @@ export class StripeService {
         },
       });
 
+      if (subscriptionId) {
+        await this.stripe.subscriptions.update(subscriptionId, {
+          default_payment_method: paymentMethodId,
+        });
+      }
+
       return {
         success: true,
         data: this.mapStripeCustomer(customer),
@@ -774,7 +1173,8 @@ export class StripeService {
       const subscriptionParams: Stripe.SubscriptionCreateParams = {
         customer: params.customerId,
         items: [{ price: priceId }],
-        payment_behavior: 'default_incomplete',
+        payment_behavior: params.paymentBehavior || 'default_incomplete',
+        default_payment_method: params.defaultPaymentMethodId,
         payment_settings: {
           payment_method_types: ['us_bank_account'],
           save_default_payment_method: 'on_subscription',
@@ -790,10 +1190,17 @@ export class StripeService {
         billing_cycle_anchor: params.billingAnchor
           ? this.calculateBillingAnchor(params.billingAnchor)
           : undefined,
-        trial_period_days: params.trialDays,
+        trial_period_days: params.trialEnd ? undefined : params.trialDays,
+        trial_end: params.trialEnd ? Math.floor(params.trialEnd.getTime() / 1000) : undefined,
+        trial_settings: params.trialEnd || params.trialDays
+          ? { end_behavior: { missing_payment_method: 'pause' } }
+          : undefined,
       };
 
-      const subscription = await this.stripe.subscriptions.create(subscriptionParams);
+      const subscription = await this.stripe.subscriptions.create(
+        subscriptionParams,
+        params.idempotencyKey ? { idempotencyKey: params.idempotencyKey } : undefined
+      );
 
       const response: CreateStripeSubscriptionResponse = {
         subscriptionId: subscription.id,
@@ -819,28 +1226,97 @@ export class StripeService {
     }
   }
 
+  /**
+   * Get a subscription
+   *
+   * @param subscriptionId Subscription ID
+   * @returns Subscription
+   */
+  async getSubscription(
+    subscriptionId: string
+  ): Promise<StripeServiceResponse<StripeSubscription>> {
+    try {
+      const subscription = await this.stripe.subscriptions.retrieve(subscriptionId);
+
+      return {
+        success: true,
+        data: this.mapStripeSubscription(subscription),
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to retrieve subscription');
+    }
+  }
+
+  /**
+   * Whether a customer has ever had a subscription (any status, canceled included)
+   *
+   * @param customerId Customer ID
+   * @returns True if at least one subscription exists
+   */
+  async hasSubscriptions(customerId: string): Promise<StripeServiceResponse<boolean>> {
+    try {
+      const subscriptions = await this.stripe.subscriptions.list({
+        customer: customerId,
+        status: 'all',
+        limit: 1,
+      });
+
+      return {
+        success: true,
+        data: subscriptions.data.length > 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to list subscriptions');
+    }
+  }
+
   /**
    * Update a subscription
    *
+   * Metadata and trialEnd updates are applied directly. Setting planType,
+   * amount or interval changes the plan:
+   * - Upgrades apply immediately and invoice the prorated difference
+   * - Downgrades and annual → monthly switches are scheduled for the end of
+   *   the current period (subscription metadata gets pending_plan_type,
+   *   pending_billing_interval and pending_change_at until then)
+   *
    * @param subscriptionId Subscription ID
    * @param updates Subscription updates
    * @returns Updated subscription
+   *
+   * @example
+   * ```typescript
+   * // Starter → Growth mid-cycle
+   * const { data } = await stripe.updateSubscription('sub_xxx', {
+   *   planType: 'growth',
+   *   interval: 'month'
+   * });
+   * ```
    */
   async updateSubscription(
     subscriptionId: string,
-    updates: Partial<CreateStripeSubscriptionParams>
+    updates: UpdateStripeSubscriptionParams
   ): Promise<StripeServiceResponse<StripeSubscription>> {
     try {
+      // Handle plan changes if plan, amount or interval changes
+      if (
+        updates.planType !== undefined ||
+        updates.amount !== undefined ||
+        updates.interval !== undefined
+      ) {
+        return await this.changePlan(subscriptionId, updates);
+      }
+
       const updateParams: Stripe.SubscriptionUpdateParams = {};
 
       if (updates.metadata) {
         updateParams.metadata = updates.metadata;
       }
 
-      // Handle plan changes if amount or interval changes
-      if (updates.amount !== undefined || updates.interval !== undefined) {
-        // This would require updating the subscription items
-        // Implementation depends on your pricing model
+      // Moving the trial end never prorates - nothing has been billed yet
+      if (updates.trialEnd) {
+        updateParams.trial_end = Math.floor(updates.trialEnd.getTime() / 1000);
+        updateParams.proration_behavior = 'none';
       }
 
       const subscription = await this.stripe.subscriptions.update(
@@ -857,6 +1333,120 @@ export class StripeService {
     }
   }
 
+  /**
+   * Preview a plan change without committing it
+   *
+   * Upgrades show the prorated amount invoiced immediately. Downgrades show
+   * when the new plan starts (nothing is charged until then).
+   *
+   * @param subscriptionId Subscription ID
+   * @param change Requested plan (planType, interval and/or amount)
+   * @returns Proration preview - pass prorationDate to updateSubscription()
+   *
+   * @example
+   * ```typescript
+   * const { data } = await stripe.previewPlanChange('sub_xxx', { planType: 'growth' });
+   * console.log(data.amountDueNow); // 133.21
+   * ```
+   */
+  async previewPlanChange(
+    subscriptionId: string,
+    change: UpdateStripeSubscriptionParams
+  ): Promise<StripeServiceResponse<SubscriptionProrationPreview>> {
+    try {
+      const plan = await this.resolvePlanChange(subscriptionId, change);
+      if (!plan.success || !plan.data) {
+        return { success: false, error: plan.error };
+      }
+
+      const { subscription, item, current, next, changeType, timing } = plan.data;
+      const prorationDate = change.prorationDate || Math.floor(Date.now() / 1000);
+
+      const preview: SubscriptionProrationPreview = {
+        subscriptionId,
+        currentPlanType: current.planType,
+        currentInterval: current.interval,
+        currentAmount: centsToDollars(current.amountInCents),
+        newPlanType: next.planType,
+        newInterval: next.interval,
+        newAmount: centsToDollars(next.amountInCents),
+        changeType,
+        timing,
+        effectiveAt: timing === 'immediately' ? prorationDate : subscription.current_period_end,
+        prorationAmount: 0,
+        amountDueNow: 0,
+        currency: item.price.currency,
+        prorationDate,
+        lines: [],
+      };
+
+      if (timing === 'immediately' && changeType !== 'none') {
+        const invoice = await this.stripe.invoices.retrieveUpcoming({
+          customer: typeof subscription.customer === 'string'
+            ? subscription.customer
+            : subscription.customer.id,
+          subscription: subscriptionId,
+          subscription_items: [{ id: item.id, price: next.priceId }],
+          subscription_proration_behavior: 'always_invoice',
+          subscription_proration_date: prorationDate,
+        });
+
+        // An interval switch restarts the billing period, so the whole
+        // upcoming invoice is due now. Otherwise only the prorations are.
+        const intervalChanged = current.interval !== next.interval;
+        const dueLines = intervalChanged
+          ? invoice.lines.data
+          : invoice.lines.data.filter(line => line.proration && line.period.start === prorationDate);
+
+        preview.lines = dueLines.map(line => ({
+          description: line.description || '',
+          amount: centsToDollars(line.amount),
+          proration: line.proration,
+        }));
+        preview.prorationAmount = centsToDollars(
+          dueLines.filter(line => line.proration).reduce((sum, line) => sum + line.amount, 0)
+        );
+        preview.amountDueNow = intervalChanged
+          ? centsToDollars(invoice.amount_due)
+          : Math.max(0, centsToDollars(dueLines.reduce((sum, line) => sum + line.amount, 0)));
+      }
+
+      return {
+        success: true,
+        data: preview,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to preview plan change');
+    }
+  }
+
+  /**
+   * Resume a paused subscription and bill it from today
+   *
+   * Used when a trial ended without a payment method (Stripe paused the
+   * subscription) and the owner has since added one.
+   *
+   * @param subscriptionId Subscription ID
+   * @returns Resumed subscription
+   */
+  async resumeSubscription(
+    subscriptionId: string
+  ): Promise<StripeServiceResponse<StripeSubscription>> {
+    try {
+      const subscription = await this.stripe.subscriptions.resume(subscriptionId, {
+        billing_cycle_anchor: 'now',
+        proration_behavior: 'none',
+      });
+
+      return {
+        success: true,
+        data: this.mapStripeSubscription(subscription),
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to resume subscription');
+    }
+  }
+
   /**
    * Cancel a subscription
    *
@@ -888,6 +1478,132 @@ export class StripeService {
     }
   }
 
+  // ============================================================================
+  // INVOICES
+  // ============================================================================
+
+  /**
+   * List a customer's invoices, newest first
+   *
+   * @param params Customer and paging options
+   * @returns Page of invoices
+   *
+   * @example
+   * ```typescript
+   * const { data } = await stripe.listInvoices({ customerId: 'cus_xxx', limit: 10 });
+   * data.invoices.forEach(inv => console.log(inv.number, inv.amountDue));
+   * if (data.hasMore) {
+   *   // next page: startingAfter = data.invoices[data.invoices.length - 1].id
+   * }
+   * ```
+   */
+  async listInvoices(
+    params: ListStripeInvoicesParams
+  ): Promise<StripeServiceResponse<ListStripeInvoicesResponse>> {
+    try {
+      const invoices = await this.stripe.invoices.list({
+        customer: params.customerId,
+        limit: Math.min(Math.max(params.limit || 20, 1), 100),
+        starting_after: params.startingAfter,
+        status: params.status,
+      });
+
+      return {
+        success: true,
+        data: {
+          invoices: invoices.data.map(invoice => this.mapStripeInvoice(invoice)),
+          hasMore: invoices.has_more,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to list invoices');
+    }
+  }
+
+  /**
+   * Retry collection of an open invoice with the customer's default payment method
+   *
+   * ACH debits settle asynchronously - the returned invoice is usually still
+   * 'open' and the outcome arrives as payment_intent.succeeded/payment_failed.
+   * An invoice that is already paid is treated as success.
+   *
+   * @param invoiceId Stripe invoice ID (in_xxx)
+   * @returns Invoice after the payment attempt
+   *
+   * @example
+   * ```typescript
+   * const result = await stripe.retryInvoicePayment('in_xxx');
+   * if (!result.success) {
+   *   console.error(result.error.message);
+   * }
+   * ```
+   */
+  async retryInvoicePayment(invoiceId: string): Promise<StripeServiceResponse<StripeInvoiceSummary>> {
+    try {
+      const invoice = await this.stripe.invoices.retrieve(invoiceId);
+      if (invoice.status === 'paid') {
+        return { success: true, data: this.mapStripeInvoice(invoice) };
+      }
+
+      const paid = await this.stripe.invoices.pay(invoiceId);
+
+      return { success: true, data: this.mapStripeInvoice(paid) };
+    } catch (error) {
+      return this.handleError(error, 'Failed to retry invoice payment');
+    }
+  }
+
+  /**
+   * Stop Stripe from automatically finalizing (and debiting) a draft invoice
+   *
+   * Subscription renewals are created as drafts and finalized about an hour
+   * later. A held invoice stays a draft until finalizeInvoice() is called.
+   *
+   * @param invoiceId Stripe draft invoice ID (in_xxx)
+   * @returns Updated invoice
+   *
+   * @example
+   * ```typescript
+   * await stripe.holdInvoice('in_xxx');
+   * // ...later
+   * await stripe.finalizeInvoice('in_xxx');
+   * ```
+   */
+  async holdInvoice(invoiceId: string): Promise<StripeServiceResponse<StripeInvoiceSummary>> {
+    try {
+      const invoice = await this.stripe.invoices.update(invoiceId, { auto_advance: false });
+
+      return { success: true, data: this.mapStripeInvoice(invoice) };
+    } catch (error) {
+      return this.handleError(error, 'Failed to hold invoice');
+    }
+  }
+
+  /**
+   * Finalize a held draft invoice and let Stripe collect it
+   *
+   * The debit starts right after finalization; its outcome arrives as
+   * payment_intent.succeeded/payment_failed. An invoice that is no longer a
+   * draft is returned unchanged.
+   *
+   * @param invoiceId Stripe invoice ID (in_xxx)
+   * @returns Finalized invoice
+   */
+  async finalizeInvoice(invoiceId: string): Promise<StripeServiceResponse<StripeInvoiceSummary>> {
+    try {
+      const invoice = await this.stripe.invoices.retrieve(invoiceId);
+      if (invoice.status !== 'draft') {
+        return { success: true, data: this.mapStripeInvoice(invoice) };
+      }
+
+      const finalized = await this.stripe.invoices.finalizeInvoice(invoiceId, { auto_advance: true });
+
+      return { success: true, data: this.mapStripeInvoice(finalized) };
+    } catch (error) {
+      return this.handleError(error, 'Failed to finalize invoice');
+    }
+  }
+
   // ============================================================================
   // WEBHOOK HANDLING
   // ============================================================================
@@ -1005,7 +1721,7 @@ export class StripeService {
   }
 
   /**
-   * Construct webhook event using Stripe SDK (alternative method)
+   * Construct webhook event using Stripe SDK (alternative method, default instance)
    *
    * @param signature stripe-signature header
    * @param payload Raw request body
@@ -1017,10 +1733,29 @@ export class StripeService {
     payload: string | Buffer,
     secret: string
   ): StripeWebhookEvent | null {
+    return StripeService.getInstance().constructWebhookEvent(signature, payload, secret);
+  }
+
+  /**
+   * Construct webhook event using this instance's Stripe client
+   *
+   * @param signature stripe-signature header
+   * @param payload Raw request body
+   * @param secret Webhook secret (default: the configured webhookSecret)
+   * @returns Verified webhook event
+   */
+  constructWebhookEvent(
+    signature: string,
+    payload: string | Buffer,
+    secret: string | undefined = this.webhookSecret
+  ): StripeWebhookEvent | null {
+    if (!secret) {
+      console.error('Failed to construct webhook event: no webhook secret configured');
+      return null;
+    }
+
     try {
-      // This requires access to the Stripe instance, so we use the singleton
-      const stripe = StripeService.getInstance();
-      const event = stripe.stripe.webhooks.constructEvent(payload, signature, secret);
+      const event = this.stripe.webhooks.constructEvent(payload, signature, secret);
       return event as StripeWebhookEvent;
     } catch (error: any) {
       console.error('Failed to construct webhook event:', error);
@@ -1032,6 +1767,209 @@ export class StripeService {
   // UTILITY METHODS
   // ============================================================================
 
+  /**
+   * Work out what a plan change means for a subscription
+   *
+   * The target amount defaults to the catalog price for the target plan and
+   * interval. Changes are compared by monthly-equivalent price.
+   */
+  private async resolvePlanChange(
+    subscriptionId: string,
+    change: UpdateStripeSubscriptionParams
+  ): Promise<StripeServiceResponse<ResolvedPlanChange>> {
+    const subscription = await this.stripe.subscriptions.retrieve(subscriptionId);
+    const item = subscription.items.data[0];
+
+    if (!item || subscription.items.data.length > 1) {
+      return {
+        success: false,
+        error: {
+          code: 'UNSUPPORTED_SUBSCRIPTION',
+          message: `Subscription ${subscriptionId} must have exactly one item to change plans`,
+          userMessage: 'This subscription cannot be changed online. Please contact support.',
+        },
+      };
+    }
+
+    const current: SubscriptionPlanState = {
+      planType: subscription.metadata.plan_type || item.price.metadata?.plan_type || 'unknown',
+      interval: (item.price.recurring?.interval || 'month') as StripeBillingInterval,
+      amountInCents: item.price.unit_amount || 0,
+      priceId: item.price.id,
+    };
+
+    const planType = change.planType || current.planType;
+    const interval = change.interval || current.interval;
+
+    let amount = change.amount;
+    if (amount === undefined) {
+      if (isTradespherePlanType(planType)) {
+        amount = getPlanPrice(planType, interval);
+      } else if (interval === current.interval) {
+        amount = centsToDollars(current.amountInCents);
+      } else {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_AMOUNT',
+            message: `An amount is required to switch ${planType} to ${interval}ly billing`,
+            userMessage: 'Unable to determine the price for this plan.',
+          },
+        };
+      }
+    }
+
+    try {
+      validatePaymentAmount(amount);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_AMOUNT',
+          message,
+          userMessage: message,
+        },
+      };
+    }
+
+    const priceId = await this.getOrCreatePrice(amount, interval, planType);
+    if (!priceId) {
+      return {
+        success: false,
+        error: {
+          code: 'PRICE_CREATION_FAILED',
+          message: 'Failed to create subscription price',
+          userMessage: 'Unable to set up subscription pricing.',
+        },
+      };
+    }
+
+    const next: SubscriptionPlanState = {
+      planType,
+      interval,
+      amountInCents: dollarsToCents(amount),
+      priceId,
+    };
+
+    const monthlyEquivalent = (plan: SubscriptionPlanState) =>
+      plan.interval === 'year' ? plan.amountInCents / 12 : plan.amountInCents;
+
+    let changeType: SubscriptionPlanChangeType = 'none';
+    if (next.priceId !== current.priceId || next.planType !== current.planType) {
+      changeType = monthlyEquivalent(next) > monthlyEquivalent(current) ? 'upgrade' : 'downgrade';
+    }
+
+    // Downgrades wait for period end, and so does annual → monthly
+    // (never cut a paid year short)
+    const timing: SubscriptionPlanChangeTiming =
+      changeType === 'downgrade' || (current.interval === 'year' && next.interval === 'month')
+        ? 'period_end'
+        : 'immediately';
+
+    return {
+      success: true,
+      data: { subscription, item, current, next, changeType, timing },
+    };
+  }
+
+  /**
+   * Apply a plan change (see updateSubscription)
+   */
+  private async changePlan(
+    subscriptionId: string,
+    updates: UpdateStripeSubscriptionParams
+  ): Promise<StripeServiceResponse<StripeSubscription>> {
+    const plan = await this.resolvePlanChange(subscriptionId, updates);
+    if (!plan.success || !plan.data) {
+      return { success: false, error: plan.error };
+    }
+
+    const { subscription, item, current, next, changeType, timing } = plan.data;
+    const scheduleId = typeof subscription.schedule === 'string'
+      ? subscription.schedule
+      : subscription.schedule?.id;
+
+    const planMetadata = {
+      ...updates.metadata,
+      plan_type: next.planType,
+      billing_interval: next.interval,
+    };
+
+    if (changeType === 'none') {
+      // Same plan - drop any scheduled change back to it
+      if (scheduleId) {
+        await this.stripe.subscriptionSchedules.release(scheduleId);
+      }
+
+      const updated = await this.stripe.subscriptions.update(subscriptionId, {
+        metadata: { ...planMetadata, ...PENDING_PLAN_METADATA },
+      });
+      return { success: true, data: this.mapStripeSubscription(updated) };
+    }
+
+    if (timing === 'immediately') {
+      // An immediate change replaces any pending downgrade
+      if (scheduleId) {
+        await this.stripe.subscriptionSchedules.release(scheduleId);
+      }
+
+      const updated = await this.stripe.subscriptions.update(subscriptionId, {
+        items: [{ id: item.id, price: next.priceId }],
+        proration_behavior: 'always_invoice',
+        proration_date: updates.prorationDate,
+        payment_behavior: 'allow_incomplete',
+        metadata: { ...planMetadata, ...PENDING_PLAN_METADATA },
+      });
+
+      console.log(
+        `Subscription ${subscriptionId} upgraded ${current.planType}/${current.interval} → ${next.planType}/${next.interval}`
+      );
+      return { success: true, data: this.mapStripeSubscription(updated) };
+    }
+
+    // Downgrade: keep the current plan until period end, then switch
+    const schedule = scheduleId
+      ? await this.stripe.subscriptionSchedules.retrieve(scheduleId)
+      : await this.stripe.subscriptionSchedules.create({ from_subscription: subscriptionId });
+
+    await this.stripe.subscriptionSchedules.update(schedule.id, {
+      end_behavior: 'release',
+      phases: [
+        {
+          items: [{ price: current.priceId, quantity: item.quantity || 1 }],
+          start_date: schedule.current_phase?.start_date || subscription.current_period_start,
+          end_date: subscription.current_period_end,
+          proration_behavior: 'none',
+        },
+        {
+          items: [{ price: next.priceId, quantity: 1 }],
+          iterations: 1,
+          proration_behavior: 'none',
+          metadata: {
+            ...subscription.metadata,
+            ...planMetadata,
+            ...PENDING_PLAN_METADATA,
+          },
+        },
+      ],
+    });
+
+    const updated = await this.stripe.subscriptions.update(subscriptionId, {
+      metadata: {
+        ...updates.metadata,
+        pending_plan_type: next.planType,
+        pending_billing_interval: next.interval,
+        pending_change_at: String(subscription.current_period_end),
+      },
+    });
+
+    console.log(
+      `Subscription ${subscriptionId} scheduled ${current.planType}/${current.interval} → ${next.planType}/${next.interval} at period end`
+    );
+    return { success: true, data: this.mapStripeSubscription(updated) };
+  }
+
   /**
    * Generate idempotency key for payment operations
    *
@@ -1053,6 +1991,10 @@ export class StripeService {
   /**
    * Get or create a price for subscription
    *
+   * Catalog plans at their catalog price use the configured Stripe price
+   * (STRIPE_PRICE_* env vars, see src/config/planCatalog.ts). Anything else
+   * falls back to searching for, or creating, a matching price.
+   *
    * @param amount Amount in dollars
    * @param interval Billing interval
    * @param planType Plan type
@@ -1064,6 +2006,13 @@ export class StripeService {
     planType: string
   ): Promise<string | null> {
     try {
+      if (isTradespherePlanType(planType) && getPlanPrice(planType, interval) === amount) {
+        const configuredPriceId = getStripePriceId(planType, interval);
+        if (configuredPriceId) {
+          return configuredPriceId;
+        }
+      }
+
       // Search for existing price
       const prices = await this.stripe.prices.list({
         active: true,
@@ -1076,7 +2025,7 @@ export class StripeService {
         p =>
           p.unit_amount === amountInCents &&
           p.recurring?.interval === interval &&
-          p.metadata?.plan_type === planType
+          (p.metadata?.plan_type || p.metadata?.tier) === planType
       );
 
       if (existingPrice) {
@@ -1084,9 +2033,13 @@ export class StripeService {
       }
 
       // Create new price
+      const productId = this.productId;
       const price = await this.stripe.prices.create({
+        ...(productId
+          ? { product: productId }
+          : { product_data: { name: PLAN_CATALOG.stripeProduct.name } }),
         unit_amount: amountInCents,
-        currency: 'usd',
+        currency: PLAN_CATALOG.currency,
         recurring: {
           interval,
           interval_count: 1,
@@ -1201,6 +2154,58 @@ export class StripeService {
     };
   }
 
+  /**
+   * Map Stripe invoice to our type
+   */
+  private mapStripeInvoice(invoice: Stripe.Invoice): StripeInvoiceSummary {
+    return {
+      id: invoice.id,
+      number: invoice.number,
+      status: invoice.status as StripeInvoiceStatus | null,
+      amountDue: centsToDollars(invoice.amount_due),
+      amountPaid: centsToDollars(invoice.amount_paid),
+      currency: invoice.currency,
+      created: invoice.created,
+      periodStart: invoice.period_start,
+      periodEnd: invoice.period_end,
+      hostedInvoiceUrl: invoice.hosted_invoice_url || null,
+      invoicePdf: invoice.invoice_pdf || null,
+      subscriptionId: typeof invoice.subscription === 'string'
+        ? invoice.subscription
+        : invoice.subscription?.id,
+    };
+  }
+
+  /**
+   * Map Stripe SetupIntent (payment_method expanded) to our type
+   */
+  private mapStripeSetupIntent(setupIntent: Stripe.SetupIntent): StripeSetupIntentDetails {
+    const paymentMethod = typeof setupIntent.payment_method === 'string'
+      ? null
+      : setupIntent.payment_method;
+    const microdeposits = setupIntent.next_action?.verify_with_microdeposits;
+
+    return {
+      setupIntentId: setupIntent.id,
+      status: setupIntent.status as StripeSetupIntentStatus,
+      customerId: typeof setupIntent.customer === 'string'
+        ? setupIntent.customer
+        : setupIntent.customer?.id || null,
+      paymentMethodId: typeof setupIntent.payment_method === 'string'
+        ? setupIntent.payment_method
+        : paymentMethod?.id || null,
+      bankName: paymentMethod?.us_bank_account?.bank_name || null,
+      last4: paymentMethod?.us_bank_account?.last4 || null,
+      microdeposits: microdeposits
+        ? {
+            type: microdeposits.microdeposit_type || 'amounts',
+            arrivalDate: new Date(microdeposits.arrival_date * 1000).toISOString(),
+          }
+        : null,
+      metadata: (setupIntent.metadata || {}) as Record<string, string>,
+    };
+  }
+
   /**
    * Map Stripe subscription to our type
    */
@@ -1246,7 +2251,7 @@ export class StripeService {
   /**
    * Handle Stripe API errors with proper typing and user-friendly messages
    */
-  private handleError(error: any, context: string): StripeServiceResponse {
+  private handleError<T = never>(error: any, context: string): StripeServiceResponse<T> {
     console.error(`${context}:`, error);
 
     let errorCode = 'UNKNOWN_ERROR';
@@ -1264,7 +2269,7 @@ export class StripeService {
       retryable = isRetryableStripeError(stripeError);
 
       // Generate user-friendly message based on error code
-      userMessage = this.getUserFriendlyErrorMessage(stripeError);
+      userMessage = StripeService.getUserFriendlyErrorMessage(stripeError);
     } else if (error.message) {
       errorMessage = error.message;
     }
@@ -1286,8 +2291,9 @@ export class StripeService {
 
   /**
    * Get user-friendly error message for Stripe errors
+   * (static so dunning emails can explain ACH failure codes)
    */
-  private getUserFriendlyErrorMessage(error: StripeError): string {
+  static getUserFriendlyErrorMessage(error: { code?: string | null; message?: string }): string {
     const errorMessages: Record<string, string> = {
       // ACH specific errors
       account_closed: 'The bank account is closed. Please use a different account.',
@@ -1300,6 +2306,13 @@ export class StripeService {
       bank_account_unusable: 'Bank account cannot be used for payments.',
       debit_not_authorized: 'ACH debit not authorized. Please verify your bank account.',
 
+      // Micro-deposit verification errors
+      payment_method_microdeposit_verification_amounts_mismatch: 'Those amounts do not match the deposits we sent. Please check your bank statement and try again.',
+      payment_method_microdeposit_verification_descriptor_code_mismatch: 'That code does not match the deposit we sent. Please check your bank statement and try again.',
+      payment_method_microdeposit_verification_amounts_invalid: 'Please enter the two deposit amounts in cents.',
+      payment_method_microdeposit_verification_attempts_exceeded: 'Too many incorrect attempts. Please add your bank account again.',
+      payment_method_microdeposit_verification_timeout: 'The deposits were not verified within 10 days. Please add your bank account again.',
+
       // Payment errors
       payment_intent_authentication_failure: 'Payment authentication failed. Please try again.',
       payment_intent_payment_attempt_failed: 'Payment attempt failed. Please try again.',
@@ -1341,8 +2354,5 @@ export class StripeService {
   }
 }
 
-// Export singleton instance
-export const stripe = StripeService.getInstance();
-
-// Export class for testing and custom instances
+// Export class for custom instances (see createStripeService)
 export default StripeService;
\ No newline at end of file
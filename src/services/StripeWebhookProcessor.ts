@@ -0,0 +1,717 @@
+/**
+ * STRIPE WEBHOOK PROCESSOR
+ *
+ * Durable event log + typed dispatch for Stripe webhooks.
+ * Shared by the stripe-webhook receiver and the admin replay function.
+ *
+ * FLOW:
+ * 1. recordEvent()  - insert into stripe_webhooks keyed by Stripe event ID
+ * 2. processRecord() - dispatch to the handler for the event type
+ * 3. Success marks the row processed; failure increments retry_count
+ * 4. replayUnprocessed() - reprocess rows that never succeeded
+ *
+ * Payment failures and successes are also passed to DunningService, which
+ * owns the company's dunning stage. Renewal invoices are passed to
+ * BalanceCheckService before Stripe finalizes (and debits) them. Successful
+ * payments queue a receipt in the email outbox. The first payment after a
+ * free trial (or its failure) is also passed to TrialService.
+ *
+ * IMPORTANT: Server-side only (requires a service-role Supabase client).
+ * Handlers must be idempotent - Stripe delivers events at least once and
+ * replay may run a handler for an event that partially succeeded before.
+ *
+ * @see STRIPE-PLAID-ARCHITECTURE.md
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  StripeWebhookEvent,
+  StripeWebhookRecord,
+  StripePaymentIntent,
+  StripeCharge,
+  StripeInvoice,
+  StripeSubscription,
+  StripePaymentMethod,
+  StripeSubscriptionStatus,
+  WebhookProcessingResponse,
+} from '../types/stripe-payment';
+import { centsToDollars, isTradespherePlanType } from '../types/stripe-payment';
+import DunningService from './DunningService';
+import BalanceCheckService from './BalanceCheckService';
+import EmailOutbox from './EmailOutbox';
+import TrialService from './TrialService';
+import { getPlan } from '../config/planCatalog';
+
+// Postgres unique_violation error code
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Rows linked by a handler (stored on the stripe_webhooks row)
+ */
+interface WebhookHandlerResult {
+  companyId?: string | null;
+  paymentId?: string | null;
+}
+
+/**
+ * Company columns read by the webhook handlers
+ */
+interface CompanyBillingRow {
+  id: string;
+  payment_failure_count: number | null;
+  stripe_payment_method_id: string | null;
+}
+
+type WebhookHandler = (event: StripeWebhookEvent) => Promise<WebhookHandlerResult>;
+
+/**
+ * Result of recording an incoming event
+ */
+export interface RecordEventResult {
+  /** Stored event log row */
+  record: StripeWebhookRecord;
+
+  /** Whether the event had already been received */
+  duplicate: boolean;
+}
+
+/**
+ * Options for replaying unprocessed events
+ */
+export interface ReplayOptions {
+  /** Only replay these Stripe event IDs */
+  eventIds?: string[];
+
+  /** Maximum number of events to replay (default: 50) */
+  limit?: number;
+
+  /** Skip events that already failed this many times */
+  maxRetries?: number;
+}
+
+/**
+ * Summary of a replay run
+ */
+export interface ReplaySummary {
+  attempted: number;
+  succeeded: number;
+  failed: number;
+  results: WebhookProcessingResponse[];
+}
+
+/**
+ * Map a Stripe subscription status to companies.subscription_status
+ *
+ * ACH debits take 3-5 business days, so a new subscription stays
+ * 'incomplete' until the first payment clears - shown as 'pending'.
+ */
+export function toCompanySubscriptionStatus(stripeStatus: StripeSubscriptionStatus | string): string {
+  switch (stripeStatus) {
+    case 'incomplete':
+      return 'pending';
+    case 'incomplete_expired':
+      return 'canceled';
+    default:
+      return stripeStatus;
+  }
+}
+
+/**
+ * Map a subscription's plan to companies columns
+ *
+ * Current plan comes from metadata.plan_type and the subscription price;
+ * scheduled downgrades from the pending_* metadata set by
+ * StripeService.updateSubscription (cleared when the change applies).
+ */
+export function toCompanyPlanColumns(subscription: StripeSubscription): Record<string, unknown> {
+  const metadata = subscription.metadata || {};
+  const price = subscription.items?.data[0]?.price;
+
+  const columns: Record<string, unknown> = {
+    pending_subscription_tier: metadata.pending_plan_type || null,
+    pending_billing_interval: metadata.pending_billing_interval || null,
+    plan_change_effective_at: metadata.pending_change_at
+      ? new Date(Number(metadata.pending_change_at) * 1000).toISOString()
+      : null,
+  };
+
+  if (metadata.plan_type) {
+    columns.subscription_tier = metadata.plan_type;
+  }
+
+  if (price) {
+    const interval = price.recurring?.interval || 'month';
+    columns.billing_interval = interval;
+    columns.monthly_amount = centsToDollars(
+      interval === 'year' ? Math.round(price.unit_amount / 12) : price.unit_amount
+    );
+  }
+
+  return columns;
+}
+
+/**
+ * Convert a Stripe unix timestamp to a DATE column value
+ */
+function toDateColumn(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().split('T')[0];
+}
+
+/**
+ * Stripe webhook processor
+ *
+ * @example
+ * ```typescript
+ * const processor = new StripeWebhookProcessor(supabase);
+ *
+ * const { record, duplicate } = await processor.recordEvent(event);
+ * if (!duplicate || !record.processed) {
+ *   const result = await processor.processRecord(record);
+ * }
+ * ```
+ */
+export class StripeWebhookProcessor {
+  private readonly handlers: Partial<Record<string, WebhookHandler>>;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly dunning: DunningService = new DunningService(supabase),
+    private readonly balanceChecks: BalanceCheckService = new BalanceCheckService(supabase),
+    private readonly outbox: EmailOutbox = new EmailOutbox(supabase),
+    private readonly trials: TrialService = new TrialService(supabase, { outbox })
+  ) {
+    this.handlers = {
+      'payment_intent.succeeded': event => this.handlePaymentIntent(event),
+      'payment_intent.payment_failed': event => this.handlePaymentIntent(event),
+      'payment_intent.processing': event => this.handlePaymentIntent(event),
+      'payment_intent.requires_action': event => this.handlePaymentIntent(event),
+      'payment_intent.canceled': event => this.handlePaymentIntent(event),
+      'charge.succeeded': event => this.handleCharge(event),
+      'charge.failed': event => this.handleCharge(event),
+      'charge.pending': event => this.handleCharge(event),
+      'charge.refunded': event => this.handleCharge(event),
+      'customer.subscription.created': event => this.handleSubscription(event),
+      'customer.subscription.updated': event => this.handleSubscription(event),
+      'customer.subscription.deleted': event => this.handleSubscription(event),
+      'customer.subscription.trial_will_end': event => this.handleSubscription(event),
+      'customer.subscription.paused': event => this.handleSubscription(event),
+      'customer.subscription.resumed': event => this.handleSubscription(event),
+      'invoice.created': event => this.handleInvoice(event),
+      'payment_method.attached': event => this.handlePaymentMethod(event),
+      'payment_method.detached': event => this.handlePaymentMethod(event),
+      'payment_method.updated': event => this.handlePaymentMethod(event),
+    };
+  }
+
+  // ============================================================================
+  // EVENT LOG
+  // ============================================================================
+
+  /**
+   * Insert an event into stripe_webhooks, deduplicating by Stripe event ID
+   *
+   * @param event Verified Stripe event
+   * @returns Stored row and whether it was already present
+   */
+  async recordEvent(event: StripeWebhookEvent): Promise<RecordEventResult> {
+    const { data, error } = await this.supabase
+      .from('stripe_webhooks')
+      .insert({
+        stripe_event_id: event.id,
+        event_type: event.type,
+        payload: event,
+      })
+      .select('*')
+      .single();
+
+    if (!error && data) {
+      return { record: data as StripeWebhookRecord, duplicate: false };
+    }
+
+    if (error?.code !== UNIQUE_VIOLATION) {
+      throw error || new Error('Failed to record webhook event');
+    }
+
+    // Stripe redelivered an event we already logged
+    const { data: existing, error: fetchError } = await this.supabase
+      .from('stripe_webhooks')
+      .select('*')
+      .eq('stripe_event_id', event.id)
+      .single();
+
+    if (fetchError || !existing) {
+      throw fetchError || new Error(`Webhook event ${event.id} not found after duplicate insert`);
+    }
+
+    return { record: existing as StripeWebhookRecord, duplicate: true };
+  }
+
+  /**
+   * Dispatch a logged event to its handler and record the outcome
+   *
+   * Never throws - failures are stored on the row (error, retry_count).
+   *
+   * @param record Event log row
+   * @returns Processing result
+   */
+  async processRecord(record: StripeWebhookRecord): Promise<WebhookProcessingResponse> {
+    const event = record.payload;
+    const attemptedAt = new Date().toISOString();
+    const handler = this.handlers[event.type];
+
+    try {
+      let result: WebhookHandlerResult = {};
+      if (handler) {
+        result = await handler(event);
+      } else {
+        console.log(`No handler for Stripe event type ${event.type} - marking processed`);
+      }
+
+      const { error } = await this.supabase
+        .from('stripe_webhooks')
+        .update({
+          processed: true,
+          processed_at: attemptedAt,
+          last_attempted_at: attemptedAt,
+          error: null,
+          company_id: result.companyId ?? record.company_id,
+          payment_id: result.paymentId ?? record.payment_id,
+        })
+        .eq('id', record.id);
+
+      if (error) {
+        throw error;
+      }
+
+      return { received: true, processed: true, eventId: event.id };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : JSON.stringify(error);
+      console.error(`Failed to process Stripe event ${event.id} (${event.type}):`, error);
+
+      const { error: updateError } = await this.supabase
+        .from('stripe_webhooks')
+        .update({
+          processed: false,
+          error: message,
+          retry_count: (record.retry_count || 0) + 1,
+          last_attempted_at: attemptedAt,
+        })
+        .eq('id', record.id);
+
+      if (updateError) {
+        console.error('Failed to record webhook failure:', updateError);
+      }
+
+      return { received: true, processed: false, eventId: event.id, error: message };
+    }
+  }
+
+  /**
+   * Reprocess events that have not been processed successfully (oldest first)
+   *
+   * @param options Replay filters
+   * @returns Per-event results
+   */
+  async replayUnprocessed(options: ReplayOptions = {}): Promise<ReplaySummary> {
+    let query = this.supabase
+      .from('stripe_webhooks')
+      .select('*')
+      .eq('processed', false)
+      .order('created_at', { ascending: true })
+      .limit(options.limit ?? 50);
+
+    if (options.eventIds?.length) {
+      query = query.in('stripe_event_id', options.eventIds);
+    }
+
+    if (options.maxRetries !== undefined) {
+      query = query.lt('retry_count', options.maxRetries);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw error;
+    }
+
+    const results: WebhookProcessingResponse[] = [];
+    // Sequential on purpose - events for the same object must apply in order
+    for (const record of (data || []) as StripeWebhookRecord[]) {
+      results.push(await this.processRecord(record));
+    }
+
+    const succeeded = results.filter(result => result.processed).length;
+    return {
+      attempted: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    };
+  }
+
+  // ============================================================================
+  // EVENT HANDLERS
+  // ============================================================================
+
+  /**
+   * payment_intent.* - sync payments.status and company billing state
+   */
+  private async handlePaymentIntent(event: StripeWebhookEvent): Promise<WebhookHandlerResult> {
+    const paymentIntent = event.data.object as StripePaymentIntent;
+    const now = new Date().toISOString();
+
+    const paymentUpdate: Record<string, unknown> = {
+      status: paymentIntent.status,
+      updated_at: now,
+    };
+
+    if (event.type === 'payment_intent.succeeded') {
+      paymentUpdate.processed_at = now;
+      paymentUpdate.failure_code = null;
+      paymentUpdate.failure_message = null;
+    }
+
+    if (event.type === 'payment_intent.payment_failed') {
+      paymentUpdate.status = 'failed';
+      paymentUpdate.failure_code = paymentIntent.last_payment_error?.code || null;
+      paymentUpdate.failure_message = paymentIntent.last_payment_error?.message || null;
+    }
+
+    const payment = await this.updatePayment(
+      'stripe_payment_intent_id',
+      paymentIntent.id,
+      paymentUpdate
+    );
+    const company = await this.findCompany(paymentIntent.customer, payment?.company_id);
+
+    if (company && event.type === 'payment_intent.succeeded') {
+      await this.updateCompany(company.id, {
+        payment_failure_count: 0,
+        updated_at: now,
+      });
+      await this.dunning.recordRecovery(company.id);
+      await this.trials.recordPayment(company.id);
+      await this.queueReceipt(company.id, paymentIntent);
+    }
+
+    if (company && event.type === 'payment_intent.payment_failed') {
+      const { dunningCase } = await this.dunning.recordFailure({
+        companyId: company.id,
+        failureKey: paymentIntent.latest_charge || paymentIntent.id,
+        failureCode: paymentIntent.last_payment_error?.code || null,
+        failureMessage: paymentIntent.last_payment_error?.message || null,
+        amount: centsToDollars(paymentIntent.amount),
+        paymentId: payment?.id,
+        invoiceId: paymentIntent.invoice,
+        paymentIntentId: paymentIntent.id,
+      });
+      // Taken from the case (failures counted once per failure key), so a
+      // redelivered or replayed event leaves the count unchanged
+      await this.updateCompany(company.id, {
+        payment_failure_count: dunningCase.failure_count,
+        updated_at: now,
+      });
+      await this.trials.recordPaymentFailure(company.id);
+    }
+
+    return { companyId: company?.id, paymentId: payment?.id };
+  }
+
+  /**
+   * charge.* - record ACH charge details on the payment
+   */
+  private async handleCharge(event: StripeWebhookEvent): Promise<WebhookHandlerResult> {
+    const charge = event.data.object as StripeCharge;
+    const now = new Date().toISOString();
+
+    const paymentUpdate: Record<string, unknown> = {
+      stripe_charge_id: charge.id,
+      ach_status: event.type === 'charge.refunded' ? 'refunded' : charge.status,
+      updated_at: now,
+    };
+
+    const bankAccount = charge.payment_method_details?.us_bank_account;
+    if (bankAccount?.last4) {
+      paymentUpdate.bank_account_last4 = bankAccount.last4;
+      paymentUpdate.bank_account_name = bankAccount.bank_name || null;
+    }
+
+    if (event.type === 'charge.failed') {
+      paymentUpdate.status = 'failed';
+      paymentUpdate.failure_code = charge.failure_code;
+      paymentUpdate.failure_message = charge.failure_message;
+    }
+
+    if (event.type === 'charge.refunded') {
+      paymentUpdate.status = 'refunded';
+    }
+
+    // Charges are linked through their payment intent until stripe_charge_id is set
+    const payment = charge.payment_intent
+      ? await this.updatePayment('stripe_payment_intent_id', charge.payment_intent, paymentUpdate)
+      : await this.updatePayment('stripe_charge_id', charge.id, paymentUpdate);
+    const company = await this.findCompany(charge.customer, payment?.company_id);
+
+    if (company && event.type === 'charge.failed') {
+      await this.dunning.recordFailure({
+        companyId: company.id,
+        failureKey: charge.id,
+        failureCode: charge.failure_code,
+        failureMessage: charge.failure_message,
+        amount: centsToDollars(charge.amount),
+        paymentId: payment?.id,
+        invoiceId: charge.invoice,
+        paymentIntentId: charge.payment_intent,
+      });
+    }
+
+    return { companyId: company?.id, paymentId: payment?.id };
+  }
+
+  /**
+   * customer.subscription.* - sync companies subscription status and plan
+   */
+  private async handleSubscription(event: StripeWebhookEvent): Promise<WebhookHandlerResult> {
+    const subscription = event.data.object as StripeSubscription;
+    const company = await this.findCompanyBySubscription(subscription.id, subscription.customer);
+
+    if (!company) {
+      console.warn(`No company found for subscription ${subscription.id} - skipping`);
+      return {};
+    }
+
+    // Stripe sends this 3 days out - queues that reminder if the scheduler has not yet
+    if (event.type === 'customer.subscription.trial_will_end') {
+      console.log(`Trial ending for company ${company.id} on ${toDateColumn(subscription.trial_end || 0)}`);
+      await this.trials.remind(company.id);
+      return { companyId: company.id };
+    }
+
+    const companyUpdate: Record<string, unknown> = {
+      subscription_status: event.type === 'customer.subscription.deleted'
+        ? 'canceled'
+        : toCompanySubscriptionStatus(subscription.status),
+      stripe_subscription_id: subscription.id,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (event.type !== 'customer.subscription.deleted') {
+      companyUpdate.next_billing_date = toDateColumn(subscription.current_period_end);
+      Object.assign(companyUpdate, toCompanyPlanColumns(subscription));
+    }
+
+    await this.updateCompany(company.id, companyUpdate);
+    return { companyId: company.id };
+  }
+
+  /**
+   * invoice.created - check the balance before a renewal draft is finalized
+   *
+   * Only drafts can be held; invoices created already finalized (the first
+   * invoice of a new subscription) and zero-amount invoices are skipped.
+   */
+  private async handleInvoice(event: StripeWebhookEvent): Promise<WebhookHandlerResult> {
+    const invoice = event.data.object as StripeInvoice;
+
+    if (invoice.status !== 'draft' || invoice.amount_due <= 0) {
+      return {};
+    }
+
+    const company = invoice.subscription
+      ? await this.findCompanyBySubscription(invoice.subscription, invoice.customer)
+      : await this.findCompany(invoice.customer);
+
+    if (!company) {
+      console.warn(`No company found for invoice ${invoice.id} - skipping balance check`);
+      return {};
+    }
+
+    await this.balanceChecks.checkInvoice(company.id, invoice.id, centsToDollars(invoice.amount_due));
+    return { companyId: company.id };
+  }
+
+  /**
+   * payment_method.* - track the company's bank account state
+   */
+  private async handlePaymentMethod(event: StripeWebhookEvent): Promise<WebhookHandlerResult> {
+    const paymentMethod = event.data.object as StripePaymentMethod;
+
+    if (event.type === 'payment_method.detached') {
+      // The customer is cleared on detach - match on the stored payment method
+      const { data: company, error } = await this.supabase
+        .from('companies')
+        .select('id')
+        .eq('stripe_payment_method_id', paymentMethod.id)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      if (company) {
+        await this.updateCompany(company.id, {
+          stripe_payment_method_id: null,
+          payment_method_status: 'detached',
+          updated_at: new Date().toISOString(),
+        });
+      }
+
+      return { companyId: company?.id };
+    }
+
+    const company = await this.findCompany(paymentMethod.customer || null);
+    if (!company) {
+      return {};
+    }
+
+    if (company.stripe_payment_method_id === paymentMethod.id) {
+      const accountStatus = paymentMethod.us_bank_account?.status;
+      await this.updateCompany(company.id, {
+        payment_method_status: accountStatus === 'verification_failed' || accountStatus === 'errored'
+          ? 'failed'
+          : 'verified',
+        updated_at: new Date().toISOString(),
+      });
+    }
+
+    return { companyId: company.id };
+  }
+
+  /**
+   * Queue a payment receipt (keyed by payment intent, so replays send one)
+   */
+  private async queueReceipt(companyId: string, paymentIntent: StripePaymentIntent): Promise<void> {
+    const { data: company, error } = await this.supabase
+      .from('companies')
+      .select('name, email, billing_email, subscription_tier')
+      .eq('id', companyId)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const to = company.billing_email || company.email;
+    if (!to) {
+      console.warn(`No billing email for company ${companyId} - receipt not queued`);
+      return;
+    }
+
+    let bankLabel: string | null = null;
+    if (paymentIntent.payment_method) {
+      const { data: account } = await this.supabase
+        .from('plaid_items')
+        .select('institution_name, account_mask')
+        .eq('company_id', companyId)
+        .eq('stripe_payment_method_id', paymentIntent.payment_method)
+        .maybeSingle();
+
+      if (account?.institution_name && account.account_mask) {
+        bankLabel = `${account.institution_name} ••••${account.account_mask}`;
+      }
+    }
+
+    const tier = company.subscription_tier;
+    await this.outbox.enqueue(
+      'payment_receipt',
+      to,
+      {
+        companyName: company.name,
+        planName: isTradespherePlanType(tier) ? getPlan(tier).name : tier || 'Tradesphere',
+        amount: centsToDollars(paymentIntent.amount),
+        paidAt: new Date().toISOString(),
+        invoiceNumber: null,
+        invoiceUrl: null,
+        bankLabel,
+      },
+      { companyId, dedupeKey: `payment_receipt:${paymentIntent.id}` }
+    );
+  }
+
+  // ============================================================================
+  // DATABASE HELPERS
+  // ============================================================================
+
+  /**
+   * Update the payment matching a Stripe ID (no-op if none exists yet)
+   */
+  private async updatePayment(
+    column: 'stripe_payment_intent_id' | 'stripe_charge_id',
+    value: string,
+    updates: Record<string, unknown>
+  ): Promise<{ id: string; company_id: string } | null> {
+    const { data, error } = await this.supabase
+      .from('payments')
+      .update(updates)
+      .eq(column, value)
+      .select('id, company_id')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Find a company by ID (preferred) or Stripe customer ID
+   */
+  private async findCompany(
+    customerId: string | null,
+    companyId?: string | null
+  ): Promise<CompanyBillingRow | null> {
+    if (!companyId && !customerId) {
+      return null;
+    }
+
+    const query = this.supabase
+      .from('companies')
+      .select('id, payment_failure_count, stripe_payment_method_id');
+
+    const { data, error } = companyId
+      ? await query.eq('id', companyId).maybeSingle()
+      : await query.eq('stripe_customer_id', customerId).maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Find a company by subscription ID, falling back to the Stripe customer
+   */
+  private async findCompanyBySubscription(
+    subscriptionId: string,
+    customerId: string | null
+  ): Promise<CompanyBillingRow | null> {
+    const { data, error } = await this.supabase
+      .from('companies')
+      .select('id, payment_failure_count, stripe_payment_method_id')
+      .eq('stripe_subscription_id', subscriptionId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data || this.findCompany(customerId);
+  }
+
+  /**
+   * Apply an update to a company row
+   */
+  private async updateCompany(companyId: string, updates: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('companies')
+      .update(updates)
+      .eq('id', companyId);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+export default StripeWebhookProcessor;
@@ -0,0 +1,268 @@
+/**
+ * TOKEN ENCRYPTION
+ *
+ * AES-256-GCM envelope encryption for secrets stored in the database
+ * (Plaid access tokens):
+ * 1. Each value is sealed with a fresh random 256-bit data key
+ * 2. The data key is wrapped with a master key from the keyring
+ * 3. The envelope records the master key ID, so old rows stay readable
+ *    after a new key becomes active
+ *
+ * KEY ROTATION:
+ * - Add the new key to PLAID_TOKEN_KEYS and point PLAID_TOKEN_ACTIVE_KEY_ID at it
+ * - New values are wrapped with the active key; existing values still decrypt
+ * - rewrap() moves an envelope to the active key without touching the sealed
+ *   value (run by the rotate-plaid-token-keys admin function)
+ * - Remove the old key once no rows reference it
+ *
+ * GCM authenticates both layers - a modified envelope, a value moved to a
+ * different record (associated data mismatch) or the wrong key fails with
+ * TokenDecryptionError instead of returning garbage.
+ *
+ * IMPORTANT: Server-side only (master keys).
+ */
+
+import crypto from 'crypto';
+
+const ENVELOPE_VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * An encrypted value and the master key that wraps it
+ */
+export interface EncryptedToken {
+  /** Master key ID (store alongside the envelope for rotation queries) */
+  keyId: string;
+
+  /** Serialized envelope: v1.<keyId>.<wrapped data key>.<sealed value> */
+  envelope: string;
+}
+
+/**
+ * Decryption failed - tampered envelope, wrong associated data or unknown key
+ */
+export class TokenDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenDecryptionError';
+  }
+}
+
+/**
+ * AES-256-GCM seal: iv | ciphertext | tag
+ */
+function seal(key: Buffer, plaintext: Buffer, aad: string): Buffer {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]);
+}
+
+/**
+ * AES-256-GCM open (throws if authentication fails)
+ */
+function open(key: Buffer, sealed: Buffer, aad: string): Buffer {
+  if (sealed.length < IV_BYTES + TAG_BYTES) {
+    throw new TokenDecryptionError('Encrypted value is truncated');
+  }
+
+  const iv = sealed.subarray(0, IV_BYTES);
+  const tag = sealed.subarray(sealed.length - TAG_BYTES);
+  const ciphertext = sealed.subarray(IV_BYTES, sealed.length - TAG_BYTES);
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(tag);
+
+  try {
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  } catch {
+    throw new TokenDecryptionError('Encrypted value failed authentication');
+  }
+}
+
+/**
+ * Master keys by ID, one of which is active for new encryptions
+ *
+ * @example
+ * ```typescript
+ * const keyring = TokenKeyring.fromEnv();
+ *
+ * const { keyId, envelope } = keyring.encrypt(accessToken, itemId);
+ * const token = keyring.decrypt(envelope, itemId);
+ * ```
+ */
+export class TokenKeyring {
+  private readonly keys: Map<string, Buffer>;
+
+  /**
+   * @param keys Master keys by ID (32 bytes each)
+   * @param activeKeyId Key used for new encryptions
+   */
+  constructor(keys: Record<string, Buffer>, readonly activeKeyId: string) {
+    this.keys = new Map();
+
+    for (const [keyId, key] of Object.entries(keys)) {
+      if (!KEY_ID_PATTERN.test(keyId)) {
+        throw new Error(`Invalid encryption key ID "${keyId}" (letters, digits, _ and - only)`);
+      }
+      if (key.length !== KEY_BYTES) {
+        throw new Error(`Encryption key "${keyId}" must be ${KEY_BYTES} bytes`);
+      }
+      this.keys.set(keyId, key);
+    }
+
+    if (!this.keys.has(activeKeyId)) {
+      throw new Error(`Active encryption key "${activeKeyId}" is not in the keyring`);
+    }
+  }
+
+  /**
+   * Build from environment variables
+   *
+   * PLAID_TOKEN_KEYS: comma-separated `<keyId>:<base64 32-byte key>` pairs
+   * PLAID_TOKEN_ACTIVE_KEY_ID: key used for new encryptions
+   * (defaults to the last key listed)
+   */
+  static fromEnv(): TokenKeyring {
+    const configured = process.env.PLAID_TOKEN_KEYS;
+    if (!configured) {
+      throw new Error(
+        'Token encryption keys not configured. Set PLAID_TOKEN_KEYS environment variable.'
+      );
+    }
+
+    const keys: Record<string, Buffer> = {};
+    let lastKeyId = '';
+
+    for (const entry of configured.split(',').map(value => value.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) {
+        throw new Error('PLAID_TOKEN_KEYS entries must look like <keyId>:<base64 key>');
+      }
+      lastKeyId = entry.slice(0, separator);
+      keys[lastKeyId] = Buffer.from(entry.slice(separator + 1), 'base64');
+    }
+
+    return new TokenKeyring(keys, process.env.PLAID_TOKEN_ACTIVE_KEY_ID || lastKeyId);
+  }
+
+  /**
+   * Generate a new base64 master key (for PLAID_TOKEN_KEYS)
+   */
+  static generateKey(): string {
+    return crypto.randomBytes(KEY_BYTES).toString('base64');
+  }
+
+  /**
+   * Master key ID an envelope is wrapped with (without decrypting)
+   */
+  static keyIdOf(envelope: string): string {
+    return TokenKeyring.parse(envelope).keyId;
+  }
+
+  /**
+   * Encrypt a value under the active key
+   *
+   * @param plaintext Value to encrypt
+   * @param associatedData Record context the value is bound to (e.g. the Plaid item ID)
+   */
+  encrypt(plaintext: string, associatedData: string): EncryptedToken {
+    const dataKey = crypto.randomBytes(KEY_BYTES);
+
+    try {
+      const sealedValue = seal(dataKey, Buffer.from(plaintext, 'utf8'), associatedData);
+      return this.wrap(dataKey, sealedValue);
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  /**
+   * Decrypt an envelope
+   *
+   * @param envelope Envelope from encrypt()
+   * @param associatedData The same context passed to encrypt()
+   * @throws TokenDecryptionError if the envelope was modified, belongs to
+   *         another record, or its key is not in the keyring
+   */
+  decrypt(envelope: string, associatedData: string): string {
+    const parsed = TokenKeyring.parse(envelope);
+    const dataKey = this.unwrap(parsed.keyId, parsed.wrappedKey);
+
+    try {
+      return open(dataKey, parsed.sealedValue, associatedData).toString('utf8');
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  /**
+   * Re-wrap an envelope's data key with the active master key
+   *
+   * The sealed value is unchanged, so associated data is not needed.
+   * Envelopes already on the active key are returned as-is.
+   */
+  rewrap(envelope: string): EncryptedToken {
+    const parsed = TokenKeyring.parse(envelope);
+    if (parsed.keyId === this.activeKeyId) {
+      return { keyId: parsed.keyId, envelope };
+    }
+
+    const dataKey = this.unwrap(parsed.keyId, parsed.wrappedKey);
+    try {
+      return this.wrap(dataKey, parsed.sealedValue);
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  private wrap(dataKey: Buffer, sealedValue: Buffer): EncryptedToken {
+    const keyId = this.activeKeyId;
+    const wrappedKey = seal(this.keys.get(keyId)!, dataKey, `${ENVELOPE_VERSION}.${keyId}`);
+
+    return {
+      keyId,
+      envelope: [
+        ENVELOPE_VERSION,
+        keyId,
+        wrappedKey.toString('base64url'),
+        sealedValue.toString('base64url'),
+      ].join('.'),
+    };
+  }
+
+  private unwrap(keyId: string, wrappedKey: Buffer): Buffer {
+    const masterKey = this.keys.get(keyId);
+    if (!masterKey) {
+      throw new TokenDecryptionError(`Encryption key "${keyId}" is not in the keyring`);
+    }
+
+    // The key ID is authenticated, so a swapped header fails here
+    return open(masterKey, wrappedKey, `${ENVELOPE_VERSION}.${keyId}`);
+  }
+
+  private static parse(envelope: string): { keyId: string; wrappedKey: Buffer; sealedValue: Buffer } {
+    const parts = envelope.split('.');
+    if (parts.length !== 4 || parts[0] !== ENVELOPE_VERSION || !KEY_ID_PATTERN.test(parts[1])) {
+      throw new TokenDecryptionError('Unrecognized encrypted value format');
+    }
+
+    return {
+      keyId: parts[1],
+      wrappedKey: Buffer.from(parts[2], 'base64url'),
+      sealedValue: Buffer.from(parts[3], 'base64url'),
+    };
+  }
+}
+
+export default TokenKeyring;
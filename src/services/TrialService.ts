@@ -0,0 +1,683 @@
+/**
+ * TRIAL SERVICE
+ *
+ * Drives a company's free trial from signup to its first paid invoice.
+ *
+ * FLOW:
+ * 1. calculateTrialEnd() - signup computes the trial end on the server and
+ *                          gives the Stripe subscription the same moment
+ * 2. processTrials()     - scheduled (process-trials):
+ *                          - queue the trial_ending reminder 7, 3 and 1 days out
+ *                          - at trial end, move to 'converting' (Stripe
+ *                            invoices the verified bank account) or
+ *                            'expired' (no bank - Stripe pauses the
+ *                            subscription)
+ *                          - resume expired trials once a bank is verified
+ * 3. recordPayment() / recordPaymentFailure() - payment_intent webhooks
+ *                          finish the conversion ('converted') or mark the
+ *                          first charge failed ('payment_failed'; retries
+ *                          and emails are left to DunningService)
+ * 4. extend()            - an admin adds trial days (extend-trial)
+ *
+ * Reminders go through the email outbox keyed by trial end and reminder
+ * day, so scheduler reruns and the trial_will_end webhook queue each one once.
+ *
+ * IMPORTANT: Server-side only (requires a service-role Supabase client).
+ *
+ * @see src/config/trialPolicy.ts
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_TRIAL_POLICY } from '../config/trialPolicy';
+import type { TrialPolicy } from '../config/trialPolicy';
+import { PLAN_TRIAL_DAYS, getPlan } from '../config/planCatalog';
+import { isTradespherePlanType } from '../types/stripe-payment';
+import EmailOutbox from './EmailOutbox';
+import type { StripeService } from './StripeService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Trial state (companies.trial_status)
+ */
+export type TrialStatus =
+  | 'trialing'        // Trial running
+  | 'converting'      // Trial ended, first ACH debit in flight
+  | 'converted'       // First payment succeeded
+  | 'expired'         // Trial ended without a verified bank - subscription paused
+  | 'payment_failed'; // First payment failed - DunningService retries it
+
+/**
+ * Company columns read by the trial engine
+ */
+export interface TrialCompanyRecord {
+  id: string;
+  name: string;
+  email: string | null;
+  billing_email: string | null;
+  billing_name: string | null;
+  subscription_tier: string | null;
+  monthly_amount: number | null;
+  stripe_subscription_id: string | null;
+  stripe_payment_method_id: string | null;
+  payment_method_status: string | null;
+  trial_status: TrialStatus | null;
+  trial_ends_at: string | null;
+  trial_reminders_sent: number[];
+  trial_extended_days: number;
+}
+
+const TRIAL_COLUMNS = [
+  'id',
+  'name',
+  'email',
+  'billing_email',
+  'billing_name',
+  'subscription_tier',
+  'monthly_amount',
+  'stripe_subscription_id',
+  'stripe_payment_method_id',
+  'payment_method_status',
+  'trial_status',
+  'trial_ends_at',
+  'trial_reminders_sent',
+  'trial_extended_days',
+].join(', ');
+
+/**
+ * Summary of a scheduled run
+ */
+export interface ProcessTrialsSummary {
+  processed: number;
+  remindersQueued: number;
+  converting: number;
+  expired: number;
+  resumed: number;
+  failed: number;
+}
+
+/**
+ * Extension granted by an admin
+ */
+export interface TrialExtensionRequest {
+  /** Days to add to the current trial end */
+  days: number;
+
+  /** Who granted it (for the audit log) */
+  grantedBy: string;
+
+  reason?: string | null;
+}
+
+/**
+ * Result of an extension
+ */
+export interface TrialExtensionResult {
+  outcome: 'extended' | 'not_found' | 'not_allowed' | 'failed';
+
+  /** Message for the admin */
+  message: string;
+
+  /** New trial end (when extended) */
+  trialEndsAt?: string;
+
+  /** Service error code when Stripe failed */
+  errorCode?: string;
+}
+
+/**
+ * Trial service options
+ */
+export interface TrialServiceOptions {
+  /** Reminder days and extension limits (default: DEFAULT_TRIAL_POLICY) */
+  policy?: TrialPolicy;
+
+  /** Reminder and trial_expired emails (default: outbox with transport from env) */
+  outbox?: EmailOutbox;
+
+  /** Trial end changes and resuming paused subscriptions (only needed by processTrials and extend) */
+  stripe?: Pick<StripeService, 'updateSubscription' | 'resumeSubscription'>;
+
+  /** Billing portal link used in emails */
+  billingUrl?: string;
+
+  /** Clock (for tests) */
+  now?: () => Date;
+}
+
+/**
+ * Trial end for a signup - the only place a trial end is computed
+ *
+ * @param start Signup time
+ * @param trialDays Trial length (default: PLAN_TRIAL_DAYS from the plan catalog)
+ */
+export function calculateTrialEnd(start: Date, trialDays: number = PLAN_TRIAL_DAYS): Date {
+  return new Date(start.getTime() + trialDays * DAY_MS);
+}
+
+/**
+ * Date column value (YYYY-MM-DD) for a trial end
+ */
+export function toTrialEndDate(trialEnd: Date): string {
+  return trialEnd.toISOString().split('T')[0];
+}
+
+/**
+ * Whether the company has a bank account Stripe can debit
+ */
+function hasVerifiedPaymentMethod(company: TrialCompanyRecord): boolean {
+  return !!company.stripe_payment_method_id && company.payment_method_status === 'verified';
+}
+
+/**
+ * Rows of a companies query (throws the query error)
+ */
+function rowsOf(result: { data: unknown; error: unknown }): TrialCompanyRecord[] {
+  if (result.error) {
+    throw result.error;
+  }
+  return (result.data || []) as TrialCompanyRecord[];
+}
+
+function planName(tier: string | null): string {
+  return isTradespherePlanType(tier) ? getPlan(tier).name : tier || 'Tradesphere';
+}
+
+/**
+ * Trial service
+ *
+ * @example
+ * ```typescript
+ * const trials = new TrialService(supabase, { stripe: StripeService.getInstance() });
+ *
+ * // Signup
+ * const trialEnd = calculateTrialEnd(new Date());
+ *
+ * // Scheduler
+ * const summary = await trials.processTrials();
+ *
+ * // Admin
+ * await trials.extend(companyId, { days: 14, grantedBy: 'support@tradesphere.com' });
+ * ```
+ */
+export class TrialService {
+  private readonly policy: TrialPolicy;
+  private readonly outbox: EmailOutbox;
+  private readonly stripe?: Pick<StripeService, 'updateSubscription' | 'resumeSubscription'>;
+  private readonly billingUrl: string;
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    options: TrialServiceOptions = {}
+  ) {
+    this.policy = options.policy || DEFAULT_TRIAL_POLICY;
+    this.outbox = options.outbox || new EmailOutbox(supabase);
+    this.stripe = options.stripe;
+    this.billingUrl = options.billingUrl
+      || `${process.env.FRONTEND_URL || 'https://tradesphere.com'}/billing/payment-methods`;
+    this.now = options.now || (() => new Date());
+  }
+
+  // ============================================================================
+  // SCHEDULED PROCESSING
+  // ============================================================================
+
+  /**
+   * Queue due reminders, end trials that are over and resume expired trials
+   * that now have a verified bank account
+   *
+   * @param options.limit Maximum companies per step (default: 100)
+   */
+  async processTrials(options: { limit?: number } = {}): Promise<ProcessTrialsSummary> {
+    const summary: ProcessTrialsSummary = {
+      processed: 0,
+      remindersQueued: 0,
+      converting: 0,
+      expired: 0,
+      resumed: 0,
+      failed: 0,
+    };
+    const limit = options.limit || 100;
+    const now = this.now();
+    const reminderWindowEnd = new Date(now.getTime() + Math.max(...this.policy.reminderDays) * DAY_MS);
+
+    const run = async (rows: TrialCompanyRecord[], step: (company: TrialCompanyRecord) => Promise<void>) => {
+      for (const company of rows) {
+        summary.processed++;
+        try {
+          await step(company);
+        } catch (trialError) {
+          summary.failed++;
+          console.error(`Trial for company ${company.id} failed to process:`, trialError);
+        }
+      }
+    };
+
+    // Trials ending soon - reminders
+    const endingSoon = await this.supabase
+      .from('companies')
+      .select(TRIAL_COLUMNS)
+      .eq('trial_status', 'trialing')
+      .gt('trial_ends_at', now.toISOString())
+      .lte('trial_ends_at', reminderWindowEnd.toISOString())
+      .order('trial_ends_at', { ascending: true })
+      .limit(limit);
+
+    await run(rowsOf(endingSoon), async company => {
+      if (await this.queueDueReminder(company)) {
+        summary.remindersQueued++;
+      }
+    });
+
+    // Trials that are over - conversion
+    const ended = await this.supabase
+      .from('companies')
+      .select(TRIAL_COLUMNS)
+      .eq('trial_status', 'trialing')
+      .lte('trial_ends_at', now.toISOString())
+      .order('trial_ends_at', { ascending: true })
+      .limit(limit);
+
+    await run(rowsOf(ended), async company => {
+      const status = await this.endTrial(company);
+      if (status === 'converting') {
+        summary.converting++;
+      } else if (status === 'expired') {
+        summary.expired++;
+      }
+    });
+
+    // Expired trials - resume once a bank account has been verified
+    if (this.stripe) {
+      const resumable = await this.supabase
+        .from('companies')
+        .select(TRIAL_COLUMNS)
+        .eq('trial_status', 'expired')
+        .eq('payment_method_status', 'verified')
+        .not('stripe_payment_method_id', 'is', null)
+        .order('trial_ends_at', { ascending: true })
+        .limit(limit);
+
+      await run(rowsOf(resumable), async company => {
+        if (await this.resumeExpired(company)) {
+          summary.resumed++;
+        }
+      });
+    }
+
+    return summary;
+  }
+
+  // ============================================================================
+  // WEBHOOK EVENTS
+  // ============================================================================
+
+  /**
+   * Queue the reminder that is due now, if any (customer.subscription.trial_will_end)
+   *
+   * @param companyId Company UUID
+   * @returns Whether a reminder was queued
+   */
+  async remind(companyId: string): Promise<boolean> {
+    const company = await this.findCompany(companyId);
+    if (!company || company.trial_status !== 'trialing') {
+      return false;
+    }
+
+    return this.queueDueReminder(company);
+  }
+
+  /**
+   * Finish the conversion after the first payment succeeds
+   *
+   * @param companyId Company UUID
+   * @returns Whether the trial was converted by this call
+   */
+  async recordPayment(companyId: string): Promise<boolean> {
+    const company = await this.findCompany(companyId);
+    if (!company || !this.isAwaitingFirstPayment(company)) {
+      return false;
+    }
+
+    const now = this.now().toISOString();
+    const converted = await this.updateTrial(company, {
+      trial_status: 'converted',
+      trial_converted_at: now,
+      updated_at: now,
+    });
+
+    if (converted) {
+      console.log(`Trial converted for company ${companyId}`);
+    }
+    return converted;
+  }
+
+  /**
+   * Mark the first charge after the trial as failed
+   *
+   * DunningService has already opened a case for the failure - it retries
+   * the invoice and emails the owner. A later success still converts.
+   *
+   * @param companyId Company UUID
+   * @returns Whether the trial was marked failed by this call
+   */
+  async recordPaymentFailure(companyId: string): Promise<boolean> {
+    const company = await this.findCompany(companyId);
+    if (!company || !this.isAwaitingFirstPayment(company) || company.trial_status === 'payment_failed') {
+      return false;
+    }
+
+    const failed = await this.updateTrial(company, {
+      trial_status: 'payment_failed',
+      updated_at: this.now().toISOString(),
+    });
+
+    if (failed) {
+      console.log(`First payment after trial failed for company ${companyId}`);
+    }
+    return failed;
+  }
+
+  // ============================================================================
+  // ADMIN
+  // ============================================================================
+
+  /**
+   * Extend a running trial (moves the Stripe trial end as well)
+   *
+   * @param companyId Company UUID
+   * @param request Days to add, who granted them and why
+   */
+  async extend(companyId: string, request: TrialExtensionRequest): Promise<TrialExtensionResult> {
+    const { maxExtensionDays, maxTotalExtensionDays } = this.policy;
+
+    if (!Number.isInteger(request.days) || request.days < 1 || request.days > maxExtensionDays) {
+      return {
+        outcome: 'not_allowed',
+        message: `An extension must be between 1 and ${maxExtensionDays} days.`,
+      };
+    }
+
+    const company = await this.findCompany(companyId);
+    if (!company) {
+      return { outcome: 'not_found', message: 'Company not found.' };
+    }
+
+    if (company.trial_status !== 'trialing' || !company.trial_ends_at) {
+      return { outcome: 'not_allowed', message: 'Only a trial that is still running can be extended.' };
+    }
+
+    if (company.trial_extended_days + request.days > maxTotalExtensionDays) {
+      return {
+        outcome: 'not_allowed',
+        message: `This trial has already been extended by ${company.trial_extended_days} days (limit ${maxTotalExtensionDays}).`,
+      };
+    }
+
+    const previousEnd = new Date(company.trial_ends_at);
+    const newEnd = new Date(previousEnd.getTime() + request.days * DAY_MS);
+
+    if (company.stripe_subscription_id) {
+      if (!this.stripe) {
+        throw new Error('TrialService needs a Stripe client to extend trials');
+      }
+
+      const result = await this.stripe.updateSubscription(company.stripe_subscription_id, { trialEnd: newEnd });
+      if (!result.success) {
+        console.error(`Stripe trial extension failed for company ${companyId}:`, result.error?.code);
+        return {
+          outcome: 'failed',
+          message: result.error?.userMessage || 'Unable to update the subscription. Please try again.',
+          errorCode: result.error?.code,
+        };
+      }
+    }
+
+    // Reminders start over for the new trial end
+    const extended = await this.updateTrial(company, {
+      trial_ends_at: newEnd.toISOString(),
+      trial_end_date: toTrialEndDate(newEnd),
+      next_billing_date: toTrialEndDate(newEnd),
+      billing_cycle_day: newEnd.getUTCDate(),
+      trial_extended_days: company.trial_extended_days + request.days,
+      trial_reminders_sent: [],
+      updated_at: this.now().toISOString(),
+    });
+
+    if (!extended) {
+      // The trial ended or was extended meanwhile - Stripe already has newEnd,
+      // which a retry recomputes from the stored end
+      return { outcome: 'failed', message: 'The trial changed while it was being extended. Please try again.' };
+    }
+
+    const { error: logError } = await this.supabase
+      .from('trial_extensions')
+      .insert({
+        company_id: companyId,
+        days: request.days,
+        previous_ends_at: previousEnd.toISOString(),
+        new_ends_at: newEnd.toISOString(),
+        granted_by: request.grantedBy,
+        reason: request.reason || null,
+      });
+
+    if (logError) {
+      // The extension itself has been applied
+      console.error(`Failed to log trial extension for company ${companyId}:`, logError);
+    }
+
+    console.log(`Trial for company ${companyId} extended by ${request.days} days to ${newEnd.toISOString()}`);
+    return {
+      outcome: 'extended',
+      message: `Trial extended by ${request.days} days - it now ends on ${toTrialEndDate(newEnd)}.`,
+      trialEndsAt: newEnd.toISOString(),
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Queue the trial_ending reminder for the current reminder day, once
+   */
+  private async queueDueReminder(company: TrialCompanyRecord): Promise<boolean> {
+    if (!company.trial_ends_at) {
+      return false;
+    }
+
+    const trialEnd = new Date(company.trial_ends_at);
+    const daysLeft = Math.ceil((trialEnd.getTime() - this.now().getTime()) / DAY_MS);
+    const due = this.policy.reminderDays
+      .filter(day => day >= daysLeft)
+      .sort((a, b) => a - b)[0];
+
+    // Not due yet, or this (or a closer) reminder already went out
+    if (due === undefined || daysLeft < 1 || company.trial_reminders_sent.some(day => day <= due)) {
+      return false;
+    }
+
+    const to = company.billing_email || company.email;
+    if (!to) {
+      console.warn(`Company ${company.id} has no billing email - skipping trial reminder`);
+      return false;
+    }
+
+    await this.outbox.enqueue(
+      'trial_ending',
+      to,
+      {
+        firstName: (company.billing_name || '').split(' ')[0] || 'there',
+        companyName: company.name,
+        planName: planName(company.subscription_tier),
+        trialEndDate: toTrialEndDate(trialEnd),
+        amount: Number(company.monthly_amount || 0),
+        hasPaymentMethod: hasVerifiedPaymentMethod(company),
+        bankLabel: await this.findBankLabel(company),
+        billingUrl: this.billingUrl,
+      },
+      { companyId: company.id, dedupeKey: `trial_ending:${company.id}:${toTrialEndDate(trialEnd)}:${due}` }
+    );
+
+    await this.updateTrial(company, {
+      trial_reminders_sent: [...company.trial_reminders_sent, due],
+      updated_at: this.now().toISOString(),
+    });
+
+    console.log(`Queued ${due}-day trial reminder for company ${company.id}`);
+    return true;
+  }
+
+  /**
+   * Move a finished trial to 'converting' or 'expired'
+   *
+   * With a verified bank Stripe has invoiced the first period and started
+   * the ACH debit - the payment_intent webhooks finish the conversion.
+   * Without one Stripe paused the subscription (trial_settings on
+   * creation), and the owner is asked to add a bank.
+   */
+  private async endTrial(company: TrialCompanyRecord): Promise<TrialStatus | null> {
+    const now = this.now().toISOString();
+
+    if (hasVerifiedPaymentMethod(company)) {
+      const updated = await this.updateTrial(company, { trial_status: 'converting', updated_at: now });
+      return updated ? 'converting' : null;
+    }
+
+    const updated = await this.updateTrial(company, {
+      trial_status: 'expired',
+      subscription_status: 'paused',
+      updated_at: now,
+    });
+    if (!updated) {
+      return null;
+    }
+
+    const to = company.billing_email || company.email;
+    if (to) {
+      await this.outbox.enqueue(
+        'trial_expired',
+        to,
+        {
+          firstName: (company.billing_name || '').split(' ')[0] || 'there',
+          companyName: company.name,
+          planName: planName(company.subscription_tier),
+          billingUrl: this.billingUrl,
+        },
+        { companyId: company.id, dedupeKey: `trial_expired:${company.id}:${toTrialEndDate(new Date(company.trial_ends_at || 0))}` }
+      );
+    }
+
+    console.log(`Trial expired without a verified bank account for company ${company.id}`);
+    return 'expired';
+  }
+
+  /**
+   * Resume the paused subscription of an expired trial (bills from today)
+   */
+  private async resumeExpired(company: TrialCompanyRecord): Promise<boolean> {
+    if (!this.stripe || !company.stripe_subscription_id) {
+      return false;
+    }
+
+    const result = await this.stripe.resumeSubscription(company.stripe_subscription_id);
+    if (!result.success || !result.data) {
+      throw new Error(`Stripe resume failed: ${result.error?.code || 'unknown error'}`);
+    }
+
+    const now = this.now().toISOString();
+    const resumed = await this.updateTrial(company, {
+      trial_status: 'converting',
+      subscription_status: result.data.status,
+      updated_at: now,
+    });
+
+    if (resumed) {
+      console.log(`Resumed subscription ${company.stripe_subscription_id} for company ${company.id}`);
+    }
+    return resumed;
+  }
+
+  /**
+   * Whether the trial is over and its first payment has not succeeded yet
+   *
+   * A trial past its end can still be 'trialing' when a payment webhook
+   * arrives before the next scheduled run.
+   */
+  private isAwaitingFirstPayment(company: TrialCompanyRecord): boolean {
+    switch (company.trial_status) {
+      case 'converting':
+      case 'payment_failed':
+      case 'expired':
+        return true;
+      case 'trialing':
+        return !!company.trial_ends_at && new Date(company.trial_ends_at) <= this.now();
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * "Chase ••••1234" for the company's billed account (null if unknown)
+   */
+  private async findBankLabel(company: TrialCompanyRecord): Promise<string | null> {
+    if (!company.stripe_payment_method_id) {
+      return null;
+    }
+
+    const { data: account } = await this.supabase
+      .from('plaid_items')
+      .select('institution_name, account_mask')
+      .eq('company_id', company.id)
+      .eq('stripe_payment_method_id', company.stripe_payment_method_id)
+      .maybeSingle();
+
+    return account?.institution_name && account.account_mask
+      ? `${account.institution_name} ••••${account.account_mask}`
+      : null;
+  }
+
+  private async findCompany(companyId: string): Promise<TrialCompanyRecord | null> {
+    const { data, error } = await this.supabase
+      .from('companies')
+      .select(TRIAL_COLUMNS)
+      .eq('id', companyId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as TrialCompanyRecord | null;
+  }
+
+  /**
+   * Update a company only if its trial has not moved on since it was read
+   *
+   * @returns Whether the row was updated
+   */
+  private async updateTrial(company: TrialCompanyRecord, updates: Record<string, unknown>): Promise<boolean> {
+    let query = this.supabase
+      .from('companies')
+      .update(updates)
+      .eq('id', company.id);
+
+    query = company.trial_status
+      ? query.eq('trial_status', company.trial_status)
+      : query.is('trial_status', null);
+
+    const { data, error } = await (company.trial_ends_at
+      ? query.eq('trial_ends_at', company.trial_ends_at)
+      : query)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).length > 0;
+  }
+}
+
+export default TrialService;
@@ -0,0 +1,192 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { PlaidApi } from 'plaid';
+import { PlaidRetryPolicy, classifyPlaidFailure } from '../PlaidRetryPolicy';
+import type { PlaidRetryPolicyOptions } from '../PlaidRetryPolicy';
+import { createPlaidService } from '../PlaidService';
+
+const PUBLIC_TOKEN = 'public-sandbox-0a1b2c3d-4e5f';
+const ACCESS_TOKEN = 'access-sandbox-0a1b2c3d-4e5f';
+
+// Fake clock: sleeping advances time instantly
+function fakeClock() {
+  let time = 0;
+  const sleeps: number[] = [];
+  const clock: Required<Pick<PlaidRetryPolicyOptions, 'now' | 'sleep' | 'random'>> = {
+    now: () => time,
+    sleep: async ms => {
+      sleeps.push(ms);
+      time += ms;
+    },
+    random: () => 0.5,
+  };
+  return { ...clock, sleeps, advance: (ms: number) => { time += ms; } };
+}
+
+const networkError = (code: string) => Object.assign(new Error(`socket error ${code}`), { code });
+
+const plaidError = (status: number, errorType: string, errorCode: string, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(errorCode), {
+    response: {
+      status,
+      headers,
+      data: { error_type: errorType, error_code: errorCode, error_message: errorCode, display_message: null },
+    },
+  });
+
+const exchangeResponse = { data: { access_token: ACCESS_TOKEN, item_id: 'item-1', request_id: 'req-1' } };
+
+const accountsResponse = {
+  data: {
+    accounts: [{
+      account_id: 'acc-1',
+      name: 'Checking',
+      official_name: null,
+      type: 'depository',
+      subtype: 'checking',
+      mask: '0000',
+      balances: { available: 100, current: 100, limit: null, iso_currency_code: 'USD', unofficial_currency_code: null },
+    }],
+    item: { item_id: 'item-1' },
+    request_id: 'req-2',
+  },
+};
+
+const itemResponse = {
+  data: {
+    item: { item_id: 'item-1', institution_id: 'ins_1', webhook: null, error: null, available_products: [], billed_products: [] },
+    request_id: 'req-3',
+  },
+};
+
+// Fake Plaid client - each method replays the given outcomes in order
+function fakePlaidClient(outcomes: Record<string, unknown[]>) {
+  const method = (name: string) => vi.fn(async () => {
+    const next = outcomes[name]?.shift();
+    if (next instanceof Error) {
+      throw next;
+    }
+    return next;
+  });
+
+  return {
+    itemPublicTokenExchange: method('itemPublicTokenExchange'),
+    accountsGet: method('accountsGet'),
+    itemGet: method('itemGet'),
+  };
+}
+
+function plaidServiceAround(client: ReturnType<typeof fakePlaidClient>, clock = fakeClock()) {
+  return createPlaidService({
+    clientId: 'test-client',
+    secret: 'test-secret',
+    client: client as unknown as PlaidApi,
+    retry: clock,
+  });
+}
+
+describe('classifyPlaidFailure', () => {
+  it('classifies network, rate limit and Plaid errors', () => {
+    expect(classifyPlaidFailure(networkError('ECONNREFUSED'))).toBe('not_sent');
+    expect(classifyPlaidFailure(networkError('ECONNRESET'))).toBe('transient');
+    expect(classifyPlaidFailure(plaidError(429, 'RATE_LIMIT_EXCEEDED', 'RATE_LIMIT_EXCEEDED'))).toBe('rate_limited');
+    expect(classifyPlaidFailure(plaidError(500, 'API_ERROR', 'INTERNAL_SERVER_ERROR'))).toBe('transient');
+    expect(classifyPlaidFailure(plaidError(400, 'INVALID_INPUT', 'INVALID_PUBLIC_TOKEN'))).toBe('permanent');
+  });
+});
+
+describe('PlaidRetryPolicy against a fake Plaid client', () => {
+  it('attempts a public token exchange only once when the connection resets', async () => {
+    const client = fakePlaidClient({ itemPublicTokenExchange: [networkError('ECONNRESET'), exchangeResponse] });
+
+    const result = await plaidServiceAround(client).exchangePublicToken({ publicToken: PUBLIC_TOKEN, accountId: 'acc-1' });
+
+    expect(result.success).toBe(false);
+    expect(client.itemPublicTokenExchange).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a public token exchange that never reached Plaid', async () => {
+    const client = fakePlaidClient({ itemPublicTokenExchange: [networkError('ECONNREFUSED'), exchangeResponse] });
+
+    const result = await plaidServiceAround(client).exchangePublicToken({ publicToken: PUBLIC_TOKEN, accountId: 'acc-1' });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.accessToken).toBe(ACCESS_TOKEN);
+    expect(client.itemPublicTokenExchange).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries idempotent calls after transient failures', async () => {
+    const client = fakePlaidClient({
+      accountsGet: [networkError('ECONNRESET'), plaidError(500, 'API_ERROR', 'INTERNAL_SERVER_ERROR'), accountsResponse],
+      itemGet: [itemResponse],
+    });
+
+    const result = await plaidServiceAround(client).getAccounts(ACCESS_TOKEN);
+
+    expect(result.success).toBe(true);
+    expect(client.accountsGet).toHaveBeenCalledTimes(3);
+    expect(client.itemGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry permanent errors', async () => {
+    const client = fakePlaidClient({
+      accountsGet: [plaidError(400, 'ITEM_ERROR', 'ITEM_LOGIN_REQUIRED'), accountsResponse],
+    });
+
+    const result = await plaidServiceAround(client).getAccounts(ACCESS_TOKEN);
+
+    expect(result.success).toBe(false);
+    expect(client.accountsGet).toHaveBeenCalledTimes(1);
+    expect(client.itemGet).not.toHaveBeenCalled();
+  });
+});
+
+describe('PlaidRetryPolicy', () => {
+  it('gives up after maxAttempts', async () => {
+    const call = vi.fn(async () => {
+      throw networkError('ECONNRESET');
+    });
+
+    await expect(new PlaidRetryPolicy({ ...fakeClock(), maxAttempts: 3 }).run('accounts/get', call))
+      .rejects.toThrow('ECONNRESET');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits at least Retry-After when rate limited', async () => {
+    const clock = fakeClock();
+    const call = vi.fn()
+      .mockRejectedValueOnce(plaidError(429, 'RATE_LIMIT_EXCEEDED', 'RATE_LIMIT_EXCEEDED', { 'retry-after': '2' }))
+      .mockResolvedValueOnce('ok');
+
+    await expect(new PlaidRetryPolicy(clock).run('item/public_token/exchange', call, { idempotent: false }))
+      .resolves.toBe('ok');
+    expect(clock.sleeps).toEqual([2000]);
+  });
+
+  it('stops retrying when the next backoff would pass the deadline', async () => {
+    const clock = fakeClock();
+    const call = vi.fn(async () => {
+      throw plaidError(429, 'RATE_LIMIT_EXCEEDED', 'RATE_LIMIT_EXCEEDED', { 'retry-after': '5' });
+    });
+
+    await expect(new PlaidRetryPolicy(clock).run('accounts/get', call, { deadlineMs: 8000 }))
+      .rejects.toThrow('RATE_LIMIT_EXCEEDED');
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(clock.sleeps).toEqual([5000]);
+  });
+
+  it('fits the default budget within the Netlify function timeout', async () => {
+    const clock = fakeClock();
+    const timeouts: number[] = [];
+    // Every attempt hangs until its HTTP timeout
+    const call = vi.fn(async ({ timeoutMs }: { timeoutMs: number }) => {
+      timeouts.push(timeoutMs);
+      clock.advance(timeoutMs > 2000 ? 2000 : timeoutMs);
+      throw networkError('ETIMEDOUT');
+    });
+
+    await expect(new PlaidRetryPolicy(clock).run('accounts/get', call)).rejects.toThrow('ETIMEDOUT');
+
+    expect(timeouts[0]).toBe(6000);
+    expect(clock.now()).toBeLessThanOrEqual(6000);
+  });
+});
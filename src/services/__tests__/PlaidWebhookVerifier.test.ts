@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { PlaidWebhookVerifier, StubPlaidWebhookKeyProvider } from '../PlaidWebhookVerifier';
+
+const NOW_SECONDS = 1_760_000_000;
+const BODY = JSON.stringify({ webhook_type: 'ITEM', webhook_code: 'ERROR', item_id: 'item-sandbox-123' });
+
+const stub = StubPlaidWebhookKeyProvider.generate();
+const verifier = () => new PlaidWebhookVerifier(stub, { now: () => NOW_SECONDS * 1000 });
+
+describe('PlaidWebhookVerifier', () => {
+  it('accepts a webhook signed with the published key', async () => {
+    const result = await verifier().verify(BODY, stub.signWebhook(BODY, NOW_SECONDS - 10));
+
+    expect(result).toEqual({ valid: true, payload: JSON.parse(BODY) });
+  });
+
+  it('rejects a body that does not match the signed hash', async () => {
+    const header = stub.signWebhook(BODY, NOW_SECONDS);
+    const altered = BODY.replace('item-sandbox-123', 'item-sandbox-456');
+
+    const result = await verifier().verify(altered, header);
+
+    expect(result).toMatchObject({ valid: false, error: 'Webhook body does not match signed hash' });
+  });
+
+  it('rejects a signature from another key', async () => {
+    const other = StubPlaidWebhookKeyProvider.generate();
+
+    const result = await verifier().verify(BODY, other.signWebhook(BODY, NOW_SECONDS));
+
+    expect(result).toMatchObject({ valid: false, error: 'Invalid webhook signature' });
+  });
+
+  it('rejects a stale iat', async () => {
+    const result = await verifier().verify(BODY, stub.signWebhook(BODY, NOW_SECONDS - 5 * 60 - 1));
+
+    expect(result).toMatchObject({ valid: false, error: 'Webhook timestamp too old (possible replay attack)' });
+  });
+
+  it('rejects an iat beyond the allowed clock skew', async () => {
+    const withinSkew = await verifier().verify(BODY, stub.signWebhook(BODY, NOW_SECONDS + 60));
+    const future = await verifier().verify(BODY, stub.signWebhook(BODY, NOW_SECONDS + 61));
+
+    expect(withinSkew.valid).toBe(true);
+    expect(future).toMatchObject({ valid: false, error: 'Webhook timestamp is in the future' });
+  });
+});
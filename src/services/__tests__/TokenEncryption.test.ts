@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { TokenDecryptionError, TokenKeyring } from '../TokenEncryption';
+
+const ITEM_ID = 'item-sandbox-123';
+const ACCESS_TOKEN = 'access-sandbox-5c2a9f1e';
+
+const oldKey = crypto.randomBytes(32);
+const newKey = crypto.randomBytes(32);
+
+const oldKeyring = () => new TokenKeyring({ 'key-2024': oldKey }, 'key-2024');
+const rotatedKeyring = () => new TokenKeyring({ 'key-2024': oldKey, 'key-2025': newKey }, 'key-2025');
+
+// Flip one bit of a base64url envelope segment
+function tamper(envelope: string, segment: number): string {
+  const parts = envelope.split('.');
+  const bytes = Buffer.from(parts[segment], 'base64url');
+  bytes[Math.floor(bytes.length / 2)] ^= 0x01;
+  parts[segment] = bytes.toString('base64url');
+  return parts.join('.');
+}
+
+describe('TokenKeyring', () => {
+  it('round-trips a value under the active key', () => {
+    const keyring = rotatedKeyring();
+    const { keyId, envelope } = keyring.encrypt(ACCESS_TOKEN, ITEM_ID);
+
+    expect(keyId).toBe('key-2025');
+    expect(TokenKeyring.keyIdOf(envelope)).toBe('key-2025');
+    expect(envelope).not.toContain(ACCESS_TOKEN);
+    expect(keyring.decrypt(envelope, ITEM_ID)).toBe(ACCESS_TOKEN);
+  });
+
+  it('decrypts envelopes wrapped with an older key after rotation', () => {
+    const { envelope } = oldKeyring().encrypt(ACCESS_TOKEN, ITEM_ID);
+
+    expect(rotatedKeyring().decrypt(envelope, ITEM_ID)).toBe(ACCESS_TOKEN);
+  });
+
+  it('rewraps an old envelope onto the active key', () => {
+    const { envelope } = oldKeyring().encrypt(ACCESS_TOKEN, ITEM_ID);
+    const keyring = rotatedKeyring();
+
+    const rewrapped = keyring.rewrap(envelope);
+
+    expect(rewrapped.keyId).toBe('key-2025');
+    expect(TokenKeyring.keyIdOf(rewrapped.envelope)).toBe('key-2025');
+    // The sealed value is carried over unchanged
+    expect(rewrapped.envelope.split('.')[3]).toBe(envelope.split('.')[3]);
+    expect(keyring.decrypt(rewrapped.envelope, ITEM_ID)).toBe(ACCESS_TOKEN);
+
+    // Readable without the old key once rewrapped
+    const newOnly = new TokenKeyring({ 'key-2025': newKey }, 'key-2025');
+    expect(newOnly.decrypt(rewrapped.envelope, ITEM_ID)).toBe(ACCESS_TOKEN);
+  });
+
+  it('returns envelopes already on the active key unchanged', () => {
+    const keyring = rotatedKeyring();
+    const encrypted = keyring.encrypt(ACCESS_TOKEN, ITEM_ID);
+
+    expect(keyring.rewrap(encrypted.envelope)).toEqual(encrypted);
+  });
+
+  it('rejects a value moved to another record (associated data mismatch)', () => {
+    const keyring = rotatedKeyring();
+    const { envelope } = keyring.encrypt(ACCESS_TOKEN, ITEM_ID);
+
+    expect(() => keyring.decrypt(envelope, 'item-sandbox-456')).toThrow(TokenDecryptionError);
+  });
+
+  it('rejects a tampered sealed value', () => {
+    const keyring = rotatedKeyring();
+    const { envelope } = keyring.encrypt(ACCESS_TOKEN, ITEM_ID);
+
+    expect(() => keyring.decrypt(tamper(envelope, 3), ITEM_ID)).toThrow(TokenDecryptionError);
+  });
+
+  it('rejects a tampered wrapped data key', () => {
+    const keyring = rotatedKeyring();
+    const { envelope } = keyring.encrypt(ACCESS_TOKEN, ITEM_ID);
+
+    expect(() => keyring.decrypt(tamper(envelope, 2), ITEM_ID)).toThrow(TokenDecryptionError);
+  });
+
+  it('rejects an envelope whose key ID was swapped', () => {
+    const keyring = rotatedKeyring();
+    const { envelope } = keyring.encrypt(ACCESS_TOKEN, ITEM_ID);
+    const swapped = envelope.replace('.key-2025.', '.key-2024.');
+
+    expect(TokenKeyring.keyIdOf(swapped)).toBe('key-2024');
+    expect(() => keyring.decrypt(swapped, ITEM_ID)).toThrow(TokenDecryptionError);
+    expect(() => keyring.rewrap(swapped)).toThrow(TokenDecryptionError);
+  });
+
+  it('rejects envelopes wrapped with a key that is not in the keyring', () => {
+    const { envelope } = rotatedKeyring().encrypt(ACCESS_TOKEN, ITEM_ID);
+
+    expect(() => oldKeyring().decrypt(envelope, ITEM_ID)).toThrow(TokenDecryptionError);
+  });
+
+  it('rejects malformed envelopes', () => {
+    const keyring = rotatedKeyring();
+
+    expect(() => keyring.decrypt('not-an-envelope', ITEM_ID)).toThrow(TokenDecryptionError);
+    expect(() => keyring.decrypt('v2.key-2025.AAAA.AAAA', ITEM_ID)).toThrow(TokenDecryptionError);
+    expect(() => keyring.decrypt('v1.key-2025.AAAA.AAAA', ITEM_ID)).toThrow(TokenDecryptionError);
+  });
+
+  it('refuses a keyring whose active key is missing', () => {
+    expect(() => new TokenKeyring({ 'key-2024': oldKey }, 'key-2025')).toThrow(/not in the keyring/);
+    expect(() => new TokenKeyring({ 'key-2024': crypto.randomBytes(16) }, 'key-2024')).toThrow(/32 bytes/);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * FAKE API SERVER
+ *
+ * Shared plumbing for the in-process Plaid and Stripe stand-ins: an HTTP
+ * server on localhost, a route table, a log of every request and
+ * scriptable failures.
+ *
+ * FAILURE INJECTION: failNext() queues a failure for requests matching a
+ * path (and optionally a method). The next matching request gets the
+ * failure instead of the real response:
+ * - { status, body }        - an API error response
+ * - { dropConnection: true } - the socket is destroyed (network error)
+ * - { delayMs }              - the real response, delayed (timeouts)
+ *
+ * IMPORTANT: Test and local development use only - never deploy.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * A request received by a fake
+ */
+export interface FakeRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+/**
+ * A response from a route handler
+ */
+export interface FakeResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A scripted failure
+ */
+export interface FakeFailure {
+  /** HTTP status of the error response (default: 500) */
+  status?: number;
+
+  /** Error response body (default: the fake's generic server error) */
+  body?: unknown;
+
+  /** Extra response headers (e.g. Retry-After) */
+  headers?: Record<string, string>;
+
+  /** Destroy the connection instead of responding */
+  dropConnection?: boolean;
+
+  /** Respond normally, but only after this many milliseconds */
+  delayMs?: number;
+
+  /** How many matching requests fail (default: 1) */
+  times?: number;
+}
+
+/**
+ * Route handler - path parameters are the regex capture groups
+ */
+export type FakeRouteHandler = (request: FakeRequest, params: string[]) => FakeResponse | Promise<FakeResponse>;
+
+interface FakeRoute {
+  method: string;
+  pattern: RegExp;
+  handler: FakeRouteHandler;
+}
+
+interface QueuedFailure {
+  method?: string;
+  path: string | RegExp;
+  failure: FakeFailure;
+  remaining: number;
+}
+
+/**
+ * Base class for fake API servers
+ */
+export abstract class FakeApiServer {
+  /** Every request received, oldest first */
+  readonly requests: FakeRequest[] = [];
+
+  private server: http.Server | null = null;
+  private baseUrl = '';
+  private readonly routes: FakeRoute[] = [];
+  private failures: QueuedFailure[] = [];
+
+  // ============================================================================
+  // LIFECYCLE
+  // ============================================================================
+
+  /**
+   * Start listening on localhost
+   *
+   * @param port Port to listen on (default: a free port)
+   * @returns Base URL, e.g. http://127.0.0.1:53121
+   */
+  async start(port = 0): Promise<string> {
+    if (this.server) {
+      return this.baseUrl;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error(`${this.constructor.name} failed to handle ${req.method} ${req.url}:`, error);
+        if (!res.headersSent) {
+          this.send(res, { status: 500, body: this.serverError('Fake server error') });
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /** Base URL (empty until started) */
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  // ============================================================================
+  // FAILURE INJECTION
+  // ============================================================================
+
+  /**
+   * Fail the next request(s) to a path
+   *
+   * @param path Exact path (e.g. '/item/public_token/exchange') or a pattern
+   * @param failure What to do instead of the real response
+   * @param method Only fail requests with this HTTP method
+   *
+   * @example
+   * ```typescript
+   * plaid.failNext('/processor/stripe/bank_account_token/create', { dropConnection: true, times: 2 });
+   * stripe.failNext(/^\/v1\/subscriptions$/, { status: 402, body: FakeStripeServer.error('card_error', 'bank_account_declined') }, 'POST');
+   * ```
+   */
+  failNext(path: string | RegExp, failure: FakeFailure = {}, method?: string): this {
+    this.failures.push({
+      path,
+      method: method?.toUpperCase(),
+      failure,
+      remaining: Math.max(1, failure.times ?? 1),
+    });
+    return this;
+  }
+
+  /**
+   * Requests received for a path (and method)
+   */
+  requestsTo(path: string | RegExp, method?: string): FakeRequest[] {
+    return this.requests.filter(request => this.matches(request, path, method?.toUpperCase()));
+  }
+
+  /**
+   * Forget requests and queued failures (state kept by subclasses is
+   * cleared by their own reset)
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.failures = [];
+  }
+
+  // ============================================================================
+  // SUBCLASS HOOKS
+  // ============================================================================
+
+  /**
+   * Register a route
+   *
+   * @param pattern Anchored path pattern - capture groups become params
+   */
+  protected route(method: string, pattern: RegExp, handler: FakeRouteHandler): void {
+    this.routes.push({ method: method.toUpperCase(), pattern, handler });
+  }
+
+  /**
+   * Parse a raw request body
+   */
+  protected abstract parseBody(raw: string, contentType: string): Record<string, unknown>;
+
+  /**
+   * Error body for unknown routes
+   */
+  protected abstract notFound(request: FakeRequest): FakeResponse;
+
+  /**
+   * Error body for an injected failure without a body
+   */
+  protected abstract serverError(message: string): unknown;
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+    const request: FakeRequest = {
+      method: (req.method || 'GET').toUpperCase(),
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams.entries()),
+      headers: req.headers,
+      body: this.parseBody(Buffer.concat(chunks).toString('utf8'), req.headers['content-type'] || ''),
+    };
+    this.requests.push(request);
+
+    const failure = this.takeFailure(request);
+    if (failure?.dropConnection) {
+      req.socket.destroy();
+      return;
+    }
+
+    if (failure?.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, failure.delayMs));
+    }
+
+    if (failure && !failure.delayMs) {
+      this.send(res, {
+        status: failure.status || 500,
+        body: failure.body ?? this.serverError('Injected failure'),
+        headers: failure.headers,
+      });
+      return;
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === request.method ? route.pattern.exec(request.path) : null;
+      if (match) {
+        this.send(res, await route.handler(request, match.slice(1)));
+        return;
+      }
+    }
+
+    this.send(res, this.notFound(request));
+  }
+
+  private takeFailure(request: FakeRequest): FakeFailure | null {
+    const queued = this.failures.find(f => this.matches(request, f.path, f.method));
+    if (!queued) {
+      return null;
+    }
+
+    queued.remaining--;
+    if (queued.remaining <= 0) {
+      this.failures = this.failures.filter(f => f !== queued);
+    }
+    return queued.failure;
+  }
+
+  private matches(request: FakeRequest, path: string | RegExp, method?: string): boolean {
+    if (method && request.method !== method) {
+      return false;
+    }
+    return typeof path === 'string' ? request.path === path : path.test(request.path);
+  }
+
+  private send(res: http.ServerResponse, response: FakeResponse): void {
+    res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+    res.end(JSON.stringify(response.body));
+  }
+}
+
+export default FakeApiServer;
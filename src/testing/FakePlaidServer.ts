@@ -0,0 +1,524 @@
+/**
+ * FAKE PLAID SERVER
+ *
+ * In-process stand-in for the Plaid API, for offline end-to-end tests.
+ * Point PlaidService at it with PLAID_API_BASE_URL (see
+ * startFakePaymentServers).
+ *
+ * COVERS:
+ * - /link/token/create, /sandbox/public_token/create
+ * - /item/public_token/exchange (public tokens are single-use)
+ * - /accounts/get, /accounts/balance/get, /item/get, /item/remove
+ * - /processor/stripe/bank_account_token/create
+ * - /institutions/get_by_id
+ * - /webhook_verification_key/get - fireWebhook() signs webhooks with this
+ *   key, so plaid-webhook verifies them exactly as it would real ones
+ *
+ * Plaid Link itself runs in the browser and is not faked - tests call
+ * createPublicToken() to get what Link would hand to the signup form.
+ *
+ * IMPORTANT: Test and local development use only - never deploy.
+ */
+
+import crypto from 'crypto';
+import { FakeApiServer } from './FakeApiServer';
+import type { FakeRequest, FakeResponse } from './FakeApiServer';
+import { StubPlaidWebhookKeyProvider } from '../services/PlaidWebhookVerifier';
+import type { PlaidErrorCode, PlaidErrorType, PlaidWebhookPayload } from '../types/plaid';
+
+/**
+ * An account on a fake item (Plaid's /accounts/get shape)
+ */
+export interface FakePlaidAccount {
+  account_id: string;
+  name: string;
+  official_name: string | null;
+  mask: string;
+  type: string;
+  subtype: string;
+  balances: {
+    available: number | null;
+    current: number | null;
+    limit: number | null;
+    iso_currency_code: string;
+    unofficial_currency_code: null;
+  };
+  verification_status?: string;
+}
+
+/**
+ * A linked item
+ */
+export interface FakePlaidItem {
+  itemId: string;
+  accessToken: string;
+  institutionId: string;
+  accounts: FakePlaidAccount[];
+  webhook: string | null;
+
+  /** Item error returned by every call until cleared (e.g. ITEM_LOGIN_REQUIRED) */
+  error: { error_type: PlaidErrorType; error_code: PlaidErrorCode; error_message: string } | null;
+
+  removed: boolean;
+}
+
+/**
+ * A processor token handed to Stripe
+ */
+export interface FakeProcessorToken {
+  token: string;
+  itemId: string;
+  institutionName: string;
+  account: FakePlaidAccount;
+}
+
+/**
+ * An institution in the fake directory
+ */
+export interface FakePlaidInstitution {
+  institution_id: string;
+  name: string;
+  primary_color: string | null;
+  logo: string | null;
+  url: string | null;
+}
+
+/**
+ * Options for createPublicToken
+ */
+export interface CreateFakePublicTokenOptions {
+  /** Institution (default: First Platypus Bank, ins_109508) */
+  institutionId?: string;
+
+  /** Accounts on the item (default: a checking and a savings account) */
+  accounts?: Array<Partial<FakePlaidAccount>>;
+
+  /** Link token the session was opened with (the item gets its webhook URL) */
+  linkToken?: string;
+
+  /** Webhook URL for the item (overrides the link token's) */
+  webhook?: string;
+}
+
+/**
+ * Plaid sandbox institutions
+ */
+const DEFAULT_INSTITUTIONS: FakePlaidInstitution[] = [
+  { institution_id: 'ins_109508', name: 'First Platypus Bank', primary_color: '#1f1f1f', logo: null, url: 'https://plaid.com' },
+  { institution_id: 'ins_109509', name: 'First Gingham Credit Union', primary_color: '#d32d32', logo: null, url: 'https://plaid.com' },
+  { institution_id: 'ins_109511', name: 'Tartan Bank', primary_color: '#0d5b9f', logo: null, url: 'https://plaid.com' },
+];
+
+const DEFAULT_INSTITUTION_ID = 'ins_109508';
+
+/**
+ * Fake Plaid API
+ *
+ * @example
+ * ```typescript
+ * const plaid = new FakePlaidServer();
+ * process.env.PLAID_API_BASE_URL = await plaid.start();
+ *
+ * const { publicToken, accounts } = plaid.createPublicToken();
+ * // POST signup-with-payment with { plaidPublicToken: publicToken, plaidAccountId: accounts[0].account_id }
+ *
+ * plaid.failNext('/item/public_token/exchange', FakePlaidServer.error('INVALID_INPUT', 'INVALID_PUBLIC_TOKEN'));
+ * ```
+ */
+export class FakePlaidServer extends FakeApiServer {
+  /** Signs webhooks; its public key is served by /webhook_verification_key/get */
+  readonly webhookKeys = StubPlaidWebhookKeyProvider.generate('fake-plaid-webhook-key');
+
+  private institutions = new Map<string, FakePlaidInstitution>();
+  private linkTokens = new Map<string, string | null>();
+  private publicTokens = new Map<string, FakePlaidItem>();
+  private itemsById = new Map<string, FakePlaidItem>();
+  private processorTokenMap = new Map<string, FakeProcessorToken>();
+
+  constructor() {
+    super();
+    this.seed();
+
+    this.route('POST', /^\/link\/token\/create$/, request => this.createLinkToken(request));
+    this.route('POST', /^\/sandbox\/public_token\/create$/, request => this.sandboxPublicToken(request));
+    this.route('POST', /^\/item\/public_token\/exchange$/, request => this.exchange(request));
+    this.route('POST', /^\/accounts\/get$/, request => this.accounts(request));
+    this.route('POST', /^\/accounts\/balance\/get$/, request => this.accounts(request));
+    this.route('POST', /^\/item\/get$/, request => this.item(request));
+    this.route('POST', /^\/item\/remove$/, request => this.removeItem(request));
+    this.route('POST', /^\/processor\/stripe\/bank_account_token\/create$/, request => this.processorToken(request));
+    this.route('POST', /^\/institutions\/get_by_id$/, request => this.institution(request));
+    this.route('POST', /^\/webhook_verification_key\/get$/, request => this.verificationKey(request));
+  }
+
+  // ============================================================================
+  // TEST HELPERS
+  // ============================================================================
+
+  /**
+   * Build a Plaid API error response
+   *
+   * @example
+   * ```typescript
+   * plaid.failNext('/accounts/get', FakePlaidServer.error('ITEM_ERROR', 'ITEM_LOGIN_REQUIRED'));
+   * ```
+   */
+  static error(errorType: PlaidErrorType, errorCode: string, status = 400): { status: number; body: unknown } {
+    return {
+      status,
+      body: {
+        error_type: errorType,
+        error_code: errorCode,
+        error_message: `Fake Plaid error: ${errorCode}`,
+        display_message: null,
+        request_id: crypto.randomUUID(),
+      },
+    };
+  }
+
+  /**
+   * Link an item the way Plaid Link would and return its public token
+   */
+  createPublicToken(
+    options: CreateFakePublicTokenOptions = {}
+  ): { publicToken: string; item: FakePlaidItem; accounts: FakePlaidAccount[] } {
+    const institutionId = options.institutionId || DEFAULT_INSTITUTION_ID;
+    const accounts = (options.accounts || [
+      { name: 'Plaid Checking', mask: '0000', subtype: 'checking' },
+      { name: 'Plaid Saving', mask: '1111', subtype: 'savings' },
+    ]).map(account => this.buildAccount(account));
+
+    const item: FakePlaidItem = {
+      itemId: `item-${crypto.randomUUID()}`,
+      accessToken: `access-sandbox-${crypto.randomUUID()}`,
+      institutionId,
+      accounts,
+      webhook: options.webhook || (options.linkToken && this.linkTokens.get(options.linkToken)) || null,
+      error: null,
+      removed: false,
+    };
+
+    const publicToken = `public-sandbox-${crypto.randomUUID()}`;
+    this.publicTokens.set(publicToken, item);
+    return { publicToken, item, accounts };
+  }
+
+  /**
+   * Put an item into an error state (cleared with null)
+   */
+  setItemError(itemId: string, errorCode: PlaidErrorCode | null): void {
+    const item = this.getItem(itemId);
+    item.error = errorCode
+      ? { error_type: 'ITEM_ERROR', error_code: errorCode, error_message: `Fake Plaid error: ${errorCode}` }
+      : null;
+  }
+
+  /**
+   * Change an account's available and current balance
+   */
+  setBalance(itemId: string, accountId: string, available: number | null, current = available): void {
+    const account = this.getItem(itemId).accounts.find(a => a.account_id === accountId);
+    if (!account) {
+      throw new Error(`Fake Plaid account ${accountId} not found on ${itemId}`);
+    }
+    account.balances.available = available;
+    account.balances.current = current;
+  }
+
+  /**
+   * Send a signed webhook for an item to its webhook URL (or `url`)
+   *
+   * @returns HTTP status returned by the receiver
+   */
+  async fireWebhook(
+    itemId: string,
+    payload: Omit<PlaidWebhookPayload, 'item_id'> & Record<string, unknown>,
+    url?: string
+  ): Promise<number> {
+    const target = url || this.getItem(itemId).webhook;
+    if (!target) {
+      throw new Error(`Fake Plaid item ${itemId} has no webhook URL`);
+    }
+
+    const body = JSON.stringify({ ...payload, item_id: itemId, environment: 'sandbox' });
+    const response = await fetch(target, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Plaid-Verification': this.webhookKeys.signWebhook(body),
+      },
+      body,
+    });
+    return response.status;
+  }
+
+  /** Items that were exchanged, by item ID */
+  get items(): FakePlaidItem[] {
+    return [...this.itemsById.values()];
+  }
+
+  /**
+   * Look up a processor token (used by FakeStripeServer to describe the bank)
+   */
+  getProcessorToken(token: string): FakeProcessorToken | null {
+    return this.processorTokenMap.get(token) || null;
+  }
+
+  /** Link tokens created, newest last */
+  get linkTokenIds(): string[] {
+    return [...this.linkTokens.keys()];
+  }
+
+  /**
+   * Forget all items, tokens, requests and queued failures
+   */
+  reset(): void {
+    super.reset();
+    this.linkTokens.clear();
+    this.publicTokens.clear();
+    this.itemsById.clear();
+    this.processorTokenMap.clear();
+    this.seed();
+  }
+
+  // ============================================================================
+  // ROUTES
+  // ============================================================================
+
+  private createLinkToken(request: FakeRequest): FakeResponse {
+    if (!request.body.user || !request.body.client_name) {
+      return FakePlaidServer.error('INVALID_REQUEST', 'INVALID_FIELD');
+    }
+
+    const linkToken = `link-sandbox-${crypto.randomUUID()}`;
+    this.linkTokens.set(linkToken, typeof request.body.webhook === 'string' ? request.body.webhook : null);
+
+    return this.ok({
+      link_token: linkToken,
+      expiration: new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(),
+    });
+  }
+
+  private sandboxPublicToken(request: FakeRequest): FakeResponse {
+    const institutionId = String(request.body.institution_id || DEFAULT_INSTITUTION_ID);
+    if (!this.institutions.has(institutionId)) {
+      return FakePlaidServer.error('INVALID_INPUT', 'INVALID_INSTITUTION');
+    }
+
+    const options = (request.body.options || {}) as { webhook?: string };
+    const { publicToken } = this.createPublicToken({ institutionId, webhook: options.webhook });
+    return this.ok({ public_token: publicToken });
+  }
+
+  private exchange(request: FakeRequest): FakeResponse {
+    const publicToken = String(request.body.public_token || '');
+    const item = this.publicTokens.get(publicToken);
+    if (!item) {
+      return FakePlaidServer.error('INVALID_INPUT', 'INVALID_PUBLIC_TOKEN');
+    }
+
+    // Public tokens can only be exchanged once
+    this.publicTokens.delete(publicToken);
+    this.itemsById.set(item.itemId, item);
+    return this.ok({ access_token: item.accessToken, item_id: item.itemId });
+  }
+
+  private accounts(request: FakeRequest): FakeResponse {
+    const item = this.itemForToken(request);
+    if ('status' in item) {
+      return item;
+    }
+
+    const options = (request.body.options || {}) as { account_ids?: string[] };
+    const accounts = options.account_ids?.length
+      ? item.accounts.filter(account => options.account_ids!.includes(account.account_id))
+      : item.accounts;
+
+    return this.ok({ accounts, item: this.itemBody(item) });
+  }
+
+  private item(request: FakeRequest): FakeResponse {
+    const item = this.itemForToken(request, { allowItemError: true });
+    if ('status' in item) {
+      return item;
+    }
+
+    return this.ok({ item: this.itemBody(item), status: null });
+  }
+
+  private removeItem(request: FakeRequest): FakeResponse {
+    const item = this.itemForToken(request, { allowItemError: true });
+    if ('status' in item) {
+      return item;
+    }
+
+    item.removed = true;
+    return this.ok({});
+  }
+
+  private processorToken(request: FakeRequest): FakeResponse {
+    const item = this.itemForToken(request);
+    if ('status' in item) {
+      return item;
+    }
+
+    const account = item.accounts.find(a => a.account_id === request.body.account_id);
+    if (!account) {
+      return FakePlaidServer.error('INVALID_INPUT', 'INVALID_ACCOUNT_ID');
+    }
+
+    const token = `btok_${crypto.randomBytes(12).toString('hex')}`;
+    this.processorTokenMap.set(token, {
+      token,
+      itemId: item.itemId,
+      institutionName: this.institutions.get(item.institutionId)?.name || 'Fake Bank',
+      account,
+    });
+    return this.ok({ stripe_bank_account_token: token });
+  }
+
+  private institution(request: FakeRequest): FakeResponse {
+    const institution = this.institutions.get(String(request.body.institution_id || ''));
+    if (!institution) {
+      return FakePlaidServer.error('INVALID_INPUT', 'INVALID_INSTITUTION');
+    }
+
+    return this.ok({
+      institution: {
+        ...institution,
+        products: ['auth', 'balance'],
+        country_codes: ['US'],
+        routing_numbers: [],
+        oauth: false,
+        status: null,
+      },
+    });
+  }
+
+  private verificationKey(request: FakeRequest): FakeResponse {
+    const key = this.webhookKeys.getPublicKey();
+    if (request.body.key_id !== key.kid) {
+      return FakePlaidServer.error('INVALID_INPUT', 'INVALID_WEBHOOK_VERIFICATION_KEY_ID');
+    }
+
+    return this.ok({ key });
+  }
+
+  // ============================================================================
+  // PROTECTED OVERRIDES
+  // ============================================================================
+
+  protected parseBody(raw: string): Record<string, unknown> {
+    if (!raw) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(raw) as Record<string, unknown>;
+    } catch {
+      return {};
+    }
+  }
+
+  protected notFound(request: FakeRequest): FakeResponse {
+    return {
+      status: 404,
+      body: {
+        error_type: 'INVALID_REQUEST',
+        error_code: 'NOT_FOUND',
+        error_message: `Fake Plaid does not implement ${request.path}`,
+        display_message: null,
+        request_id: crypto.randomUUID(),
+      },
+    };
+  }
+
+  protected serverError(message: string): unknown {
+    return {
+      error_type: 'API_ERROR',
+      error_code: 'INTERNAL_SERVER_ERROR',
+      error_message: message,
+      display_message: null,
+      request_id: crypto.randomUUID(),
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  private seed(): void {
+    this.institutions = new Map(DEFAULT_INSTITUTIONS.map(institution => [institution.institution_id, { ...institution }]));
+  }
+
+  private ok(body: Record<string, unknown>): FakeResponse {
+    return { status: 200, body: { ...body, request_id: crypto.randomUUID() } };
+  }
+
+  private getItem(itemId: string): FakePlaidItem {
+    const item = this.itemsById.get(itemId) || [...this.publicTokens.values()].find(i => i.itemId === itemId);
+    if (!item) {
+      throw new Error(`Fake Plaid item ${itemId} not found`);
+    }
+    return item;
+  }
+
+  /**
+   * The item for the request's access token, or the error Plaid would return
+   */
+  private itemForToken(
+    request: FakeRequest,
+    options: { allowItemError?: boolean } = {}
+  ): FakePlaidItem | FakeResponse {
+    const accessToken = request.body.access_token;
+    const item = [...this.itemsById.values()].find(i => i.accessToken === accessToken);
+
+    if (!item) {
+      return FakePlaidServer.error('INVALID_INPUT', 'INVALID_ACCESS_TOKEN');
+    }
+
+    if (item.removed) {
+      return FakePlaidServer.error('ITEM_ERROR', 'ITEM_NOT_FOUND');
+    }
+
+    if (item.error && !options.allowItemError) {
+      return { status: 400, body: { ...item.error, display_message: null, request_id: crypto.randomUUID() } };
+    }
+
+    return item;
+  }
+
+  private itemBody(item: FakePlaidItem): Record<string, unknown> {
+    return {
+      item_id: item.itemId,
+      institution_id: item.institutionId,
+      webhook: item.webhook,
+      error: item.error,
+      available_products: ['balance'],
+      billed_products: ['auth'],
+      consent_expiration_time: null,
+      update_type: 'background',
+    };
+  }
+
+  private buildAccount(account: Partial<FakePlaidAccount>): FakePlaidAccount {
+    return {
+      account_id: account.account_id || crypto.randomBytes(16).toString('hex'),
+      name: account.name || 'Plaid Checking',
+      official_name: account.official_name ?? null,
+      mask: account.mask || '0000',
+      type: account.type || 'depository',
+      subtype: account.subtype || 'checking',
+      balances: account.balances || {
+        available: 5000,
+        current: 5100,
+        limit: null,
+        iso_currency_code: 'USD',
+        unofficial_currency_code: null,
+      },
+      verification_status: account.verification_status,
+    };
+  }
+}
+
+export default FakePlaidServer;
@@ -0,0 +1,1104 @@
+/**
+ * FAKE STRIPE SERVER
+ *
+ * In-process stand-in for the Stripe API, for offline end-to-end tests.
+ * Point StripeService at it with STRIPE_API_BASE_URL (see
+ * startFakePaymentServers).
+ *
+ * COVERS:
+ * - Customers: create, retrieve, update, list (by email), delete
+ * - Payment methods: create from a Plaid processor token (btok_), attach,
+ *   detach, retrieve, list
+ * - Setup intents: create, retrieve (confirmation happens in the browser)
+ * - Prices: create, list
+ * - Subscriptions: create (trials, latest_invoice.payment_intent expand),
+ *   retrieve, list (by customer, status), update, resume, cancel; endTrial()
+ *   ends a trial on demand
+ * - Subscription schedules: create from a subscription, retrieve, update
+ *   phases, release; advanceSchedule() starts the next phase on demand
+ * - Invoices: retrieve, list (by customer, subscription, status)
+ * - Idempotency-Key replay for POST requests - a key reused with different
+ *   parameters is rejected with an idempotency_error, as Stripe does
+ * - Webhooks: customer, payment method and subscription changes become
+ *   events, delivered to the webhook endpoint with a valid
+ *   Stripe-Signature header (see setWebhookEndpoint and flushWebhooks)
+ *
+ * Anything else answers like Stripe does for an unknown URL (404).
+ *
+ * IMPORTANT: Test and local development use only - never deploy.
+ */
+
+import crypto from 'crypto';
+import { FakeApiServer } from './FakeApiServer';
+import type { FakeRequest, FakeResponse, FakeRouteHandler } from './FakeApiServer';
+
+/**
+ * A Stripe API object as stored by the fake
+ */
+export type FakeStripeObject = Record<string, unknown> & { id: string; object: string };
+
+/**
+ * Bank details behind a processor token (FakePlaidServer.getProcessorToken fits)
+ */
+export type FakeProcessorTokenLookup = (token: string) => {
+  institutionName: string;
+  account: { mask: string; subtype: string };
+} | null;
+
+/**
+ * Fake Stripe options
+ */
+export interface FakeStripeServerOptions {
+  /** Resolve btok_ tokens to bank details (default: any btok_ is a test bank) */
+  processorTokens?: FakeProcessorTokenLookup;
+
+  /** Clock override (Unix seconds) */
+  now?: () => number;
+}
+
+const API_VERSION = '2024-11-20.acacia';
+
+const INTERVAL_SECONDS: Record<string, number> = {
+  day: 24 * 60 * 60,
+  week: 7 * 24 * 60 * 60,
+  month: 30 * 24 * 60 * 60,
+  year: 365 * 24 * 60 * 60,
+};
+
+/**
+ * Generate a Stripe-style ID
+ */
+function stripeId(prefix: string): string {
+  return `${prefix}_fake${crypto.randomBytes(10).toString('hex')}`;
+}
+
+/**
+ * JSON with object keys sorted (compares request parameters)
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value).sort().map(key =>
+      `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`
+    ).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Parse a Stripe form body (a[b][0][c]=v) into nested objects and arrays
+ */
+function parseStripeForm(raw: string): Record<string, unknown> {
+  const root: Record<string, unknown> = {};
+
+  new URLSearchParams(raw).forEach((value, key) => {
+    const path = key.replace(/\]/g, '').split('[');
+    let node = root;
+    path.forEach((segment, index) => {
+      if (index === path.length - 1) {
+        node[segment] = value;
+        return;
+      }
+      if (typeof node[segment] !== 'object' || node[segment] === null) {
+        node[segment] = {};
+      }
+      node = node[segment] as Record<string, unknown>;
+    });
+  });
+
+  // Objects keyed 0..n are arrays
+  const normalize = (value: unknown): unknown => {
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    const entries = Object.entries(value as Record<string, unknown>);
+    const isArray = entries.length > 0 && entries.every(([key]) => /^\d+$/.test(key));
+    return isArray
+      ? entries.sort(([a], [b]) => Number(a) - Number(b)).map(([, item]) => normalize(item))
+      : Object.fromEntries(entries.map(([key, item]) => [key, normalize(item)]));
+  };
+
+  return normalize(root) as Record<string, unknown>;
+}
+
+/**
+ * Fake Stripe API
+ *
+ * @example
+ * ```typescript
+ * const stripe = new FakeStripeServer({ processorTokens: token => plaid.getProcessorToken(token) });
+ * process.env.STRIPE_API_BASE_URL = await stripe.start();
+ * stripe.setWebhookEndpoint('http://localhost:8888/.netlify/functions/stripe-webhook', 'whsec_test');
+ *
+ * // ... run the signup ...
+ * await stripe.flushWebhooks();
+ * stripe.list('subscription'); // [{ id: 'sub_fake...', status: 'trialing', ... }]
+ * ```
+ */
+export class FakeStripeServer extends FakeApiServer {
+  /** Every event created, oldest first */
+  readonly events: FakeStripeObject[] = [];
+
+  private objects = new Map<string, FakeStripeObject>();
+  private idempotentResponses = new Map<string, { fingerprint: string; response: FakeResponse }>();
+  private webhookEndpoint: { url: string; secret: string } | null = null;
+  private deliveries: Promise<void> = Promise.resolve();
+  private readonly processorTokens?: FakeProcessorTokenLookup;
+  private readonly now: () => number;
+
+  constructor(options: FakeStripeServerOptions = {}) {
+    super();
+    this.processorTokens = options.processorTokens;
+    this.now = options.now || (() => Math.floor(Date.now() / 1000));
+
+    this.post(/^\/v1\/customers$/, request => this.createCustomer(request));
+    this.route('GET', /^\/v1\/customers$/, request => this.listCustomers(request));
+    this.route('GET', /^\/v1\/customers\/([^/]+)$/, (_request, [id]) => this.retrieve('customer', id));
+    this.post(/^\/v1\/customers\/([^/]+)$/, (request, [id]) => this.updateCustomer(request, id));
+    this.route('DELETE', /^\/v1\/customers\/([^/]+)$/, (_request, [id]) => this.deleteCustomer(id));
+
+    this.post(/^\/v1\/payment_methods$/, request => this.createPaymentMethod(request));
+    this.route('GET', /^\/v1\/payment_methods$/, request => this.listPaymentMethods(request));
+    this.route('GET', /^\/v1\/payment_methods\/([^/]+)$/, (_request, [id]) => this.retrieve('payment_method', id));
+    this.post(/^\/v1\/payment_methods\/([^/]+)\/attach$/, (request, [id]) => this.attachPaymentMethod(request, id));
+    this.post(/^\/v1\/payment_methods\/([^/]+)\/detach$/, (_request, [id]) => this.detachPaymentMethod(id));
+
+    this.post(/^\/v1\/setup_intents$/, request => this.createSetupIntent(request));
+    this.route('GET', /^\/v1\/setup_intents\/([^/]+)$/, (_request, [id]) => this.retrieve('setup_intent', id));
+
+    this.post(/^\/v1\/prices$/, request => this.createPrice(request));
+    this.route('GET', /^\/v1\/prices$/, () => this.listResponse(this.list('price').filter(price => price.active)));
+
+    this.post(/^\/v1\/subscriptions$/, request => this.createSubscription(request));
+    this.route('GET', /^\/v1\/subscriptions$/, request => this.listSubscriptions(request));
+    this.route('GET', /^\/v1\/subscriptions\/([^/]+)$/, (_request, [id]) => this.retrieve('subscription', id));
+    this.post(/^\/v1\/subscriptions\/([^/]+)$/, (request, [id]) => this.updateSubscription(request, id));
+    this.post(/^\/v1\/subscriptions\/([^/]+)\/resume$/, (_request, [id]) => this.resumeSubscription(id));
+    this.route('DELETE', /^\/v1\/subscriptions\/([^/]+)$/, (_request, [id]) => this.cancelSubscription(id));
+
+    this.post(/^\/v1\/subscription_schedules$/, request => this.createSchedule(request));
+    this.route('GET', /^\/v1\/subscription_schedules\/([^/]+)$/, (_request, [id]) => this.retrieve('subscription_schedule', id));
+    this.post(/^\/v1\/subscription_schedules\/([^/]+)$/, (request, [id]) => this.updateSchedule(request, id));
+    this.post(/^\/v1\/subscription_schedules\/([^/]+)\/release$/, (_request, [id]) => this.releaseSchedule(id));
+
+    this.route('GET', /^\/v1\/invoices$/, request => this.listInvoices(request));
+    this.route('GET', /^\/v1\/invoices\/([^/]+)$/, (_request, [id]) => this.retrieve('invoice', id));
+  }
+
+  // ============================================================================
+  // TEST HELPERS
+  // ============================================================================
+
+  /**
+   * Build a Stripe API error response
+   *
+   * @example
+   * ```typescript
+   * stripe.failNext('/v1/payment_methods', FakeStripeServer.error('invalid_request_error', 'bank_account_unusable'), 'POST');
+   * ```
+   */
+  static error(type: string, code: string, status = 400, message?: string): { status: number; body: unknown } {
+    return {
+      status,
+      body: { error: { type, code, message: message || `Fake Stripe error: ${code}` } },
+    };
+  }
+
+  /**
+   * Deliver events to a webhook endpoint from now on
+   *
+   * @param url e.g. http://localhost:8888/.netlify/functions/stripe-webhook
+   * @param secret The receiver's STRIPE_WEBHOOK_SECRET
+   */
+  setWebhookEndpoint(url: string, secret: string): void {
+    this.webhookEndpoint = { url, secret };
+  }
+
+  /**
+   * Wait until every queued webhook has been delivered
+   */
+  async flushWebhooks(): Promise<void> {
+    await this.deliveries;
+  }
+
+  /**
+   * Create an event (and deliver it if an endpoint is set)
+   *
+   * Use for events the fake does not produce itself, e.g. invoice.payment_failed.
+   */
+  emit(type: string, object: Record<string, unknown>, previousAttributes?: Record<string, unknown>): FakeStripeObject {
+    const event: FakeStripeObject = {
+      id: stripeId('evt'),
+      object: 'event',
+      api_version: API_VERSION,
+      created: this.now(),
+      type,
+      data: { object: { ...object }, ...(previousAttributes ? { previous_attributes: previousAttributes } : {}) },
+      livemode: false,
+      pending_webhooks: this.webhookEndpoint ? 1 : 0,
+      request: { id: null, idempotency_key: null },
+    };
+    this.events.push(event);
+
+    const endpoint = this.webhookEndpoint;
+    if (endpoint) {
+      this.deliveries = this.deliveries.then(() => this.deliver(endpoint, event));
+    }
+    return event;
+  }
+
+  /**
+   * Add a price (e.g. the one STRIPE_PRICE_STARTER points at)
+   */
+  addPrice(price: { id: string; unitAmount: number; interval: 'month' | 'year'; planType?: string }): FakeStripeObject {
+    return this.store({
+      id: price.id,
+      object: 'price',
+      active: true,
+      type: 'recurring',
+      currency: 'usd',
+      unit_amount: price.unitAmount,
+      recurring: { interval: price.interval, interval_count: 1 },
+      metadata: price.planType ? { plan_type: price.planType } : {},
+      product: stripeId('prod'),
+      nickname: null,
+      created: this.now(),
+      livemode: false,
+    });
+  }
+
+  /**
+   * Stored objects of one type (e.g. 'customer', 'subscription'), oldest first
+   */
+  list(objectType: string): FakeStripeObject[] {
+    return [...this.objects.values()].filter(object => object.object === objectType);
+  }
+
+  /**
+   * A stored object by ID
+   */
+  get(id: string): FakeStripeObject | null {
+    return this.objects.get(id) || null;
+  }
+
+  /**
+   * End a subscription's trial now, as Stripe does at trial_end
+   *
+   * With a default payment method the subscription becomes active; without
+   * one it is paused when trial_settings asks for that, else past_due.
+   */
+  endTrial(subscriptionId: string): FakeStripeObject {
+    const subscription = this.objects.get(subscriptionId);
+    if (!subscription || subscription.object !== 'subscription' || subscription.status !== 'trialing') {
+      throw new Error(`No trialing subscription ${subscriptionId}`);
+    }
+
+    const customer = this.objects.get(String(subscription.customer));
+    const defaultPaymentMethod = subscription.default_payment_method
+      || (customer?.invoice_settings as Record<string, unknown> | undefined)?.default_payment_method;
+    const endBehavior = (subscription.trial_settings as Record<string, Record<string, unknown>> | null)?.end_behavior;
+
+    const previous = { status: subscription.status, trial_end: subscription.trial_end };
+    subscription.trial_end = this.now();
+
+    if (defaultPaymentMethod) {
+      subscription.status = 'active';
+      this.emit('customer.subscription.updated', subscription, previous);
+    } else if (endBehavior?.missing_payment_method === 'pause') {
+      subscription.status = 'paused';
+      this.emit('customer.subscription.paused', subscription, previous);
+    } else {
+      subscription.status = 'past_due';
+      this.emit('customer.subscription.updated', subscription, previous);
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Start a schedule's next phase now, as Stripe does at the phase end date
+   *
+   * The subscription moves to the next phase's prices (and metadata). After
+   * the last phase a schedule with end_behavior 'release' is released.
+   */
+  advanceSchedule(scheduleId: string): FakeStripeObject {
+    const schedule = this.objects.get(scheduleId);
+    if (!schedule || schedule.object !== 'subscription_schedule' || schedule.status !== 'active') {
+      throw new Error(`No active subscription schedule ${scheduleId}`);
+    }
+
+    const subscription = this.objects.get(String(schedule.subscription))!;
+    const phases = schedule.phases as Array<Record<string, unknown>>;
+    const currentIndex = phases.findIndex(phase => phase.start_date === (schedule.current_phase as Record<string, unknown>).start_date);
+    const next = phases[currentIndex + 1];
+
+    if (!next) {
+      this.release(schedule);
+      return schedule;
+    }
+
+    const items = this.buildItems(next.items);
+    if ('status' in items) {
+      throw new Error(`Schedule ${scheduleId} has an unknown price in its next phase`);
+    }
+
+    const previous = { items: subscription.items, metadata: subscription.metadata };
+    subscription.items = { object: 'list', data: items, has_more: false };
+    subscription.current_period_start = next.start_date;
+    subscription.current_period_end = next.end_date;
+    if (next.metadata) {
+      subscription.metadata = { ...(subscription.metadata as Record<string, unknown>), ...(next.metadata as Record<string, unknown>) };
+    }
+    schedule.current_phase = { start_date: next.start_date, end_date: next.end_date };
+
+    this.emit('customer.subscription.updated', subscription, previous);
+    if (currentIndex + 2 >= phases.length && schedule.end_behavior === 'release') {
+      this.release(schedule);
+    }
+    return schedule;
+  }
+
+  /**
+   * Forget all objects, events, requests and queued failures
+   */
+  reset(): void {
+    super.reset();
+    this.objects.clear();
+    this.idempotentResponses.clear();
+    this.events.length = 0;
+  }
+
+  // ============================================================================
+  // CUSTOMERS
+  // ============================================================================
+
+  private createCustomer(request: FakeRequest): FakeResponse {
+    const body = request.body;
+    const customer = this.store({
+      id: stripeId('cus'),
+      object: 'customer',
+      email: body.email ?? null,
+      name: body.name ?? null,
+      phone: body.phone ?? null,
+      description: body.description ?? null,
+      address: body.address ?? null,
+      metadata: body.metadata || {},
+      invoice_settings: {
+        default_payment_method: (body.invoice_settings as Record<string, unknown> | undefined)?.default_payment_method ?? null,
+        custom_fields: null,
+        footer: null,
+        rendering_options: null,
+      },
+      balance: 0,
+      created: this.now(),
+      livemode: false,
+    });
+
+    this.emit('customer.created', customer);
+    return this.ok(customer);
+  }
+
+  private listCustomers(request: FakeRequest): FakeResponse {
+    const email = request.query.email;
+    return this.listResponse(
+      this.list('customer').filter(customer => !customer.deleted && (!email || customer.email === email))
+    );
+  }
+
+  private updateCustomer(request: FakeRequest, id: string): FakeResponse {
+    const customer = this.objects.get(id);
+    if (!customer || customer.object !== 'customer' || customer.deleted) {
+      return this.missing('customer', id);
+    }
+
+    const { invoice_settings: invoiceSettings, metadata, ...fields } = request.body;
+    Object.assign(customer, fields);
+    if (metadata) {
+      customer.metadata = { ...(customer.metadata as Record<string, unknown>), ...(metadata as Record<string, unknown>) };
+    }
+    if (invoiceSettings) {
+      customer.invoice_settings = {
+        ...(customer.invoice_settings as Record<string, unknown>),
+        ...(invoiceSettings as Record<string, unknown>),
+      };
+    }
+
+    this.emit('customer.updated', customer);
+    return this.ok(customer);
+  }
+
+  private deleteCustomer(id: string): FakeResponse {
+    const customer = this.objects.get(id);
+    if (!customer || customer.object !== 'customer' || customer.deleted) {
+      return this.missing('customer', id);
+    }
+
+    this.list('subscription')
+      .filter(subscription => subscription.customer === id && subscription.status !== 'canceled')
+      .forEach(subscription => this.cancel(subscription));
+    this.list('payment_method')
+      .filter(paymentMethod => paymentMethod.customer === id)
+      .forEach(paymentMethod => {
+        paymentMethod.customer = null;
+      });
+
+    this.objects.set(id, { id, object: 'customer', deleted: true });
+    this.emit('customer.deleted', customer);
+    return this.ok({ id, object: 'customer', deleted: true });
+  }
+
+  // ============================================================================
+  // PAYMENT METHODS
+  // ============================================================================
+
+  private createPaymentMethod(request: FakeRequest): FakeResponse {
+    const body = request.body;
+    if (body.type !== 'us_bank_account') {
+      return this.invalid('type', 'The fake only supports us_bank_account payment methods.');
+    }
+
+    const bankAccount = (body.us_bank_account || {}) as Record<string, unknown>;
+    const token = String(bankAccount.bank_account || '');
+    if (!token.startsWith('btok_')) {
+      return this.invalid('us_bank_account[bank_account]', 'A Plaid processor token (btok_) is required.');
+    }
+
+    const bank = this.processorTokens ? this.processorTokens(token) : {
+      institutionName: 'STRIPE TEST BANK',
+      account: { mask: '6789', subtype: 'checking' },
+    };
+    if (!bank) {
+      return this.missing('token', token);
+    }
+
+    const paymentMethod = this.store({
+      id: stripeId('pm'),
+      object: 'payment_method',
+      type: 'us_bank_account',
+      us_bank_account: {
+        account_holder_type: bankAccount.account_holder_type || 'company',
+        account_type: bank.account.subtype === 'savings' ? 'savings' : 'checking',
+        bank_name: bank.institutionName,
+        fingerprint: crypto.createHash('sha256').update(token).digest('hex').slice(0, 16),
+        last4: bank.account.mask,
+        routing_number: '110000000',
+        networks: { preferred: 'ach', supported: ['ach'] },
+        status_details: null,
+      },
+      billing_details: body.billing_details || {},
+      customer: null,
+      metadata: body.metadata || {},
+      created: this.now(),
+      livemode: false,
+    });
+
+    return this.ok(paymentMethod);
+  }
+
+  private listPaymentMethods(request: FakeRequest): FakeResponse {
+    const { customer, type } = request.query;
+    return this.listResponse(
+      this.list('payment_method').filter(
+        paymentMethod => (!customer || paymentMethod.customer === customer) && (!type || paymentMethod.type === type)
+      )
+    );
+  }
+
+  private attachPaymentMethod(request: FakeRequest, id: string): FakeResponse {
+    const paymentMethod = this.objects.get(id);
+    if (!paymentMethod || paymentMethod.object !== 'payment_method') {
+      return this.missing('payment_method', id);
+    }
+
+    const customer = this.objects.get(String(request.body.customer || ''));
+    if (!customer || customer.object !== 'customer' || customer.deleted) {
+      return this.missing('customer', String(request.body.customer || ''));
+    }
+
+    paymentMethod.customer = customer.id;
+    this.emit('payment_method.attached', paymentMethod);
+    return this.ok(paymentMethod);
+  }
+
+  private detachPaymentMethod(id: string): FakeResponse {
+    const paymentMethod = this.objects.get(id);
+    if (!paymentMethod || paymentMethod.object !== 'payment_method') {
+      return this.missing('payment_method', id);
+    }
+
+    if (!paymentMethod.customer) {
+      return FakeStripeServer.error(
+        'invalid_request_error',
+        'payment_method_unexpected_state',
+        400,
+        'The payment method you provided is not attached to a customer so detachment is impossible.'
+      );
+    }
+
+    const previousCustomer = paymentMethod.customer;
+    paymentMethod.customer = null;
+    this.emit('payment_method.detached', paymentMethod, { customer: previousCustomer });
+    return this.ok(paymentMethod);
+  }
+
+  // ============================================================================
+  // PRICES
+  // ============================================================================
+
+  private createSetupIntent(request: FakeRequest): FakeResponse {
+    const body = request.body;
+    const customer = this.objects.get(String(body.customer || ''));
+    if (!customer || customer.object !== 'customer' || customer.deleted) {
+      return this.missing('customer', String(body.customer || ''));
+    }
+
+    const id = stripeId('seti');
+    const setupIntent = this.store({
+      id,
+      object: 'setup_intent',
+      customer: customer.id,
+      status: 'requires_payment_method',
+      payment_method: null,
+      payment_method_types: body.payment_method_types || ['us_bank_account'],
+      usage: body.usage || 'off_session',
+      client_secret: `${id}_secret_fake`,
+      next_action: null,
+      metadata: body.metadata || {},
+      created: this.now(),
+      livemode: false,
+    });
+
+    this.emit('setup_intent.created', setupIntent);
+    return this.ok(setupIntent);
+  }
+
+  private createPrice(request: FakeRequest): FakeResponse {
+    const body = request.body;
+    const recurring = (body.recurring || {}) as Record<string, unknown>;
+
+    const price = this.store({
+      id: stripeId('price'),
+      object: 'price',
+      active: true,
+      type: recurring.interval ? 'recurring' : 'one_time',
+      currency: body.currency || 'usd',
+      unit_amount: Number(body.unit_amount || 0),
+      recurring: recurring.interval
+        ? { interval: recurring.interval, interval_count: Number(recurring.interval_count || 1) }
+        : null,
+      metadata: body.metadata || {},
+      product: body.product || stripeId('prod'),
+      nickname: body.nickname ?? null,
+      created: this.now(),
+      livemode: false,
+    });
+
+    return this.ok(price);
+  }
+
+  // ============================================================================
+  // SUBSCRIPTIONS
+  // ============================================================================
+
+  private createSubscription(request: FakeRequest): FakeResponse {
+    const body = request.body;
+    const customer = this.objects.get(String(body.customer || ''));
+    if (!customer || customer.object !== 'customer' || customer.deleted) {
+      return this.missing('customer', String(body.customer || ''));
+    }
+
+    const items = this.buildItems(body.items);
+    if ('status' in items) {
+      return items;
+    }
+
+    const now = this.now();
+    const trialDays = Number(body.trial_period_days || 0);
+    const trialEnd = body.trial_end
+      ? Number(body.trial_end)
+      : trialDays > 0 ? now + trialDays * INTERVAL_SECONDS.day : null;
+    const price = items[0].price as Record<string, unknown>;
+    const recurring = (price.recurring || {}) as Record<string, unknown>;
+    const periodEnd = trialEnd || now + (INTERVAL_SECONDS[String(recurring.interval)] || INTERVAL_SECONDS.month);
+    const defaultPaymentMethod = body.default_payment_method
+      || (customer.invoice_settings as Record<string, unknown>).default_payment_method
+      || null;
+
+    const subscriptionId = stripeId('sub');
+    const amountDue = trialEnd ? 0 : Number(price.unit_amount || 0);
+    const paymentIntent = amountDue > 0
+      ? this.store({
+          id: stripeId('pi'),
+          object: 'payment_intent',
+          amount: amountDue,
+          currency: price.currency || 'usd',
+          customer: customer.id,
+          payment_method: defaultPaymentMethod,
+          status: defaultPaymentMethod ? 'processing' : 'requires_payment_method',
+          client_secret: `${stripeId('pi')}_secret_fake`,
+          confirmation_method: 'automatic',
+          metadata: {},
+          created: now,
+          livemode: false,
+        })
+      : null;
+
+    const invoice = this.store({
+      id: stripeId('in'),
+      object: 'invoice',
+      customer: customer.id,
+      subscription: subscriptionId,
+      status: amountDue > 0 ? 'open' : 'paid',
+      amount_due: amountDue,
+      amount_paid: amountDue > 0 ? 0 : amountDue,
+      currency: price.currency || 'usd',
+      payment_intent: paymentIntent?.id || null,
+      period_start: now,
+      period_end: now,
+      hosted_invoice_url: null,
+      invoice_pdf: null,
+      number: null,
+      created: now,
+      livemode: false,
+    });
+
+    const subscription = this.store({
+      id: subscriptionId,
+      object: 'subscription',
+      customer: customer.id,
+      status: trialEnd ? 'trialing' : defaultPaymentMethod ? 'active' : 'incomplete',
+      items: { object: 'list', data: items, has_more: false },
+      default_payment_method: defaultPaymentMethod,
+      latest_invoice: invoice.id,
+      collection_method: body.collection_method || 'charge_automatically',
+      current_period_start: now,
+      current_period_end: periodEnd,
+      billing_cycle_anchor: Number(body.billing_cycle_anchor || periodEnd),
+      trial_start: trialEnd ? now : null,
+      trial_end: trialEnd,
+      trial_settings: body.trial_settings || null,
+      cancel_at_period_end: false,
+      cancel_at: null,
+      canceled_at: null,
+      ended_at: null,
+      schedule: null,
+      metadata: body.metadata || {},
+      created: now,
+      livemode: false,
+    });
+
+    this.emit('customer.subscription.created', subscription);
+    return this.ok(this.expand(subscription, body.expand));
+  }
+
+  private updateSubscription(request: FakeRequest, id: string): FakeResponse {
+    const subscription = this.objects.get(id);
+    if (!subscription || subscription.object !== 'subscription') {
+      return this.missing('subscription', id);
+    }
+
+    const { items, metadata, expand, ...fields } = request.body;
+    const previous: Record<string, unknown> = {};
+
+    if (items) {
+      const built = this.buildItems(items);
+      if ('status' in built) {
+        return built;
+      }
+      previous.items = subscription.items;
+      subscription.items = { object: 'list', data: built, has_more: false };
+    }
+
+    Object.entries(fields).forEach(([key, value]) => {
+      previous[key] = subscription[key];
+      subscription[key] = value === 'true' ? true : value === 'false' ? false : value === '' ? null : value;
+    });
+
+    if (metadata) {
+      previous.metadata = subscription.metadata;
+      subscription.metadata = { ...(subscription.metadata as Record<string, unknown>), ...(metadata as Record<string, unknown>) };
+    }
+
+    if (subscription.cancel_at_period_end === true) {
+      subscription.cancel_at = subscription.current_period_end;
+    }
+
+    this.emit('customer.subscription.updated', subscription, previous);
+    return this.ok(this.expand(subscription, expand));
+  }
+
+  private resumeSubscription(id: string): FakeResponse {
+    const subscription = this.objects.get(id);
+    if (!subscription || subscription.object !== 'subscription') {
+      return this.missing('subscription', id);
+    }
+    if (subscription.status !== 'paused') {
+      return FakeStripeServer.error('invalid_request_error', 'subscription_not_paused', 400, 'Only paused subscriptions can be resumed.');
+    }
+
+    // Billed from now (billing_cycle_anchor=now)
+    const now = this.now();
+    const price = (subscription.items as { data: Array<Record<string, unknown>> }).data[0].price as Record<string, unknown>;
+    const recurring = (price.recurring || {}) as Record<string, unknown>;
+    subscription.status = 'active';
+    subscription.current_period_start = now;
+    subscription.current_period_end = now + (INTERVAL_SECONDS[String(recurring.interval)] || INTERVAL_SECONDS.month);
+    subscription.billing_cycle_anchor = now;
+
+    this.emit('customer.subscription.resumed', subscription);
+    return this.ok(subscription);
+  }
+
+  private cancelSubscription(id: string): FakeResponse {
+    const subscription = this.objects.get(id);
+    if (!subscription || subscription.object !== 'subscription') {
+      return this.missing('subscription', id);
+    }
+
+    this.cancel(subscription);
+    return this.ok(subscription);
+  }
+
+  private cancel(subscription: FakeStripeObject): void {
+    subscription.status = 'canceled';
+    subscription.canceled_at = this.now();
+    subscription.ended_at = this.now();
+    this.emit('customer.subscription.deleted', subscription);
+  }
+
+  /**
+   * Subscription items from items[n][price] (unknown prices are an error)
+   */
+  private buildItems(input: unknown): Array<Record<string, unknown>> | FakeResponse {
+    const requested = Array.isArray(input) ? input as Array<Record<string, unknown>> : [];
+    if (requested.length === 0) {
+      return this.invalid('items', 'Missing required param: items.');
+    }
+
+    const items: Array<Record<string, unknown>> = [];
+    for (const item of requested) {
+      const price = this.objects.get(String(item.price || ''));
+      if (!price || price.object !== 'price') {
+        return this.missing('price', String(item.price || ''));
+      }
+      items.push({ id: stripeId('si'), object: 'subscription_item', price, quantity: Number(item.quantity || 1) });
+    }
+    return items;
+  }
+
+  /**
+   * Copy of a subscription with latest_invoice(.payment_intent) expanded
+   */
+  private expand(subscription: FakeStripeObject, expand: unknown): FakeStripeObject {
+    const paths = Array.isArray(expand) ? expand.map(String) : [];
+    if (!paths.some(path => path.startsWith('latest_invoice'))) {
+      return subscription;
+    }
+
+    const invoice = this.objects.get(String(subscription.latest_invoice));
+    if (!invoice) {
+      return subscription;
+    }
+
+    const expandedInvoice = paths.includes('latest_invoice.payment_intent') && invoice.payment_intent
+      ? { ...invoice, payment_intent: this.objects.get(String(invoice.payment_intent)) || invoice.payment_intent }
+      : invoice;
+    return { ...subscription, latest_invoice: expandedInvoice };
+  }
+
+  // ============================================================================
+  // SUBSCRIPTION SCHEDULES
+  // ============================================================================
+
+  private createSchedule(request: FakeRequest): FakeResponse {
+    const subscriptionId = String(request.body.from_subscription || '');
+    if (!subscriptionId) {
+      return this.invalid('from_subscription', 'The fake only supports schedules created from a subscription.');
+    }
+
+    const subscription = this.objects.get(subscriptionId);
+    if (!subscription || subscription.object !== 'subscription') {
+      return this.missing('subscription', subscriptionId);
+    }
+    if (subscription.schedule) {
+      return this.invalid('from_subscription', `Subscription ${subscriptionId} is already attached to a schedule.`);
+    }
+
+    const items = (subscription.items as { data: Array<Record<string, unknown>> }).data.map(item => ({
+      price: (item.price as Record<string, unknown>).id,
+      quantity: item.quantity,
+    }));
+    const phase = {
+      items,
+      start_date: subscription.current_period_start,
+      end_date: subscription.current_period_end,
+      proration_behavior: 'create_prorations',
+      metadata: {},
+    };
+
+    const schedule = this.store({
+      id: stripeId('sub_sched'),
+      object: 'subscription_schedule',
+      subscription: subscription.id,
+      customer: subscription.customer,
+      status: 'active',
+      end_behavior: 'release',
+      current_phase: { start_date: phase.start_date, end_date: phase.end_date },
+      phases: [phase],
+      released_at: null,
+      released_subscription: null,
+      metadata: {},
+      created: this.now(),
+      livemode: false,
+    });
+    subscription.schedule = schedule.id;
+
+    this.emit('subscription_schedule.created', schedule);
+    return this.ok(schedule);
+  }
+
+  private updateSchedule(request: FakeRequest, id: string): FakeResponse {
+    const schedule = this.objects.get(id);
+    if (!schedule || schedule.object !== 'subscription_schedule') {
+      return this.missing('subscription_schedule', id);
+    }
+    if (schedule.status !== 'active') {
+      return this.invalid('schedule', `You cannot update a subscription schedule that is ${schedule.status}.`);
+    }
+
+    const { phases, metadata, end_behavior: endBehavior } = request.body;
+
+    if (phases) {
+      const requested = Array.isArray(phases) ? phases as Array<Record<string, unknown>> : [];
+      if (requested.length === 0) {
+        return this.invalid('phases', 'Missing required param: phases.');
+      }
+
+      // Phases follow each other - a phase without an end runs for its iterations
+      let start = Number(requested[0].start_date || (schedule.current_phase as Record<string, unknown>).start_date);
+      const built: Array<Record<string, unknown>> = [];
+      for (const phase of requested) {
+        const items = this.buildItems(phase.items);
+        if ('status' in items) {
+          return items;
+        }
+
+        const recurring = ((items[0].price as Record<string, unknown>).recurring || {}) as Record<string, unknown>;
+        const end = phase.end_date
+          ? Number(phase.end_date)
+          : start + Number(phase.iterations || 1) * (INTERVAL_SECONDS[String(recurring.interval)] || INTERVAL_SECONDS.month);
+        built.push({
+          items: items.map(item => ({ price: (item.price as Record<string, unknown>).id, quantity: item.quantity })),
+          start_date: start,
+          end_date: end,
+          proration_behavior: phase.proration_behavior || 'create_prorations',
+          metadata: phase.metadata || {},
+        });
+        start = end;
+      }
+
+      schedule.phases = built;
+      schedule.current_phase = { start_date: built[0].start_date, end_date: built[0].end_date };
+    }
+
+    if (endBehavior) {
+      schedule.end_behavior = endBehavior;
+    }
+    if (metadata) {
+      schedule.metadata = { ...(schedule.metadata as Record<string, unknown>), ...(metadata as Record<string, unknown>) };
+    }
+
+    this.emit('subscription_schedule.updated', schedule);
+    return this.ok(schedule);
+  }
+
+  private releaseSchedule(id: string): FakeResponse {
+    const schedule = this.objects.get(id);
+    if (!schedule || schedule.object !== 'subscription_schedule') {
+      return this.missing('subscription_schedule', id);
+    }
+    if (schedule.status !== 'active') {
+      return this.invalid('schedule', `You cannot release a subscription schedule that is ${schedule.status}.`);
+    }
+
+    this.release(schedule);
+    return this.ok(schedule);
+  }
+
+  private release(schedule: FakeStripeObject): void {
+    const subscription = this.objects.get(String(schedule.subscription));
+    if (subscription) {
+      subscription.schedule = null;
+    }
+
+    schedule.status = 'released';
+    schedule.released_at = this.now();
+    schedule.released_subscription = schedule.subscription;
+    schedule.subscription = null;
+    this.emit('subscription_schedule.released', schedule);
+  }
+
+  // ============================================================================
+  // INVOICES
+  // ============================================================================
+
+  private listSubscriptions(request: FakeRequest): FakeResponse {
+    const { customer, status } = request.query;
+
+    // Stripe leaves canceled subscriptions out unless status is given
+    return this.listResponse(
+      this.list('subscription').filter(subscription =>
+        (!customer || subscription.customer === customer) &&
+        (status === 'all' || (status ? subscription.status === status : subscription.status !== 'canceled'))
+      )
+    );
+  }
+
+  private listInvoices(request: FakeRequest): FakeResponse {
+    const { customer, subscription, status, starting_after: startingAfter } = request.query;
+    const limit = Math.min(Math.max(Number(request.query.limit || 10), 1), 100);
+
+    // Newest first, like Stripe
+    const invoices = this.list('invoice')
+      .filter(invoice =>
+        (!customer || invoice.customer === customer) &&
+        (!subscription || invoice.subscription === subscription) &&
+        (!status || invoice.status === status)
+      )
+      .reverse();
+
+    const start = startingAfter ? invoices.findIndex(invoice => invoice.id === startingAfter) + 1 : 0;
+    const page = invoices.slice(start, start + limit);
+    return this.ok({ object: 'list', data: page, has_more: start + limit < invoices.length, url: '/v1/invoices' });
+  }
+
+  // ============================================================================
+  // PROTECTED OVERRIDES
+  // ============================================================================
+
+  protected parseBody(raw: string): Record<string, unknown> {
+    return raw ? parseStripeForm(raw) : {};
+  }
+
+  protected notFound(request: FakeRequest): FakeResponse {
+    return {
+      status: 404,
+      body: {
+        error: {
+          type: 'invalid_request_error',
+          message: `Unrecognized request URL (${request.method}: ${request.path}). The fake Stripe server does not implement it.`,
+        },
+      },
+    };
+  }
+
+  protected serverError(message: string): unknown {
+    return { error: { type: 'api_error', message } };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Register a POST route that honors Idempotency-Key
+   *
+   * A replay with the same parameters gets the first response; a key reused
+   * for a different request is an error, so a key that mixes up two
+   * requests fails here as it would against Stripe.
+   */
+  private post(pattern: RegExp, handler: FakeRouteHandler): void {
+    this.route('POST', pattern, async (request, params) => {
+      const key = request.headers['idempotency-key'];
+      const fingerprint = `${request.method} ${request.path} ${stableStringify(request.body)}`;
+
+      const cached = typeof key === 'string' ? this.idempotentResponses.get(key) : undefined;
+      if (cached && cached.fingerprint !== fingerprint) {
+        return {
+          status: 400,
+          body: {
+            error: {
+              type: 'idempotency_error',
+              message: `Keys for idempotent requests can only be used with the same parameters they were first used with. ` +
+                `Try using a key other than '${key}' if you meant to execute a different request.`,
+            },
+          },
+        };
+      }
+      if (cached) {
+        return { ...cached.response, headers: { ...cached.response.headers, 'Idempotent-Replayed': 'true' } };
+      }
+
+      const response = await handler(request, params);
+      if (typeof key === 'string' && response.status < 500) {
+        this.idempotentResponses.set(key, { fingerprint, response });
+      }
+      return response;
+    });
+  }
+
+  private store(object: FakeStripeObject): FakeStripeObject {
+    this.objects.set(object.id, object);
+    return object;
+  }
+
+  private retrieve(objectType: string, id: string): FakeResponse {
+    const object = this.objects.get(id);
+    if (!object || object.object !== objectType) {
+      return this.missing(objectType, id);
+    }
+    return this.ok(object);
+  }
+
+  private ok(object: Record<string, unknown>): FakeResponse {
+    return { status: 200, body: object, headers: { 'Request-Id': stripeId('req') } };
+  }
+
+  private listResponse(data: FakeStripeObject[]): FakeResponse {
+    return this.ok({ object: 'list', data, has_more: false, url: '/v1/fake' });
+  }
+
+  private missing(objectType: string, id: string): FakeResponse {
+    return FakeStripeServer.error('invalid_request_error', 'resource_missing', 404, `No such ${objectType}: '${id}'`);
+  }
+
+  private invalid(param: string, message: string): FakeResponse {
+    return {
+      status: 400,
+      body: { error: { type: 'invalid_request_error', code: 'parameter_invalid', param, message } },
+    };
+  }
+
+  /**
+   * POST an event to the webhook endpoint, signed like Stripe does
+   */
+  private async deliver(endpoint: { url: string; secret: string }, event: FakeStripeObject): Promise<void> {
+    const payload = JSON.stringify(event);
+    const timestamp = this.now();
+    const signature = crypto
+      .createHmac('sha256', endpoint.secret)
+      .update(`${timestamp}.${payload}`)
+      .digest('hex');
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Stripe-Signature': `t=${timestamp},v1=${signature}`,
+        },
+        body: payload,
+      });
+
+      if (!response.ok) {
+        console.warn(`Fake Stripe webhook ${event.type} (${event.id}) got HTTP ${response.status}`);
+      }
+    } catch (error) {
+      console.warn(`Fake Stripe webhook ${event.type} (${event.id}) could not be delivered:`, error);
+    }
+  }
+}
+
+export default FakeStripeServer;
@@ -0,0 +1,594 @@
+/**
+ * FAKE SUPABASE CLIENT
+ *
+ * In-memory stand-in for the service-role Supabase client, for offline
+ * end-to-end tests of the Netlify functions together with the Plaid and
+ * Stripe fakes.
+ *
+ * COVERS:
+ * - from(table): select (count/head), insert, update, upsert (onConflict),
+ *   delete; eq, neq, in, is, lt, lte, gt, gte filters; order, limit;
+ *   single, maybeSingle - with the same { data, error, count } results
+ * - Column defaults and unique constraints from database/migrations for
+ *   the tables the signup path writes (violations fail with code 23505)
+ * - auth.admin: createUser (email_exists), deleteUser, getUserById,
+ *   generateLink
+ *
+ * Column lists in select() are not applied - every column comes back.
+ * Joins, rpc() and row level security are not faked.
+ *
+ * FAILURE INJECTION: failNext() makes the next matching operation on a
+ * table (optionally only when it writes certain values) return an error
+ * instead of running.
+ *
+ * IMPORTANT: Test use only - never deploy.
+ */
+
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * A stored row
+ */
+export type FakeRow = Record<string, unknown>;
+
+/**
+ * A PostgREST-style error
+ */
+export interface FakeSupabaseError {
+  code: string;
+  message: string;
+  details?: string | null;
+  hint?: string | null;
+}
+
+/**
+ * Table operation (for failNext)
+ */
+export type FakeTableOperation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+/**
+ * A user created through auth.admin
+ */
+export interface FakeAuthUser {
+  id: string;
+  email: string;
+  user_metadata: Record<string, unknown>;
+  email_confirmed_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Fake Supabase options
+ */
+export interface FakeSupabaseOptions {
+  /** Extra unique constraints by table (column lists) */
+  unique?: Record<string, string[][]>;
+
+  /** Extra column defaults by table */
+  defaults?: Record<string, FakeRow>;
+}
+
+interface QueryResult {
+  data: unknown;
+  error: FakeSupabaseError | null;
+  count: number | null;
+}
+
+interface Filter {
+  column: string;
+  test: (value: unknown) => boolean;
+}
+
+interface QueuedFailure {
+  table: string;
+  operation: FakeTableOperation;
+  error: FakeSupabaseError;
+  when?: (values: FakeRow) => boolean;
+  remaining: number;
+}
+
+// Postgres unique_violation error code
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Unique constraints from database/migrations (NULLs never conflict)
+ */
+const MIGRATION_UNIQUE: Record<string, string[][]> = {
+  signup_attempts: [['email_normalized']],
+  email_outbox: [['dedupe_key']],
+  plaid_items: [['item_id', 'account_id']],
+  saga_runs: [],
+  companies: [],
+};
+
+/**
+ * Column defaults from database/migrations
+ */
+const MIGRATION_DEFAULTS: Record<string, FakeRow> = {
+  signup_attempts: { status: 'in_progress', attempts: 1, company_id: null, last_error: null, completed_at: null },
+  saga_runs: { status: 'running', steps: [], metadata: {}, error: null, attempts: 0 },
+  email_outbox: { data: {}, status: 'pending', attempts: 0 },
+  plaid_items: { is_active: true, status: 'active' },
+  registration_drafts: { step: 1, data: {} },
+};
+
+/**
+ * Compare two column values the way Postgres orders them (ISO timestamps
+ * compare as strings)
+ */
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+/**
+ * Query builder for one table - awaitable like the supabase-js builder
+ */
+class FakeQuery implements PromiseLike<QueryResult> {
+  private operation: FakeTableOperation = 'select';
+  private values: FakeRow[] = [];
+  private patch: FakeRow = {};
+  private onConflict: string[] = [];
+  private filters: Filter[] = [];
+  private ordering: { column: string; ascending: boolean }[] = [];
+  private maxRows: number | null = null;
+  private returning = false;
+  private countRows = false;
+  private headOnly = false;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private readonly db: FakeSupabaseClient, private readonly table: string) {}
+
+  // ---------------------------------------------------------------------------
+  // Operations
+  // ---------------------------------------------------------------------------
+
+  select(_columns?: string, options: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean } = {}): this {
+    if (this.operation === 'select') {
+      this.countRows = Boolean(options.count);
+      this.headOnly = Boolean(options.head);
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: FakeRow | FakeRow[]): this {
+    this.operation = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: FakeRow | FakeRow[], options: { onConflict?: string } = {}): this {
+    this.operation = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.onConflict = (options.onConflict || 'id').split(',').map(column => column.trim());
+    return this;
+  }
+
+  update(patch: FakeRow): this {
+    this.operation = 'update';
+    this.patch = patch;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Filters and modifiers
+  // ---------------------------------------------------------------------------
+
+  eq(column: string, value: unknown): this {
+    return this.where(column, actual => actual === value);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where(column, actual => actual !== value);
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.where(column, actual => values.includes(actual));
+  }
+
+  is(column: string, value: null | boolean): this {
+    return this.where(column, actual => (actual ?? null) === value);
+  }
+
+  lt(column: string, value: unknown): this {
+    return this.where(column, actual => actual != null && compare(actual, value) < 0);
+  }
+
+  lte(column: string, value: unknown): this {
+    return this.where(column, actual => actual != null && compare(actual, value) <= 0);
+  }
+
+  gt(column: string, value: unknown): this {
+    return this.where(column, actual => actual != null && compare(actual, value) > 0);
+  }
+
+  gte(column: string, value: unknown): this {
+    return this.where(column, actual => actual != null && compare(actual, value) >= 0);
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Execution
+  // ---------------------------------------------------------------------------
+
+  private where(column: string, test: (value: unknown) => boolean): this {
+    this.filters.push({ column, test });
+    return this;
+  }
+
+  private matching(rows: FakeRow[]): FakeRow[] {
+    return rows.filter(row => this.filters.every(filter => filter.test(row[filter.column])));
+  }
+
+  private execute(): QueryResult {
+    const written = this.operation === 'update' ? this.patch : this.values[0] || {};
+    const injected = this.db.takeFailure(this.table, this.operation, written);
+    if (injected) {
+      return { data: null, error: injected, count: null };
+    }
+
+    const rows = this.db.rows(this.table);
+    let affected: FakeRow[];
+
+    switch (this.operation) {
+      case 'select': {
+        const selected = this.matching(rows);
+        this.ordering.slice().reverse().forEach(({ column, ascending }) => {
+          selected.sort((a, b) => (ascending ? 1 : -1) * compare(a[column], b[column]));
+        });
+        const count = this.countRows ? selected.length : null;
+        if (this.headOnly) {
+          return { data: null, error: null, count };
+        }
+        return this.shape(this.maxRows === null ? selected : selected.slice(0, this.maxRows), true, count);
+      }
+
+      case 'insert': {
+        const built = this.values.map(values => this.db.withDefaults(this.table, values));
+        const violation = this.db.uniqueViolation(this.table, built, rows);
+        if (violation) {
+          return { data: null, error: violation, count: null };
+        }
+        rows.push(...built);
+        affected = built;
+        break;
+      }
+
+      case 'upsert': {
+        affected = [];
+        for (const values of this.values) {
+          const existing = rows.find(row => this.onConflict.every(column => row[column] === values[column]));
+          if (existing) {
+            Object.assign(existing, clone(values));
+            affected.push(existing);
+            continue;
+          }
+
+          const built = this.db.withDefaults(this.table, values);
+          const violation = this.db.uniqueViolation(this.table, [built], rows);
+          if (violation) {
+            return { data: null, error: violation, count: null };
+          }
+          rows.push(built);
+          affected.push(built);
+        }
+        break;
+      }
+
+      case 'update': {
+        affected = this.matching(rows);
+        const others = rows.filter(row => !affected.includes(row));
+        const updated = affected.map(row => ({ ...row, ...clone(this.patch) }));
+        const violation = this.db.uniqueViolation(this.table, updated, others);
+        if (violation) {
+          return { data: null, error: violation, count: null };
+        }
+        affected.forEach(row => Object.assign(row, clone(this.patch)));
+        break;
+      }
+
+      case 'delete': {
+        affected = this.matching(rows);
+        this.db.replaceRows(this.table, rows.filter(row => !affected.includes(row)));
+        break;
+      }
+    }
+
+    return this.shape(affected, this.returning, null);
+  }
+
+  /**
+   * Apply single()/maybeSingle() to the result rows
+   */
+  private shape(rows: FakeRow[], returnRows: boolean, count: number | null): QueryResult {
+    if (!returnRows) {
+      return { data: null, error: null, count };
+    }
+
+    if (this.cardinality === 'many') {
+      return { data: clone(rows), error: null, count };
+    }
+
+    if (rows.length > 1 || (rows.length === 0 && this.cardinality === 'single')) {
+      return {
+        data: null,
+        error: {
+          code: 'PGRST116',
+          message: 'JSON object requested, multiple (or no) rows returned',
+          details: `The result contains ${rows.length} rows`,
+        },
+        count,
+      };
+    }
+
+    return { data: rows[0] ? clone(rows[0]) : null, error: null, count };
+  }
+}
+
+/**
+ * In-memory Supabase client
+ *
+ * @example
+ * ```typescript
+ * const supabase = new FakeSupabaseClient();
+ * vi.mock('@supabase/supabase-js', () => ({ createClient: () => supabase.asClient() }));
+ *
+ * // ... run the signup ...
+ * supabase.table('companies'); // [{ id: '...', stripe_subscription_id: 'sub_fake...', ... }]
+ * supabase.failNext('companies', 'insert');
+ * ```
+ */
+export class FakeSupabaseClient {
+  /** Users created through auth.admin */
+  readonly users: FakeAuthUser[] = [];
+
+  readonly auth = {
+    admin: {
+      createUser: async (attributes: { email: string; password?: string; email_confirm?: boolean; user_metadata?: Record<string, unknown> }) => {
+        const email = attributes.email.trim().toLowerCase();
+        if (this.users.some(user => user.email === email)) {
+          return {
+            data: { user: null },
+            error: { code: 'email_exists', status: 422, message: 'A user with this email address has already been registered' },
+          };
+        }
+
+        const user: FakeAuthUser = {
+          id: crypto.randomUUID(),
+          email,
+          user_metadata: attributes.user_metadata || {},
+          email_confirmed_at: attributes.email_confirm ? new Date().toISOString() : null,
+          created_at: new Date().toISOString(),
+        };
+        this.users.push(user);
+        return { data: { user: clone(user) }, error: null };
+      },
+
+      deleteUser: async (id: string) => {
+        const index = this.users.findIndex(user => user.id === id);
+        if (index < 0) {
+          return { data: { user: null }, error: { code: 'user_not_found', status: 404, message: 'User not found' } };
+        }
+        const [user] = this.users.splice(index, 1);
+        return { data: { user }, error: null };
+      },
+
+      getUserById: async (id: string) => {
+        const user = this.users.find(candidate => candidate.id === id);
+        return user
+          ? { data: { user: clone(user) }, error: null }
+          : { data: { user: null }, error: { code: 'user_not_found', status: 404, message: 'User not found' } };
+      },
+
+      generateLink: async (params: { type: string; email: string }) => {
+        const user = this.users.find(candidate => candidate.email === params.email.trim().toLowerCase());
+        if (!user) {
+          return { data: { user: null, properties: null }, error: { code: 'user_not_found', status: 404, message: 'User not found' } };
+        }
+
+        const token = crypto.randomBytes(16).toString('hex');
+        return {
+          data: {
+            user: clone(user),
+            properties: {
+              action_link: `http://127.0.0.1/auth/v1/verify?token=${token}&type=${params.type}`,
+              hashed_token: crypto.createHash('sha256').update(token).digest('hex'),
+              verification_type: params.type,
+            },
+          },
+          error: null,
+        };
+      },
+    },
+  };
+
+  private tables = new Map<string, FakeRow[]>();
+  private failures: QueuedFailure[] = [];
+  private readonly unique: Record<string, string[][]>;
+  private readonly defaults: Record<string, FakeRow>;
+
+  constructor(options: FakeSupabaseOptions = {}) {
+    this.unique = { ...MIGRATION_UNIQUE, ...options.unique };
+    this.defaults = { ...MIGRATION_DEFAULTS, ...options.defaults };
+  }
+
+  /**
+   * Start a query on a table
+   */
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  /**
+   * This fake typed as a SupabaseClient (for services and createClient mocks)
+   */
+  asClient(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+
+  // ============================================================================
+  // TEST HELPERS
+  // ============================================================================
+
+  /**
+   * Rows of a table (copies), oldest first
+   */
+  table(name: string): FakeRow[] {
+    return clone(this.rows(name));
+  }
+
+  /**
+   * Add rows directly (defaults applied, constraints not checked)
+   */
+  seed(name: string, rows: FakeRow[]): FakeRow[] {
+    const built = rows.map(row => this.withDefaults(name, row));
+    this.rows(name).push(...built);
+    return clone(built);
+  }
+
+  /**
+   * Fail the next operation(s) of a kind on a table
+   *
+   * @example
+   * ```typescript
+   * supabase.failNext('companies', 'insert');
+   *
+   * // Marking a saga completed fails (all three attempts)
+   * supabase.failNext('saga_runs', 'update', { times: 3, when: values => values.status === 'completed' });
+   * ```
+   */
+  failNext(
+    table: string,
+    operation: FakeTableOperation,
+    options: { error?: FakeSupabaseError; times?: number; when?: (values: FakeRow) => boolean } = {}
+  ): this {
+    this.failures.push({
+      table,
+      operation,
+      error: options.error || { code: '08006', message: 'Injected failure: connection failure' },
+      when: options.when,
+      remaining: Math.max(1, options.times ?? 1),
+    });
+    return this;
+  }
+
+  /**
+   * Forget all rows, users and queued failures
+   */
+  reset(): void {
+    this.tables.clear();
+    this.users.length = 0;
+    this.failures = [];
+  }
+
+  // ============================================================================
+  // QUERY SUPPORT (used by FakeQuery)
+  // ============================================================================
+
+  /** @internal Live rows of a table */
+  rows(name: string): FakeRow[] {
+    if (!this.tables.has(name)) {
+      this.tables.set(name, []);
+    }
+    return this.tables.get(name)!;
+  }
+
+  /** @internal */
+  replaceRows(name: string, rows: FakeRow[]): void {
+    this.tables.set(name, rows);
+  }
+
+  /** @internal A new row with id, timestamps and table defaults filled in */
+  withDefaults(name: string, values: FakeRow): FakeRow {
+    const now = new Date().toISOString();
+    return {
+      id: crypto.randomUUID(),
+      created_at: now,
+      updated_at: now,
+      ...clone(this.defaults[name] || {}),
+      ...clone(values),
+    };
+  }
+
+  /** @internal Unique violation between candidate rows and existing ones */
+  uniqueViolation(name: string, candidates: FakeRow[], existing: FakeRow[]): FakeSupabaseError | null {
+    const constraints = [['id'], ...(this.unique[name] || [])];
+    const seen = [...existing];
+
+    for (const candidate of candidates) {
+      for (const columns of constraints) {
+        if (columns.some(column => candidate[column] == null)) {
+          continue;
+        }
+
+        const conflict = seen.find(row => columns.every(column => row[column] === candidate[column]));
+        if (conflict) {
+          return {
+            code: UNIQUE_VIOLATION,
+            message: `duplicate key value violates unique constraint "${name}_${columns.join('_')}_key"`,
+            details: `Key (${columns.join(', ')})=(${columns.map(column => String(candidate[column])).join(', ')}) already exists.`,
+          };
+        }
+      }
+      seen.push(candidate);
+    }
+
+    return null;
+  }
+
+  /** @internal Injected failure for this operation, if one is queued */
+  takeFailure(table: string, operation: FakeTableOperation, values: FakeRow): FakeSupabaseError | null {
+    const queued = this.failures.find(failure =>
+      failure.table === table && failure.operation === operation && (!failure.when || failure.when(values))
+    );
+    if (!queued) {
+      return null;
+    }
+
+    queued.remaining--;
+    if (queued.remaining <= 0) {
+      this.failures = this.failures.filter(failure => failure !== queued);
+    }
+    return queued.error;
+  }
+}
+
+export default FakeSupabaseClient;
@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeStripeServer } from '../FakeStripeServer';
+
+const stripe = new FakeStripeServer();
+
+async function call(method: string, path: string, params: Record<string, string> = {}, headers: Record<string, string> = {}) {
+  const body = new URLSearchParams(params).toString();
+  const response = await fetch(`${stripe.url}${path}${method === 'GET' && body ? `?${body}` : ''}`, {
+    method,
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+    body: method === 'GET' ? undefined : body,
+  });
+  return { status: response.status, headers: response.headers, body: await response.json() };
+}
+
+async function trialingSubscription() {
+  const customer = await call('POST', '/v1/customers', { email: 'owner@example.com' });
+  const subscription = await call('POST', '/v1/subscriptions', {
+    customer: customer.body.id,
+    'items[0][price]': 'price_pro_monthly',
+    trial_period_days: '14',
+  });
+  return subscription.body;
+}
+
+beforeAll(async () => {
+  await stripe.start();
+});
+
+afterAll(async () => {
+  await stripe.stop();
+});
+
+beforeEach(() => {
+  stripe.reset();
+  stripe.addPrice({ id: 'price_pro_monthly', unitAmount: 19900, interval: 'month', planType: 'pro' });
+  stripe.addPrice({ id: 'price_starter_monthly', unitAmount: 9900, interval: 'month', planType: 'starter' });
+});
+
+describe('FakeStripeServer idempotency', () => {
+  it('replays a request repeated with the same key and parameters', async () => {
+    const first = await call('POST', '/v1/customers', { email: 'owner@example.com' }, { 'Idempotency-Key': 'key-1' });
+    const replay = await call('POST', '/v1/customers', { email: 'owner@example.com' }, { 'Idempotency-Key': 'key-1' });
+
+    expect(replay.body.id).toBe(first.body.id);
+    expect(replay.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(stripe.list('customer')).toHaveLength(1);
+  });
+
+  it('rejects a key reused with different parameters', async () => {
+    await call('POST', '/v1/customers', { email: 'owner@example.com' }, { 'Idempotency-Key': 'key-1' });
+    const reused = await call('POST', '/v1/customers', { email: 'other@example.com' }, { 'Idempotency-Key': 'key-1' });
+
+    expect(reused.status).toBe(400);
+    expect(reused.body.error.type).toBe('idempotency_error');
+    expect(stripe.list('customer')).toHaveLength(1);
+  });
+});
+
+describe('FakeStripeServer subscription schedules', () => {
+  it('schedules a downgrade at period end and applies it when the phase starts', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const subscription = await trialingSubscription();
+
+    const created = await call('POST', '/v1/subscription_schedules', { from_subscription: subscription.id });
+    expect(created.body).toMatchObject({ status: 'active', subscription: subscription.id });
+    expect(stripe.get(subscription.id)?.schedule).toBe(created.body.id);
+
+    const updated = await call('POST', `/v1/subscription_schedules/${created.body.id}`, {
+      end_behavior: 'release',
+      'phases[0][items][0][price]': 'price_pro_monthly',
+      'phases[0][start_date]': String(subscription.current_period_start),
+      'phases[0][end_date]': String(subscription.current_period_end),
+      'phases[1][items][0][price]': 'price_starter_monthly',
+      'phases[1][iterations]': '1',
+      'phases[1][metadata][plan_type]': 'starter',
+    });
+    expect(updated.body.phases).toHaveLength(2);
+    expect(updated.body.phases[1].start_date).toBe(subscription.current_period_end);
+
+    stripe.advanceSchedule(created.body.id);
+
+    const current = stripe.get(subscription.id)!;
+    const items = current.items as { data: Array<{ price: { id: string } }> };
+    expect(items.data[0].price.id).toBe('price_starter_monthly');
+    expect(current.metadata).toMatchObject({ plan_type: 'starter' });
+    expect(current.schedule).toBeNull();
+    expect(stripe.get(created.body.id)).toMatchObject({ status: 'released', released_subscription: subscription.id });
+  });
+
+  it('releases a schedule and refuses to release it twice', async () => {
+    const subscription = await trialingSubscription();
+    const schedule = await call('POST', '/v1/subscription_schedules', { from_subscription: subscription.id });
+
+    const released = await call('POST', `/v1/subscription_schedules/${schedule.body.id}/release`);
+    const again = await call('POST', `/v1/subscription_schedules/${schedule.body.id}/release`);
+
+    expect(released.body.status).toBe('released');
+    expect(stripe.get(subscription.id)?.schedule).toBeNull();
+    expect(again.status).toBe(400);
+  });
+});
+
+describe('FakeStripeServer invoices', () => {
+  it('lists a customer\'s invoices newest first with paging', async () => {
+    const first = await trialingSubscription();
+    const customerId = String(first.customer);
+    await call('POST', '/v1/subscriptions', { customer: customerId, 'items[0][price]': 'price_starter_monthly' });
+    await trialingSubscription();
+
+    const page = await call('GET', '/v1/invoices', { customer: customerId, limit: '1' });
+    expect(page.body.data).toHaveLength(1);
+    expect(page.body.has_more).toBe(true);
+    expect(page.body.data[0]).toMatchObject({ customer: customerId, status: 'open' });
+
+    const next = await call('GET', '/v1/invoices', { customer: customerId, starting_after: page.body.data[0].id });
+    expect(next.body.data).toMatchObject([{ subscription: first.id, status: 'paid' }]);
+    expect(next.body.has_more).toBe(false);
+
+    const open = await call('GET', '/v1/invoices', { status: 'open' });
+    expect(open.body.data).toHaveLength(1);
+  });
+});
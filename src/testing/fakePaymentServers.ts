@@ -0,0 +1,116 @@
+/**
+ * FAKE PAYMENT SERVERS
+ *
+ * Starts the Plaid and Stripe fakes together and points PlaidService and
+ * StripeService at them (PLAID_API_BASE_URL / STRIPE_API_BASE_URL).
+ *
+ * The default service instances read their configuration on first
+ * getInstance(), so start the fakes before that (or call
+ * StripeService.setInstance(undefined) / PlaidService.setInstance(undefined)
+ * between suites). Tests that build their own services can pass the URLs
+ * instead: createStripeService({ secretKey: 'sk_test_fake', apiBaseUrl: fakes.stripe.url }).
+ * Functions served by a separate `netlify dev` process need the two URLs in
+ * their own environment instead (see .env.example).
+ *
+ * IMPORTANT: Test and local development use only - never deploy.
+ */
+
+import { FakePlaidServer } from './FakePlaidServer';
+import { FakeStripeServer } from './FakeStripeServer';
+
+/**
+ * Options for startFakePaymentServers
+ */
+export interface FakePaymentServerOptions {
+  /** Deliver Stripe events here (e.g. the stripe-webhook function URL) */
+  stripeWebhookUrl?: string;
+
+  /** Secret the receiver verifies Stripe-Signature with (default: STRIPE_WEBHOOK_SECRET) */
+  stripeWebhookSecret?: string;
+
+  /** Leave process.env untouched (default: false) */
+  skipEnv?: boolean;
+}
+
+/**
+ * Running fakes
+ */
+export interface FakePaymentServers {
+  plaid: FakePlaidServer;
+  stripe: FakeStripeServer;
+
+  /** Forget all state between tests */
+  reset: () => void;
+
+  /** Stop both servers and restore the environment */
+  stop: () => Promise<void>;
+}
+
+const ENV_KEYS = ['PLAID_API_BASE_URL', 'STRIPE_API_BASE_URL'] as const;
+
+/**
+ * Start fake Plaid and Stripe APIs on free localhost ports
+ *
+ * Payment methods created from a Plaid processor token get the bank name
+ * and mask of the account the token was created for.
+ *
+ * @example
+ * ```typescript
+ * const fakes = await startFakePaymentServers();
+ * const { publicToken, accounts } = fakes.plaid.createPublicToken();
+ *
+ * // ... call signup-with-payment's handler with publicToken and accounts[0].account_id ...
+ *
+ * fakes.stripe.list('subscription'); // one trialing subscription
+ * await fakes.stop();
+ * ```
+ */
+export async function startFakePaymentServers(
+  options: FakePaymentServerOptions = {}
+): Promise<FakePaymentServers> {
+  const plaid = new FakePlaidServer();
+  const stripe = new FakeStripeServer({
+    processorTokens: token => plaid.getProcessorToken(token),
+  });
+
+  const previousEnv = ENV_KEYS.map(key => [key, process.env[key]] as const);
+
+  const [plaidUrl, stripeUrl] = await Promise.all([plaid.start(), stripe.start()]);
+
+  if (!options.skipEnv) {
+    process.env.PLAID_API_BASE_URL = plaidUrl;
+    process.env.STRIPE_API_BASE_URL = stripeUrl;
+  }
+
+  if (options.stripeWebhookUrl) {
+    stripe.setWebhookEndpoint(
+      options.stripeWebhookUrl,
+      options.stripeWebhookSecret || process.env.STRIPE_WEBHOOK_SECRET || 'whsec_fake'
+    );
+  }
+
+  return {
+    plaid,
+    stripe,
+    reset: () => {
+      plaid.reset();
+      stripe.reset();
+    },
+    stop: async () => {
+      await stripe.flushWebhooks();
+      await Promise.all([plaid.stop(), stripe.stop()]);
+
+      if (!options.skipEnv) {
+        previousEnv.forEach(([key, value]) => {
+          if (value === undefined) {
+            delete process.env[key];
+          } else {
+            process.env[key] = value;
+          }
+        });
+      }
+    },
+  };
+}
+
+export default startFakePaymentServers;
@@ -128,6 +128,15 @@ export interface CreatePlaidLinkTokenParams {
 
   /** Account filters (e.g., only checking/savings) */
   accountFilters?: PlaidAccountFilters;
+
+  /**
+   * Link flow (default: 'signup'). 'update' and 'reauth' open Link in
+   * update mode for an existing item and require accessToken.
+   */
+  flow?: PlaidLinkFlow;
+
+  /** Existing item's access token (update mode only) */
+  accessToken?: string;
 }
 
 /**
@@ -501,7 +510,7 @@ export interface PlaidInstitution {
   /** Primary color (hex) */
   primary_color?: string;
 
-  /** Logo URL */
+  /** Base64-encoded PNG logo */
   logo?: string;
 
   /** URL */
@@ -519,6 +528,28 @@ export interface PlaidInstitution {
   };
 }
 
+/**
+ * Institution display details (cached by InstitutionDirectory)
+ *
+ * Safe to send to the browser - public Plaid metadata only.
+ */
+export interface InstitutionBranding {
+  /** Plaid institution ID (ins_xxx) */
+  institutionId: string;
+
+  /** Institution name (e.g. "Chase") */
+  name: string;
+
+  /** Base64-encoded PNG logo */
+  logo: string | null;
+
+  /** Primary brand color (hex) */
+  primaryColor: string | null;
+
+  /** Institution website */
+  url: string | null;
+}
+
 // ==============================================================================
 // ERROR TYPES
 // ==============================================================================
@@ -538,7 +569,8 @@ export type PlaidErrorType =
   | 'PAYMENT_ERROR'
   | 'BANK_TRANSFER_ERROR'
   | 'INCOME_VERIFICATION_ERROR'
-  | 'MICRODEPOSIT_ERROR';
+  | 'MICRODEPOSIT_ERROR'
+  | 'RATE_LIMIT_EXCEEDED';
 
 /**
  * Common Plaid error codes
@@ -679,6 +711,7 @@ export type PlaidWebhookCode =
   | 'ERROR'
   | 'PENDING_EXPIRATION'
   | 'USER_PERMISSION_REVOKED'
+  | 'LOGIN_REPAIRED'
   | 'WEBHOOK_UPDATE_ACKNOWLEDGED'
   | 'NEW_ACCOUNTS_AVAILABLE'
 
@@ -714,7 +747,16 @@ export interface PlaidWebhookPayload {
  */
 export interface PlaidItemWebhook extends PlaidWebhookPayload {
   webhook_type: 'ITEM';
-  webhook_code: 'ERROR' | 'PENDING_EXPIRATION' | 'USER_PERMISSION_REVOKED' | 'NEW_ACCOUNTS_AVAILABLE';
+  webhook_code:
+    | 'ERROR'
+    | 'PENDING_EXPIRATION'
+    | 'USER_PERMISSION_REVOKED'
+    | 'LOGIN_REPAIRED'
+    | 'WEBHOOK_UPDATE_ACKNOWLEDGED'
+    | 'NEW_ACCOUNTS_AVAILABLE';
+
+  /** When the item's consent expires (PENDING_EXPIRATION only, ISO 8601) */
+  consent_expiration_time?: string;
 }
 
 /**
@@ -740,10 +782,55 @@ export interface PlaidWebhookVerificationResult {
   error?: string;
 }
 
+/**
+ * Plaid webhook verification key (JWK returned by /webhook_verification_key/get)
+ *
+ * Keys are ES256 (P-256). Cache by key ID - Plaid rotates keys rarely and
+ * sets expired_at when a key must no longer be trusted.
+ */
+export interface PlaidWebhookVerificationKey {
+  /** Algorithm (always ES256) */
+  alg: string;
+
+  /** Curve (P-256) */
+  crv: string;
+
+  /** Key ID (matches the JWT header kid) */
+  kid: string;
+
+  /** Key type (EC) */
+  kty: string;
+
+  /** Key use (sig) */
+  use: string;
+
+  /** Public key x coordinate (base64url) */
+  x: string;
+
+  /** Public key y coordinate (base64url) */
+  y: string;
+
+  /** Unix timestamp when the key was created */
+  created_at: number;
+
+  /** Unix timestamp when the key expired (null if still valid) */
+  expired_at: number | null;
+}
+
 // ==============================================================================
 // DATABASE STORAGE TYPES
 // ==============================================================================
 
+/**
+ * Health of a stored Plaid item (updated from ITEM webhooks)
+ */
+export type PlaidItemHealthStatus =
+  | 'active'              // Item healthy
+  | 'pending_expiration'  // Consent expires soon - user must re-authenticate
+  | 'login_required'      // ITEM_LOGIN_REQUIRED - user must re-authenticate
+  | 'revoked'             // User revoked access at their bank
+  | 'error';              // Other item error
+
 /**
  * Plaid item record for database storage
  *
@@ -759,9 +846,12 @@ export interface PlaidItemRecord {
   /** Item ID */
   item_id: string;
 
-  /** ENCRYPTED access token (NEVER store in plain text) */
+  /** ENCRYPTED access token (NEVER store in plain text) - see PlaidItemRepository */
   encrypted_access_token: string;
 
+  /** Master key that wraps the token's data key (for key rotation) */
+  encryption_key_id: string;
+
   /** Institution ID */
   institution_id: string;
 
@@ -789,8 +879,20 @@ export interface PlaidItemRecord {
   /** Whether item is active */
   is_active: boolean;
 
+  /** Item health status */
+  status: PlaidItemHealthStatus;
+
+  /** When the item's consent expires (if Plaid reported one) */
+  consent_expiration_time?: string;
+
   /** Last error (if any) */
-  last_error?: string;
+  last_error?: string | null;
+
+  /** Stripe payment method created from this account */
+  stripe_payment_method_id?: string | null;
+
+  /** Whether this is the account billed for the subscription (one per company) */
+  is_primary: boolean;
 
   /** Timestamp when created */
   created_at: string;
@@ -1016,6 +1118,18 @@ export function formatAccountMask(mask: string): string {
   return `****${mask}`;
 }
 
+/**
+ * Format a bank account for display
+ *
+ * @example
+ * ```typescript
+ * const label = formatBankAccountLabel('Chase', '1234'); // "Chase ••••1234"
+ * ```
+ */
+export function formatBankAccountLabel(institutionName: string, mask: string): string {
+  return mask ? `${institutionName} ••••${mask}` : institutionName;
+}
+
 /**
  * Get account display name
  *
@@ -382,6 +382,9 @@ export interface StripePaymentIntent {
   /** Latest charge ID */
   latest_charge?: string;
 
+  /** Invoice this payment pays (subscription payments) */
+  invoice?: string | null;
+
   /** Timestamp when created */
   created: number;
 
@@ -426,6 +429,15 @@ export type StripeBillingInterval = 'month' | 'year';
  */
 export type TradespherePlanType = 'starter' | 'growth' | 'enterprise';
 
+/**
+ * All Tradesphere plan types (for runtime validation of request input)
+ */
+export const TRADESPHERE_PLAN_TYPES: readonly TradespherePlanType[] = [
+  'starter',
+  'growth',
+  'enterprise',
+];
+
 /**
  * Parameters for creating a subscription
  *
@@ -461,9 +473,27 @@ export interface CreateStripeSubscriptionParams {
   /** Trial period in days (0 for no trial) */
   trialDays?: number;
 
+  /**
+   * Exact trial end (overrides trialDays). Without a default payment method
+   * at this time, Stripe pauses the subscription instead of invoicing.
+   */
+  trialEnd?: Date;
+
   /** Day of month to bill (1-31) */
   billingAnchor?: number;
 
+  /** Payment method to charge (defaults to the customer's default) */
+  defaultPaymentMethodId?: string;
+
+  /**
+   * How Stripe handles the first invoice (default: 'default_incomplete').
+   * Use 'allow_incomplete' to initiate the first ACH debit immediately.
+   */
+  paymentBehavior?: 'default_incomplete' | 'allow_incomplete' | 'error_if_incomplete';
+
+  /** Idempotency key so retried requests never create a second subscription */
+  idempotencyKey?: string;
+
   /** Additional metadata */
   metadata?: Record<string, string>;
 }
@@ -541,6 +571,292 @@ export interface CreateStripeSubscriptionResponse {
   paymentIntent?: StripePaymentIntent;
 }
 
+/**
+ * Parameters for updating a subscription
+ *
+ * Setting planType, amount or interval changes the plan:
+ * - Upgrades take effect immediately and invoice the prorated difference
+ * - Downgrades (and annual → monthly switches) are scheduled for period end
+ */
+export interface UpdateStripeSubscriptionParams extends Partial<CreateStripeSubscriptionParams> {
+  /**
+   * Proration timestamp from previewPlanChange() - charges exactly the
+   * previewed amount even if the change is committed later
+   */
+  prorationDate?: number;
+}
+
+/**
+ * Direction of a plan change (by monthly-equivalent price)
+ */
+export type SubscriptionPlanChangeType = 'upgrade' | 'downgrade' | 'none';
+
+/**
+ * When a plan change takes effect
+ */
+export type SubscriptionPlanChangeTiming = 'immediately' | 'period_end';
+
+/**
+ * Line on a proration preview
+ */
+export interface SubscriptionProrationLine {
+  /** Line description (from Stripe) */
+  description: string;
+
+  /** Amount in dollars (negative for credits) */
+  amount: number;
+
+  /** Whether the line is a proration adjustment */
+  proration: boolean;
+}
+
+/**
+ * Preview of a plan change before it is committed
+ *
+ * @example
+ * ```typescript
+ * const { data: preview } = await stripe.previewPlanChange('sub_xxx', {
+ *   planType: 'growth',
+ *   interval: 'month'
+ * });
+ * // "You'll be charged $133.21 today"
+ * await stripe.updateSubscription('sub_xxx', {
+ *   planType: 'growth',
+ *   interval: 'month',
+ *   prorationDate: preview.prorationDate
+ * });
+ * ```
+ */
+export interface SubscriptionProrationPreview {
+  /** Subscription ID */
+  subscriptionId: string;
+
+  /** Current plan */
+  currentPlanType: string;
+  currentInterval: StripeBillingInterval;
+  currentAmount: number;
+
+  /** Requested plan */
+  newPlanType: string;
+  newInterval: StripeBillingInterval;
+  newAmount: number;
+
+  /** Upgrade or downgrade */
+  changeType: SubscriptionPlanChangeType;
+
+  /** Whether the change applies now or at period end */
+  timing: SubscriptionPlanChangeTiming;
+
+  /** Unix timestamp the new plan takes effect */
+  effectiveAt: number;
+
+  /** Net proration in dollars (0 for changes at period end) */
+  prorationAmount: number;
+
+  /** Amount invoiced when the change is committed (0 for changes at period end) */
+  amountDueNow: number;
+
+  /** Currency code */
+  currency: string;
+
+  /** Pass to updateSubscription() to lock in this preview */
+  prorationDate: number;
+
+  /** Invoice lines behind amountDueNow */
+  lines: SubscriptionProrationLine[];
+}
+
+// ==============================================================================
+// INVOICE TYPES
+// ==============================================================================
+
+/**
+ * Invoice status lifecycle
+ */
+export type StripeInvoiceStatus =
+  | 'draft'          // Not yet finalized
+  | 'open'           // Finalized, awaiting payment (ACH debit in flight)
+  | 'paid'           // Paid in full
+  | 'uncollectible'  // Written off
+  | 'void';          // Canceled
+
+/**
+ * Invoice as shown to company owners
+ */
+export interface StripeInvoiceSummary {
+  /** Invoice ID (in_xxx) */
+  id: string;
+
+  /** Human-readable invoice number */
+  number: string | null;
+
+  /** Invoice status */
+  status: StripeInvoiceStatus | null;
+
+  /** Amount due in dollars */
+  amountDue: number;
+
+  /** Amount paid in dollars */
+  amountPaid: number;
+
+  /** Currency code */
+  currency: string;
+
+  /** Timestamp when created */
+  created: number;
+
+  /** Billing period covered */
+  periodStart: number;
+  periodEnd: number;
+
+  /** Stripe-hosted invoice page */
+  hostedInvoiceUrl: string | null;
+
+  /** PDF download link */
+  invoicePdf: string | null;
+
+  /** Subscription the invoice belongs to (if any) */
+  subscriptionId?: string;
+}
+
+/**
+ * Parameters for listing a customer's invoices
+ */
+export interface ListStripeInvoicesParams {
+  /** Stripe customer ID */
+  customerId: string;
+
+  /** Page size (default: 20, max: 100) */
+  limit?: number;
+
+  /** Invoice ID to page after (from the previous page) */
+  startingAfter?: string;
+
+  /** Only invoices with this status */
+  status?: StripeInvoiceStatus;
+}
+
+/**
+ * Page of invoices
+ */
+export interface ListStripeInvoicesResponse {
+  /** Invoices, newest first */
+  invoices: StripeInvoiceSummary[];
+
+  /** Whether more invoices exist after this page */
+  hasMore: boolean;
+}
+
+// ==============================================================================
+// SETUP INTENT TYPES
+// ==============================================================================
+
+/**
+ * Setup intent status lifecycle
+ */
+export type StripeSetupIntentStatus =
+  | 'requires_payment_method' // Waiting for bank account to be linked
+  | 'requires_confirmation'   // Bank linked, awaiting confirmation
+  | 'requires_action'         // Additional action required (e.g., micro-deposits)
+  | 'processing'              // Verification in progress
+  | 'succeeded'               // Bank account verified and saved
+  | 'canceled';               // Setup canceled
+
+/**
+ * How Stripe verifies a bank account collected by a SetupIntent
+ * - automatic: instant (Financial Connections) with micro-deposit fallback
+ * - instant: instant only
+ * - microdeposits: always micro-deposits (manually entered account numbers)
+ */
+export type StripeBankVerificationMethod = 'automatic' | 'instant' | 'microdeposits';
+
+/**
+ * Micro-deposit form: two small amounts, or one deposit with a 6-character
+ * statement descriptor code (SMxxxx)
+ */
+export type StripeMicrodepositType = 'amounts' | 'descriptor_code';
+
+/**
+ * Parameters for creating a SetupIntent to collect an ACH bank account
+ *
+ * @example
+ * ```typescript
+ * const params: CreateStripeSetupIntentParams = {
+ *   customerId: 'cus_xxx',
+ *   metadata: {
+ *     subscription_tier: 'growth'
+ *   }
+ * };
+ * ```
+ */
+export interface CreateStripeSetupIntentParams {
+  /** Stripe customer ID */
+  customerId: string;
+
+  /** Bank verification method (default: 'automatic') */
+  verificationMethod?: StripeBankVerificationMethod;
+
+  /** Additional metadata */
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Response from SetupIntent creation
+ */
+export interface CreateStripeSetupIntentResponse {
+  /** Setup intent ID (seti_xxx) */
+  setupIntentId: string;
+
+  /** Client secret for the Payment Element */
+  clientSecret: string;
+
+  /** Setup intent status */
+  status: StripeSetupIntentStatus;
+}
+
+/**
+ * A SetupIntent with its bank account and pending micro-deposits
+ */
+export interface StripeSetupIntentDetails {
+  /** Setup intent ID (seti_xxx) */
+  setupIntentId: string;
+
+  status: StripeSetupIntentStatus;
+
+  customerId: string | null;
+
+  /** Bank account payment method (attached to the customer once verified) */
+  paymentMethodId: string | null;
+
+  bankName: string | null;
+
+  last4: string | null;
+
+  /** Set while the SetupIntent waits for micro-deposit verification */
+  microdeposits: {
+    type: StripeMicrodepositType;
+
+    /** When the deposits should appear on the bank statement (ISO) */
+    arrivalDate: string;
+  } | null;
+
+  metadata: Record<string, string>;
+}
+
+/**
+ * Micro-deposit values entered by the customer (one of amounts or descriptorCode)
+ */
+export interface VerifyStripeMicrodepositsParams {
+  /** Setup intent ID (seti_xxx) */
+  setupIntentId: string;
+
+  /** The two deposit amounts in cents */
+  amounts?: [number, number];
+
+  /** Statement descriptor code (SMxxxx) */
+  descriptorCode?: string;
+}
+
 // ==============================================================================
 // WEBHOOK TYPES
 // ==============================================================================
@@ -567,6 +883,11 @@ export type StripeWebhookEventType =
   | 'customer.subscription.updated'
   | 'customer.subscription.deleted'
   | 'customer.subscription.trial_will_end'
+  | 'customer.subscription.paused'
+  | 'customer.subscription.resumed'
+
+  // Invoice Events
+  | 'invoice.created'
 
   // Payment Method Events
   | 'payment_method.attached'
@@ -653,10 +974,118 @@ export interface WebhookProcessingResponse {
   /** Event ID */
   eventId?: string;
 
+  /** Whether the event had already been received */
+  duplicate?: boolean;
+
   /** Error message (if failed) */
   error?: string;
 }
 
+/**
+ * Stripe charge object (subset delivered with charge.* events)
+ */
+export interface StripeCharge {
+  /** Charge ID (ch_xxx or py_xxx for ACH) */
+  id: string;
+
+  /** Amount in cents */
+  amount: number;
+
+  /** Charge status */
+  status: 'pending' | 'succeeded' | 'failed';
+
+  /** Customer ID */
+  customer: string | null;
+
+  /** Payment intent that created this charge */
+  payment_intent: string | null;
+
+  /** Invoice this charge pays (subscription payments) */
+  invoice?: string | null;
+
+  /** Whether the charge has been (partially) refunded */
+  refunded: boolean;
+
+  /** Failure code (if failed) */
+  failure_code: string | null;
+
+  /** Failure message (if failed) */
+  failure_message: string | null;
+
+  /** Payment method details */
+  payment_method_details?: {
+    type: string;
+    us_bank_account?: {
+      bank_name?: string;
+      last4?: string;
+    };
+  };
+}
+
+/**
+ * Stripe invoice object (subset delivered with invoice.* events)
+ */
+export interface StripeInvoice {
+  /** Invoice ID (in_xxx) */
+  id: string;
+
+  /** Customer ID */
+  customer: string | null;
+
+  /** Subscription the invoice belongs to (if any) */
+  subscription: string | null;
+
+  /** Invoice status ('draft' until finalized) */
+  status: StripeInvoiceStatus | null;
+
+  /** Amount due in cents */
+  amount_due: number;
+
+  /** Why the invoice was created (subscription_cycle, subscription_create, ...) */
+  billing_reason: string | null;
+}
+
+/**
+ * Row in the stripe_webhooks event log
+ */
+export interface StripeWebhookRecord {
+  /** Row UUID */
+  id: string;
+
+  /** Stripe event ID (evt_xxx) - unique, used for deduplication */
+  stripe_event_id: string;
+
+  /** Event type */
+  event_type: StripeWebhookEventType | string;
+
+  /** Full event payload */
+  payload: StripeWebhookEvent;
+
+  /** Company the event relates to (if resolved) */
+  company_id: string | null;
+
+  /** Payment the event relates to (if resolved) */
+  payment_id: string | null;
+
+  /** Whether the event was processed successfully */
+  processed: boolean;
+
+  /** Timestamp when processed */
+  processed_at: string | null;
+
+  /** Last processing error */
+  error: string | null;
+
+  /** Number of failed processing attempts */
+  retry_count: number;
+
+  /** Timestamp of the most recent processing attempt */
+  last_attempted_at: string | null;
+
+  /** Timestamp when received */
+  created_at: string;
+}
+
 // ==============================================================================
 // ERROR TYPES
 // ==============================================================================
@@ -905,6 +1334,13 @@ export function isRetryableStripeError(error: StripeError): boolean {
   );
 }
 
+/**
+ * Type guard to check if a value is a valid Tradesphere plan type
+ */
+export function isTradespherePlanType(value: unknown): value is TradespherePlanType {
+  return typeof value === 'string' && (TRADESPHERE_PLAN_TYPES as readonly string[]).includes(value);
+}
+
 /**
  * Type guard to check if payment method is ACH
  */
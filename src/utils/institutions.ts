@@ -0,0 +1,24 @@
+import type { InstitutionBranding } from '../types/plaid';
+
+// One request per institution per page load
+const requests = new Map<string, Promise<InstitutionBranding | null>>();
+
+// Look up a bank's name, logo and color (public function, browser-cached).
+// Resolves null when the bank is unknown or the lookup fails - logos are
+// cosmetic, so callers fall back to the plain bank name.
+export const fetchInstitution = (institutionId: string): Promise<InstitutionBranding | null> => {
+  let request = requests.get(institutionId);
+  if (!request) {
+    request = fetch(`/.netlify/functions/institution?institutionId=${encodeURIComponent(institutionId)}`)
+      .then(async response => {
+        if (!response.ok) {
+          return null;
+        }
+        const result = await response.json();
+        return (result.institution as InstitutionBranding) || null;
+      })
+      .catch(() => null);
+    requests.set(institutionId, request);
+  }
+  return request;
+};
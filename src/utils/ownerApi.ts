@@ -0,0 +1,41 @@
+import { getSupabaseClient } from './supabaseClient';
+
+// Call an owner-only Netlify function with the signed-in user's access token.
+// Throws with the function's user-facing message on any non-2xx response.
+export const ownerApi = async <T>(
+  functionName: string,
+  options: { method?: 'GET' | 'POST'; query?: Record<string, string | undefined>; body?: unknown } = {}
+): Promise<T> => {
+  const { data } = await getSupabaseClient().auth.getSession();
+  const accessToken = data.session?.access_token;
+  if (!accessToken) {
+    throw new Error('Your session has expired. Please sign in again.');
+  }
+
+  const params = new URLSearchParams();
+  Object.entries(options.query || {}).forEach(([key, value]) => {
+    if (value !== undefined) {
+      params.set(key, value);
+    }
+  });
+  const queryString = params.toString();
+
+  const response = await fetch(
+    `/.netlify/functions/${functionName}${queryString ? `?${queryString}` : ''}`,
+    {
+      method: options.method || 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    }
+  );
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.message || 'Something went wrong. Please try again.');
+  }
+
+  return result as T;
+};
@@ -0,0 +1,104 @@
+// Forms that keep server-side drafts (see the registration-draft function)
+export type RegistrationFlow = 'owner_registration' | 'onboarding';
+
+export interface SavedRegistrationDraft {
+  flow: RegistrationFlow;
+  step: number;
+  data: Record<string, string>;
+  expiresAt: string;
+}
+
+// The resume token stays in this browser so a refresh or a new tab picks
+// the draft up again without the emailed link
+const tokenStorageKey = (flow: RegistrationFlow) => `tradesphere.registrationDraftToken.${flow}`;
+
+const readToken = (flow: RegistrationFlow): string | null => {
+  try {
+    return localStorage.getItem(tokenStorageKey(flow));
+  } catch {
+    return null;
+  }
+};
+
+const writeToken = (flow: RegistrationFlow, token: string | null) => {
+  try {
+    if (token) {
+      localStorage.setItem(tokenStorageKey(flow), token);
+    } else {
+      localStorage.removeItem(tokenStorageKey(flow));
+    }
+  } catch {
+    // Storage unavailable (private mode) - the emailed link still works
+  }
+};
+
+// Save progress after a completed step. Only pass fields that may be
+// stored - never passwords or bank details (the server drops them anyway).
+// Never throws: drafts are a convenience, the form works without them.
+export const saveRegistrationDraft = async (
+  flow: RegistrationFlow,
+  step: number,
+  data: Record<string, string>
+): Promise<void> => {
+  const post = (token: string | null) =>
+    fetch('/.netlify/functions/registration-draft', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ flow, step, data, token }),
+    });
+
+  try {
+    let response = await post(readToken(flow));
+    if (response.status === 404 || response.status === 409) {
+      // Draft expired, or the email changed - start a new one
+      writeToken(flow, null);
+      response = await post(null);
+    }
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      console.warn('Registration draft not saved:', result.message);
+      return;
+    }
+    writeToken(flow, result.token || null);
+  } catch (error) {
+    console.warn('Registration draft not saved:', error);
+  }
+};
+
+// Load the draft from a ?resume= link, or the one this browser saved.
+// Resolves null when there is none or it expired.
+export const loadRegistrationDraft = async (flow: RegistrationFlow): Promise<SavedRegistrationDraft | null> => {
+  const linkToken = new URLSearchParams(window.location.search).get('resume');
+  const token = linkToken || readToken(flow);
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(`/.netlify/functions/registration-draft?token=${encodeURIComponent(token)}`);
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || result.draft?.flow !== flow) {
+      writeToken(flow, null);
+      return null;
+    }
+
+    writeToken(flow, token);
+    return result.draft as SavedRegistrationDraft;
+  } catch (error) {
+    console.warn('Registration draft not loaded:', error);
+    return null;
+  }
+};
+
+// Forget the draft in this browser - and delete it on the server when the
+// owner chooses to start over (a completed signup deletes it server-side)
+export const clearRegistrationDraft = async (flow: RegistrationFlow, options: { discard?: boolean } = {}) => {
+  const token = readToken(flow);
+  writeToken(flow, null);
+
+  if (options.discard && token) {
+    await fetch(`/.netlify/functions/registration-draft?token=${encodeURIComponent(token)}`, { method: 'DELETE' })
+      .catch(() => undefined);
+  }
+};
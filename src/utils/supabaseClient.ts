@@ -0,0 +1,21 @@
+import { createClient } from '@supabase/supabase-js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Browser Supabase client (anon key, session persisted in localStorage).
+// Created on first use so pages that never sign in work without the env vars.
+let client: SupabaseClient | undefined;
+
+export const getSupabaseClient = (): SupabaseClient => {
+  if (!client) {
+    const url = import.meta.env.VITE_SUPABASE_URL;
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+    if (!url || !anonKey) {
+      throw new Error('VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY must be set');
+    }
+
+    client = createClient(url, anonKey);
+  }
+
+  return client;
+};